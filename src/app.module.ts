@@ -1,4 +1,5 @@
 import { Module, MiddlewareConsumer, NestModule, DynamicModule } from '@nestjs/common';
+import { APP_GUARD, DiscoveryModule } from '@nestjs/core';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bull';
@@ -7,77 +8,46 @@ import { HealthController } from './controllers/health.controller';
 import { AppController } from './controllers/app.controller';
 import { MetricsController } from './controllers/metrics.controller';
 import { ShowcaseController } from './controllers/showcase.controller';
+import { ConfigController } from './controllers/config.controller';
 import { LoggerService } from './services/logger.service';
 import { MetricsService } from './services/metrics.service';
 import { TracingMiddleware } from './middleware/tracing.middleware';
 import { LoggingMiddleware } from './middleware/logging.middleware';
 import { MetricsMiddleware } from './middleware/metrics.middleware';
 import { KafkaModule } from './kafka/kafka.module';
+import { RedisModule } from './redis/redis.module';
+import { RedisConnectionFactory } from './redis/redis-connection.factory';
+import { KafkaLagMonitorService } from './kafka/services/kafka-lag-monitor.service';
+import { CacheService } from './cache/cache.service';
+import { CacheExplorer } from './cache/cache.explorer';
+import { RateLimiterService } from './rate-limit/rate-limiter.service';
+import { RateLimitGuard } from './rate-limit/rate-limit.guard';
 import { getDatabaseConfig } from './config/database.config';
 import configuration from './config/configuration';
+import { validateEnvironment } from './config/env.validation';
 
-// Helper function to conditionally create BullModule import
+// Bull is only registered when Redis is configured; its connections come from the shared factory
 function createBullModuleImport(): DynamicModule | null {
-  const bullRedisUrl = process.env.BULL_REDIS_URL || process.env.REDIS_URL;
-
-  if (!bullRedisUrl) {
-    console.warn('[BullModule] BULL_REDIS_URL/REDIS_URL not provided. Running without Bull queues.');
+  if (!process.env.BULL_REDIS_URL && !process.env.REDIS_URL && !process.env.REDIS_MODE) {
+    new LoggerService().warn(
+      'BULL_REDIS_URL/REDIS_URL/REDIS_MODE not provided. Running without Bull queues.',
+      'BullModule',
+    );
     return null;
   }
 
-  // Parse Redis URL to extract connection details
-  try {
-    const url = new URL(bullRedisUrl);
-
-    const redisConfig: any = {
-      host: url.hostname,
-      port: parseInt(url.port) || 6379,
-    };
-
-    // Add password if present in URL or environment variable
-    if (url.password) {
-      redisConfig.password = url.password;
-    } else if (process.env.REDIS_PASSWORD) {
-      redisConfig.password = process.env.REDIS_PASSWORD;
-    }
-
-    // Add username only if explicitly provided (Redis 6+ ACL)
-    if (url.username && url.username !== '' && url.username !== 'default') {
-      redisConfig.username = url.username;
-    }
-
-    // Add error handling to prevent Bull from blocking startup or crashing the app
-    redisConfig.lazyConnect = true; // Don't block app startup waiting for Redis
-    redisConfig.maxRetriesPerRequest = 0; // Don't retry individual commands
-    redisConfig.enableReadyCheck = false;
-    redisConfig.enableOfflineQueue = false; // Don't queue commands while disconnected
-    redisConfig.retryStrategy = (times: number) => {
-      // Only log first 3 attempts to avoid spam
-      if (times <= 3) {
-        console.warn(`[BullModule] Redis connection attempt ${times} failed`);
-      }
-      // Stop retrying after 3 attempts
-      if (times >= 3) {
-        if (times === 3) {
-          console.error('[BullModule] Redis unavailable after 3 attempts, stopping retries');
-        }
-        return null; // Stop retrying
-      }
-      return Math.min(times * 100, 2000);
-    };
-
-    return BullModule.forRoot({
-      redis: redisConfig,
+  return BullModule.forRootAsync({
+    imports: [RedisModule],
+    inject: [RedisConnectionFactory],
+    useFactory: (connections: RedisConnectionFactory) => ({
+      createClient: (type) => connections.createBullClient(type),
+      prefix: connections.bullPrefix(),
       defaultJobOptions: {
         removeOnComplete: true,
         removeOnFail: false,
       },
-    });
-  } catch (error) {
-    console.error('[BullModule] ✗ Failed to parse BULL_REDIS_URL:', error.message);
-    console.error('[BullModule] Stack:', error.stack);
-    return null;
-  }
+    }),
+  });
 }
 
 const bullModule = createBullModuleImport();
@@ -87,14 +57,36 @@ const bullModule = createBullModuleImport();
     ConfigModule.forRoot({
       load: [configuration],
       isGlobal: true,
+      validate: validateEnvironment,
     }),
-    TypeOrmModule.forRoot(getDatabaseConfig()),
+    TypeOrmModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: getDatabaseConfig,
+    }),
+    RedisModule,
     ...(bullModule ? [bullModule] : []),
     TerminusModule,
+    DiscoveryModule,
     KafkaModule,
   ],
-  controllers: [AppController, HealthController, MetricsController, ShowcaseController],
-  providers: [LoggerService, MetricsService],
+  controllers: [
+    AppController,
+    HealthController,
+    MetricsController,
+    ShowcaseController,
+    ConfigController,
+  ],
+  // The lag monitor and the cache live here rather than in KafkaModule because they export
+  // through MetricsService
+  providers: [
+    LoggerService,
+    MetricsService,
+    KafkaLagMonitorService,
+    CacheService,
+    CacheExplorer,
+    RateLimiterService,
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+  ],
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
@@ -0,0 +1,58 @@
+import { ClassConstructor } from 'class-transformer';
+
+export const CACHEABLE_METADATA = 'cache:cacheable';
+export const CACHE_EVICT_METADATA = 'cache:evict';
+
+export interface CacheableOptions {
+  /** Key template, see `renderCacheKey` */
+  key: string;
+  /** Seconds a loaded value stays cached */
+  ttl: number;
+  /**
+   * Seconds a `null` or `undefined` result stays cached, so lookups of missing records do not
+   * all reach the database; 0 (the default) does not cache them
+   */
+  negativeTtl?: number;
+  /** Class cached values are restored to; plain JSON otherwise */
+  type?: ClassConstructor<unknown>;
+}
+
+export interface CacheEvictOptions {
+  /** Key templates of the entries the method invalidates */
+  keys: string[];
+}
+
+/**
+ * Cache-aside for a provider method: the result is read from Redis when present, otherwise
+ * loaded by the method (once at a time per key, across instances) and stored for `ttl`
+ * seconds. The method must resolve to JSON-serializable data.
+ */
+export function Cacheable(options: CacheableOptions): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    Reflect.defineMetadata(CACHEABLE_METADATA, options, descriptor.value);
+    return descriptor;
+  };
+}
+
+/** Removes the entries named by `keys` once the method has completed successfully */
+export function CacheEvict(...keys: string[]): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const options: CacheEvictOptions = { keys };
+    Reflect.defineMetadata(CACHE_EVICT_METADATA, options, descriptor.value);
+    return descriptor;
+  };
+}
+
+/**
+ * Fills a key template from a call's arguments: `{0}` is the first argument and `{1.id}` the
+ * `id` property of the second, e.g. `call:{0}`.
+ */
+export function renderCacheKey(template: string, args: unknown[]): string {
+  return template.replace(/\{(\d+)((?:\.\w+)*)\}/g, (_match, index: string, path: string) => {
+    let value: unknown = args[Number(index)];
+    for (const property of path.split('.').filter(Boolean)) {
+      value = value?.[property];
+    }
+    return String(value);
+  });
+}
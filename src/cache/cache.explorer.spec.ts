@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { CacheEvict, Cacheable, renderCacheKey } from './cache.decorators';
+import { CacheExplorer } from './cache.explorer';
+import { CacheService } from './cache.service';
+import { RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { FakeRedis } from '../../test/fake-redis';
+
+@Injectable()
+class ProfileStore {
+  loads = 0;
+
+  @Cacheable({ key: 'profile:{0}', ttl: 30 })
+  async find(id: string) {
+    this.loads++;
+    return { id, name: `profile ${id}` };
+  }
+
+  @CacheEvict('profile:{0.id}')
+  async save(profile: { id: string; name: string }) {
+    if (!profile.name) {
+      throw new Error('A profile needs a name');
+    }
+    // Reads of its own go through the cache as well
+    return this.find(profile.id);
+  }
+}
+
+describe('CacheExplorer', () => {
+  let redis: FakeRedis;
+  let store: ProfileStore;
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    const moduleRef = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        ProfileStore,
+        CacheService,
+        CacheExplorer,
+        { provide: RedisConnectionFactory, useValue: { get: () => redis } },
+      ],
+    }).compile();
+    await moduleRef.init();
+    store = moduleRef.get(ProfileStore);
+  });
+
+  it('should serve @Cacheable methods from the cache', async () => {
+    await store.find('1');
+    await expect(store.find('1')).resolves.toEqual({ id: '1', name: 'profile 1' });
+
+    expect(store.loads).toBe(1);
+    expect(redis.ttls.get('profile:1')).toBe('EX 30');
+  });
+
+  it('should evict after a @CacheEvict method succeeds, but not when it fails', async () => {
+    await store.find('1');
+
+    await expect(store.save({ id: '1', name: '' })).rejects.toThrow('A profile needs a name');
+    expect(redis.del).not.toHaveBeenCalled();
+
+    await store.save({ id: '1', name: 'renamed' });
+    expect(redis.del).toHaveBeenCalledWith('profile:1');
+  });
+
+  it('should render key templates from arguments and their properties', () => {
+    expect(renderCacheKey('call:{0}:{1.user.id}', ['a', { user: { id: 7 } }])).toBe('call:a:7');
+  });
+});
@@ -0,0 +1,80 @@
+import { Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import {
+  CACHEABLE_METADATA,
+  CACHE_EVICT_METADATA,
+  CacheEvictOptions,
+  CacheableOptions,
+  renderCacheKey,
+} from './cache.decorators';
+import { CacheService } from './cache.service';
+
+type Method = (...args: unknown[]) => unknown;
+
+/**
+ * Finds `@Cacheable` and `@CacheEvict` methods on every provider at boot and replaces them,
+ * on the provider instance, with versions that go through `CacheService`. Calls made
+ * through `this` inside the provider are covered too.
+ */
+@Injectable()
+export class CacheExplorer implements OnModuleInit {
+  private readonly logger = new Logger(CacheExplorer.name);
+
+  constructor(
+    private readonly cacheService: CacheService,
+    @Optional() private readonly discoveryService?: DiscoveryService,
+    @Optional() private readonly metadataScanner?: MetadataScanner,
+  ) {}
+
+  onModuleInit() {
+    if (!this.discoveryService || !this.metadataScanner) {
+      return;
+    }
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const method = prototype[methodName];
+        const cacheable: CacheableOptions | undefined = Reflect.getMetadata(
+          CACHEABLE_METADATA,
+          method,
+        );
+        const evict: CacheEvictOptions | undefined = Reflect.getMetadata(
+          CACHE_EVICT_METADATA,
+          method,
+        );
+        const name = `${instance.constructor.name}.${methodName}`;
+
+        if (cacheable) {
+          instance[methodName] = this.cached(instance, method, cacheable, name);
+          this.logger.log(`Caching ${name} as ${cacheable.key} for ${cacheable.ttl}s`);
+        } else if (evict) {
+          instance[methodName] = this.evicting(instance, method, evict);
+          this.logger.log(`${name} evicts ${evict.keys.join(', ')}`);
+        }
+      }
+    }
+  }
+
+  private cached(instance: object, method: Method, options: CacheableOptions, name: string) {
+    return (...args: unknown[]) =>
+      this.cacheService.getOrLoad(
+        renderCacheKey(options.key, args),
+        async () => method.apply(instance, args),
+        { ...options, name },
+      );
+  }
+
+  private evicting(instance: object, method: Method, options: CacheEvictOptions) {
+    return async (...args: unknown[]) => {
+      const result = await method.apply(instance, args);
+      await this.cacheService.evict(...options.keys.map((key) => renderCacheKey(key, args)));
+      return result;
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { CacheService } from './cache.service';
+import { RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { MetricsService } from '../services/metrics.service';
+import { Call } from '../entities/call.entity';
+import { FakeRedis } from '../../test/fake-redis';
+
+describe('CacheService', () => {
+  let redis: FakeRedis;
+  let metrics: { recordCacheLookup: jest.Mock };
+  let service: CacheService;
+
+  const options = { ttl: 3600, name: 'CallRepository.findCallById' };
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    metrics = { recordCacheLookup: jest.fn() };
+    service = new CacheService(
+      { get: () => redis } as unknown as RedisConnectionFactory,
+      metrics as unknown as MetricsService,
+    );
+  });
+
+  it('should load a miss, store it for the TTL and serve it from the cache afterwards', async () => {
+    const createdAt = new Date('2026-01-02T03:04:05.000Z');
+    const load = jest.fn(async () => Object.assign(new Call(), { id: 'call-1', createdAt }));
+
+    await service.getOrLoad('call:call-1', load, { ...options, type: Call });
+    const cached = await service.getOrLoad('call:call-1', load, { ...options, type: Call });
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(redis.ttls.get('call:call-1')).toBe('EX 3600');
+    expect(cached).toBeInstanceOf(Call);
+    expect(cached.createdAt).toEqual(createdAt);
+    expect(metrics.recordCacheLookup.mock.calls).toEqual([
+      ['CallRepository.findCallById', 'miss'],
+      ['CallRepository.findCallById', 'hit'],
+    ]);
+  });
+
+  it('should cache missing values only for the negative TTL', async () => {
+    const load = jest.fn(async () => null);
+
+    await service.getOrLoad('call:unknown', load, options);
+    await service.getOrLoad('call:unknown', load, options);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    await service.getOrLoad('call:unknown', load, { ...options, negativeTtl: 60 });
+    await expect(
+      service.getOrLoad('call:unknown', load, { ...options, negativeTtl: 60 }),
+    ).resolves.toBeNull();
+    expect(load).toHaveBeenCalledTimes(3);
+    expect(redis.ttls.get('call:unknown')).toBe('EX 60');
+  });
+
+  it('should load a key once for concurrent callers', async () => {
+    let resolve: (value: string) => void;
+    const load = jest.fn(() => new Promise<string>((done) => (resolve = done)));
+
+    const results = Promise.all([1, 2, 3].map(() => service.getOrLoad('key', load, options)));
+    await new Promise((done) => setImmediate(done));
+    resolve('value');
+
+    await expect(results).resolves.toEqual(['value', 'value', 'value']);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(redis.store.has('key:lock')).toBe(false);
+  });
+
+  it('should wait for the instance holding the lock instead of loading', async () => {
+    redis.store.set('key:lock', 'other-instance');
+    setTimeout(() => redis.store.set('key', JSON.stringify('from-other-instance')), 120);
+    const load = jest.fn(async () => 'loaded');
+
+    await expect(service.getOrLoad('key', load, options)).resolves.toBe('from-other-instance');
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should load itself when the lock holder leaves no result', async () => {
+    redis.store.set('key:lock', 'other-instance');
+    setTimeout(() => redis.store.delete('key:lock'), 60);
+
+    await expect(service.getOrLoad('key', async () => 'loaded', options)).resolves.toBe('loaded');
+  });
+
+  it('should load directly when Redis is not ready or fails', async () => {
+    redis.get.mockRejectedValueOnce(new Error('Connection is closed.'));
+    await expect(service.getOrLoad('key', async () => 'first', options)).resolves.toBe('first');
+
+    redis.status = 'reconnecting';
+    await expect(service.getOrLoad('key', async () => 'second', options)).resolves.toBe('second');
+    expect(redis.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict keys', async () => {
+    redis.store.set('call:1', '{}');
+    redis.store.set('call:2', '{}');
+
+    await service.evict('call:1', 'call:2');
+
+    expect(redis.store.size).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { RedisConnection, RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { MetricsService } from '../services/metrics.service';
+
+export interface CacheLoadOptions {
+  /** Seconds a loaded value stays cached */
+  ttl: number;
+  /** Seconds a `null` or `undefined` result stays cached; 0 does not cache it */
+  negativeTtl?: number;
+  /** Class cached values are restored to */
+  type?: ClassConstructor<unknown>;
+  /** Label of the cache lookup metrics, e.g. `CallRepository.findCallById` */
+  name?: string;
+}
+
+// How long the loader of a key holds its lock, and how often the others check for its result
+const LOCK_TTL_MS = 5000;
+const LOCK_POLL_MS = 50;
+
+// Deletes the lock only while it still belongs to the caller
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Cache-aside on the `command` Redis connection. A miss is loaded once at a time per key:
+ * concurrent callers in this process share the load, and other instances wait for the
+ * holder of the `<key>:lock` lock to store its result rather than all querying the
+ * database at once. Without a ready Redis connection, or when Redis fails, values are
+ * loaded directly; the cache never fails a read.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @Optional() private readonly connections?: RedisConnectionFactory,
+    @Optional() private readonly metrics?: MetricsService,
+  ) {}
+
+  async getOrLoad<T>(key: string, load: () => Promise<T>, options: CacheLoadOptions): Promise<T> {
+    const redis = this.redis();
+    if (!redis) {
+      return load();
+    }
+
+    const cached = await this.read<T>(redis, key, options);
+    this.metrics?.recordCacheLookup(options.name ?? key, cached.found ? 'hit' : 'miss');
+    if (cached.found) {
+      return cached.value;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+    const loading = this.loadOnce(redis, key, load, options).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, loading);
+    return loading;
+  }
+
+  async evict(...keys: string[]): Promise<void> {
+    const redis = this.redis();
+    if (!redis || keys.length === 0) {
+      return;
+    }
+    try {
+      // One DEL per key, as keys of a cluster may live on different nodes
+      await Promise.all(keys.map((key) => redis.del(key)));
+    } catch (error) {
+      this.logger.warn(`Failed to evict ${keys.join(', ')}: ${error.message}`);
+    }
+  }
+
+  private redis(): RedisConnection | null {
+    const connection = this.connections?.get('command');
+    return connection?.status === 'ready' ? connection : null;
+  }
+
+  private async loadOnce<T>(
+    redis: RedisConnection,
+    key: string,
+    load: () => Promise<T>,
+    options: CacheLoadOptions,
+  ): Promise<T> {
+    const lockKey = `${key}:lock`;
+    const token = randomUUID();
+    let locked = false;
+    try {
+      locked = (await redis.set(lockKey, token, 'PX', LOCK_TTL_MS, 'NX')) === 'OK';
+    } catch (error) {
+      this.logger.warn(`Failed to lock ${key}: ${error.message}`);
+    }
+
+    if (!locked) {
+      // Another instance is loading the key: use its result, or load it ourselves once the
+      // lock is gone without one (a result not cached, or a loader that died)
+      for (let waited = 0; waited < LOCK_TTL_MS; waited += LOCK_POLL_MS) {
+        await sleep(LOCK_POLL_MS);
+        const cached = await this.read<T>(redis, key, options);
+        if (cached.found) {
+          return cached.value;
+        }
+        if (!(await redis.exists(lockKey).catch(() => 0))) {
+          break;
+        }
+      }
+      return load();
+    }
+
+    try {
+      const value = await load();
+      await this.write(redis, key, value, options);
+      return value;
+    } finally {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token).catch((error: Error) => {
+        this.logger.warn(`Failed to unlock ${key}: ${error.message}`);
+      });
+    }
+  }
+
+  private async read<T>(
+    redis: RedisConnection,
+    key: string,
+    options: CacheLoadOptions,
+  ): Promise<{ found: boolean; value?: T }> {
+    try {
+      const raw = await redis.get(key);
+      if (raw === null) {
+        return { found: false };
+      }
+      // Missing values are cached as JSON null
+      const value = JSON.parse(raw);
+      return {
+        found: true,
+        value: value !== null && options.type ? plainToInstance(options.type, value) : value,
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to read ${key} from the cache: ${error.message}`);
+      return { found: false };
+    }
+  }
+
+  private async write(
+    redis: RedisConnection,
+    key: string,
+    value: unknown,
+    options: CacheLoadOptions,
+  ): Promise<void> {
+    const missing = value === null || value === undefined;
+    const ttl = missing ? options.negativeTtl ?? 0 : options.ttl;
+    if (ttl <= 0) {
+      return;
+    }
+    try {
+      await redis.set(key, JSON.stringify(missing ? null : value), 'EX', ttl);
+    } catch (error) {
+      this.logger.warn(`Failed to write ${key} to the cache: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { withFailureTopics } from './configuration';
+
+describe('withFailureTopics', () => {
+  const retry = { maxRetries: 2, delaysMs: [1000], topics: { 'user-events': { maxRetries: 0 } } };
+
+  it('should add the retry and DLQ topics of each manifest topic with its spec', () => {
+    const spec = { numPartitions: 6, configs: { 'retention.ms': '1000' } };
+
+    expect(
+      withFailureTopics(
+        [
+          { topic: 'call-events', ...spec },
+          { topic: 'user-events', numPartitions: 3 },
+        ],
+        retry,
+      ),
+    ).toEqual([
+      { topic: 'call-events', ...spec },
+      { topic: 'user-events', numPartitions: 3 },
+      { topic: 'call-events.retry.1', ...spec },
+      { topic: 'call-events.retry.2', ...spec },
+      { topic: 'call-events.dlq', ...spec },
+      { topic: 'user-events.dlq', numPartitions: 3 },
+    ]);
+  });
+
+  it('should keep failure topics the manifest declares itself', () => {
+    const manifest = [
+      { topic: 'user-events', numPartitions: 3 },
+      { topic: 'user-events.dlq', numPartitions: 1, configs: { 'retention.ms': '-1' } },
+    ];
+
+    expect(withFailureTopics(manifest, retry)).toEqual(manifest);
+  });
+});
@@ -1,6 +1,102 @@
-export default () => ({
+import { RedisSettings } from '../redis/redis-url';
+import { TopicSpec } from '../kafka/interfaces/topic-admin.interface';
+import { RetryPolicy } from '../kafka/interfaces/dead-letter.interface';
+
+const list = (value: string | undefined) =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Redis settings used when there is no `REDIS_URL`; `REDIS_MODE` turns them on. Shared with
+ * `validateEnvironment`, which checks them before the configuration is loaded.
+ */
+export const redisSettings = (env: Record<string, unknown> = process.env): RedisSettings => ({
+  mode: (env.REDIS_MODE as string) || undefined,
+  host: (env.REDIS_HOST as string) || 'localhost',
+  port: parseInt(env.REDIS_PORT as string, 10) || 6379,
+  username: (env.REDIS_USERNAME as string) || undefined,
+  // Also used when the URL has no password
+  password: (env.REDIS_PASSWORD as string) || '',
+  db: parseInt(env.REDIS_DB as string, 10) || undefined,
+  tls: env.REDIS_TLS === 'true',
+  sentinels: list(env.REDIS_SENTINELS as string),
+  sentinelMaster: (env.REDIS_SENTINEL_MASTER as string) || undefined,
+  clusterNodes: list(env.REDIS_CLUSTER_NODES as string),
+});
+
+/**
+ * The `kafka.transport` in effect: `memory` runs an in-process broker instead of connecting
+ * to Kafka and `redis-streams` keeps topics in Redis Streams. Unless KAFKA_TRANSPORT says
+ * otherwise, tests use memory and MINIMAL_DEV uses Redis when it is configured, memory
+ * otherwise. Shared with `validateEnvironment`, which checks the transport's requirements.
+ */
+export const kafkaTransport = (env: Record<string, unknown> = process.env): string =>
+  (env.KAFKA_TRANSPORT as string) ||
+  (env.NODE_ENV === 'test'
+    ? 'memory'
+    : env.MINIMAL_DEV === 'true'
+    ? env.REDIS_URL || env.REDIS_MODE
+      ? 'redis-streams'
+      : 'memory'
+    : 'kafka');
+
+/** Express `trust proxy`: true, the number of proxy hops, or proxy addresses and subnets */
+const trustProxy = (value: string | undefined): boolean | number | string =>
+  !value || value === 'false'
+    ? false
+    : value === 'true'
+    ? true
+    : /^\d+$/.test(value)
+    ? parseInt(value, 10)
+    : value;
+
+const retrySettings = () => ({
+  maxRetries: parseInt(process.env.KAFKA_RETRY_MAX_RETRIES ?? '3', 10),
+  delaysMs: (process.env.KAFKA_RETRY_DELAYS_MS || '1000,10000,60000')
+    .split(',')
+    .map((delay) => parseInt(delay, 10)),
+  // Per-topic overrides, e.g. {"call-events":{"maxRetries":5,"delaysMs":[500]}}
+  topics: JSON.parse(process.env.KAFKA_RETRY_POLICIES || '{}') as Record<
+    string,
+    Partial<RetryPolicy>
+  >,
+});
+
+/**
+ * Adds the `<topic>.retry.N` and `<topic>.dlq` topics `DeadLetterService` routes failed
+ * messages of each manifest topic through, as many retry topics as the topic's retry policy
+ * allows. They copy the topic's spec, so keys keep their partition on every hop; topics the
+ * manifest declares itself are left as declared.
+ */
+export const withFailureTopics = (
+  manifest: TopicSpec[],
+  retry: ReturnType<typeof retrySettings>,
+): TopicSpec[] => {
+  const declared = new Set(manifest.map(({ topic }) => topic));
+  const derived = manifest
+    .filter(({ topic }) => !/\.(retry\.\d+|dlq)$/.test(topic))
+    .flatMap((spec) => {
+      const maxRetries = retry.topics[spec.topic]?.maxRetries ?? retry.maxRetries;
+      return [
+        ...Array.from({ length: maxRetries }, (_, index) => `${spec.topic}.retry.${index + 1}`),
+        `${spec.topic}.dlq`,
+      ].map((topic) => ({ ...spec, topic }));
+    })
+    .filter(({ topic }) => !declared.has(topic));
+  return [...manifest, ...derived];
+};
+
+/**
+ * Effective configuration, read from the environment after `validateEnvironment` accepted it.
+ * Variables with an alias (see `env.validation.ts`) prefer the name deployments use.
+ */
+const configuration = () => ({
   port: parseInt(process.env.PORT, 10) || 3000,
   node_env: process.env.NODE_ENV || 'development',
+  // Off by default, so request.ip (which rate limits key on) is the connecting peer
+  trustProxy: trustProxy(process.env.TRUST_PROXY),
 
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -21,22 +117,190 @@ export default () => ({
   },
 
   kafka: {
-    brokers: (process.env.KAFKA_BROKERS || 'localhost:9092').split(','),
+    brokers: (process.env.KAFKA_BROKER || process.env.KAFKA_BROKERS || 'localhost:9092')
+      .split(',')
+      .map((broker) => broker.trim())
+      .filter(Boolean),
     clientId: process.env.KAFKA_CLIENT_ID || 'core-pipeline',
-    groupId: process.env.KAFKA_GROUP_ID || 'core-pipeline-group',
+    groupId:
+      process.env.KAFKA_CONSUMER_GROUP || process.env.KAFKA_GROUP_ID || 'core-pipeline-group',
+    transport: kafkaTransport(),
+    // The redis-streams transport: a topic partition is the stream <prefix>:<topic>:<partition>
+    streams: {
+      prefix: process.env.REDIS_STREAMS_PREFIX || 'stream',
+      // Streams are trimmed to about this many entries as they grow
+      maxLength: parseInt(process.env.REDIS_STREAMS_MAXLEN, 10) || 100000,
+      // Entries unacknowledged for this long are claimed by another consumer, and the partitions
+      // of a consumer not heard from for this long are leased to others
+      claimIdleMs: parseInt(process.env.REDIS_STREAMS_CLAIM_IDLE_MS, 10) || 30000,
+      blockMs: parseInt(process.env.REDIS_STREAMS_BLOCK_MS, 10) || 1000,
+    },
+    // TLS is on with KAFKA_SSL=true or any PEM file; a client certificate needs its key
+    ssl: {
+      enabled:
+        process.env.KAFKA_SSL === 'true' ||
+        !!(
+          process.env.KAFKA_SSL_CA_FILE ||
+          process.env.KAFKA_SSL_CERT_FILE ||
+          process.env.KAFKA_SSL_KEY_FILE
+        ),
+      caFile: process.env.KAFKA_SSL_CA_FILE || undefined,
+      certFile: process.env.KAFKA_SSL_CERT_FILE || undefined,
+      keyFile: process.env.KAFKA_SSL_KEY_FILE || undefined,
+      keyPassphrase: process.env.KAFKA_SSL_KEY_PASSPHRASE || undefined,
+      rejectUnauthorized: process.env.KAFKA_SSL_REJECT_UNAUTHORIZED !== 'false',
+    },
+    // plain, scram-sha-256, scram-sha-512 or oauthbearer (client credentials grant); off when unset
+    sasl: {
+      mechanism: process.env.KAFKA_SASL_MECHANISM || undefined,
+      username: process.env.KAFKA_SASL_USERNAME || undefined,
+      password: process.env.KAFKA_SASL_PASSWORD || undefined,
+      oauth: {
+        tokenUrl: process.env.KAFKA_SASL_OAUTH_TOKEN_URL || undefined,
+        clientId: process.env.KAFKA_SASL_OAUTH_CLIENT_ID || undefined,
+        clientSecret: process.env.KAFKA_SASL_OAUTH_CLIENT_SECRET || undefined,
+        scope: process.env.KAFKA_SASL_OAUTH_SCOPE || undefined,
+      },
+    },
+    // A transactional id implies idempotence; both force a single in-flight request
+    idempotent: process.env.KAFKA_IDEMPOTENT === 'true' || !!process.env.KAFKA_TRANSACTIONAL_ID,
+    transactionalId: process.env.KAFKA_TRANSACTIONAL_ID || undefined,
+    batch: {
+      maxSize: parseInt(process.env.KAFKA_BATCH_MAX_SIZE, 10) || 500,
+      lingerMs: parseInt(process.env.KAFKA_BATCH_LINGER_MS ?? '5', 10),
+    },
+    serialization: {
+      defaultFormat: process.env.KAFKA_SERIALIZER || 'json',
+      // e.g. KAFKA_TOPIC_SERIALIZERS=call-events:avro,user-events:protobuf
+      topics: Object.fromEntries(
+        (process.env.KAFKA_TOPIC_SERIALIZERS || '')
+          .split(',')
+          .filter((entry) => entry.includes(':'))
+          .map((entry) => entry.split(':').map((part) => part.trim())),
+      ),
+      registry: {
+        url: process.env.SCHEMA_REGISTRY_URL || undefined,
+        username: process.env.SCHEMA_REGISTRY_USERNAME || undefined,
+        password: process.env.SCHEMA_REGISTRY_PASSWORD || undefined,
+        dir: process.env.SCHEMA_REGISTRY_DIR || 'schemas',
+      },
+    },
+    processing: {
+      // Defaults for every consumer group; handlers may ask for more via their options
+      partitionsConsumedConcurrently: parseInt(process.env.KAFKA_PARTITIONS_CONCURRENCY, 10) || 1,
+      // Messages of one partition in flight at once; messages with the same key stay in order
+      workersPerPartition: parseInt(process.env.KAFKA_PARTITION_WORKERS, 10) || 1,
+    },
+    retry: retrySettings(),
+    eventStore: {
+      backend: process.env.EVENT_STORE_BACKEND || 'typeorm',
+      // In-memory backend only: 0 disables the respective limit
+      maxSize: parseInt(process.env.EVENT_STORE_MAX_SIZE ?? '10000', 10),
+      ttlMs: parseInt(process.env.EVENT_STORE_TTL_MS ?? '0', 10),
+      // `events` table only: every pruneIntervalMs, rows whose event is older than retentionMs
+      // (7 days by default) and all but the newest maxRows are deleted; 0 disables each
+      retentionMs: parseInt(process.env.EVENT_STORE_RETENTION_MS ?? '604800000', 10),
+      maxRows: parseInt(process.env.EVENT_STORE_MAX_ROWS ?? '0', 10),
+      pruneIntervalMs: parseInt(process.env.EVENT_STORE_PRUNE_INTERVAL_MS ?? '3600000', 10),
+    },
+    // Declarative topic manifest, reconciled at startup: missing topics are created, partitions
+    // increased and configs updated. KAFKA_TOPIC_MANIFEST replaces it with a JSON array; the
+    // retry and dead letter topics of its topics are added either way
+    topics: {
+      reconcile: process.env.KAFKA_TOPIC_RECONCILE !== 'false',
+      manifest: withFailureTopics(
+        JSON.parse(process.env.KAFKA_TOPIC_MANIFEST || 'null') ?? [
+          {
+            topic: 'user-events',
+            numPartitions: 3,
+            configs: { 'retention.ms': String(7 * 24 * 3600000), 'cleanup.policy': 'delete' },
+          },
+          {
+            topic: 'system-events',
+            numPartitions: 1,
+            configs: { 'retention.ms': String(7 * 24 * 3600000), 'cleanup.policy': 'delete' },
+          },
+          {
+            topic: 'showcase-events',
+            numPartitions: 1,
+            configs: { 'retention.ms': String(24 * 3600000), 'cleanup.policy': 'delete' },
+          },
+          {
+            topic: 'call-events',
+            numPartitions: 6,
+            configs: { 'retention.ms': String(30 * 24 * 3600000), 'cleanup.policy': 'delete' },
+          },
+        ],
+        retrySettings(),
+      ),
+      // Applied to manifest topics without their own; the broker default when unset
+      replicationFactor: parseInt(process.env.KAFKA_TOPIC_REPLICATION_FACTOR, 10) || undefined,
+    },
+    replay: {
+      // A replay job fails when none of its partitions advances for this long; 0 disables
+      idleTimeoutMs: parseInt(process.env.KAFKA_REPLAY_IDLE_TIMEOUT_MS ?? '300000', 10),
+    },
+    lag: {
+      intervalMs: parseInt(process.env.KAFKA_LAG_INTERVAL_MS, 10) || 30000,
+      // Measurements older than this (three intervals by default) are dropped
+      maxAgeMs: parseInt(process.env.KAFKA_LAG_MAX_AGE_MS, 10) || undefined,
+      // Monitored alongside the service's own consumer groups
+      groups: (process.env.KAFKA_LAG_GROUPS || '')
+        .split(',')
+        .map((group) => group.trim())
+        .filter(Boolean),
+      // Readiness fails while a monitored group lags by more messages; 0 disables the check
+      readinessThreshold: parseInt(process.env.KAFKA_LAG_READINESS_THRESHOLD ?? '0', 10),
+    },
+    outbox: {
+      // 0 stops the polling loop, as in tests, which call drain() themselves
+      pollIntervalMs: parseInt(
+        process.env.OUTBOX_POLL_INTERVAL_MS ?? (process.env.NODE_ENV === 'test' ? '0' : '1000'),
+        10,
+      ),
+      batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE, 10) || 100,
+      baseBackoffMs: parseInt(process.env.OUTBOX_BASE_BACKOFF_MS, 10) || 500,
+      maxBackoffMs: parseInt(process.env.OUTBOX_MAX_BACKOFF_MS, 10) || 60000,
+      // Attempts before a row is parked; with the default backoff, about 45 minutes of failures
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS, 10) || 50,
+    },
+  },
+
+  database: {
+    host: process.env.DB_HOST || process.env.POSTGRES_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || process.env.POSTGRES_PORT, 10) || 5432,
+    username: process.env.DB_USERNAME || process.env.POSTGRES_USER || 'postgres',
+    password: process.env.DB_PASSWORD || process.env.POSTGRES_PASSWORD || 'postgres',
+    database:
+      process.env.DB_DATABASE ||
+      process.env.POSTGRES_DB ||
+      (process.env.NODE_ENV === 'production' ? 'core_pipeline' : 'core_pipeline_dev'),
+    logging: process.env.DB_LOGGING === 'true',
   },
 
-  postgres: {
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT, 10) || 5432,
-    username: process.env.POSTGRES_USER || 'postgres',
-    password: process.env.POSTGRES_PASSWORD || 'postgres',
-    database: process.env.POSTGRES_DB || 'core_pipeline',
+  rateLimit: {
+    // Off turns every @RateLimit route into an unlimited one
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // Identifies clients of routes limited `by: 'api-key'`
+    clientHeader: (process.env.RATE_LIMIT_CLIENT_HEADER || 'x-api-key').toLowerCase(),
   },
 
   redis: {
-    host: process.env.REDIS_HOST || 'localhost',
-    port: parseInt(process.env.REDIS_PORT, 10) || 6379,
-    password: process.env.REDIS_PASSWORD || '',
+    // redis[s]://, redis[s]+sentinel:// or redis[s]+cluster://; no Redis when unset
+    url: process.env.REDIS_URL || undefined,
+    bullUrl: process.env.BULL_REDIS_URL || process.env.REDIS_URL || undefined,
+    ...redisSettings(),
+    // Independent masters for distributed locks; the main Redis when empty
+    lockUrls: list(process.env.REDIS_LOCK_URLS),
+    // Bull's key prefix; in cluster mode it is wrapped in a hash tag
+    bullPrefix: process.env.BULL_PREFIX || 'bull',
+    // Whether RedisService connects its cache and pub/sub clients; off by default in tests
+    serviceEnabled: process.env.REDIS_SERVICE_ENABLED
+      ? process.env.REDIS_SERVICE_ENABLED === 'true'
+      : process.env.NODE_ENV !== 'test',
   },
 });
+
+export type AppConfig = ReturnType<typeof configuration>;
+
+export default configuration;
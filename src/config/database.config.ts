@@ -1,13 +1,18 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
 import { Call } from '../entities/call.entity';
+import { OutboxMessage } from '../entities/outbox-message.entity';
+import { EventRecord } from '../entities/event-record.entity';
+import { AppConfig } from './configuration';
 
-export const getDatabaseConfig = (): TypeOrmModuleOptions => {
+export const getDatabaseConfig = (configService: ConfigService): TypeOrmModuleOptions => {
   // Use SQLite for tests to avoid connection issues
   if (process.env.NODE_ENV === 'test') {
     return {
       type: 'sqlite',
       database: ':memory:',
-      entities: [Call],
+      entities: [Call, OutboxMessage, EventRecord],
       synchronize: true,
       dropSchema: true,
       logging: false,
@@ -21,30 +26,26 @@ export const getDatabaseConfig = (): TypeOrmModuleOptions => {
     return {
       type: 'sqlite',
       database: './dev.sqlite',
-      entities: [Call],
+      entities: [Call, OutboxMessage, EventRecord],
       synchronize: true,
-      logging: process.env.DB_LOGGING === 'true',
+      logging: configService.get('database.logging', false),
       migrations: [__dirname + '/../../migrations/*.{ts,js}'],
       migrationsTableName: 'migrations',
     };
   }
 
-  // Determine database name based on environment
-  const dbName =
-    process.env.DB_DATABASE ||
-    (process.env.NODE_ENV === 'production' ? 'core_pipeline' : 'core_pipeline_dev');
-
-  const host = process.env.DB_HOST || 'localhost';
-  const port = parseInt(process.env.DB_PORT, 10) || 5432;
-  const username = process.env.DB_USERNAME || 'postgres';
-  const password = process.env.DB_PASSWORD || 'postgres';
+  const {
+    host,
+    port,
+    username,
+    password,
+    database: dbName,
+    logging,
+  } = configService.get<AppConfig['database']>('database');
 
-  // Log database connection details (without full password)
-  console.log(`[Database] Connecting to PostgreSQL:`);
-  console.log(`  Host: ${host}:${port}`);
-  console.log(`  Database: ${dbName}`);
-  console.log(`  Username: ${username}`);
-  console.log(`  Password: ${password.length} chars, starts with '${password[0]}', ends with '${password[password.length - 1]}'`);
+  new Logger('Database').log(
+    `Connecting to PostgreSQL at ${host}:${port}, database ${dbName} as ${username}`,
+  );
 
   return {
     type: 'postgres',
@@ -53,9 +54,9 @@ export const getDatabaseConfig = (): TypeOrmModuleOptions => {
     username,
     password,
     database: dbName,
-    entities: [Call],
+    entities: [Call, OutboxMessage, EventRecord],
     synchronize: process.env.NODE_ENV === 'development',
-    logging: process.env.DB_LOGGING === 'true',
+    logging,
     migrations: [__dirname + '/../../migrations/*.{ts,js}'],
     migrationsTableName: 'migrations',
     migrationsRun: process.env.NODE_ENV !== 'production', // Auto-run in dev, manual in prod
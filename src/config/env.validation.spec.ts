@@ -0,0 +1,120 @@
+import { validateEnvironment } from './env.validation';
+
+describe('validateEnvironment', () => {
+  it('should accept the variables deployments set', () => {
+    const env = {
+      NODE_ENV: 'production',
+      PORT: '3000',
+      KAFKA_BROKER: 'kafka-1:9092,kafka-2:9092',
+      KAFKA_CONSUMER_GROUP: 'core-pipeline-group',
+      KAFKA_SASL_MECHANISM: 'SCRAM-SHA-512',
+      KAFKA_RETRY_DELAYS_MS: '1000,10000',
+      KAFKA_TOPIC_MANIFEST: '[]',
+      DB_PORT: '5432',
+      REDIS_PASSWORD: '',
+      PATH: '/usr/bin',
+    };
+
+    expect(validateEnvironment(env)).toBe(env);
+  });
+
+  it('should report every invalid variable at once', () => {
+    expect(() =>
+      validateEnvironment({
+        PORT: 'http',
+        KAFKA_BROKER: 'localhost',
+        KAFKA_TRANSPORT: 'rabbitmq',
+        KAFKA_PARTITION_WORKERS: '0',
+        KAFKA_RETRY_POLICIES: '{not json',
+        METRICS_ENABLED: 'yes',
+      }),
+    ).toThrow(
+      [
+        'Invalid configuration:',
+        '  - PORT must be an integer number',
+        '  - METRICS_ENABLED must be a boolean string',
+        '  - KAFKA_BROKER must be a comma-separated list of host:port',
+        '  - KAFKA_TRANSPORT must be one of the following values: kafka, memory, redis-streams',
+        '  - KAFKA_PARTITION_WORKERS must not be less than 1',
+        '  - KAFKA_RETRY_POLICIES must be a json string',
+      ].join('\n'),
+    );
+  });
+
+  it('should report aliases set to different values', () => {
+    expect(() =>
+      validateEnvironment({
+        KAFKA_BROKER: 'kafka:9093',
+        KAFKA_BROKERS: 'localhost:9092',
+        DB_HOST: 'postgres',
+        POSTGRES_HOST: 'postgres',
+        DB_PASSWORD: 'a',
+        POSTGRES_PASSWORD: 'b',
+      }),
+    ).toThrow(
+      [
+        'Invalid configuration:',
+        '  - KAFKA_BROKER and KAFKA_BROKERS are both set to different values; set only KAFKA_BROKER',
+        '  - DB_PASSWORD and POSTGRES_PASSWORD are both set to different values; set only DB_PASSWORD',
+      ].join('\n'),
+    );
+  });
+
+  it('should report unusable Redis URLs and incomplete Redis mode settings', () => {
+    expect(() =>
+      validateEnvironment({
+        REDIS_URL: 'redis+sentinel://sentinel-1,sentinel-2',
+        REDIS_MODE: 'cluster',
+        REDIS_TLS: 'on',
+      }),
+    ).toThrow(
+      [
+        'Invalid configuration:',
+        '  - REDIS_TLS must be a boolean string',
+        '  - REDIS_URL: A Redis Sentinel URL needs the master name as its path',
+        '  - REDIS_MODE: Redis Cluster mode needs REDIS_CLUSTER_NODES',
+      ].join('\n'),
+    );
+    expect(() =>
+      validateEnvironment({
+        REDIS_MODE: 'sentinel',
+        REDIS_SENTINELS: 'sentinel-1:26379,sentinel-2',
+        REDIS_SENTINEL_MASTER: 'mymaster',
+      }),
+    ).not.toThrow();
+  });
+
+  it('should require Redis and no transactions for the Redis Streams transport', () => {
+    expect(() =>
+      validateEnvironment({
+        KAFKA_TRANSPORT: 'redis-streams',
+        KAFKA_TRANSACTIONAL_ID: 'core-pipeline-tx',
+      }),
+    ).toThrow(
+      [
+        'Invalid configuration:',
+        '  - KAFKA_TRANSPORT: redis-streams needs REDIS_URL or REDIS_MODE',
+        '  - KAFKA_TRANSACTIONAL_ID: transactions need KAFKA_TRANSPORT=kafka or memory',
+      ].join('\n'),
+    );
+    expect(() =>
+      validateEnvironment({ KAFKA_TRANSPORT: 'redis-streams', REDIS_URL: 'redis://redis:6379' }),
+    ).not.toThrow();
+  });
+
+  it('should reject transactions when MINIMAL_DEV defaults the transport to Redis Streams', () => {
+    const minimal = { MINIMAL_DEV: 'true', KAFKA_TRANSACTIONAL_ID: 'core-pipeline-tx' };
+
+    expect(() => validateEnvironment({ ...minimal, REDIS_URL: 'redis://redis:6379' })).toThrow(
+      'KAFKA_TRANSACTIONAL_ID: transactions need KAFKA_TRANSPORT=kafka or memory',
+    );
+    expect(() => validateEnvironment(minimal)).not.toThrow();
+    expect(() =>
+      validateEnvironment({
+        ...minimal,
+        REDIS_URL: 'redis://redis:6379',
+        KAFKA_TRANSPORT: 'kafka',
+      }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,368 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  IsBooleanString,
+  IsIn,
+  IsInt,
+  IsJSON,
+  IsOptional,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+  ValidationError,
+  validateSync,
+} from 'class-validator';
+import { REDIS_MODES, RedisMode, parseRedisUrl, redisUrlFromSettings } from '../redis/redis-url';
+import { kafkaTransport, redisSettings } from './configuration';
+
+const BROKER_LIST = /^\s*[^\s,:]+:\d+\s*(,\s*[^\s,:]+:\d+\s*)*$/;
+const URL_OPTIONS = { require_tld: false, require_protocol: true };
+
+/**
+ * Variables that are read under two names. The first is the one deployments use; the second
+ * is still accepted, but setting both to different values is reported as a conflict.
+ */
+const ENV_ALIASES: Array<[string, string]> = [
+  ['KAFKA_BROKER', 'KAFKA_BROKERS'],
+  ['KAFKA_CONSUMER_GROUP', 'KAFKA_GROUP_ID'],
+  ['DB_HOST', 'POSTGRES_HOST'],
+  ['DB_PORT', 'POSTGRES_PORT'],
+  ['DB_USERNAME', 'POSTGRES_USER'],
+  ['DB_PASSWORD', 'POSTGRES_PASSWORD'],
+  ['DB_DATABASE', 'POSTGRES_DB'],
+];
+
+/** Environment variables the configuration understands; all are optional and have defaults */
+export class EnvironmentVariables {
+  @IsOptional()
+  @IsIn(['development', 'staging', 'production', 'test'])
+  NODE_ENV?: string;
+
+  @IsOptional()
+  @Min(1)
+  @Max(65535)
+  @IsInt()
+  PORT?: number;
+
+  @IsOptional()
+  @IsIn(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+  LOG_LEVEL?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  LOG_PRETTY?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  MINIMAL_DEV?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  METRICS_ENABLED?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  TRACING_ENABLED?: string;
+
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  OTEL_EXPORTER_OTLP_ENDPOINT?: string;
+
+  @IsOptional()
+  @Matches(BROKER_LIST, { message: '$property must be a comma-separated list of host:port' })
+  KAFKA_BROKER?: string;
+
+  @IsOptional()
+  @Matches(BROKER_LIST, { message: '$property must be a comma-separated list of host:port' })
+  KAFKA_BROKERS?: string;
+
+  @IsOptional()
+  @IsIn(['kafka', 'memory', 'redis-streams'])
+  KAFKA_TRANSPORT?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  KAFKA_SSL?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  KAFKA_SSL_REJECT_UNAUTHORIZED?: string;
+
+  @IsOptional()
+  @Matches(/^(plain|scram-sha-256|scram-sha-512|oauthbearer)$/i, {
+    message: '$property must be one of plain, scram-sha-256, scram-sha-512, oauthbearer',
+  })
+  KAFKA_SASL_MECHANISM?: string;
+
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  KAFKA_SASL_OAUTH_TOKEN_URL?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  KAFKA_IDEMPOTENT?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  KAFKA_BATCH_MAX_SIZE?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  KAFKA_BATCH_LINGER_MS?: number;
+
+  @IsOptional()
+  @IsIn(['json', 'avro', 'protobuf'])
+  KAFKA_SERIALIZER?: string;
+
+  @IsOptional()
+  @Matches(/^\s*[^\s,:]+:(json|avro|protobuf)\s*(,\s*[^\s,:]+:(json|avro|protobuf)\s*)*$/, {
+    message: '$property must be a comma-separated list of topic:json|avro|protobuf',
+  })
+  KAFKA_TOPIC_SERIALIZERS?: string;
+
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  SCHEMA_REGISTRY_URL?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  KAFKA_PARTITIONS_CONCURRENCY?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  KAFKA_PARTITION_WORKERS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  KAFKA_RETRY_MAX_RETRIES?: number;
+
+  @IsOptional()
+  @Matches(/^\d+(,\d+)*$/, { message: '$property must be a comma-separated list of milliseconds' })
+  KAFKA_RETRY_DELAYS_MS?: string;
+
+  @IsOptional()
+  @IsJSON()
+  KAFKA_RETRY_POLICIES?: string;
+
+  @IsOptional()
+  @IsIn(['typeorm', 'memory'])
+  EVENT_STORE_BACKEND?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  EVENT_STORE_MAX_SIZE?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  EVENT_STORE_TTL_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  EVENT_STORE_RETENTION_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  EVENT_STORE_MAX_ROWS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  EVENT_STORE_PRUNE_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @IsBooleanString()
+  KAFKA_TOPIC_RECONCILE?: string;
+
+  @IsOptional()
+  @IsJSON()
+  KAFKA_TOPIC_MANIFEST?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  KAFKA_TOPIC_REPLICATION_FACTOR?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  KAFKA_LAG_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  KAFKA_LAG_MAX_AGE_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  KAFKA_REPLAY_IDLE_TIMEOUT_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  KAFKA_LAG_READINESS_THRESHOLD?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  OUTBOX_POLL_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  OUTBOX_BATCH_SIZE?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  OUTBOX_BASE_BACKOFF_MS?: number;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  OUTBOX_MAX_BACKOFF_MS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  OUTBOX_MAX_ATTEMPTS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @Max(65535)
+  @IsInt()
+  DB_PORT?: number;
+
+  @IsOptional()
+  @Min(1)
+  @Max(65535)
+  @IsInt()
+  POSTGRES_PORT?: number;
+
+  @IsOptional()
+  @IsBooleanString()
+  DB_LOGGING?: string;
+
+  @IsOptional()
+  @Min(1)
+  @Max(65535)
+  @IsInt()
+  REDIS_PORT?: number;
+
+  @IsOptional()
+  @IsIn([...REDIS_MODES])
+  REDIS_MODE?: string;
+
+  @IsOptional()
+  @Min(0)
+  @IsInt()
+  REDIS_DB?: number;
+
+  @IsOptional()
+  @IsBooleanString()
+  REDIS_TLS?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  REDIS_SERVICE_ENABLED?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  RATE_LIMIT_ENABLED?: string;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  REDIS_STREAMS_MAXLEN?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  REDIS_STREAMS_CLAIM_IDLE_MS?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  REDIS_STREAMS_BLOCK_MS?: number;
+}
+
+// REDIS_LOCK_URLS lists independent masters, so standalone URLs separated by commas
+function parseRedisUrls(name: string, value: string): void {
+  if (name !== 'REDIS_LOCK_URLS') {
+    parseRedisUrl(value);
+    return;
+  }
+  for (const url of value.split(',')) {
+    if (parseRedisUrl(url).mode !== 'standalone') {
+      throw new Error('Lock URLs must each name a single standalone Redis');
+    }
+  }
+}
+
+/**
+ * `validate` hook of `ConfigModule.forRoot`: checks the environment against
+ * `EnvironmentVariables` and the aliases against each other, and throws one error listing
+ * every problem so the application does not boot with a half-valid configuration.
+ */
+export function validateEnvironment(config: Record<string, unknown>): Record<string, unknown> {
+  // Empty variables (e.g. `REDIS_PASSWORD=` in .env) mean "use the default"
+  const present = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined && value !== ''),
+  );
+
+  const problems = validateSync(
+    plainToInstance(EnvironmentVariables, present, { enableImplicitConversion: true }),
+    // Decorators run bottom-up, so the type check comes first and reports alone
+    { stopAtFirstError: true },
+  ).flatMap((error: ValidationError) => Object.values(error.constraints ?? {}));
+
+  for (const name of ['REDIS_URL', 'BULL_REDIS_URL', 'REDIS_LOCK_URLS']) {
+    try {
+      if (name in present) {
+        parseRedisUrls(name, String(present[name]));
+      }
+    } catch (error) {
+      problems.push(`${name}: ${error.message}`);
+    }
+  }
+
+  // Unless both URLs are set, the REDIS_MODE settings are used and must be complete
+  const redisMode = present.REDIS_MODE as RedisMode;
+  if (REDIS_MODES.includes(redisMode) && !(present.REDIS_URL && present.BULL_REDIS_URL)) {
+    try {
+      redisUrlFromSettings(redisSettings(present));
+    } catch (error) {
+      problems.push(`REDIS_MODE: ${error.message}`);
+    }
+  }
+
+  // Also when redis-streams is only the default, as under MINIMAL_DEV with Redis
+  if (kafkaTransport(present) === 'redis-streams') {
+    if (!present.REDIS_URL && !present.REDIS_MODE) {
+      problems.push('KAFKA_TRANSPORT: redis-streams needs REDIS_URL or REDIS_MODE');
+    }
+    if (present.KAFKA_TRANSACTIONAL_ID) {
+      problems.push('KAFKA_TRANSACTIONAL_ID: transactions need KAFKA_TRANSPORT=kafka or memory');
+    }
+  }
+
+  for (const [name, alias] of ENV_ALIASES) {
+    if (name in present && alias in present && String(present[name]) !== String(present[alias])) {
+      problems.push(`${name} and ${alias} are both set to different values; set only ${name}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+  }
+  return config;
+}
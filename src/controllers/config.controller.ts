@@ -0,0 +1,23 @@
+import { Controller, Get } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import configuration, { AppConfig } from '../config/configuration';
+import { redactConfig } from '../config/redact-config';
+
+@ApiTags('config')
+@Controller('config')
+export class ConfigController {
+  constructor(private readonly configService: ConfigService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Effective configuration with secrets redacted' })
+  @ApiResponse({ status: 200, description: 'Returns the configuration the service runs with' })
+  getConfig(): AppConfig {
+    const sections = Object.keys(configuration()) as Array<keyof AppConfig>;
+    return redactConfig(
+      Object.fromEntries(
+        sections.map((section) => [section, this.configService.get(section)]),
+      ) as AppConfig,
+    );
+  }
+}
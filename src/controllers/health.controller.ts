@@ -1,4 +1,4 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import {
   HealthCheckService,
@@ -6,6 +6,7 @@ import {
   MemoryHealthIndicator,
   DiskHealthIndicator,
 } from '@nestjs/terminus';
+import { KafkaLagMonitorService } from '../kafka/services/kafka-lag-monitor.service';
 
 @ApiTags('health')
 @Controller('health')
@@ -14,6 +15,7 @@ export class HealthController {
     private health: HealthCheckService,
     private memory: MemoryHealthIndicator,
     private disk: DiskHealthIndicator,
+    private lagMonitor: KafkaLagMonitorService,
   ) {}
 
   @Get()
@@ -48,7 +50,15 @@ export class HealthController {
   @Get('readiness')
   @ApiOperation({ summary: 'Kubernetes readiness probe' })
   @ApiResponse({ status: 200, description: 'Service is ready' })
+  @ApiResponse({
+    status: 503,
+    description: 'Consumer lag exceeds KAFKA_LAG_READINESS_THRESHOLD',
+  })
   readiness() {
+    const lag = this.lagMonitor.checkReadiness();
+    if (!lag.ready) {
+      throw new ServiceUnavailableException({ status: 'error', kafkaConsumerLag: lag });
+    }
     return { status: 'ok' };
   }
 }
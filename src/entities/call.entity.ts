@@ -1,4 +1,5 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { Type } from 'class-transformer';
 
 @Entity('calls')
 export class Call {
@@ -32,5 +33,7 @@ export class Call {
         ? 'datetime'
         : 'timestamp with time zone',
   })
+  // Restores the date when the call is read back from the cache
+  @Type(() => Date)
   createdAt: Date;
 }
@@ -0,0 +1,38 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+const isSqlite = process.env.NODE_ENV === 'test' || process.env.MINIMAL_DEV === 'true';
+
+/** Persisted form of a produced or consumed Kafka event (see `KafkaEvent`) */
+@Entity('events')
+@Index('IDX_EVENTS_TOPIC', ['topic'])
+@Index('IDX_EVENTS_STATUS', ['status'])
+@Index('IDX_EVENTS_KEY', ['key'])
+@Index('IDX_EVENTS_TIMESTAMP', ['timestamp', 'id'])
+export class EventRecord {
+  @PrimaryColumn({ type: 'varchar', length: 36 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  topic: string;
+
+  @Column({ type: 'int' })
+  partition: number;
+
+  @Column({ type: 'varchar', length: 32 })
+  offset: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  key: string | null;
+
+  @Column({ type: isSqlite ? 'simple-json' : 'jsonb', nullable: true })
+  value: any;
+
+  @Column({ type: isSqlite ? 'simple-json' : 'jsonb', nullable: true })
+  headers: Record<string, string> | null;
+
+  @Column({ type: isSqlite ? 'datetime' : 'timestamp with time zone' })
+  timestamp: Date;
+
+  @Column({ type: 'varchar', length: 16 })
+  status: 'pending' | 'processed' | 'failed';
+}
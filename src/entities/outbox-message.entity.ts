@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+const isSqlite = process.env.NODE_ENV === 'test' || process.env.MINIMAL_DEV === 'true';
+
+@Entity('outbox_messages')
+@Index('IDX_OUTBOX_PUBLISHED_AT', ['publishedAt'])
+@Index('IDX_OUTBOX_MESSAGE_KEY', ['messageKey'])
+export class OutboxMessage {
+  // Monotonic sequence used by the relay to preserve insertion order per key
+  @PrimaryGeneratedColumn('increment', { type: isSqlite ? 'integer' : 'bigint' })
+  sequence: string;
+
+  @Column({ type: 'varchar', length: 36, unique: true })
+  messageId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  topic: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  messageKey: string | null;
+
+  @Column({ type: isSqlite ? 'simple-json' : 'jsonb', nullable: true })
+  payload: any;
+
+  @Column({ type: isSqlite ? 'simple-json' : 'jsonb', nullable: true })
+  headers: Record<string, string> | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: isSqlite ? 'datetime' : 'timestamp with time zone', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({
+    name: 'published_at',
+    type: isSqlite ? 'datetime' : 'timestamp with time zone',
+    nullable: true,
+  })
+  publishedAt: Date | null;
+
+  // Set once the relay gives up on the row after `kafka.outbox.maxAttempts` attempts
+  @Column({
+    name: 'parked_at',
+    type: isSqlite ? 'datetime' : 'timestamp with time zone',
+    nullable: true,
+  })
+  parkedAt: Date | null;
+
+  @CreateDateColumn({ type: isSqlite ? 'datetime' : 'timestamp with time zone' })
+  createdAt: Date;
+}
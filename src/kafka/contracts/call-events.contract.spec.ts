@@ -0,0 +1,99 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { validateEvent } from './event-contracts';
+import { CallEndedV1, CallInitiatedV1, CallStatusChangedV1 } from './call-events.contract';
+import { ProduceMessageDto } from '../dto/produce-message.dto';
+
+const CALL_ID = '6f1c1a52-8d4e-4f0b-9a51-3c0d2f6b9e11';
+
+describe('call-events contract', () => {
+  it.each([
+    [
+      CallInitiatedV1,
+      { eventType: 'CallInitiated', schemaVersion: 1, callerId: 'a', recipientId: 'b' },
+    ],
+    [
+      CallStatusChangedV1,
+      { eventType: 'CallStatusChanged', schemaVersion: 1, callId: CALL_ID, status: 'active' },
+    ],
+    [CallEndedV1, { eventType: 'CallEnded', schemaVersion: 1, callId: CALL_ID, duration: 42 }],
+  ])('should accept a valid %p', (eventClass, payload) => {
+    const result = validateEvent('call-events', payload);
+
+    expect(result.valid).toBe(true);
+    expect(result.event).toBeInstanceOf(eventClass);
+  });
+
+  it('should upcast unversioned legacy payloads to CallInitiatedV1', () => {
+    const result = validateEvent('call-events', {
+      callerId: 'a',
+      recipientId: 'b',
+      status: 'initiated',
+      metadata: { source: 'legacy' },
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.event).toBeInstanceOf(CallInitiatedV1);
+    expect({ ...result.event }).toEqual({
+      eventType: 'CallInitiated',
+      schemaVersion: 1,
+      callerId: 'a',
+      recipientId: 'b',
+      metadata: { source: 'legacy' },
+    });
+  });
+
+  it('should report every violated constraint', () => {
+    const result = validateEvent('call-events', {
+      eventType: 'CallInitiated',
+      schemaVersion: 1,
+      recipientId: '',
+      occurredAt: 'yesterday',
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.reasons.map((reason) => reason.path).sort()).toEqual([
+      'callerId',
+      'occurredAt',
+      'recipientId',
+    ]);
+  });
+
+  it('should reject unknown event types and schema versions', () => {
+    expect(validateEvent('call-events', { eventType: 'CallForwarded', schemaVersion: 1 })).toEqual({
+      valid: false,
+      reasons: [
+        expect.objectContaining({
+          path: 'eventType',
+          constraints: { isKnownEventType: expect.stringContaining('CallInitiated') },
+        }),
+      ],
+    });
+    expect(validateEvent('call-events', { eventType: 'CallEnded', schemaVersion: 7 })).toEqual({
+      valid: false,
+      reasons: [expect.objectContaining({ path: 'schemaVersion', value: 7 })],
+    });
+  });
+
+  it('should leave topics without a contract untouched', () => {
+    const value = { anything: true };
+
+    expect(validateEvent('user-events', value)).toEqual({ valid: true, event: value });
+  });
+
+  it('should validate ProduceMessageDto values for known topics', async () => {
+    const invalid = plainToInstance(ProduceMessageDto, {
+      topic: 'call-events',
+      value: { eventType: 'CallEnded', schemaVersion: 1, callId: CALL_ID },
+    });
+    const other = plainToInstance(ProduceMessageDto, {
+      topic: 'user-events',
+      value: { eventType: 'CallEnded' },
+    });
+
+    const [error] = await validate(invalid);
+    expect(error.property).toBe('value');
+    expect(error.constraints.conformsToEventContract).toContain('duration');
+    expect(await validate(other)).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  Equals,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { TopicEventContract } from './event-contract';
+
+abstract class CallEventEnvelope {
+  @IsString()
+  eventType: string;
+
+  @IsInt()
+  @Min(1)
+  schemaVersion: number;
+
+  @IsOptional()
+  @IsISO8601()
+  occurredAt?: string;
+}
+
+export class CallInitiatedV1 extends CallEventEnvelope {
+  static readonly eventType = 'CallInitiated';
+  static readonly schemaVersion = 1;
+
+  @Equals(CallInitiatedV1.eventType)
+  eventType: 'CallInitiated';
+
+  @Equals(CallInitiatedV1.schemaVersion)
+  schemaVersion: 1;
+
+  @IsString()
+  @IsNotEmpty()
+  callerId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  recipientId: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class CallStatusChangedV1 extends CallEventEnvelope {
+  static readonly eventType = 'CallStatusChanged';
+  static readonly schemaVersion = 1;
+
+  @Equals(CallStatusChangedV1.eventType)
+  eventType: 'CallStatusChanged';
+
+  @Equals(CallStatusChangedV1.schemaVersion)
+  schemaVersion: 1;
+
+  @IsUUID()
+  callId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  status: string;
+
+  @IsOptional()
+  @IsString()
+  previousStatus?: string;
+}
+
+export class CallEndedV1 extends CallEventEnvelope {
+  static readonly eventType = 'CallEnded';
+  static readonly schemaVersion = 1;
+
+  @Equals(CallEndedV1.eventType)
+  eventType: 'CallEnded';
+
+  @Equals(CallEndedV1.schemaVersion)
+  schemaVersion: 1;
+
+  @IsUUID()
+  callId: string;
+
+  /** Call duration in seconds */
+  @IsInt()
+  @Min(0)
+  duration: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export type CallEvent = CallInitiatedV1 | CallStatusChangedV1 | CallEndedV1;
+
+export const callEventsContract: TopicEventContract = {
+  topic: 'call-events',
+  events: [CallInitiatedV1, CallStatusChangedV1, CallEndedV1],
+  // Before the envelope, call-events only carried new calls as bare call records
+  fromLegacy: (value) => ({ ...value, eventType: 'CallInitiated', schemaVersion: 0 }),
+  upcasters: [
+    {
+      eventType: 'CallInitiated',
+      fromVersion: 0,
+      // v0 repeated the call status, which is always "initiated" for a new call
+      upcast: (event) => {
+        const upcast: Record<string, any> = { ...event, schemaVersion: 1 };
+        delete upcast.status;
+        return upcast;
+      },
+    },
+  ],
+};
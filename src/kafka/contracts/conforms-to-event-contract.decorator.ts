@@ -0,0 +1,35 @@
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+import { describeReasons } from './event-contract';
+import { validateEvent } from './event-contracts';
+
+/**
+ * Validates a message value against the event contract of the topic held in
+ * `topicProperty` of the same object. Values for topics without a contract pass.
+ */
+export function ConformsToEventContract(
+  topicProperty: string,
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return (object, propertyName: string) => {
+    registerDecorator({
+      name: 'conformsToEventContract',
+      target: object.constructor,
+      propertyName,
+      constraints: [topicProperty],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, args: ValidationArguments) {
+          const topic = (args.object as Record<string, any>)[args.constraints[0]];
+          return typeof topic !== 'string' || validateEvent(topic, value).valid;
+        },
+        defaultMessage(args: ValidationArguments) {
+          const topic = (args.object as Record<string, any>)[args.constraints[0]];
+          const result = validateEvent(topic, args.value);
+          return result.valid
+            ? `${args.property} must be a valid ${topic} event`
+            : `${args.property} is not a valid ${topic} event: ${describeReasons(result.reasons)}`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,142 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+
+/** An event class carrying its envelope identity as static fields */
+export type EventClass<T extends object = any> = (new () => T) & {
+  readonly eventType: string;
+  readonly schemaVersion: number;
+};
+
+/** Converts an event of `eventType`@`fromVersion` to the next schema version */
+export interface EventUpcaster {
+  eventType: string;
+  fromVersion: number;
+  upcast: (event: Record<string, any>) => Record<string, any>;
+}
+
+export interface TopicEventContract {
+  topic: string;
+  events: EventClass[];
+  upcasters?: EventUpcaster[];
+  /** Wraps payloads produced before the envelope existed, so upcasters can take over */
+  fromLegacy?: (value: Record<string, any>) => Record<string, any>;
+}
+
+export interface EventRejectionReason {
+  /** Dotted property path; empty for the event as a whole */
+  path: string;
+  constraints: Record<string, string>;
+  value?: unknown;
+}
+
+export interface EventValidationResult<T = any> {
+  valid: boolean;
+  /** The validated event, set when `valid` */
+  event?: T;
+  /** Why validation failed, set when not `valid` */
+  reasons?: EventRejectionReason[];
+}
+
+export class EventValidationError extends Error {
+  constructor(readonly topic: string, readonly reasons: EventRejectionReason[]) {
+    super(`Invalid ${topic} event: ${describeReasons(reasons)}`);
+    this.name = 'EventValidationError';
+  }
+}
+
+export function describeReasons(reasons: EventRejectionReason[]): string {
+  return reasons
+    .map(({ path, constraints }) => {
+      const messages = Object.values(constraints).join(', ');
+      return path ? `${path}: ${messages}` : messages;
+    })
+    .join('; ');
+}
+
+// Guards against upcasters that do not advance the version
+const MAX_UPCASTS = 100;
+
+/**
+ * Normalizes `value` to the latest schema version of its event type and validates it
+ * with class-validator. Unknown properties are stripped from the returned event.
+ */
+export function validateAgainstContract(
+  contract: TopicEventContract,
+  value: unknown,
+): EventValidationResult {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return {
+      valid: false,
+      reasons: [{ path: '', constraints: { isObject: 'event must be an object' }, value }],
+    };
+  }
+
+  let event = value as Record<string, any>;
+  if (event.eventType === undefined && event.schemaVersion === undefined && contract.fromLegacy) {
+    event = contract.fromLegacy(event);
+  }
+
+  for (let upcasts = 0; upcasts < MAX_UPCASTS; upcasts++) {
+    const upcaster = contract.upcasters?.find(
+      (u) => u.eventType === event.eventType && u.fromVersion === event.schemaVersion,
+    );
+    if (!upcaster) {
+      break;
+    }
+    event = upcaster.upcast(event);
+  }
+
+  const eventClass = contract.events.find(
+    (cls) => cls.eventType === event.eventType && cls.schemaVersion === event.schemaVersion,
+  );
+  if (!eventClass) {
+    return { valid: false, reasons: [unknownEventReason(contract, event)] };
+  }
+
+  const instance = plainToInstance(eventClass, event);
+  const errors = validateSync(instance, { whitelist: true });
+  if (errors.length > 0) {
+    return { valid: false, reasons: flattenErrors(errors) };
+  }
+  return { valid: true, event: instance };
+}
+
+function unknownEventReason(
+  contract: TopicEventContract,
+  event: Record<string, any>,
+): EventRejectionReason {
+  const versions = contract.events
+    .filter((cls) => cls.eventType === event.eventType)
+    .map((cls) => cls.schemaVersion);
+
+  if (versions.length > 0) {
+    return {
+      path: 'schemaVersion',
+      constraints: {
+        isSupportedVersion: `schemaVersion of ${event.eventType} must be one of: ${versions.join(
+          ', ',
+        )}`,
+      },
+      value: event.schemaVersion,
+    };
+  }
+
+  const eventTypes = Array.from(new Set(contract.events.map((cls) => cls.eventType)));
+  return {
+    path: 'eventType',
+    constraints: {
+      isKnownEventType: `eventType must be one of: ${eventTypes.join(', ')}`,
+    },
+    value: event.eventType,
+  };
+}
+
+function flattenErrors(errors: ValidationError[], parentPath = ''): EventRejectionReason[] {
+  return errors.flatMap((error) => {
+    const path = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = error.constraints
+      ? [{ path, constraints: error.constraints, value: error.value }]
+      : [];
+    return [...own, ...flattenErrors(error.children ?? [], path)];
+  });
+}
@@ -0,0 +1,28 @@
+import { callEventsContract } from './call-events.contract';
+import {
+  EventValidationResult,
+  TopicEventContract,
+  validateAgainstContract,
+} from './event-contract';
+
+const contracts = new Map<string, TopicEventContract>([
+  [callEventsContract.topic, callEventsContract],
+]);
+
+/** Adds (or replaces) the event contract enforced for a topic */
+export function registerEventContract(contract: TopicEventContract): void {
+  contracts.set(contract.topic, contract);
+}
+
+export function hasEventContract(topic: string): boolean {
+  return contracts.has(topic);
+}
+
+/**
+ * Validates a message for `topic`. Topics without a contract accept any value
+ * unchanged; for the others the returned event is upcast to its latest version.
+ */
+export function validateEvent(topic: string, value: unknown): EventValidationResult {
+  const contract = contracts.get(topic);
+  return contract ? validateAgainstContract(contract, value) : { valid: true, event: value };
+}
@@ -0,0 +1,22 @@
+import { KafkaHandlerMetadata, KafkaHandlerOptions } from '../interfaces/kafka-handler.interface';
+
+export const KAFKA_HANDLER_METADATA = 'kafka:handler';
+
+/**
+ * Marks a provider method as the handler for a topic. Handlers are discovered at boot,
+ * their topics subscribed automatically, and each message is called as
+ * `method(value, headers, context)`. A method may carry several decorators to handle
+ * more than one topic.
+ */
+export function KafkaHandler(topic: string, options: KafkaHandlerOptions = {}): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const existing: KafkaHandlerMetadata[] =
+      Reflect.getMetadata(KAFKA_HANDLER_METADATA, descriptor.value) ?? [];
+    Reflect.defineMetadata(
+      KAFKA_HANDLER_METADATA,
+      [...existing, { topic, ...options }],
+      descriptor.value,
+    );
+    return descriptor;
+  };
+}
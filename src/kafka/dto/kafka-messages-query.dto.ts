@@ -0,0 +1,85 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsIn, IsInt, IsISO8601, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+
+export class KafkaMessagesQueryDto {
+  @ApiPropertyOptional({ example: 'call-events' })
+  @IsString()
+  @IsOptional()
+  topic?: string;
+
+  @ApiPropertyOptional({ enum: ['pending', 'processed', 'failed'] })
+  @IsIn(['pending', 'processed', 'failed'])
+  @IsOptional()
+  status?: 'pending' | 'processed' | 'failed';
+
+  @ApiPropertyOptional({ description: 'Exact message key', example: 'call-123' })
+  @IsString()
+  @IsOptional()
+  key?: string;
+
+  @ApiPropertyOptional({ example: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  partition?: number;
+
+  @ApiPropertyOptional({
+    description: 'Header filter as name:value; repeat to require several headers',
+    type: [String],
+    example: ['correlationId:abc-123'],
+  })
+  @Transform(({ value }) => (Array.isArray(value) ? value : [value]))
+  @Matches(/^[^:]+:/, { each: true, message: 'each header filter must be name:value' })
+  @IsOptional()
+  header?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only messages at or after this time',
+    example: '2024-01-01T00:00:00Z',
+  })
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only messages before this time',
+    example: '2024-01-02T00:00:00Z',
+  })
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'JSONPath-style predicate on the value: $-rooted paths compared with == != > >= < <= ' +
+      'against a JSON literal, joined with &&. A bare path checks the field exists',
+    example: '$.callId == "call-123" && $.schemaVersion >= 1',
+  })
+  @IsString()
+  @IsOptional()
+  where?: string;
+
+  @ApiPropertyOptional({
+    description: 'Sort by timestamp',
+    enum: ['asc', 'desc'],
+    default: 'desc',
+  })
+  @IsIn(['asc', 'desc'])
+  @IsOptional()
+  order?: 'asc' | 'desc';
+
+  @ApiPropertyOptional({ default: 100, maximum: 1000 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'X-Next-Cursor of the previous page' })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
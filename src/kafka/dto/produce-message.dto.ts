@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { IsString, IsNotEmpty, IsOptional, IsObject } from 'class-validator';
+import { ConformsToEventContract } from '../contracts/conforms-to-event-contract.decorator';
 
 export class ProduceMessageDto {
   @ApiProperty({
@@ -20,11 +21,13 @@ export class ProduceMessageDto {
   key?: string;
 
   @ApiProperty({
-    description: 'The message payload',
+    description:
+      'The message payload. Topics with an event contract (call-events) require a valid versioned event',
     example: { eventType: 'USER_CREATED', userId: '123', timestamp: '2024-01-01T00:00:00Z' },
   })
   @IsObject()
   @IsNotEmpty()
+  @ConformsToEventContract('topic')
   value: Record<string, any>;
 
   @ApiProperty({
@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+
+export class ReplayRequestDto {
+  @ApiProperty({ description: 'Topic to replay', example: 'call-events' })
+  @IsString()
+  @IsNotEmpty()
+  topic: string;
+
+  @ApiPropertyOptional({
+    description: 'Partitions to replay; all partitions when omitted',
+    type: [Number],
+    example: [0, 1],
+  })
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @IsOptional()
+  partitions?: number[];
+
+  @ApiPropertyOptional({
+    description: 'First offset to replay in each partition (inclusive)',
+    example: '1200',
+  })
+  @Matches(/^\d+$/)
+  @IsOptional()
+  fromOffset?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last offset to replay in each partition (inclusive)',
+    example: '1500',
+  })
+  @Matches(/^\d+$/)
+  @IsOptional()
+  toOffset?: string;
+
+  @ApiPropertyOptional({
+    description: 'Start at the first message at or after this time',
+    example: '2024-01-01T10:00:00Z',
+  })
+  @IsISO8601()
+  @IsOptional()
+  fromTimestamp?: string;
+
+  @ApiPropertyOptional({
+    description: 'Stop before the first message at or after this time',
+    example: '2024-01-01T12:00:00Z',
+  })
+  @IsISO8601()
+  @IsOptional()
+  toTimestamp?: string;
+
+  @ApiPropertyOptional({
+    description: "Republish to this topic instead of running the topic's handlers",
+    example: 'call-events.reprocess',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  targetTopic?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only resolve the offset ranges and report how many messages they hold',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class SubscribeTopicDto {
+  @ApiProperty({ description: 'Topic to subscribe to', example: 'audit-events' })
+  @IsString()
+  @IsNotEmpty()
+  topic: string;
+
+  @ApiPropertyOptional({
+    description: 'Read from the earliest offset when the group has no committed offset',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  fromBeginning?: boolean;
+}
+
+export class UnsubscribeTopicDto {
+  @ApiProperty({ description: 'Topic to stop consuming', example: 'audit-events' })
+  @IsString()
+  @IsNotEmpty()
+  topic: string;
+}
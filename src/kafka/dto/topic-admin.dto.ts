@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsObject, IsOptional, Matches, Min } from 'class-validator';
+
+export class CreateTopicDto {
+  @ApiProperty({ description: 'Topic name', example: 'audit-events' })
+  @Matches(/^[a-zA-Z0-9._-]{1,249}$/, { message: 'topic must be a valid Kafka topic name' })
+  topic: string;
+
+  @ApiPropertyOptional({ description: 'Broker default when omitted', example: 3 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  numPartitions?: number;
+
+  @ApiPropertyOptional({ description: 'Broker default when omitted', example: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  replicationFactor?: number;
+
+  @ApiPropertyOptional({
+    description: 'Topic-level configs',
+    example: { 'retention.ms': '604800000', 'cleanup.policy': 'delete' },
+  })
+  @IsObject()
+  @IsOptional()
+  configs?: Record<string, string>;
+}
+
+export class IncreasePartitionsDto {
+  @ApiProperty({ description: 'New total number of partitions', example: 6 })
+  @IsInt()
+  @Min(1)
+  count: number;
+}
@@ -0,0 +1,91 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { KafkaHandler } from '../decorators/kafka-handler.decorator';
+import { CallRepository } from '../../repositories/call.repository';
+import { RedisService } from '../services/redis.service';
+import {
+  CallEndedV1,
+  CallEvent,
+  CallInitiatedV1,
+  CallStatusChangedV1,
+} from '../contracts/call-events.contract';
+
+/**
+ * Events arrive already validated against the call-events contract and upcast to their
+ * latest schema version; invalid messages are rejected by the consumer beforehand.
+ * Errors propagate to the consumer, which routes the message to the retry topics.
+ */
+@Injectable()
+export class CallEventsHandler {
+  private readonly logger = new Logger(CallEventsHandler.name);
+
+  constructor(
+    @Optional() private readonly callRepository?: CallRepository,
+    @Optional() private readonly redisService?: RedisService,
+  ) {}
+
+  @KafkaHandler('call-events')
+  async handleCallEvent(event: CallEvent, headers: Record<string, string>): Promise<void> {
+    this.logger.log(`Processing ${event.eventType} call event`, { event, headers });
+
+    // Only process if services are available
+    if (!this.callRepository) {
+      return;
+    }
+
+    if (event instanceof CallInitiatedV1) {
+      await this.handleCallInitiated(event, headers);
+    } else if (event instanceof CallStatusChangedV1) {
+      if (!(await this.callRepository.updateCallStatus(event.callId, event.status))) {
+        throw new Error(`Call ${event.callId} not found`);
+      }
+    } else if (event instanceof CallEndedV1) {
+      await this.handleCallEnded(event);
+    }
+  }
+
+  private async handleCallInitiated(
+    event: CallInitiatedV1,
+    headers: Record<string, string>,
+  ): Promise<void> {
+    const callData = {
+      callerId: event.callerId,
+      recipientId: event.recipientId,
+      status: 'initiated',
+      metadata: event.metadata || {},
+    };
+    // The call takes the id of the message that initiated it, so a redelivered message (after
+    // a rebalance or through the retry topics) finds the call instead of creating another.
+    // Messages from producers that do not set a UUID messageId header cannot be deduplicated
+    const call = isUUID(headers.messageId)
+      ? await this.callRepository.createCallOnce(headers.messageId, callData)
+      : await this.callRepository.createCall(callData);
+
+    // Only use Redis if available
+    if (this.redisService) {
+      await this.redisService.store(`call:${call.id}`, call, 3600);
+
+      await this.redisService.publish('call-created', {
+        callId: call.id,
+        timestamp: new Date().toISOString(),
+        ...call,
+      });
+
+      await this.redisService.addCallToQueue(call, call.id);
+    }
+
+    this.logger.log(`Call event processed and stored: ${call.id}`);
+  }
+
+  private async handleCallEnded(event: CallEndedV1): Promise<void> {
+    const call = await this.callRepository.updateCall(event.callId, (stored) => ({
+      status: 'completed',
+      duration: event.duration,
+      metadata: { ...stored.metadata, ...(event.reason ? { endReason: event.reason } : {}) },
+    }));
+    if (!call) {
+      throw new Error(`Call ${event.callId} not found`);
+    }
+    this.logger.log(`Call ended: ${event.callId} (${event.duration}s)`);
+  }
+}
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { KafkaHandler } from '../decorators/kafka-handler.decorator';
+
+@Injectable()
+export class PlatformEventsHandler {
+  private readonly logger = new Logger(PlatformEventsHandler.name);
+
+  @KafkaHandler('user-events')
+  handleUserEvent(event: any, headers: Record<string, string>): void {
+    this.logger.log('Processing user event', { event, headers });
+  }
+
+  @KafkaHandler('system-events')
+  handleSystemEvent(event: any, headers: Record<string, string>): void {
+    this.logger.log('Processing system event', { event, headers });
+  }
+
+  @KafkaHandler('showcase-events')
+  handleShowcaseEvent(event: any, headers: Record<string, string>): void {
+    this.logger.log('Processing showcase event', { event, headers });
+  }
+}
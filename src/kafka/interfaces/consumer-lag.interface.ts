@@ -0,0 +1,35 @@
+export interface PartitionLag {
+  topic: string;
+  partition: number;
+  /** Next offset the group will read; null when it has not committed on the partition */
+  committedOffset: string | null;
+  highWatermark: string;
+  /** Messages not yet consumed; counted from the low watermark without a commit */
+  lag: number;
+}
+
+export interface ConsumerGroupMember {
+  memberId: string;
+  clientId: string;
+  clientHost: string;
+  assignments: Array<{ topic: string; partitions: number[] }>;
+}
+
+export interface ConsumerGroupStatus {
+  groupId: string;
+  /** Broker-side group state, e.g. `Stable`, `PreparingRebalance` or `Empty` */
+  state: string;
+  protocol: string;
+  members: ConsumerGroupMember[];
+  partitions: PartitionLag[];
+  totalLag: number;
+  checkedAt: string;
+}
+
+export interface LagReadiness {
+  ready: boolean;
+  /** Maximum total lag per group; 0 when the check is disabled */
+  threshold: number;
+  /** Last measured total lag of each monitored group */
+  groups: Record<string, number>;
+}
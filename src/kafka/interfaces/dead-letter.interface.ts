@@ -0,0 +1,53 @@
+import { EventRejectionReason } from '../contracts/event-contract';
+
+export interface RetryPolicy {
+  /** Number of retry topics (`<topic>.retry.1` .. `<topic>.retry.N`) before the DLQ */
+  maxRetries: number;
+  /** Delay before each retry attempt; the last entry is reused for later attempts */
+  delaysMs: number[];
+}
+
+export interface FailedMessage {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  value: Buffer | null;
+  headers: Record<string, string>;
+  error: Error;
+  /** Consumer group whose handler failed; retries are only reprocessed by that group */
+  groupId?: string;
+  /** Errors that cannot succeed on a later attempt (e.g. undecodable payloads) skip retries */
+  retryable?: boolean;
+}
+
+export interface FailureRouting {
+  topic: string;
+  attempts: number;
+  deadLettered: boolean;
+}
+
+export interface DeadLetterPage {
+  /** Newest first */
+  deadLetters: DeadLetterRecord[];
+  /** Set when more dead letters follow this page */
+  nextCursor?: string;
+}
+
+export interface DeadLetterRecord {
+  id: string;
+  topic: string;
+  originalTopic: string;
+  originalPartition: number;
+  originalOffset: string;
+  key?: string;
+  value: string | null;
+  headers: Record<string, string>;
+  error: string;
+  /** Structured reasons when the message was rejected by its topic's event contract */
+  reasons?: EventRejectionReason[];
+  stack?: string;
+  attempts: number;
+  failedAt: string;
+  replayedAt?: string;
+}
@@ -0,0 +1,52 @@
+import { KafkaEvent } from './kafka-event.interface';
+
+export const EVENT_STORE_BACKEND = 'EVENT_STORE_BACKEND';
+
+export type EventSortOrder = 'asc' | 'desc';
+
+export interface EventQuery {
+  topic?: string;
+  /** Only topics ending with this, e.g. `.dlq` */
+  topicSuffix?: string;
+  status?: KafkaEvent['status'];
+  key?: string;
+  partition?: number;
+  /** Header values that must all match exactly */
+  headers?: Record<string, string>;
+  /** Inclusive lower bound on the event timestamp (ISO 8601) */
+  from?: string;
+  /** Exclusive upper bound on the event timestamp (ISO 8601) */
+  to?: string;
+  /** JSONPath-style predicate on the value, e.g. `$.callId == "abc" && $.attempt > 1` */
+  where?: string;
+  /** By timestamp; newest first (`desc`) when omitted */
+  order?: EventSortOrder;
+  /** Page size; all matching events when omitted */
+  limit?: number;
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+}
+
+export interface EventPage {
+  /** In the requested order */
+  events: KafkaEvent[];
+  /** Set when more events follow this page */
+  nextCursor?: string;
+}
+
+export interface EventStats {
+  total: number;
+  byTopic: Record<string, number>;
+  byStatus: Record<string, number>;
+}
+
+export interface EventStoreBackend {
+  add(event: KafkaEvent): Promise<void>;
+  get(id: string): Promise<KafkaEvent | undefined>;
+  update(id: string, changes: Partial<Omit<KafkaEvent, 'id' | 'topic'>>): Promise<void>;
+  query(query: EventQuery): Promise<EventPage>;
+  stats(): Promise<EventStats>;
+  clear(): Promise<void>;
+  /** Deletes events past the retention, returning how many; for stores that do not evict */
+  prune?(): Promise<number>;
+}
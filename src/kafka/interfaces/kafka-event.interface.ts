@@ -1,3 +1,7 @@
+import { TopicOffsets } from 'kafkajs';
+import { EntityManager } from 'typeorm';
+import { EventRejectionReason } from '../contracts/event-contract';
+
 export interface KafkaEvent {
   id: string;
   topic: string;
@@ -17,5 +21,36 @@ export interface ProducerResult {
   partition?: number;
   offset?: string;
   timestamp: string;
+  /** Broker-side timestamp of the record batch (LogAppendTime) or the record's CreateTime */
+  baseTimestamp?: string;
+  queued?: boolean;
   error?: string;
+  /** Why the message was rejected by its topic's event contract */
+  reasons?: EventRejectionReason[];
+}
+
+export interface BatchMessage {
+  topic: string;
+  key?: string;
+  value: any;
+  headers?: Record<string, string>;
+}
+
+export interface ProduceOptions {
+  /**
+   * Entity manager of an open TypeORM transaction. When set, the message is written
+   * to the outbox within that transaction and published by the relay after commit.
+   */
+  manager?: EntityManager;
+}
+
+export interface ProducerTransaction {
+  send(
+    topic: string,
+    message: any,
+    key?: string,
+    headers?: Record<string, string>,
+  ): Promise<ProducerResult>;
+  /** Commits consumer offsets as part of the transaction (consume-transform-produce) */
+  sendOffsets(consumerGroupId: string, topics: TopicOffsets[]): Promise<void>;
 }
@@ -0,0 +1,35 @@
+export interface KafkaHandlerOptions {
+  /** Consumer group for this handler; defaults to the service-wide group */
+  groupId?: string;
+  fromBeginning?: boolean;
+  /** Number of partitions the handler's consumer processes concurrently */
+  concurrency?: number;
+  /**
+   * Messages of one partition processed concurrently; messages with the same key are
+   * still processed in order
+   */
+  workers?: number;
+}
+
+export interface KafkaHandlerMetadata extends KafkaHandlerOptions {
+  topic: string;
+}
+
+export interface KafkaMessageContext {
+  topic: string;
+  partition: number;
+  offset: string;
+  key?: string;
+}
+
+export type KafkaMessageHandler = (
+  value: any,
+  headers: Record<string, string>,
+  context: KafkaMessageContext,
+) => unknown | Promise<unknown>;
+
+export interface RegisteredKafkaHandler extends KafkaHandlerMetadata {
+  /** `Provider.method`, for logging */
+  name: string;
+  handle: KafkaMessageHandler;
+}
@@ -0,0 +1,78 @@
+import {
+  Admin,
+  AdminConfig,
+  Consumer,
+  ConsumerConfig,
+  ConsumerEvents,
+  Producer,
+  ProducerConfig,
+} from 'kafkajs';
+
+export const KAFKA_TRANSPORT = 'KAFKA_TRANSPORT';
+
+export type KafkaTransportType = 'kafka' | 'memory' | 'redis-streams';
+
+/** The part of the kafkajs producer the services in this module use */
+export type TransportProducer = Pick<
+  Producer,
+  'connect' | 'disconnect' | 'isIdempotent' | 'send' | 'sendBatch' | 'transaction' | 'on'
+>;
+
+/** The part of the kafkajs consumer the services in this module use, with fewer events */
+export type TransportConsumer = Pick<
+  Consumer,
+  | 'connect'
+  | 'disconnect'
+  | 'stop'
+  | 'subscribe'
+  | 'run'
+  | 'seek'
+  | 'pause'
+  | 'resume'
+  | 'paused'
+  | 'commitOffsets'
+  | 'on'
+> & {
+  readonly events: Pick<
+    ConsumerEvents,
+    | 'GROUP_JOIN'
+    | 'START_BATCH_PROCESS'
+    | 'END_BATCH_PROCESS'
+    | 'CONNECT'
+    | 'DISCONNECT'
+    | 'STOP'
+    | 'CRASH'
+  >;
+};
+
+/** The part of the kafkajs admin client the services in this module use */
+export type TransportAdmin = Pick<
+  Admin,
+  | 'connect'
+  | 'disconnect'
+  | 'listTopics'
+  | 'createTopics'
+  | 'deleteTopics'
+  | 'createPartitions'
+  | 'fetchTopicMetadata'
+  | 'describeConfigs'
+  | 'alterConfigs'
+  | 'fetchTopicOffsets'
+  | 'fetchTopicOffsetsByTimestamp'
+  | 'fetchOffsets'
+  | 'describeGroups'
+  | 'listGroups'
+  | 'deleteGroups'
+>;
+
+/**
+ * The client producers, consumers and admins are created from: a kafkajs client connected
+ * to the configured brokers, the in-process broker when `kafka.transport` is `memory`, or
+ * Redis Streams when it is `redis-streams`. The clients are typed by the part of the kafkajs
+ * API the services use, which the in-process and Redis Streams clients implement.
+ */
+export interface KafkaTransport {
+  producer(config?: ProducerConfig): TransportProducer;
+  consumer(config: ConsumerConfig): TransportConsumer;
+  admin(config?: AdminConfig): TransportAdmin;
+}
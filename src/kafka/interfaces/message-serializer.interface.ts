@@ -0,0 +1,27 @@
+export type SerializationFormat = 'json' | 'avro' | 'protobuf';
+
+export type SchemaType = 'AVRO' | 'PROTOBUF' | 'JSON';
+
+export interface MessageSerializer {
+  readonly format: SerializationFormat;
+  serialize(topic: string, value: any): Promise<Buffer | string>;
+  deserialize(topic: string, data: Buffer): Promise<any>;
+}
+
+export interface RegisteredSchema {
+  id: number;
+  subject: string;
+  version: number;
+  schemaType: SchemaType;
+  schema: string;
+}
+
+/**
+ * Subset of the Confluent Schema Registry API used by the serializers. Subjects follow
+ * the TopicNameStrategy (`<topic>-value`).
+ */
+export interface SchemaRegistry {
+  register(subject: string, schemaType: SchemaType, schema: string): Promise<RegisteredSchema>;
+  getById(id: number): Promise<RegisteredSchema>;
+  getLatest(subject: string): Promise<RegisteredSchema>;
+}
@@ -0,0 +1,51 @@
+export type ReplayStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface ReplayRequest {
+  topic: string;
+  /** Partitions to replay; all of the topic's partitions when omitted */
+  partitions?: number[];
+  /** First offset to replay in each partition (inclusive) */
+  fromOffset?: string;
+  /** Last offset to replay in each partition (inclusive) */
+  toOffset?: string;
+  /** Replay starts at the first message at or after this time (ISO 8601) */
+  fromTimestamp?: string;
+  /** Replay stops before the first message at or after this time (ISO 8601) */
+  toTimestamp?: string;
+  /** Republish the original bytes to this topic instead of invoking the topic's handlers */
+  targetTopic?: string;
+  /** Resolve the offset ranges and report their size without reading any message */
+  dryRun?: boolean;
+}
+
+export interface ReplayPartitionProgress {
+  partition: number;
+  startOffset: string;
+  /** Exclusive */
+  endOffset: string;
+  /** Next offset to replay; equals `endOffset` once the partition is done */
+  position: string;
+  replayed: number;
+  failed: number;
+}
+
+export interface ReplayJob {
+  id: string;
+  /** Temporary consumer group the job reads with; deleted when the job ends */
+  groupId: string;
+  request: ReplayRequest;
+  status: ReplayStatus;
+  /** Messages in the resolved offset ranges (an upper bound on compacted topics) */
+  total: number;
+  replayed: number;
+  failed: number;
+  /** Percentage of the offset ranges covered so far */
+  progress: number;
+  partitions: ReplayPartitionProgress[];
+  /** Last handler or publish failure; the replay continues past failed messages */
+  lastError?: string;
+  /** Why the job itself failed */
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,33 @@
+/** Desired state of a topic, as declared in the `kafka.topics.manifest` config */
+export interface TopicSpec {
+  topic: string;
+  numPartitions?: number;
+  /** Broker default (`default.replication.factor`) when omitted */
+  replicationFactor?: number;
+  /** Topic-level overrides, e.g. `retention.ms` or `cleanup.policy` */
+  configs?: Record<string, string>;
+}
+
+export interface TopicPartitionDescription {
+  partition: number;
+  leader: number;
+  replicas: number[];
+  isr: number[];
+}
+
+export interface TopicDescription {
+  topic: string;
+  partitions: TopicPartitionDescription[];
+  replicationFactor: number;
+  /** Configs set on the topic itself; broker defaults are left out */
+  configs: Record<string, string>;
+}
+
+export interface TopicReconcileResult {
+  created: string[];
+  partitionsIncreased: Array<{ topic: string; from: number; to: number }>;
+  configsUpdated: string[];
+  unchanged: string[];
+  /** Differences that cannot be applied in place, e.g. fewer partitions than the topic has */
+  warnings: string[];
+}
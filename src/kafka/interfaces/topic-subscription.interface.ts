@@ -0,0 +1,9 @@
+export interface TopicSubscription {
+  topic: string;
+  groupId: string;
+  /**
+   * `paused` topics stay subscribed and assigned but are not fetched; `stopped` means the
+   * group's consumer is not running, e.g. without a broker
+   */
+  status: 'active' | 'paused' | 'stopped';
+}
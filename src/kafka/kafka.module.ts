@@ -1,32 +1,60 @@
 import { Module, DynamicModule } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { ClientsModule, Transport } from '@nestjs/microservices';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
 import { BullModule } from '@nestjs/bull';
 import { KafkaProducerService } from './services/kafka-producer.service';
 import { KafkaConsumerService } from './services/kafka-consumer.service';
 import { EventStorageService } from './services/event-storage.service';
+import { OutboxRelayService } from './services/outbox-relay.service';
+import { SerializerRegistryService } from './services/serializer-registry.service';
+import { DeadLetterService } from './services/dead-letter.service';
+import { KafkaHandlerRegistry } from './services/kafka-handler-registry.service';
+import { KafkaReplayService } from './services/kafka-replay.service';
+import { KafkaAdminService } from './services/kafka-admin.service';
+import { CallEventsHandler } from './handlers/call-events.handler';
+import { PlatformEventsHandler } from './handlers/platform-events.handler';
+import { SCHEMA_REGISTRY, createSchemaRegistry } from './serialization/schema-registry.factory';
+import { EVENT_STORE_BACKEND } from './interfaces/event-store.interface';
+import { createEventStore } from './storage/event-store.factory';
+import { KAFKA_TRANSPORT } from './interfaces/kafka-transport.interface';
+import { createKafkaTransport } from './transport/kafka-transport.factory';
+import { buildKafkaClientConfig } from './transport/kafka-client-config';
 import { Call } from '../entities/call.entity';
+import { OutboxMessage } from '../entities/outbox-message.entity';
+import { EventRecord } from '../entities/event-record.entity';
 import { CallRepository } from '../repositories/call.repository';
+import { OutboxRepository } from '../repositories/outbox.repository';
 import { RedisService } from './services/redis.service';
+import { RedisModule } from '../redis/redis.module';
+import { RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { LocksModule } from '../locks/locks.module';
+import { DistributedLockService } from '../locks/distributed-lock.service';
 import { CallProcessor } from './processors/call.processor';
+import { LoggerService } from '../services/logger.service';
 
 // Helper function to conditionally create Bull queue registration
 function createBullQueueRegistration(): DynamicModule | null {
-  console.log('=== KafkaModule Bull Queue Registration ===');
+  // Runs on import, before the application and with it the Nest logger exist
+  const logger = new LoggerService();
+  logger.setContext('KafkaModule');
   const bullRedisUrl = process.env.BULL_REDIS_URL || process.env.REDIS_URL;
+  const redisMode = process.env.REDIS_MODE;
 
-  console.log(`[KafkaModule] BULL_REDIS_URL: ${process.env.BULL_REDIS_URL ? 'SET' : 'NOT SET'}`);
-  console.log(`[KafkaModule] REDIS_URL: ${process.env.REDIS_URL ? 'SET' : 'NOT SET'}`);
+  logger.log(`BULL_REDIS_URL: ${process.env.BULL_REDIS_URL ? 'SET' : 'NOT SET'}`);
+  logger.log(`REDIS_URL: ${process.env.REDIS_URL ? 'SET' : 'NOT SET'}`);
+  logger.log(`REDIS_MODE: ${redisMode || 'NOT SET'}`);
 
-  if (!bullRedisUrl) {
-    console.warn('[KafkaModule] No REDIS_URL found, skipping Bull queue registration');
+  if (!bullRedisUrl && !redisMode) {
+    logger.warn('No REDIS_URL or REDIS_MODE found, skipping Bull queue registration');
     return null;
   }
 
-  console.log('[KafkaModule] ✓ Redis URL available, registering call-queue with Bull');
-  console.log('[KafkaModule] Queue name: call-queue');
-  console.log('[KafkaModule] This queue will use the Redis config from BullModule.forRoot()');
+  logger.log('Redis configured, registering call-queue with Bull');
+  logger.log('Queue name: call-queue');
+  logger.log('This queue will use the Redis config from BullModule.forRoot()');
 
   return BullModule.registerQueue({
     name: 'call-queue',
@@ -38,7 +66,10 @@ const bullQueue = createBullQueueRegistration();
 @Module({
   imports: [
     ConfigModule,
-    TypeOrmModule.forFeature([Call]),
+    DiscoveryModule,
+    TypeOrmModule.forFeature([Call, OutboxMessage, EventRecord]),
+    RedisModule,
+    LocksModule,
     ...(bullQueue ? [bullQueue] : []),
     ClientsModule.registerAsync([
       {
@@ -47,12 +78,14 @@ const bullQueue = createBullQueueRegistration();
         useFactory: (configService: ConfigService) => ({
           transport: Transport.KAFKA,
           options: {
-            client: {
-              clientId: configService.get('KAFKA_CLIENT_ID', 'core-pipeline'),
-              brokers: [configService.get('KAFKA_BROKER', 'localhost:9092')],
-            },
+            client: buildKafkaClientConfig(configService),
             consumer: {
-              groupId: configService.get('KAFKA_CONSUMER_GROUP', 'core-pipeline-group'),
+              groupId: configService.get('kafka.groupId', 'core-pipeline-group'),
+            },
+            producer: {
+              idempotent: configService.get('kafka.idempotent', false),
+              transactionalId: configService.get('kafka.transactionalId'),
+              ...(configService.get('kafka.idempotent', false) ? { maxInFlightRequests: 1 } : {}),
             },
           },
         }),
@@ -66,6 +99,30 @@ const bullQueue = createBullQueueRegistration();
     KafkaConsumerService,
     EventStorageService,
     CallRepository,
+    OutboxRepository,
+    OutboxRelayService,
+    SerializerRegistryService,
+    DeadLetterService,
+    KafkaHandlerRegistry,
+    KafkaReplayService,
+    KafkaAdminService,
+    CallEventsHandler,
+    PlatformEventsHandler,
+    {
+      provide: EVENT_STORE_BACKEND,
+      useFactory: createEventStore,
+      inject: [ConfigService, DataSource],
+    },
+    {
+      provide: SCHEMA_REGISTRY,
+      useFactory: createSchemaRegistry,
+      inject: [ConfigService],
+    },
+    {
+      provide: KAFKA_TRANSPORT,
+      useFactory: createKafkaTransport,
+      inject: [ConfigService, RedisConnectionFactory, DistributedLockService],
+    },
     RedisService,
     CallProcessor,
   ],
@@ -74,6 +131,14 @@ const bullQueue = createBullQueueRegistration();
     KafkaConsumerService,
     EventStorageService,
     CallRepository,
+    OutboxRepository,
+    OutboxRelayService,
+    SerializerRegistryService,
+    DeadLetterService,
+    KafkaHandlerRegistry,
+    KafkaReplayService,
+    KafkaAdminService,
+    KAFKA_TRANSPORT,
     RedisService,
   ],
 })
@@ -1,5 +1,5 @@
 import { Process, Processor } from '@nestjs/bull';
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { Job } from 'bull';
 import { CallRepository } from '../../repositories/call.repository';
 import { Call } from '../../entities/call.entity';
@@ -7,11 +7,13 @@ import { Call } from '../../entities/call.entity';
 @Injectable()
 @Processor('call-queue')
 export class CallProcessor {
+  private readonly logger = new Logger(CallProcessor.name);
+
   constructor(private readonly callRepository: CallRepository) {}
 
   @Process('process-call')
   async handleCallProcessing(job: Job<any>) {
-    console.log(`Processing call job ${job.id}`);
+    this.logger.log(`Processing call job ${job.id}`);
     const { data } = job;
 
     try {
@@ -26,10 +28,10 @@ export class CallProcessor {
 
       await this.callRepository.updateCallStatus(call.id, 'completed');
 
-      console.log(`Call ${call.id} processed successfully`);
+      this.logger.log(`Call ${call.id} processed successfully`);
       return { success: true, callId: call.id };
     } catch (error) {
-      console.error(`Failed to process call job ${job.id}:`, error);
+      this.logger.error(`Failed to process call job ${job.id}`, error);
       throw error;
     }
   }
@@ -39,6 +41,6 @@ export class CallProcessor {
     await new Promise((resolve) => setTimeout(resolve, processingTime));
 
     const duration = Math.floor(Math.random() * 300) + 30;
-    await this.callRepository.update(call.id, { duration });
+    await this.callRepository.updateCall(call.id, { duration });
   }
 }
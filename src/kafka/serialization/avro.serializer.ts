@@ -0,0 +1,36 @@
+import * as avro from 'avsc';
+import { MessageSerializer, SchemaRegistry } from '../interfaces/message-serializer.interface';
+import { decodeWireFormat, encodeWireFormat } from './wire-format';
+
+export class AvroSerializer implements MessageSerializer {
+  readonly format = 'avro' as const;
+  private readonly types = new Map<number, avro.Type>();
+
+  constructor(private readonly registry: SchemaRegistry) {}
+
+  async serialize(topic: string, value: any): Promise<Buffer> {
+    const schema = await this.registry.getLatest(`${topic}-value`);
+    const type = this.typeFor(schema.id, schema.schema);
+
+    const errors: string[] = [];
+    if (!type.isValid(value, { errorHook: (path) => errors.push(path.join('.') || '<root>') })) {
+      throw new Error(
+        `Value does not match Avro schema ${schema.id}: invalid ${errors.join(', ')}`,
+      );
+    }
+    return encodeWireFormat(schema.id, type.toBuffer(value));
+  }
+
+  async deserialize(_topic: string, data: Buffer): Promise<any> {
+    const { schemaId, payload } = decodeWireFormat(data);
+    const schema = await this.registry.getById(schemaId);
+    return this.typeFor(schemaId, schema.schema).fromBuffer(payload);
+  }
+
+  private typeFor(id: number, schema: string): avro.Type {
+    if (!this.types.has(id)) {
+      this.types.set(id, avro.Type.forSchema(JSON.parse(schema)));
+    }
+    return this.types.get(id);
+  }
+}
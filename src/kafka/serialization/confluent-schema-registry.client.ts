@@ -0,0 +1,115 @@
+import {
+  RegisteredSchema,
+  SchemaRegistry,
+  SchemaType,
+} from '../interfaces/message-serializer.interface';
+
+export interface ConfluentSchemaRegistryOptions {
+  url: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * HTTP client for a Confluent-compatible schema registry. Schemas are immutable per id,
+ * so lookups by id are cached for the lifetime of the client.
+ */
+export class ConfluentSchemaRegistryClient implements SchemaRegistry {
+  private readonly byId = new Map<number, RegisteredSchema>();
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: ConfluentSchemaRegistryOptions) {
+    this.baseUrl = options.url.replace(/\/+$/, '');
+  }
+
+  async register(
+    subject: string,
+    schemaType: SchemaType,
+    schema: string,
+  ): Promise<RegisteredSchema> {
+    // The registry treats a missing schemaType as AVRO
+    const body = { schema, ...(schemaType === 'AVRO' ? {} : { schemaType }) };
+    const { id } = await this.request<{ id: number }>(
+      'POST',
+      `/subjects/${encodeURIComponent(subject)}/versions`,
+      body,
+    );
+    // Registration only returns the id; look the schema up under the subject for its version
+    const registered = await this.request<{ version: number }>(
+      'POST',
+      `/subjects/${encodeURIComponent(subject)}`,
+      body,
+    );
+    const result = { id, subject, version: registered.version, schemaType, schema };
+    this.byId.set(id, result);
+    return result;
+  }
+
+  async getById(id: number): Promise<RegisteredSchema> {
+    if (this.byId.has(id)) {
+      return this.byId.get(id);
+    }
+
+    const response = await this.request<{ schema: string; schemaType?: SchemaType }>(
+      'GET',
+      `/schemas/ids/${id}`,
+    );
+    const result: RegisteredSchema = {
+      id,
+      subject: undefined,
+      version: undefined,
+      schemaType: response.schemaType ?? 'AVRO',
+      schema: response.schema,
+    };
+    this.byId.set(id, result);
+    return result;
+  }
+
+  async getLatest(subject: string): Promise<RegisteredSchema> {
+    const response = await this.request<{
+      id: number;
+      version: number;
+      schema: string;
+      schemaType?: SchemaType;
+    }>('GET', `/subjects/${encodeURIComponent(subject)}/versions/latest`);
+
+    const result: RegisteredSchema = {
+      id: response.id,
+      subject,
+      version: response.version,
+      schemaType: response.schemaType ?? 'AVRO',
+      schema: response.schema,
+    };
+    this.byId.set(result.id, result);
+    return result;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.schemaregistry.v1+json',
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/vnd.schemaregistry.v1+json';
+    }
+    if (this.options.username) {
+      const credentials = `${this.options.username}:${this.options.password ?? ''}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(
+        `Schema registry ${method} ${path} failed with ${response.status}${
+          detail ? `: ${detail}` : ''
+        }`,
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  RegisteredSchema,
+  SchemaRegistry,
+  SchemaType,
+} from '../interfaces/message-serializer.interface';
+
+const SCHEMA_EXTENSIONS: Record<string, SchemaType> = {
+  '.avsc': 'AVRO',
+  '.proto': 'PROTOBUF',
+  '.json': 'JSON',
+};
+
+const STATE_FILE = 'registry.json';
+
+/**
+ * In-process registry for local development and tests. Assigned ids and versions are
+ * persisted to `registry.json` in the schema directory, and any `<subject>.avsc` or
+ * `<subject>.proto` file found there is registered on first use, so a topic only needs a
+ * schema file dropped next to it (e.g. `call-events-value.avsc`).
+ */
+export class FileSchemaRegistry implements SchemaRegistry {
+  private schemas: RegisteredSchema[] = [];
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly directory?: string) {}
+
+  async register(
+    subject: string,
+    schemaType: SchemaType,
+    schema: string,
+  ): Promise<RegisteredSchema> {
+    await this.load();
+
+    const existing = this.schemas.find(
+      (s) => s.subject === subject && s.schemaType === schemaType && s.schema === schema,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const registered = this.append(subject, schemaType, schema);
+    await this.persist();
+    return registered;
+  }
+
+  async getById(id: number): Promise<RegisteredSchema> {
+    await this.load();
+    const schema = this.schemas.find((s) => s.id === id);
+    if (!schema) {
+      throw new Error(`Schema ${id} not found`);
+    }
+    return schema;
+  }
+
+  async getLatest(subject: string): Promise<RegisteredSchema> {
+    await this.load();
+    const latest = this.schemas
+      .filter((s) => s.subject === subject)
+      .reduce<RegisteredSchema | undefined>(
+        (best, s) => (!best || s.version > best.version ? s : best),
+        undefined,
+      );
+    if (!latest) {
+      throw new Error(`Subject ${subject} not found`);
+    }
+    return latest;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readDirectory();
+    }
+    return this.loading;
+  }
+
+  private async readDirectory(): Promise<void> {
+    if (!this.directory) {
+      return;
+    }
+
+    try {
+      const state = await fs.readFile(path.join(this.directory, STATE_FILE), 'utf8');
+      this.schemas = JSON.parse(state);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let changed = false;
+    for (const file of files.sort()) {
+      const extension = path.extname(file);
+      const schemaType = SCHEMA_EXTENSIONS[extension];
+      if (!schemaType || file === STATE_FILE) {
+        continue;
+      }
+
+      const subject = path.basename(file, extension);
+      const schema = await fs.readFile(path.join(this.directory, file), 'utf8');
+      const latest = this.schemas
+        .filter((s) => s.subject === subject)
+        .sort((a, b) => b.version - a.version)[0];
+      if (latest?.schema !== schema) {
+        this.append(subject, schemaType, schema);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  private append(subject: string, schemaType: SchemaType, schema: string): RegisteredSchema {
+    const versions = this.schemas.filter((s) => s.subject === subject).map((s) => s.version);
+    const registered: RegisteredSchema = {
+      id: this.schemas.reduce((max, s) => Math.max(max, s.id), 0) + 1,
+      subject,
+      version: versions.length ? Math.max(...versions) + 1 : 1,
+      schemaType,
+      schema,
+    };
+    this.schemas.push(registered);
+    return registered;
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.directory) {
+      return;
+    }
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, STATE_FILE),
+      JSON.stringify(this.schemas, null, 2),
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { MessageSerializer } from '../interfaces/message-serializer.interface';
+
+/**
+ * Plain JSON without a schema. Strings and buffers are passed through untouched so
+ * pre-encoded payloads keep working.
+ */
+export class JsonSerializer implements MessageSerializer {
+  readonly format = 'json' as const;
+
+  async serialize(_topic: string, value: any): Promise<Buffer | string> {
+    if (typeof value === 'string' || Buffer.isBuffer(value)) {
+      return value;
+    }
+    return JSON.stringify(value);
+  }
+
+  async deserialize(_topic: string, data: Buffer): Promise<any> {
+    return JSON.parse(data.toString());
+  }
+}
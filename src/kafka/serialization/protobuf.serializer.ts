@@ -0,0 +1,78 @@
+import * as protobuf from 'protobufjs';
+import { MessageSerializer, SchemaRegistry } from '../interfaces/message-serializer.interface';
+import {
+  decodeMessageIndexes,
+  decodeWireFormat,
+  encodeMessageIndexes,
+  encodeWireFormat,
+} from './wire-format';
+
+/**
+ * Protobuf with registry-managed `.proto` schemas. Messages are written with the first
+ * top-level message type of the schema, which is how Confluent serializers resolve the
+ * default `[0]` message index.
+ */
+export class ProtobufSerializer implements MessageSerializer {
+  readonly format = 'protobuf' as const;
+  private readonly roots = new Map<number, protobuf.Type[]>();
+
+  constructor(private readonly registry: SchemaRegistry) {}
+
+  async serialize(topic: string, value: any): Promise<Buffer> {
+    const schema = await this.registry.getLatest(`${topic}-value`);
+    const [type] = this.typesFor(schema.id, schema.schema);
+
+    const error = type.verify(value);
+    if (error) {
+      throw new Error(`Value does not match Protobuf schema ${schema.id}: ${error}`);
+    }
+
+    const payload = Buffer.from(type.encode(type.fromObject(value)).finish());
+    return encodeWireFormat(schema.id, Buffer.concat([encodeMessageIndexes([0]), payload]));
+  }
+
+  async deserialize(_topic: string, data: Buffer): Promise<any> {
+    const { schemaId, payload } = decodeWireFormat(data);
+    const schema = await this.registry.getById(schemaId);
+    const { indexes, payload: body } = decodeMessageIndexes(payload);
+
+    const type = this.resolve(this.typesFor(schemaId, schema.schema), indexes);
+    return type.toObject(type.decode(body), { longs: String, enums: String, defaults: true });
+  }
+
+  private typesFor(id: number, schema: string): protobuf.Type[] {
+    if (!this.roots.has(id)) {
+      const { root } = protobuf.parse(schema, { keepCase: true });
+      const types = this.topLevelTypes(root);
+      if (types.length === 0) {
+        throw new Error(`Protobuf schema ${id} defines no message types`);
+      }
+      this.roots.set(id, types);
+    }
+    return this.roots.get(id);
+  }
+
+  private topLevelTypes(namespace: protobuf.NamespaceBase): protobuf.Type[] {
+    const types: protobuf.Type[] = [];
+    for (const nested of namespace.nestedArray) {
+      if (nested instanceof protobuf.Type) {
+        types.push(nested);
+      } else if (nested instanceof protobuf.Namespace) {
+        // Package declarations show up as namespaces wrapping the actual messages
+        types.push(...this.topLevelTypes(nested));
+      }
+    }
+    return types;
+  }
+
+  private resolve(types: protobuf.Type[], indexes: number[]): protobuf.Type {
+    let type = types[indexes[0]];
+    for (const index of indexes.slice(1)) {
+      type = type?.nestedArray.filter((n): n is protobuf.Type => n instanceof protobuf.Type)[index];
+    }
+    if (!type) {
+      throw new Error(`Unknown Protobuf message index path [${indexes.join(', ')}]`);
+    }
+    return type;
+  }
+}
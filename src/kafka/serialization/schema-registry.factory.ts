@@ -0,0 +1,23 @@
+import { ConfigService } from '@nestjs/config';
+import { SchemaRegistry } from '../interfaces/message-serializer.interface';
+import { ConfluentSchemaRegistryClient } from './confluent-schema-registry.client';
+import { FileSchemaRegistry } from './file-schema-registry';
+
+export const SCHEMA_REGISTRY = 'SCHEMA_REGISTRY';
+
+/**
+ * Uses the Confluent registry when a URL is configured, otherwise falls back to the
+ * file-based registry so Avro/Protobuf topics work without any external service.
+ */
+export function createSchemaRegistry(configService: ConfigService): SchemaRegistry {
+  const url = configService.get<string>('kafka.serialization.registry.url');
+  if (url) {
+    return new ConfluentSchemaRegistryClient({
+      url,
+      username: configService.get('kafka.serialization.registry.username'),
+      password: configService.get('kafka.serialization.registry.password'),
+    });
+  }
+
+  return new FileSchemaRegistry(configService.get('kafka.serialization.registry.dir', 'schemas'));
+}
@@ -0,0 +1,74 @@
+/**
+ * Confluent wire format: magic byte 0, 4-byte big-endian schema id, then the payload.
+ * Protobuf payloads additionally carry the message-index path after the schema id.
+ */
+export const MAGIC_BYTE = 0;
+const HEADER_SIZE = 5;
+
+export function encodeWireFormat(schemaId: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeUInt8(MAGIC_BYTE, 0);
+  header.writeInt32BE(schemaId, 1);
+  return Buffer.concat([header, payload]);
+}
+
+export function decodeWireFormat(data: Buffer): { schemaId: number; payload: Buffer } {
+  if (data.length < HEADER_SIZE || data.readUInt8(0) !== MAGIC_BYTE) {
+    throw new Error('Message is not in Confluent wire format (missing magic byte)');
+  }
+  return { schemaId: data.readInt32BE(1), payload: data.subarray(HEADER_SIZE) };
+}
+
+function writeZigZagVarint(value: number): number[] {
+  let zigzag = (value << 1) ^ (value >> 31);
+  const bytes: number[] = [];
+  while ((zigzag & ~0x7f) !== 0) {
+    bytes.push((zigzag & 0x7f) | 0x80);
+    zigzag >>>= 7;
+  }
+  bytes.push(zigzag);
+  return bytes;
+}
+
+function readZigZagVarint(data: Buffer, start: number): { value: number; next: number } {
+  let result = 0;
+  let shift = 0;
+  let position = start;
+  let byte: number;
+  do {
+    if (position >= data.length) {
+      throw new Error('Truncated varint in Protobuf message indexes');
+    }
+    byte = data[position++];
+    result |= (byte & 0x7f) << shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return { value: (result >>> 1) ^ -(result & 1), next: position };
+}
+
+/** The `[0]` path (first message in the schema) is written as a single zero byte. */
+export function encodeMessageIndexes(indexes: number[]): Buffer {
+  if (indexes.length === 1 && indexes[0] === 0) {
+    return Buffer.from([0]);
+  }
+  return Buffer.from([
+    ...writeZigZagVarint(indexes.length),
+    ...indexes.flatMap((index) => writeZigZagVarint(index)),
+  ]);
+}
+
+export function decodeMessageIndexes(data: Buffer): { indexes: number[]; payload: Buffer } {
+  const { value: count, next } = readZigZagVarint(data, 0);
+  if (count === 0) {
+    return { indexes: [0], payload: data.subarray(next) };
+  }
+
+  const indexes: number[] = [];
+  let position = next;
+  for (let i = 0; i < count; i++) {
+    const read = readZigZagVarint(data, position);
+    indexes.push(read.value);
+    position = read.next;
+  }
+  return { indexes, payload: data.subarray(position) };
+}
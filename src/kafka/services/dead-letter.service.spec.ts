@@ -0,0 +1,207 @@
+import { ConfigService } from '@nestjs/config';
+import { DeadLetterService, RETRY_HEADERS } from './dead-letter.service';
+import { KafkaProducerService } from './kafka-producer.service';
+import { EventStorageService } from './event-storage.service';
+
+describe('DeadLetterService', () => {
+  let publish: jest.Mock;
+  let eventStorage: EventStorageService;
+  let service: DeadLetterService;
+
+  const failure = (overrides: Record<string, any> = {}) => ({
+    topic: 'call-events',
+    partition: 2,
+    offset: '17',
+    key: 'call-1',
+    value: Buffer.from('{"callerId":"a"}'),
+    headers: { correlationId: 'abc' },
+    error: new Error('database unavailable'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    publish = jest.fn().mockResolvedValue({ topicName: 'x', partition: 0, baseOffset: '5' });
+    const configService = {
+      get: jest.fn(
+        (key: string) =>
+          ({
+            'kafka.retry.maxRetries': 2,
+            'kafka.retry.delaysMs': [1000, 5000],
+            'kafka.retry.topics': { 'user-events': { maxRetries: 0 } },
+          }[key]),
+      ),
+    } as unknown as ConfigService;
+    eventStorage = new EventStorageService();
+    service = new DeadLetterService(
+      { publish } as unknown as KafkaProducerService,
+      eventStorage,
+      configService,
+    );
+  });
+
+  it('should republish a first failure to the first retry topic with delay headers', async () => {
+    const before = Date.now();
+
+    const routing = await service.handleFailure(failure());
+
+    expect(routing).toEqual({ topic: 'call-events.retry.1', attempts: 1, deadLettered: false });
+    const [topic, value, key, headers] = publish.mock.calls[0];
+    expect(topic).toBe('call-events.retry.1');
+    expect(value.toString()).toBe('{"callerId":"a"}');
+    expect(key).toBe('call-1');
+    expect(headers).toEqual(
+      expect.objectContaining({
+        correlationId: 'abc',
+        [RETRY_HEADERS.originalTopic]: 'call-events',
+        [RETRY_HEADERS.originalPartition]: '2',
+        [RETRY_HEADERS.originalOffset]: '17',
+        [RETRY_HEADERS.attempt]: '1',
+        [RETRY_HEADERS.delayMs]: '1000',
+      }),
+    );
+    expect(Number(headers[RETRY_HEADERS.notBefore])).toBeGreaterThanOrEqual(before + 1000);
+  });
+
+  it('should move the message to the DLQ once retries are exhausted', async () => {
+    const routing = await service.handleFailure(
+      failure({
+        topic: 'call-events.retry.2',
+        partition: 0,
+        offset: '3',
+        headers: {
+          correlationId: 'abc',
+          [RETRY_HEADERS.originalTopic]: 'call-events',
+          [RETRY_HEADERS.originalPartition]: '2',
+          [RETRY_HEADERS.originalOffset]: '17',
+          [RETRY_HEADERS.attempt]: '2',
+          [RETRY_HEADERS.notBefore]: '1',
+        },
+      }),
+    );
+
+    expect(routing).toEqual({ topic: 'call-events.dlq', attempts: 3, deadLettered: true });
+    const [topic, , , headers] = publish.mock.calls[0];
+    expect(topic).toBe('call-events.dlq');
+    expect(headers).toEqual(
+      expect.objectContaining({
+        correlationId: 'abc',
+        [RETRY_HEADERS.originalPartition]: '2',
+        [RETRY_HEADERS.originalOffset]: '17',
+        [RETRY_HEADERS.exceptionMessage]: 'database unavailable',
+        [RETRY_HEADERS.attempts]: '3',
+      }),
+    );
+    expect(headers[RETRY_HEADERS.exceptionStack]).toContain('Error: database unavailable');
+    expect(headers[RETRY_HEADERS.notBefore]).toBeUndefined();
+
+    const {
+      deadLetters: [deadLetter],
+    } = await service.getDeadLetters('call-events');
+    expect(deadLetter).toEqual(
+      expect.objectContaining({
+        topic: 'call-events.dlq',
+        originalTopic: 'call-events',
+        originalOffset: '17',
+        value: '{"callerId":"a"}',
+        error: 'database unavailable',
+        attempts: 3,
+      }),
+    );
+  });
+
+  it('should skip retries for non-retryable failures and topics without retries', async () => {
+    await service.handleFailure(failure({ retryable: false }));
+    await service.handleFailure(failure({ topic: 'user-events' }));
+
+    expect(publish.mock.calls.map(([topic]) => topic)).toEqual([
+      'call-events.dlq',
+      'user-events.dlq',
+    ]);
+    expect(service.retryTopicsFor('call-events')).toEqual([
+      'call-events.retry.1',
+      'call-events.retry.2',
+    ]);
+    expect(service.retryTopicsFor('user-events')).toEqual([]);
+  });
+
+  it('should replay a dead letter to its original topic with its original headers', async () => {
+    await service.handleFailure(failure({ retryable: false }));
+    const {
+      deadLetters: [deadLetter],
+    } = await service.getDeadLetters();
+    publish.mockClear();
+
+    const result = await service.replay(deadLetter.id);
+
+    expect(result).toEqual(
+      expect.objectContaining({ success: true, topic: 'call-events', partition: 0, offset: '5' }),
+    );
+    expect(publish).toHaveBeenCalledWith('call-events', Buffer.from('{"callerId":"a"}'), 'call-1', {
+      correlationId: 'abc',
+    });
+    expect((await service.getDeadLetter(deadLetter.id)).replayedAt).toBeDefined();
+    expect(await service.replay('missing')).toBeUndefined();
+  });
+
+  it('should list and replay dead letters recorded by another replica', async () => {
+    const payload = Buffer.from([0, 255, 10]);
+    await service.handleFailure(failure({ retryable: false, value: payload }));
+    await eventStorage.addEvent({
+      id: 'consumed-1',
+      topic: 'call-events',
+      partition: 0,
+      offset: '1',
+      value: { callerId: 'a' },
+      timestamp: new Date().toISOString(),
+      status: 'processed',
+    });
+    const replica = new DeadLetterService(
+      { publish } as unknown as KafkaProducerService,
+      eventStorage,
+    );
+    publish.mockClear();
+
+    const { deadLetters } = await replica.getDeadLetters();
+    expect(deadLetters).toEqual([
+      expect.objectContaining({ topic: 'call-events.dlq', originalTopic: 'call-events' }),
+    ]);
+    await expect(eventStorage.getEvent(deadLetters[0].id)).resolves.toEqual(
+      expect.objectContaining({ partition: 0, offset: '5', status: 'failed' }),
+    );
+    await expect(replica.getDeadLetter('consumed-1')).resolves.toBeUndefined();
+
+    await replica.replay(deadLetters[0].id);
+
+    expect(publish).toHaveBeenCalledWith('call-events', payload, 'call-1', {
+      correlationId: 'abc',
+    });
+    expect((await service.getDeadLetter(deadLetters[0].id)).replayedAt).toBeDefined();
+  });
+
+  it('should page through dead letters', async () => {
+    for (const offset of ['1', '2', '3']) {
+      await service.handleFailure(failure({ offset, retryable: false }));
+    }
+
+    const first = await service.getDeadLetters(undefined, { limit: 2 });
+    const second = await service.getDeadLetters(undefined, {
+      limit: 2,
+      cursor: first.nextCursor,
+    });
+
+    // Failures within the same millisecond are ordered by their random ids
+    expect(first.deadLetters).toHaveLength(2);
+    expect(second.deadLetters).toHaveLength(1);
+    expect(second.nextCursor).toBeUndefined();
+    expect(
+      [...first.deadLetters, ...second.deadLetters].map((d) => d.originalOffset).sort(),
+    ).toEqual(['1', '2', '3']);
+  });
+
+  it('should surface publish failures so the message is redelivered', async () => {
+    publish.mockRejectedValueOnce(new Error('broker unavailable'));
+
+    await expect(service.handleFailure(failure())).rejects.toThrow('broker unavailable');
+    expect(await service.getDeadLetters()).toEqual({ deadLetters: [] });
+  });
+});
@@ -0,0 +1,266 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { RecordMetadata } from 'kafkajs';
+import {
+  DeadLetterPage,
+  DeadLetterRecord,
+  FailedMessage,
+  FailureRouting,
+  RetryPolicy,
+} from '../interfaces/dead-letter.interface';
+import { KafkaEvent, ProducerResult } from '../interfaces/kafka-event.interface';
+import { EventQuery } from '../interfaces/event-store.interface';
+import { KafkaProducerService } from './kafka-producer.service';
+import { EventStorageService } from './event-storage.service';
+import { EventValidationError } from '../contracts/event-contract';
+
+export const RETRY_HEADERS = {
+  originalTopic: 'x-original-topic',
+  originalPartition: 'x-original-partition',
+  originalOffset: 'x-original-offset',
+  attempt: 'x-retry-attempt',
+  groupId: 'x-retry-group',
+  delayMs: 'x-retry-delay-ms',
+  notBefore: 'x-retry-not-before',
+  exceptionMessage: 'x-exception-message',
+  exceptionStack: 'x-exception-stack',
+  attempts: 'x-attempts',
+  failedAt: 'x-failed-at',
+  rejectionReasons: 'x-rejection-reasons',
+} as const;
+
+const RETRY_TOPIC_PATTERN = /^(.+)\.retry\.(\d+)$/;
+// Matches the values dead letters are stored with
+const DEAD_LETTER_PREDICATE = '$.deadLetter.originalTopic && $.deadLetter.failedAt';
+
+/** The value of a dead letter's event; the raw payload is kept base64 encoded for replays */
+interface StoredDeadLetter {
+  deadLetter: Omit<DeadLetterRecord, 'id' | 'topic' | 'key' | 'headers'>;
+  payload: string | null;
+}
+
+/**
+ * Routes messages whose processing failed: first through `<topic>.retry.N` topics, each
+ * carrying the time before which it must not be reprocessed, and finally to `<topic>.dlq`
+ * with the original headers plus the exception and attempt count. Payloads are forwarded
+ * as the original bytes, so retries are independent of the topic's serializer. Dead letters
+ * are recorded in the event store, which every replica lists and replays them from.
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly defaultPolicy: RetryPolicy;
+  private readonly policies: Map<string, RetryPolicy> = new Map();
+
+  constructor(
+    private readonly kafkaProducer: KafkaProducerService,
+    private readonly eventStorage: EventStorageService,
+    @Optional() private readonly configService?: ConfigService,
+  ) {
+    this.defaultPolicy = {
+      maxRetries: this.configService?.get('kafka.retry.maxRetries') ?? 3,
+      delaysMs: this.configService?.get('kafka.retry.delaysMs') ?? [1000, 10000, 60000],
+    };
+
+    const overrides: Record<string, Partial<RetryPolicy>> = this.configService?.get(
+      'kafka.retry.topics',
+    ) ?? {};
+    for (const [topic, policy] of Object.entries(overrides)) {
+      this.setPolicy(topic, policy);
+    }
+  }
+
+  setPolicy(topic: string, policy: Partial<RetryPolicy>): void {
+    this.policies.set(topic, { ...this.defaultPolicy, ...policy });
+  }
+
+  policyFor(topic: string): RetryPolicy {
+    return this.policies.get(topic) ?? this.defaultPolicy;
+  }
+
+  /** The retry topics the consumer has to read alongside `topic` */
+  retryTopicsFor(topic: string): string[] {
+    const { maxRetries } = this.policyFor(topic);
+    return Array.from({ length: maxRetries }, (_, index) => `${topic}.retry.${index + 1}`);
+  }
+
+  /** Resolves the topic a message originally belonged to, for messages read from retry topics */
+  originalTopicOf(topic: string, headers: Record<string, string>): string {
+    return headers[RETRY_HEADERS.originalTopic] ?? topic.match(RETRY_TOPIC_PATTERN)?.[1] ?? topic;
+  }
+
+  /** Epoch millis before which a retried message must not be processed, if any */
+  notBefore(headers: Record<string, string>): number | undefined {
+    const value = Number(headers[RETRY_HEADERS.notBefore]);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  }
+
+  /**
+   * Republishes a failed message to its next retry topic, or to the DLQ once the retry
+   * policy is exhausted. Throws when the message could not be forwarded, so the caller
+   * leaves its offset uncommitted and the message is redelivered.
+   */
+  async handleFailure(failed: FailedMessage): Promise<FailureRouting> {
+    const originalTopic = this.originalTopicOf(failed.topic, failed.headers);
+    const attempts = Number(failed.headers[RETRY_HEADERS.attempt] ?? 0) + 1;
+    const { maxRetries, delaysMs } = this.policyFor(originalTopic);
+
+    // Headers describing where the message first came from survive every hop
+    const origin = {
+      [RETRY_HEADERS.originalTopic]: originalTopic,
+      [RETRY_HEADERS.originalPartition]:
+        failed.headers[RETRY_HEADERS.originalPartition] ?? String(failed.partition),
+      [RETRY_HEADERS.originalOffset]: failed.headers[RETRY_HEADERS.originalOffset] ?? failed.offset,
+    };
+
+    if (failed.retryable !== false && attempts <= maxRetries) {
+      const retryTopic = `${originalTopic}.retry.${attempts}`;
+      const delayMs = delaysMs[Math.min(attempts, delaysMs.length) - 1] ?? 0;
+
+      await this.kafkaProducer.publish(retryTopic, failed.value, failed.key, {
+        ...failed.headers,
+        ...origin,
+        [RETRY_HEADERS.attempt]: String(attempts),
+        ...(failed.groupId ? { [RETRY_HEADERS.groupId]: failed.groupId } : {}),
+        [RETRY_HEADERS.delayMs]: String(delayMs),
+        [RETRY_HEADERS.notBefore]: String(Date.now() + delayMs),
+        [RETRY_HEADERS.exceptionMessage]: failed.error.message,
+      });
+
+      this.logger.warn(
+        `Message from ${failed.topic} failed (attempt ${attempts}), retrying via ${retryTopic} in ${delayMs}ms: ${failed.error.message}`,
+      );
+      return { topic: retryTopic, attempts, deadLettered: false };
+    }
+
+    const dlqTopic = `${originalTopic}.dlq`;
+    const failedAt = new Date().toISOString();
+    const reasons = failed.error instanceof EventValidationError ? failed.error.reasons : undefined;
+    const headers = {
+      ...this.withoutRetryHeaders(failed.headers),
+      ...origin,
+      [RETRY_HEADERS.exceptionMessage]: failed.error.message,
+      [RETRY_HEADERS.exceptionStack]: failed.error.stack ?? '',
+      [RETRY_HEADERS.attempts]: String(attempts),
+      [RETRY_HEADERS.failedAt]: failedAt,
+      ...(reasons ? { [RETRY_HEADERS.rejectionReasons]: JSON.stringify(reasons) } : {}),
+    };
+
+    const metadata = await this.kafkaProducer.publish(dlqTopic, failed.value, failed.key, headers);
+
+    const record: DeadLetterRecord = {
+      id: randomUUID(),
+      topic: dlqTopic,
+      originalTopic,
+      originalPartition: Number(origin[RETRY_HEADERS.originalPartition]),
+      originalOffset: origin[RETRY_HEADERS.originalOffset],
+      key: failed.key,
+      value: failed.value ? failed.value.toString() : null,
+      headers,
+      error: failed.error.message,
+      reasons,
+      stack: failed.error.stack,
+      attempts,
+      failedAt,
+    };
+    await this.eventStorage.addEvent(this.toEvent(record, failed.value, metadata));
+
+    this.logger.error(
+      `Message from ${originalTopic} moved to ${dlqTopic} after ${attempts} attempt(s): ${failed.error.message}`,
+    );
+    return { topic: dlqTopic, attempts, deadLettered: true };
+  }
+
+  /**
+   * A page of dead letters, newest first; pass the returned `nextCursor` to fetch the next.
+   * Only `.dlq` topics are read, so the store never scans the rest of the events.
+   */
+  async getDeadLetters(
+    originalTopic?: string,
+    page: Pick<EventQuery, 'limit' | 'cursor'> = {},
+  ): Promise<DeadLetterPage> {
+    const { events, nextCursor } = await this.eventStorage.queryEvents({
+      ...(originalTopic ? { topic: `${originalTopic}.dlq` } : { topicSuffix: '.dlq' }),
+      where: DEAD_LETTER_PREDICATE,
+      ...page,
+    });
+    return {
+      deadLetters: events
+        .filter((event) => this.isDeadLetter(event))
+        .map((event) => this.toRecord(event)),
+      nextCursor,
+    };
+  }
+
+  async getDeadLetter(id: string): Promise<DeadLetterRecord | undefined> {
+    const event = await this.eventStorage.getEvent(id);
+    return this.isDeadLetter(event) ? this.toRecord(event) : undefined;
+  }
+
+  /**
+   * Sends a dead-lettered message back to its original topic with its original headers,
+   * giving it a fresh retry budget.
+   */
+  async replay(id: string): Promise<ProducerResult | undefined> {
+    const event = await this.eventStorage.getEvent(id);
+    if (!this.isDeadLetter(event)) {
+      return undefined;
+    }
+
+    const record = this.toRecord(event);
+    const { deadLetter, payload } = event.value as StoredDeadLetter;
+    const metadata = await this.kafkaProducer.publish(
+      record.originalTopic,
+      payload === null ? null : Buffer.from(payload, 'base64'),
+      record.key,
+      this.withoutRetryHeaders(record.headers),
+    );
+    record.replayedAt = new Date().toISOString();
+    await this.eventStorage.updateEvent(id, {
+      value: { deadLetter: { ...deadLetter, replayedAt: record.replayedAt }, payload },
+    });
+
+    this.logger.log(`Replayed dead letter ${id} to ${record.originalTopic}`);
+    return {
+      success: true,
+      messageId: id,
+      topic: record.originalTopic,
+      partition: metadata.partition,
+      offset: metadata.baseOffset ?? metadata.offset,
+      timestamp: record.replayedAt,
+    };
+  }
+
+  private toEvent(
+    { id, topic, key, headers, ...deadLetter }: DeadLetterRecord,
+    payload: Buffer | null,
+    metadata: RecordMetadata,
+  ): KafkaEvent {
+    const value: StoredDeadLetter = { deadLetter, payload: payload?.toString('base64') ?? null };
+    return {
+      id,
+      topic,
+      partition: metadata.partition,
+      offset: metadata.baseOffset ?? metadata.offset,
+      key,
+      value,
+      headers,
+      timestamp: deadLetter.failedAt,
+      status: 'failed',
+    };
+  }
+
+  private toRecord({ id, topic, key, headers, value }: KafkaEvent): DeadLetterRecord {
+    return { id, topic, key, headers: headers ?? {}, ...(value as StoredDeadLetter).deadLetter };
+  }
+
+  private isDeadLetter(event: KafkaEvent | undefined): boolean {
+    return !!event && event.topic.endsWith('.dlq') && !!event.value?.deadLetter;
+  }
+
+  private withoutRetryHeaders(headers: Record<string, string>): Record<string, string> {
+    const retryHeaders = new Set<string>(Object.values(RETRY_HEADERS));
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => !retryHeaders.has(name)));
+  }
+}
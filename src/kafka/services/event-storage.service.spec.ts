@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { EventStorageService } from './event-storage.service';
+import { ConfigService } from '@nestjs/config';
 import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import { EventStoreBackend } from '../interfaces/event-store.interface';
 
 describe('EventStorageService', () => {
   let service: EventStorageService;
@@ -13,8 +15,8 @@ describe('EventStorageService', () => {
     service = module.get<EventStorageService>(EventStorageService);
   });
 
-  afterEach(() => {
-    service.clearEvents();
+  afterEach(async () => {
+    await service.clearEvents();
   });
 
   it('should be defined', () => {
@@ -22,7 +24,7 @@ describe('EventStorageService', () => {
   });
 
   describe('addEvent', () => {
-    it('should add an event to storage', () => {
+    it('should add an event to storage', async () => {
       const event: KafkaEvent = {
         id: 'test-1',
         topic: 'test-topic',
@@ -33,11 +35,11 @@ describe('EventStorageService', () => {
         status: 'processed',
       };
 
-      service.addEvent(event);
-      expect(service.getEvent('test-1')).toEqual(event);
+      await service.addEvent(event);
+      expect(await service.getEvent('test-1')).toEqual(event);
     });
 
-    it('should track events by topic', () => {
+    it('should track events by topic', async () => {
       const event1: KafkaEvent = {
         id: 'test-1',
         topic: 'topic-a',
@@ -68,27 +70,27 @@ describe('EventStorageService', () => {
         status: 'processed',
       };
 
-      service.addEvent(event1);
-      service.addEvent(event2);
-      service.addEvent(event3);
+      await service.addEvent(event1);
+      await service.addEvent(event2);
+      await service.addEvent(event3);
 
-      const topicAEvents = service.getEventsByTopic('topic-a');
+      const topicAEvents = await service.getEventsByTopic('topic-a');
       expect(topicAEvents).toHaveLength(2);
       expect(topicAEvents.map((e) => e.id)).toContain('test-1');
       expect(topicAEvents.map((e) => e.id)).toContain('test-2');
 
-      const topicBEvents = service.getEventsByTopic('topic-b');
+      const topicBEvents = await service.getEventsByTopic('topic-b');
       expect(topicBEvents).toHaveLength(1);
       expect(topicBEvents[0].id).toBe('test-3');
     });
   });
 
   describe('getEvent', () => {
-    it('should return undefined for non-existent event', () => {
-      expect(service.getEvent('non-existent')).toBeUndefined();
+    it('should return undefined for non-existent event', async () => {
+      expect(await service.getEvent('non-existent')).toBeUndefined();
     });
 
-    it('should return the correct event', () => {
+    it('should return the correct event', async () => {
       const event: KafkaEvent = {
         id: 'test-1',
         topic: 'test-topic',
@@ -99,13 +101,13 @@ describe('EventStorageService', () => {
         status: 'processed',
       };
 
-      service.addEvent(event);
-      expect(service.getEvent('test-1')).toEqual(event);
+      await service.addEvent(event);
+      expect(await service.getEvent('test-1')).toEqual(event);
     });
   });
 
   describe('getAllEvents', () => {
-    it('should return all events sorted by timestamp', () => {
+    it('should return all events sorted by timestamp', async () => {
       const now = Date.now();
       const event1: KafkaEvent = {
         id: 'test-1',
@@ -137,11 +139,11 @@ describe('EventStorageService', () => {
         status: 'processed',
       };
 
-      service.addEvent(event1);
-      service.addEvent(event2);
-      service.addEvent(event3);
+      await service.addEvent(event1);
+      await service.addEvent(event2);
+      await service.addEvent(event3);
 
-      const allEvents = service.getAllEvents();
+      const allEvents = await service.getAllEvents();
       expect(allEvents).toHaveLength(3);
       expect(allEvents[0].id).toBe('test-2');
       expect(allEvents[1].id).toBe('test-3');
@@ -150,7 +152,7 @@ describe('EventStorageService', () => {
   });
 
   describe('updateEventStatus', () => {
-    it('should update event status', () => {
+    it('should update event status', async () => {
       const event: KafkaEvent = {
         id: 'test-1',
         topic: 'test-topic',
@@ -161,22 +163,20 @@ describe('EventStorageService', () => {
         status: 'pending',
       };
 
-      service.addEvent(event);
-      service.updateEventStatus('test-1', 'processed');
+      await service.addEvent(event);
+      await service.updateEventStatus('test-1', 'processed');
 
-      const updatedEvent = service.getEvent('test-1');
+      const updatedEvent = await service.getEvent('test-1');
       expect(updatedEvent?.status).toBe('processed');
     });
 
-    it('should not throw error for non-existent event', () => {
-      expect(() => {
-        service.updateEventStatus('non-existent', 'processed');
-      }).not.toThrow();
+    it('should not throw error for non-existent event', async () => {
+      await expect(service.updateEventStatus('non-existent', 'processed')).resolves.not.toThrow();
     });
   });
 
   describe('getStats', () => {
-    it('should return correct statistics', () => {
+    it('should return correct statistics', async () => {
       const events: KafkaEvent[] = [
         {
           id: 'test-1',
@@ -207,9 +207,11 @@ describe('EventStorageService', () => {
         },
       ];
 
-      events.forEach((event) => service.addEvent(event));
+      for (const event of events) {
+        await service.addEvent(event);
+      }
 
-      const stats = service.getStats();
+      const stats = await service.getStats();
       expect(stats.total).toBe(3);
       expect(stats.byTopic['topic-a']).toBe(2);
       expect(stats.byTopic['topic-b']).toBe(1);
@@ -218,8 +220,8 @@ describe('EventStorageService', () => {
       expect(stats.byStatus.failed).toBe(1);
     });
 
-    it('should return empty stats when no events', () => {
-      const stats = service.getStats();
+    it('should return empty stats when no events', async () => {
+      const stats = await service.getStats();
       expect(stats.total).toBe(0);
       expect(stats.byTopic).toEqual({});
       expect(stats.byStatus).toEqual({
@@ -231,7 +233,7 @@ describe('EventStorageService', () => {
   });
 
   describe('clearEvents', () => {
-    it('should clear all events', () => {
+    it('should clear all events', async () => {
       const event: KafkaEvent = {
         id: 'test-1',
         topic: 'test-topic',
@@ -242,12 +244,43 @@ describe('EventStorageService', () => {
         status: 'processed',
       };
 
-      service.addEvent(event);
-      expect(service.getAllEvents()).toHaveLength(1);
+      await service.addEvent(event);
+      expect(await service.getAllEvents()).toHaveLength(1);
 
-      service.clearEvents();
-      expect(service.getAllEvents()).toHaveLength(0);
-      expect(service.getStats().total).toBe(0);
+      await service.clearEvents();
+      expect(await service.getAllEvents()).toHaveLength(0);
+      expect((await service.getStats()).total).toBe(0);
+    });
+  });
+
+  describe('prune', () => {
+    it('should prune the backend periodically until destroyed', async () => {
+      jest.useFakeTimers();
+      try {
+        const backend = { prune: jest.fn(async () => 3) };
+        const pruning = new EventStorageService(
+          backend as unknown as EventStoreBackend,
+          new ConfigService({ kafka: { eventStore: { pruneIntervalMs: 1000 } } }),
+        );
+
+        pruning.onModuleInit();
+        await jest.advanceTimersByTimeAsync(2500);
+        expect(backend.prune).toHaveBeenCalledTimes(2);
+
+        pruning.onModuleDestroy();
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(backend.prune).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should log and survive a failed prune', async () => {
+      const backend = { prune: jest.fn().mockRejectedValue(new Error('database is locked')) };
+
+      await expect(
+        new EventStorageService(backend as unknown as EventStoreBackend).prune(),
+      ).resolves.toBe(0);
     });
   });
 });
@@ -1,71 +1,112 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import {
+  EVENT_STORE_BACKEND,
+  EventPage,
+  EventQuery,
+  EventStats,
+  EventStoreBackend,
+} from '../interfaces/event-store.interface';
+import { InMemoryEventStore } from '../storage/in-memory-event-store';
 
+/**
+ * Records produced and consumed events in the configured backend (in-memory by default).
+ * Writes never throw: the event log is diagnostic and must not fail message handling.
+ * Backends that do not evict as they go are pruned every `kafka.eventStore.pruneIntervalMs`.
+ */
 @Injectable()
-export class EventStorageService {
-  private events: Map<string, KafkaEvent> = new Map();
-  private eventsByTopic: Map<string, Set<string>> = new Map();
+export class EventStorageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventStorageService.name);
+  private readonly backend: EventStoreBackend;
+  private timer: NodeJS.Timeout | null = null;
 
-  addEvent(event: KafkaEvent): void {
-    this.events.set(event.id, event);
+  constructor(
+    @Optional() @Inject(EVENT_STORE_BACKEND) backend?: EventStoreBackend,
+    @Optional() private readonly configService?: ConfigService,
+  ) {
+    this.backend = backend ?? new InMemoryEventStore();
+  }
 
-    if (!this.eventsByTopic.has(event.topic)) {
-      this.eventsByTopic.set(event.topic, new Set());
+  onModuleInit() {
+    const intervalMs = this.configService?.get('kafka.eventStore.pruneIntervalMs', 0) ?? 0;
+    if (!this.backend.prune || intervalMs <= 0) {
+      return;
     }
-    this.eventsByTopic.get(event.topic)?.add(event.id);
+    this.timer = setInterval(() => void this.prune(), intervalMs);
+    this.timer.unref();
   }
 
-  getEvent(id: string): KafkaEvent | undefined {
-    return this.events.get(id);
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
   }
 
-  getAllEvents(): KafkaEvent[] {
-    return Array.from(this.events.values()).sort(
-      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-    );
+  /** Deletes the events past the backend's retention; failures are logged and retried next time */
+  async prune(): Promise<number> {
+    try {
+      const deleted = (await this.backend.prune?.()) ?? 0;
+      if (deleted > 0) {
+        this.logger.log(`Pruned ${deleted} events past their retention`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error('Failed to prune events', error);
+      return 0;
+    }
   }
 
-  getEventsByTopic(topic: string): KafkaEvent[] {
-    const eventIds = this.eventsByTopic.get(topic);
-    if (!eventIds) return [];
+  async addEvent(event: KafkaEvent): Promise<void> {
+    try {
+      await this.backend.add(event);
+    } catch (error) {
+      this.logger.error(`Failed to store event ${event.id}`, error);
+    }
+  }
 
-    return Array.from(eventIds)
-      .map((id) => this.events.get(id))
-      .filter((event): event is KafkaEvent => event !== undefined)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  getEvent(id: string): Promise<KafkaEvent | undefined> {
+    return this.backend.get(id);
   }
 
-  updateEventStatus(id: string, status: 'pending' | 'processed' | 'failed'): void {
-    const event = this.events.get(id);
-    if (event) {
-      event.status = status;
-    }
+  async getAllEvents(): Promise<KafkaEvent[]> {
+    return (await this.backend.query({})).events;
   }
 
-  clearEvents(): void {
-    this.events.clear();
-    this.eventsByTopic.clear();
+  async getEventsByTopic(topic: string): Promise<KafkaEvent[]> {
+    return (await this.backend.query({ topic })).events;
   }
 
-  getStats(): { total: number; byTopic: Record<string, number>; byStatus: Record<string, number> } {
-    const stats = {
-      total: this.events.size,
-      byTopic: {} as Record<string, number>,
-      byStatus: {
-        pending: 0,
-        processed: 0,
-        failed: 0,
-      },
-    };
+  /** Page of events matching the query; pass the returned `nextCursor` to fetch the next page */
+  queryEvents(query: EventQuery): Promise<EventPage> {
+    return this.backend.query(query);
+  }
 
-    for (const [topic, eventIds] of this.eventsByTopic.entries()) {
-      stats.byTopic[topic] = eventIds.size;
-    }
+  async updateEventStatus(id: string, status: 'pending' | 'processed' | 'failed'): Promise<void> {
+    await this.updateEvent(id, { status });
+  }
 
-    for (const event of this.events.values()) {
-      stats.byStatus[event.status]++;
+  async updateEvent(id: string, changes: Partial<Omit<KafkaEvent, 'id' | 'topic'>>): Promise<void> {
+    try {
+      await this.backend.update(id, changes);
+    } catch (error) {
+      this.logger.error(`Failed to update event ${id}`, error);
     }
+  }
+
+  clearEvents(): Promise<void> {
+    return this.backend.clear();
+  }
 
-    return stats;
+  getStats(): Promise<EventStats> {
+    return this.backend.stats();
   }
 }
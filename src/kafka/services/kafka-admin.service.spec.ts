@@ -0,0 +1,249 @@
+import { ConfigService } from '@nestjs/config';
+import { ConfigResourceTypes, ConfigSource } from 'kafkajs';
+import {
+  InvalidTopicOperationError,
+  KafkaAdminService,
+  KafkaUnavailableError,
+  TopicNotFoundError,
+} from './kafka-admin.service';
+
+interface FakeTopic {
+  partitions: number;
+  replicationFactor: number;
+  configs: Record<string, string>;
+}
+
+describe('KafkaAdminService', () => {
+  let topics: Map<string, FakeTopic>;
+  let admin: Record<string, jest.Mock>;
+  let config: Record<string, any>;
+  let service: KafkaAdminService;
+
+  const createService = () => {
+    const created = new KafkaAdminService({
+      get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+    } as unknown as ConfigService);
+    (created as any).kafka = { admin: () => admin };
+    return created;
+  };
+
+  beforeEach(() => {
+    topics = new Map([
+      ['call-events', { partitions: 2, replicationFactor: 1, configs: { 'retention.ms': '1000' } }],
+    ]);
+    config = {
+      'kafka.topics.manifest': [
+        { topic: 'call-events', numPartitions: 6, configs: { 'cleanup.policy': 'compact' } },
+        { topic: 'user-events', numPartitions: 3, configs: { 'retention.ms': '604800000' } },
+      ],
+      'kafka.topics.replicationFactor': 1,
+    };
+    admin = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      listTopics: jest.fn(async () => Array.from(topics.keys())),
+      createTopics: jest.fn(async ({ topics: [spec] }) => {
+        if (topics.has(spec.topic)) {
+          return false;
+        }
+        topics.set(spec.topic, {
+          partitions: spec.numPartitions,
+          replicationFactor: spec.replicationFactor,
+          configs: Object.fromEntries(spec.configEntries.map(({ name, value }) => [name, value])),
+        });
+        return true;
+      }),
+      deleteTopics: jest.fn(async ({ topics: names }) =>
+        names.forEach((name) => topics.delete(name)),
+      ),
+      createPartitions: jest.fn(async ({ topicPartitions: [{ topic, count }] }) => {
+        topics.get(topic).partitions = count;
+      }),
+      fetchTopicMetadata: jest.fn(async ({ topics: [name] }) => ({
+        topics: [
+          {
+            name,
+            partitions: Array.from({ length: topics.get(name).partitions }, (_, partitionId) => ({
+              partitionId,
+              leader: 1,
+              replicas: Array.from({ length: topics.get(name).replicationFactor }, (_, i) => i + 1),
+              isr: [1],
+            })).reverse(),
+          },
+        ],
+      })),
+      describeConfigs: jest.fn(async ({ resources: [{ name }] }) => ({
+        resources: [
+          {
+            resourceName: name,
+            configEntries: [
+              ...Object.entries(topics.get(name).configs).map(([configName, configValue]) => ({
+                configName,
+                configValue,
+                configSource: ConfigSource.TOPIC_CONFIG,
+              })),
+              {
+                configName: 'segment.bytes',
+                configValue: '1073741824',
+                configSource: ConfigSource.DEFAULT_CONFIG,
+              },
+            ],
+          },
+        ],
+      })),
+      alterConfigs: jest.fn(async ({ resources: [{ name, configEntries }] }) => {
+        topics.get(name).configs = Object.fromEntries(
+          configEntries.map(({ name: key, value }) => [key, value]),
+        );
+      }),
+    };
+    service = createService();
+  });
+
+  it('should create a topic with partitions, replication factor and configs', async () => {
+    const created = await service.createTopic({
+      topic: 'audit-events',
+      numPartitions: 4,
+      replicationFactor: 3,
+      configs: { 'retention.ms': '86400000', 'cleanup.policy': 'delete' },
+    });
+
+    expect(created).toBe(true);
+    expect(admin.createTopics).toHaveBeenCalledWith({
+      waitForLeaders: true,
+      topics: [
+        {
+          topic: 'audit-events',
+          numPartitions: 4,
+          replicationFactor: 3,
+          configEntries: [
+            { name: 'retention.ms', value: '86400000' },
+            { name: 'cleanup.policy', value: 'delete' },
+          ],
+        },
+      ],
+    });
+    expect(await service.createTopic({ topic: 'audit-events' })).toBe(false);
+  });
+
+  it('should describe partitions, replicas and topic-level configs', async () => {
+    expect(await service.describeTopic('call-events')).toEqual({
+      topic: 'call-events',
+      partitions: [
+        { partition: 0, leader: 1, replicas: [1], isr: [1] },
+        { partition: 1, leader: 1, replicas: [1], isr: [1] },
+      ],
+      replicationFactor: 1,
+      configs: { 'retention.ms': '1000' },
+    });
+    expect(admin.describeConfigs).toHaveBeenCalledWith({
+      resources: [{ type: ConfigResourceTypes.TOPIC, name: 'call-events' }],
+      includeSynonyms: false,
+    });
+  });
+
+  it('should not look up or delete unknown topics', async () => {
+    await expect(service.describeTopic('missing')).rejects.toThrow(TopicNotFoundError);
+    await expect(service.deleteTopic('missing')).rejects.toThrow(TopicNotFoundError);
+    expect(admin.fetchTopicMetadata).not.toHaveBeenCalled();
+    expect(admin.deleteTopics).not.toHaveBeenCalled();
+
+    await service.deleteTopic('call-events');
+    expect(topics.has('call-events')).toBe(false);
+  });
+
+  it('should only increase partitions', async () => {
+    const description = await service.increasePartitions('call-events', 4);
+    expect(description.partitions).toHaveLength(4);
+
+    await expect(service.increasePartitions('call-events', 4)).rejects.toThrow(
+      InvalidTopicOperationError,
+    );
+    await expect(service.increasePartitions('call-events', 1)).rejects.toThrow(
+      'Topic call-events has 4 partitions; the new count must be larger, got 1',
+    );
+  });
+
+  it('should report broker rejections as invalid operations', async () => {
+    admin.createTopics.mockRejectedValue(
+      Object.assign(new Error('Replication factor: 3 larger than available brokers: 1'), {
+        type: 'INVALID_REPLICATION_FACTOR',
+      }),
+    );
+
+    await expect(
+      service.createTopic({ topic: 'audit-events', replicationFactor: 3 }),
+    ).rejects.toThrow(InvalidTopicOperationError);
+    await expect(service.createTopic({ topic: 'bad topic!' })).rejects.toThrow(
+      'Invalid topic name: bad topic!',
+    );
+  });
+
+  it('should reconcile the manifest with the cluster', async () => {
+    const result = await service.reconcile(service.getManifest());
+
+    expect(result).toEqual({
+      created: ['user-events'],
+      partitionsIncreased: [{ topic: 'call-events', from: 2, to: 6 }],
+      configsUpdated: ['call-events'],
+      unchanged: [],
+      warnings: [],
+    });
+    expect(topics.get('user-events')).toEqual({
+      partitions: 3,
+      replicationFactor: 1,
+      configs: { 'retention.ms': '604800000' },
+    });
+    // Existing overrides survive, since AlterConfigs replaces the whole set
+    expect(topics.get('call-events').configs).toEqual({
+      'retention.ms': '1000',
+      'cleanup.policy': 'compact',
+    });
+
+    const again = await service.reconcile(service.getManifest());
+    expect(again.unchanged).toEqual(['call-events', 'user-events']);
+    expect(admin.alterConfigs).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only warn about differences that cannot be applied in place', async () => {
+    const result = await service.reconcile([
+      { topic: 'call-events', numPartitions: 1, replicationFactor: 3 },
+    ]);
+
+    expect(result.unchanged).toEqual(['call-events']);
+    expect(result.warnings).toEqual([
+      'Topic call-events has 2 partitions, more than the 1 declared',
+      'Topic call-events has replication factor 1, not the 3 declared',
+    ]);
+    expect(admin.createPartitions).not.toHaveBeenCalled();
+  });
+
+  it('should reconcile the manifest once at startup', async () => {
+    await Promise.all([service.onModuleInit(), service.ensureManifestTopics()]);
+
+    expect(admin.createTopics).toHaveBeenCalledTimes(1);
+    expect(topics.has('user-events')).toBe(true);
+  });
+
+  it('should not fail startup when the manifest cannot be applied', async () => {
+    admin.connect.mockRejectedValue(new Error('Connection timeout'));
+
+    await expect(service.ensureManifestTopics()).resolves.toBeUndefined();
+  });
+
+  it('should skip reconciliation when disabled', async () => {
+    config['kafka.topics.reconcile'] = false;
+    service = createService();
+
+    await service.ensureManifestTopics();
+
+    expect(admin.connect).not.toHaveBeenCalled();
+  });
+
+  it('should fail without a Kafka client', async () => {
+    (service as any).kafka = null;
+
+    await expect(service.listTopics()).rejects.toThrow(KafkaUnavailableError);
+    await expect(service.ensureManifestTopics()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,351 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConfigResourceTypes, ConfigSource } from 'kafkajs';
+import {
+  TopicDescription,
+  TopicReconcileResult,
+  TopicSpec,
+} from '../interfaces/topic-admin.interface';
+import {
+  KAFKA_TRANSPORT,
+  KafkaTransport,
+  TransportAdmin,
+} from '../interfaces/kafka-transport.interface';
+import { WithLock } from '../../locks/with-lock.decorator';
+
+/** Legal Kafka topic names */
+const TOPIC_NAME = /^[a-zA-Z0-9._-]{1,249}$/;
+
+export class KafkaUnavailableError extends Error {
+  constructor() {
+    super('Kafka is not available');
+    this.name = 'KafkaUnavailableError';
+  }
+}
+
+export class TopicNotFoundError extends Error {
+  constructor(topic: string) {
+    super(`Topic ${topic} does not exist`);
+    this.name = 'TopicNotFoundError';
+  }
+}
+
+/** A topic operation the broker rejected, or that cannot be applied to the topic */
+export class InvalidTopicOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTopicOperationError';
+  }
+}
+
+/**
+ * Topic administration on top of the Kafka admin client: creating, describing and deleting
+ * topics, adding partitions and reconciling the declarative topic manifest from
+ * `kafka.topics`, which runs once at startup, in the background, before the consumers
+ * subscribe.
+ */
+@Injectable()
+export class KafkaAdminService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KafkaAdminService.name);
+  private readonly kafka: KafkaTransport | null;
+  private admin: TransportAdmin | null = null;
+  private manifestReconciled: Promise<void> | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() @Inject(KAFKA_TRANSPORT) transport?: KafkaTransport | null,
+  ) {
+    this.kafka = transport ?? null;
+  }
+
+  // Not awaited: reconciling may wait for another replica's run, which must not hold up boot
+  onModuleInit() {
+    void this.ensureManifestTopics();
+  }
+
+  async onModuleDestroy() {
+    await this.admin?.disconnect().catch(() => undefined);
+    this.admin = null;
+  }
+
+  /**
+   * Reconciles the configured topic manifest once; later calls wait for the same run. Never
+   * rejects, so a broker that is down at boot does not keep the service from starting.
+   */
+  ensureManifestTopics(): Promise<void> {
+    if (!this.manifestReconciled) {
+      this.manifestReconciled = this.reconcileManifest();
+    }
+    return this.manifestReconciled;
+  }
+
+  // Replicas starting together reconcile one after the other
+  @WithLock('kafka:topic-manifest', { waitMs: 60000 })
+  private async reconcileManifest(): Promise<void> {
+    if (!this.kafka) {
+      return;
+    }
+    if (!this.configService.get('kafka.topics.reconcile', true)) {
+      this.logger.log('Topic manifest reconciliation disabled');
+      return;
+    }
+
+    try {
+      const result = await this.reconcile(this.getManifest());
+      result.warnings.forEach((warning) => this.logger.warn(warning));
+      this.logger.log(
+        `Topic manifest reconciled: ${result.created.length} created, ` +
+          `${result.partitionsIncreased.length} repartitioned, ` +
+          `${result.configsUpdated.length} reconfigured, ${result.unchanged.length} unchanged`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to reconcile topic manifest: ${error.message}`);
+    }
+  }
+
+  /** The configured manifest, with the default replication factor applied */
+  getManifest(): TopicSpec[] {
+    const replicationFactor = this.configService.get('kafka.topics.replicationFactor');
+    return this.configService
+      .get<TopicSpec[]>('kafka.topics.manifest', [])
+      .map((spec) => ({ replicationFactor, ...spec }));
+  }
+
+  async listTopics(): Promise<string[]> {
+    const admin = await this.getAdmin();
+    return (await admin.listTopics()).sort();
+  }
+
+  /** Creates a topic; false when it already exists */
+  async createTopic(spec: TopicSpec): Promise<boolean> {
+    this.validate(spec);
+    const admin = await this.getAdmin();
+
+    const created = await this.rejectInvalid(() =>
+      admin.createTopics({
+        waitForLeaders: true,
+        topics: [
+          {
+            topic: spec.topic,
+            numPartitions: spec.numPartitions ?? -1,
+            replicationFactor: spec.replicationFactor ?? -1,
+            configEntries: Object.entries(spec.configs ?? {}).map(([name, value]) => ({
+              name,
+              value,
+            })),
+          },
+        ],
+      }),
+    );
+
+    if (created) {
+      this.logger.log(`Created topic ${spec.topic}`);
+    }
+    return created;
+  }
+
+  async deleteTopic(topic: string): Promise<void> {
+    const admin = await this.getAdmin();
+    await this.assertExists(admin, topic);
+
+    await admin.deleteTopics({ topics: [topic] });
+    this.logger.log(`Deleted topic ${topic}`);
+  }
+
+  async describeTopic(topic: string): Promise<TopicDescription> {
+    const admin = await this.getAdmin();
+    // Metadata requests for unknown topics may auto-create them, so check first
+    await this.assertExists(admin, topic);
+
+    const {
+      topics: [metadata],
+    } = await admin.fetchTopicMetadata({ topics: [topic] });
+    const {
+      resources: [resource],
+    } = await admin.describeConfigs({
+      resources: [{ type: ConfigResourceTypes.TOPIC, name: topic }],
+      includeSynonyms: false,
+    });
+
+    const partitions = metadata.partitions
+      .map(({ partitionId, leader, replicas, isr }) => ({
+        partition: partitionId,
+        leader,
+        replicas,
+        isr,
+      }))
+      .sort((a, b) => a.partition - b.partition);
+
+    return {
+      topic,
+      partitions,
+      replicationFactor: partitions[0]?.replicas.length ?? 0,
+      configs: Object.fromEntries(
+        resource.configEntries
+          .filter(({ configSource }) => configSource === ConfigSource.TOPIC_CONFIG)
+          .map(({ configName, configValue }) => [configName, configValue]),
+      ),
+    };
+  }
+
+  /** Grows a topic to `count` partitions; Kafka cannot remove partitions */
+  async increasePartitions(topic: string, count: number): Promise<TopicDescription> {
+    const current = await this.describeTopic(topic);
+    if (!Number.isInteger(count) || count <= current.partitions.length) {
+      throw new InvalidTopicOperationError(
+        `Topic ${topic} has ${current.partitions.length} partitions; ` +
+          `the new count must be larger, got ${count}`,
+      );
+    }
+
+    const admin = await this.getAdmin();
+    await this.rejectInvalid(() => admin.createPartitions({ topicPartitions: [{ topic, count }] }));
+    this.logger.log(
+      `Increased partitions of ${topic} from ${current.partitions.length} to ${count}`,
+    );
+
+    return this.describeTopic(topic);
+  }
+
+  /**
+   * Brings existing topics in line with the specs: creates missing topics, adds partitions
+   * and sets configs. Fewer partitions or a different replication factor than a topic has
+   * cannot be applied in place and are only reported as warnings.
+   */
+  async reconcile(specs: TopicSpec[]): Promise<TopicReconcileResult> {
+    specs.forEach((spec) => this.validate(spec));
+    const admin = await this.getAdmin();
+    const existing = new Set(await admin.listTopics());
+    const result: TopicReconcileResult = {
+      created: [],
+      partitionsIncreased: [],
+      configsUpdated: [],
+      unchanged: [],
+      warnings: [],
+    };
+
+    for (const spec of specs) {
+      if (!existing.has(spec.topic)) {
+        if (await this.createTopic(spec)) {
+          result.created.push(spec.topic);
+        } else {
+          result.unchanged.push(spec.topic);
+        }
+        continue;
+      }
+
+      const current = await this.describeTopic(spec.topic);
+      let changed = false;
+
+      const partitions = current.partitions.length;
+      if (spec.numPartitions > partitions) {
+        await this.rejectInvalid(() =>
+          admin.createPartitions({
+            topicPartitions: [{ topic: spec.topic, count: spec.numPartitions }],
+          }),
+        );
+        result.partitionsIncreased.push({
+          topic: spec.topic,
+          from: partitions,
+          to: spec.numPartitions,
+        });
+        changed = true;
+      } else if (spec.numPartitions < partitions) {
+        result.warnings.push(
+          `Topic ${spec.topic} has ${partitions} partitions, more than the ${spec.numPartitions} declared`,
+        );
+      }
+
+      if (spec.replicationFactor > 0 && spec.replicationFactor !== current.replicationFactor) {
+        result.warnings.push(
+          `Topic ${spec.topic} has replication factor ${current.replicationFactor}, ` +
+            `not the ${spec.replicationFactor} declared`,
+        );
+      }
+
+      const drifted = Object.entries(spec.configs ?? {}).some(
+        ([name, value]) => current.configs[name] !== value,
+      );
+      if (drifted) {
+        // AlterConfigs replaces the topic's whole config set, so keep the other overrides
+        const configs = { ...current.configs, ...spec.configs };
+        await this.rejectInvalid(() =>
+          admin.alterConfigs({
+            validateOnly: false,
+            resources: [
+              {
+                type: ConfigResourceTypes.TOPIC,
+                name: spec.topic,
+                configEntries: Object.entries(configs).map(([name, value]) => ({ name, value })),
+              },
+            ],
+          }),
+        );
+        result.configsUpdated.push(spec.topic);
+        changed = true;
+      }
+
+      if (!changed) {
+        result.unchanged.push(spec.topic);
+      }
+    }
+
+    return result;
+  }
+
+  private validate(spec: TopicSpec): void {
+    if (!TOPIC_NAME.test(spec.topic ?? '')) {
+      throw new InvalidTopicOperationError(`Invalid topic name: ${spec.topic}`);
+    }
+    for (const [field, value] of [
+      ['numPartitions', spec.numPartitions],
+      ['replicationFactor', spec.replicationFactor],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new InvalidTopicOperationError(
+          `${field} of ${spec.topic} must be a positive integer`,
+        );
+      }
+    }
+  }
+
+  private async assertExists(admin: TransportAdmin, topic: string): Promise<void> {
+    if (!(await admin.listTopics()).includes(topic)) {
+      throw new TopicNotFoundError(topic);
+    }
+  }
+
+  /** Surfaces broker rejections such as an invalid config or replication factor as such */
+  private async rejectInvalid<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      const types = [error.type, ...(error.errors ?? []).map((e: any) => e.type)];
+      if (types.some((type) => /^(INVALID_|POLICY_VIOLATION)/.test(type ?? ''))) {
+        throw new InvalidTopicOperationError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async getAdmin(): Promise<TransportAdmin> {
+    if (this.admin) {
+      return this.admin;
+    }
+    if (!this.kafka) {
+      throw new KafkaUnavailableError();
+    }
+
+    const admin = this.kafka.admin();
+    await admin.connect();
+    this.admin = admin;
+    return admin;
+  }
+}
@@ -1,7 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
-import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaConsumerService, TopicNotSubscribedError } from './kafka-consumer.service';
 import { EventStorageService } from './event-storage.service';
+import { KafkaHandlerRegistry } from './kafka-handler-registry.service';
+import { EventValidationError } from '../contracts/event-contract';
+import { FakeKafkaBroker } from '../../../test/fake-kafka-broker';
 
 jest.mock('kafkajs', () => ({
   Kafka: jest.fn().mockImplementation(() => ({
@@ -26,9 +29,9 @@ describe('KafkaConsumerService', () => {
           useValue: {
             get: jest.fn().mockImplementation((key: string, defaultValue?: any) => {
               const config: Record<string, any> = {
-                KAFKA_CLIENT_ID: 'test-client',
-                KAFKA_BROKER: 'localhost:9092',
-                KAFKA_CONSUMER_GROUP: 'test-group',
+                'kafka.clientId': 'test-client',
+                'kafka.brokers': ['localhost:9092'],
+                'kafka.groupId': 'test-group',
               };
               return config[key] || defaultValue;
             }),
@@ -78,4 +81,322 @@ describe('KafkaConsumerService', () => {
       expect(subscribedTopics).toEqual(expect.arrayContaining(topics));
     });
   });
+
+  describe('runtime subscriptions', () => {
+    let consumers: Array<Record<string, jest.Mock>>;
+
+    beforeEach(async () => {
+      consumers = [];
+      (service as any).kafka = {
+        consumer: jest.fn(() => {
+          const consumer = {
+            connect: jest.fn().mockResolvedValue(undefined),
+            disconnect: jest.fn().mockResolvedValue(undefined),
+            subscribe: jest.fn().mockResolvedValue(undefined),
+            run: jest.fn().mockResolvedValue(undefined),
+            pause: jest.fn(),
+            resume: jest.fn(),
+          };
+          consumers.push(consumer);
+          return consumer;
+        }),
+      };
+
+      await service.subscribeToTopic('user-events');
+      // What onModuleInit does with a broker
+      await (service as any).startConsumer('test-group');
+      (service as any).started = true;
+    });
+
+    const subscribedTopicsOf = (consumer: Record<string, jest.Mock>) =>
+      consumer.subscribe.mock.calls.map(([{ topic }]) => topic);
+
+    it('should report topics as stopped until the consumer runs', async () => {
+      const idle = new KafkaConsumerService({
+        get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+      } as unknown as ConfigService);
+      await idle.subscribeToTopic('user-events');
+
+      expect(idle.getSubscriptions()).toEqual([
+        { topic: 'user-events', groupId: 'core-pipeline-group', status: 'stopped' },
+      ]);
+    });
+
+    it('should restart the running consumer to add a subscription', async () => {
+      await service.subscribeToTopic('audit-events', { fromBeginning: true });
+
+      expect(consumers).toHaveLength(2);
+      expect(consumers[0].disconnect).toHaveBeenCalled();
+      expect(subscribedTopicsOf(consumers[1])).toEqual(['user-events', 'audit-events']);
+      expect(consumers[1].subscribe).toHaveBeenCalledWith({
+        topic: 'audit-events',
+        fromBeginning: true,
+      });
+      expect(consumers[1].run).toHaveBeenCalled();
+      expect(service.getSubscriptions()).toEqual([
+        { topic: 'user-events', groupId: 'test-group', status: 'active' },
+        { topic: 'audit-events', groupId: 'test-group', status: 'active' },
+      ]);
+    });
+
+    it('should keep the previous subscriptions when the restart fails', async () => {
+      (service as any).kafka.consumer.mockImplementationOnce(() => ({
+        connect: jest.fn().mockRejectedValue(new Error('Connection timeout')),
+      }));
+
+      await expect(service.subscribeToTopic('audit-events')).rejects.toThrow('Connection timeout');
+
+      expect(service.getSubscribedTopics()).toEqual(['user-events']);
+    });
+
+    it('should restart without the topic when unsubscribing', async () => {
+      await service.subscribeToTopic('audit-events');
+      await service.unsubscribeFromTopic('user-events');
+
+      expect(consumers[1].disconnect).toHaveBeenCalled();
+      expect(subscribedTopicsOf(consumers[2])).toEqual(['audit-events']);
+      expect(service.getSubscribedTopics()).toEqual(['audit-events']);
+
+      await service.unsubscribeFromTopic('audit-events');
+      // Nothing left to read: the consumer stays stopped
+      expect(consumers).toHaveLength(3);
+      expect(service.getSubscribedTopics()).toEqual([]);
+      await expect(service.unsubscribeFromTopic('audit-events')).rejects.toThrow(
+        TopicNotSubscribedError,
+      );
+    });
+
+    it('should pause and resume a topic across restarts', async () => {
+      await service.pauseTopic('user-events');
+
+      expect(consumers[0].pause).toHaveBeenCalledWith([{ topic: 'user-events' }]);
+      expect(service.getSubscriptions()[0].status).toBe('paused');
+
+      await service.subscribeToTopic('audit-events');
+      expect(consumers[1].pause).toHaveBeenCalledWith([{ topic: 'user-events' }]);
+      expect(service.getSubscriptions().map(({ status }) => status)).toEqual(['paused', 'active']);
+
+      await service.resumeTopic('user-events');
+      expect(consumers[1].resume).toHaveBeenCalledWith([{ topic: 'user-events' }]);
+      expect(service.getSubscriptions()[0].status).toBe('active');
+
+      await expect(service.pauseTopic('unknown-topic')).rejects.toThrow(TopicNotSubscribedError);
+    });
+  });
+
+  describe('processing', () => {
+    it('should run handlers per key in order and commit only processed offsets', async () => {
+      const run = jest.fn().mockResolvedValue(undefined);
+      (service as any).kafka = {
+        consumer: () => ({
+          connect: jest.fn().mockResolvedValue(undefined),
+          subscribe: jest.fn().mockResolvedValue(undefined),
+          run,
+        }),
+      };
+      const registry = new KafkaHandlerRegistry();
+      const handled: string[] = [];
+      registry.register(
+        'order-events',
+        async (value: { orderId: string; step: number }) => {
+          // Earlier steps take longer, so only the per-key ordering keeps them in sequence
+          await new Promise((resolve) => setTimeout(resolve, 10 - value.step * 3));
+          handled.push(`${value.orderId}:${value.step}`);
+        },
+        { concurrency: 2, workers: 4 },
+      );
+      (service as any).handlerRegistry = registry;
+
+      await service.subscribeToTopic('order-events');
+      await (service as any).startConsumer('test-group');
+
+      const [{ eachBatch, eachBatchAutoResolve, partitionsConsumedConcurrently }] =
+        run.mock.calls[0];
+      expect(eachBatchAutoResolve).toBe(false);
+      expect(partitionsConsumedConcurrently).toBe(2);
+
+      const broker = new FakeKafkaBroker('order-events');
+      for (const step of [0, 1, 2]) {
+        broker.produce(0, 'order-1', { orderId: 'order-1', step });
+        broker.produce(0, 'order-2', { orderId: 'order-2', step });
+        broker.produce(1, 'order-3', { orderId: 'order-3', step });
+      }
+      await broker.consume(eachBatch, { partitionsConsumedConcurrently });
+
+      for (const orderId of ['order-1', 'order-2', 'order-3']) {
+        expect(handled.filter((h) => h.startsWith(orderId))).toEqual([
+          `${orderId}:0`,
+          `${orderId}:1`,
+          `${orderId}:2`,
+        ]);
+      }
+      expect(broker.committed.get(0)).toBe(6);
+      expect(broker.committed.get(1)).toBe(3);
+    });
+  });
+
+  describe('registerPipeline', () => {
+    it('should produce the transformed message and commit the input offset in one transaction', async () => {
+      const tx = {
+        send: jest.fn().mockResolvedValue({ success: true }),
+        sendOffsets: jest.fn().mockResolvedValue(undefined),
+      };
+      const producer = {
+        isTransactional: jest.fn().mockReturnValue(true),
+        transaction: jest.fn().mockImplementation(async (work) => work(tx)),
+      };
+      (service as any).kafkaProducer = producer;
+
+      await service.registerPipeline({
+        from: 'order-events',
+        to: 'order-events-enriched',
+        transform: (value) => ({ ...value, enriched: true }),
+      });
+
+      await (service as any).handleMessage({
+        topic: 'order-events',
+        partition: 3,
+        message: {
+          key: Buffer.from('call-1'),
+          value: Buffer.from(JSON.stringify({ callerId: 'a' })),
+          offset: '41',
+          headers: {},
+        },
+      });
+
+      expect(service.getSubscribedTopics()).toContain('order-events');
+      expect(tx.send).toHaveBeenCalledWith(
+        'order-events-enriched',
+        { callerId: 'a', enriched: true },
+        'call-1',
+        {},
+      );
+      expect(tx.sendOffsets).toHaveBeenCalledWith('test-group', [
+        { topic: 'order-events', partitions: [{ partition: 3, offset: '42' }] },
+      ]);
+    });
+  });
+
+  describe('failure routing', () => {
+    let deadLetters: { handleFailure: jest.Mock; originalTopicOf: jest.Mock; notBefore: jest.Mock };
+
+    beforeEach(() => {
+      deadLetters = {
+        handleFailure: jest.fn().mockResolvedValue(undefined),
+        originalTopicOf: jest.fn(
+          (topic: string, headers: Record<string, string>) => headers['x-original-topic'] ?? topic,
+        ),
+        notBefore: jest.fn().mockReturnValue(undefined),
+      };
+      (service as any).deadLetters = deadLetters;
+    });
+
+    it('should dead-letter undecodable messages without retrying', async () => {
+      await (service as any).handleMessage({
+        topic: 'user-events',
+        partition: 0,
+        message: { key: null, value: Buffer.from('{not json'), offset: '7', headers: {} },
+      });
+
+      expect(deadLetters.handleFailure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          topic: 'user-events',
+          offset: '7',
+          value: Buffer.from('{not json'),
+          retryable: false,
+        }),
+      );
+    });
+
+    it('should reject call events that break the contract without retrying', async () => {
+      await (service as any).handleMessage({
+        topic: 'call-events',
+        partition: 0,
+        message: {
+          key: null,
+          value: Buffer.from(JSON.stringify({ eventType: 'CallEnded', schemaVersion: 1 })),
+          offset: '9',
+          headers: {},
+        },
+      });
+
+      const [failed] = deadLetters.handleFailure.mock.calls[0];
+      expect(failed.retryable).toBe(false);
+      expect(failed.error).toBeInstanceOf(EventValidationError);
+      expect(failed.error.reasons.map((reason) => reason.path)).toEqual(['callId', 'duration']);
+    });
+
+    it('should route processing errors to the retry policy', async () => {
+      const registry = new KafkaHandlerRegistry();
+      registry.register('call-events', () => {
+        throw new Error('database unavailable');
+      });
+      (service as any).handlerRegistry = registry;
+
+      await (service as any).handleMessage({
+        topic: 'call-events.retry.1',
+        partition: 0,
+        message: {
+          key: Buffer.from('call-1'),
+          value: Buffer.from(JSON.stringify({ callerId: 'a', recipientId: 'b' })),
+          offset: '3',
+          headers: { 'x-original-topic': Buffer.from('call-events') },
+        },
+      });
+
+      expect(deadLetters.handleFailure).toHaveBeenCalledWith(
+        expect.objectContaining({
+          topic: 'call-events.retry.1',
+          key: 'call-1',
+          retryable: true,
+          error: expect.objectContaining({ message: 'database unavailable' }),
+        }),
+      );
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should pass the decoded message to handlers of every consumer group', async () => {
+      const registry = new KafkaHandlerRegistry();
+      const audit = jest.fn();
+      const billing = jest.fn();
+      registry.register('order-events', audit);
+      registry.register('order-events', billing, { groupId: 'billing' });
+      registry.register('user-events', jest.fn());
+      (service as any).handlerRegistry = registry;
+
+      await service.redeliver(
+        {
+          topic: 'order-events',
+          partition: 1,
+          message: {
+            key: Buffer.from('order-1'),
+            value: Buffer.from('{"n":1}'),
+            offset: '5',
+            headers: { correlationId: Buffer.from('abc') },
+          } as any,
+        },
+        { 'x-replay-job': 'job-1' },
+      );
+
+      const context = { topic: 'order-events', partition: 1, offset: '5', key: 'order-1' };
+      const headers = { correlationId: 'abc', 'x-replay-job': 'job-1' };
+      expect(audit).toHaveBeenCalledWith({ n: 1 }, headers, context);
+      expect(billing).toHaveBeenCalledWith({ n: 1 }, headers, context);
+    });
+
+    it('should throw for messages that break their event contract', async () => {
+      await expect(
+        service.redeliver({
+          topic: 'call-events',
+          partition: 0,
+          message: {
+            key: null,
+            value: Buffer.from('{"eventType":"CallEnded"}'),
+            offset: '1',
+          } as any,
+        }),
+      ).rejects.toBeInstanceOf(EventValidationError);
+    });
+  });
 });
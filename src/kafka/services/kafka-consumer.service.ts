@@ -1,114 +1,399 @@
-import { Injectable, OnModuleInit, Logger, Optional } from '@nestjs/common';
-import { Kafka, Consumer, EachMessagePayload } from 'kafkajs';
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { EachBatchPayload, EachMessagePayload } from 'kafkajs';
 import { ConfigService } from '@nestjs/config';
 import { EventStorageService } from './event-storage.service';
-import { CallRepository } from '../../repositories/call.repository';
-import { RedisService } from './redis.service';
+import { KafkaProducerService } from './kafka-producer.service';
+import { SerializerRegistryService } from './serializer-registry.service';
+import { DeadLetterService, RETRY_HEADERS } from './dead-letter.service';
+import { KafkaHandlerRegistry } from './kafka-handler-registry.service';
+import { KafkaAdminService } from './kafka-admin.service';
+import { PartitionWorkerPool } from './partition-worker-pool';
+import { KafkaMessageContext, RegisteredKafkaHandler } from '../interfaces/kafka-handler.interface';
+import { TopicSubscription } from '../interfaces/topic-subscription.interface';
+import {
+  KAFKA_TRANSPORT,
+  KafkaTransport,
+  TransportConsumer,
+} from '../interfaces/kafka-transport.interface';
+import { JsonSerializer } from '../serialization/json.serializer';
+import { validateEvent } from '../contracts/event-contracts';
+import { EventValidationError } from '../contracts/event-contract';
 import { randomUUID } from 'crypto';
 
+/**
+ * A consume-transform-produce step: messages read from `from` are transformed and
+ * written to `to`. Returning `undefined` from `transform` drops the message.
+ */
+export interface TransformPipeline {
+  from: string;
+  to: string;
+  transform: (value: any, headers: Record<string, string>) => any | Promise<any>;
+}
+
+/** Thrown when pausing, resuming or unsubscribing a topic no consumer group reads */
+export class TopicNotSubscribedError extends Error {
+  constructor(topic: string) {
+    super(`Not subscribed to topic ${topic}`);
+    this.name = 'TopicNotSubscribedError';
+  }
+}
+
 @Injectable()
-export class KafkaConsumerService implements OnModuleInit {
+export class KafkaConsumerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(KafkaConsumerService.name);
-  private kafka: Kafka;
-  private consumer: Consumer;
-  private readonly subscribedTopics: Set<string> = new Set();
+  private readonly kafka: KafkaTransport | null;
+  // One consumer per consumer group; the service's own group plus groups declared by handlers
+  private readonly consumers: Map<string, TransportConsumer> = new Map();
+  // Topics each group reads, with their fromBeginning option
+  private readonly subscriptions: Map<string, Map<string, boolean>> = new Map();
+  private readonly pausedTopics: Set<string> = new Set();
+  // Groups whose consumer is running; subscriptions of a running consumer cannot change
+  private readonly running: Set<string> = new Set();
+  private readonly pipelines: Map<string, TransformPipeline> = new Map();
+  private readonly groupId: string;
+  private readonly jsonSerializer = new JsonSerializer();
+  private started = false;
+  private stopping = false;
+  // Serializes consumer restarts and pauses so they never interleave
+  private changes: Promise<void> = Promise.resolve();
 
   constructor(
     private readonly configService: ConfigService,
     @Optional() private readonly eventStorage?: EventStorageService,
-    @Optional() private readonly callRepository?: CallRepository,
-    @Optional() private readonly redisService?: RedisService,
+    @Optional() private readonly kafkaProducer?: KafkaProducerService,
+    @Optional() private readonly serializers?: SerializerRegistryService,
+    @Optional() private readonly deadLetters?: DeadLetterService,
+    @Optional() private readonly handlerRegistry?: KafkaHandlerRegistry,
+    @Optional() private readonly topicAdmin?: KafkaAdminService,
+    @Optional() @Inject(KAFKA_TRANSPORT) transport?: KafkaTransport | null,
   ) {
-    // Only initialize Kafka if not in test environment
-    if (process.env.NODE_ENV !== 'test') {
-      try {
-        this.kafka = new Kafka({
-          clientId: this.configService.get('KAFKA_CLIENT_ID', 'core-pipeline'),
-          brokers: [this.configService.get('KAFKA_BROKER', 'localhost:9092')],
-          retry: {
-            retries: 3,
-            initialRetryTime: 100,
-            maxRetryTime: 1000,
-          },
-        });
+    this.groupId = this.configService.get('kafka.groupId', 'core-pipeline-group');
 
-        this.consumer = this.kafka.consumer({
-          groupId: this.configService.get('KAFKA_CONSUMER_GROUP', 'core-pipeline-group'),
-        });
-      } catch (error) {
-        this.logger.warn(`Failed to initialize Kafka: ${error.message}`);
-        this.kafka = null;
-        this.consumer = null;
-      }
+    // Without a transport (e.g. a service created outside KafkaModule) there is no broker
+    this.kafka = transport ?? null;
+    if (this.kafka) {
+      this.consumers.set(this.groupId, this.kafka.consumer({ groupId: this.groupId }));
     }
   }
 
   async onModuleInit() {
-    // Skip Kafka initialization in test environment
-    if (process.env.NODE_ENV === 'test') {
-      this.logger.log('Skipping Kafka initialization in test environment');
-      return;
+    // Handlers are discovered even without a broker so dispatch works in tests
+    const handlers = this.handlerRegistry?.discover() ?? [];
+    for (const handler of handlers) {
+      this.addSubscription(handler.groupId ?? this.groupId, handler.topic, handler.fromBeginning);
     }
 
-    if (!this.consumer) {
+    const consumer = this.consumers.get(this.groupId);
+    if (!consumer) {
       this.logger.warn('Kafka consumer not available - running without Kafka support');
       return;
     }
 
-    try {
-      await Promise.race([
-        this.consumer.connect(),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Kafka connection timeout')), 5000),
-        ),
-      ]);
-      this.logger.log('Kafka consumer connected');
+    // In the background, as the manifest may be waiting for another replica to reconcile it
+    void this.start(consumer);
+  }
 
-      const defaultTopics = ['user-events', 'system-events', 'showcase-events', 'call-events'];
-      for (const topic of defaultTopics) {
-        await this.subscribeToTopic(topic);
+  private async start(consumer: TransportConsumer): Promise<void> {
+    // Subscribe only once the manifest topics exist with their declared partitions
+    await this.topicAdmin?.ensureManifestTopics();
+
+    await this.serialize(async () => {
+      if (this.stopping) {
+        return;
       }
+      try {
+        let timer: NodeJS.Timeout;
+        await Promise.race([
+          consumer.connect(),
+          new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error('Kafka connection timeout')), 5000);
+          }),
+        ]).finally(() => clearTimeout(timer));
+        this.logger.log('Kafka consumer connected');
+
+        for (const groupId of this.subscriptions.keys()) {
+          await this.startConsumer(groupId);
+        }
+        this.started = true;
+      } catch (error) {
+        this.logger.error('Failed to initialize Kafka consumer', error);
+      }
+    });
+  }
 
-      await this.consumer.run({
-        eachMessage: async (payload: EachMessagePayload) => {
-          await this.handleMessage(payload);
-        },
-      });
-    } catch (error) {
-      this.logger.error('Failed to initialize Kafka consumer', error);
+  /** Stops every group's consumer, letting in-flight messages finish and commit */
+  async onModuleDestroy() {
+    this.stopping = true;
+    await this.serialize(async () => {
+      for (const [groupId, consumer] of this.consumers) {
+        this.running.delete(groupId);
+        await consumer.disconnect().catch((error) => {
+          this.logger.warn(`Failed to disconnect consumer group ${groupId}: ${error.message}`);
+        });
+      }
+    });
+  }
+
+  private groupHandlers(handlers: RegisteredKafkaHandler[]): Map<string, RegisteredKafkaHandler[]> {
+    const groups = new Map<string, RegisteredKafkaHandler[]>();
+    for (const handler of handlers) {
+      const groupId = handler.groupId ?? this.groupId;
+      if (!groups.has(groupId)) {
+        groups.set(groupId, []);
+      }
+      groups.get(groupId).push(handler);
     }
+    return groups;
+  }
+
+  private concurrencyOf(handlers: RegisteredKafkaHandler[] = []): number {
+    return Math.max(
+      this.configService.get('kafka.processing.partitionsConsumedConcurrently', 1),
+      ...handlers.map((handler) => handler.concurrency ?? 1),
+    );
+  }
+
+  private workersOf(handlers: RegisteredKafkaHandler[] = []): number {
+    return Math.max(
+      this.configService.get('kafka.processing.workersPerPartition', 1),
+      ...handlers.map((handler) => handler.workers ?? 1),
+    );
   }
 
-  async subscribeToTopic(topic: string): Promise<void> {
-    if (this.subscribedTopics.has(topic)) {
+  /**
+   * Subscribes a group's consumer to its topics and runs it, re-applying paused topics.
+   * A group without topics is left stopped.
+   */
+  private async startConsumer(groupId: string): Promise<void> {
+    const topics = this.subscriptions.get(groupId) ?? new Map<string, boolean>();
+    if (topics.size === 0) {
+      return;
+    }
+
+    let consumer = this.consumers.get(groupId);
+    if (!consumer) {
+      consumer = this.kafka.consumer({ groupId });
+      await consumer.connect();
+      this.consumers.set(groupId, consumer);
+    }
+
+    for (const [topic, fromBeginning] of topics) {
+      await consumer.subscribe({ topic, fromBeginning });
+    }
+
+    const handlers = this.groupHandlers(this.handlerRegistry?.getHandlers() ?? []).get(groupId);
+    const handle = (payload: EachMessagePayload) => this.handleMessage(payload, groupId);
+    const workers = new PartitionWorkerPool(this.workersOf(handlers), handle);
+    // Pipelines commit their input offset in a producer transaction, one message at a time
+    const sequential = new PartitionWorkerPool(1, handle);
+
+    await consumer.run({
+      partitionsConsumedConcurrently: this.concurrencyOf(handlers),
+      // Offsets are resolved by the worker pool once their messages are processed
+      eachBatchAutoResolve: false,
+      eachBatch: (payload: EachBatchPayload) =>
+        (this.pipelines.has(payload.batch.topic) ? sequential : workers).process(payload),
+    });
+    this.running.add(groupId);
+
+    const paused = Array.from(topics.keys()).filter((topic) => this.pausedTopics.has(topic));
+    if (paused.length > 0) {
+      consumer.pause(paused.map((topic) => ({ topic })));
+    }
+
+    this.logger.log(`Kafka consumer group ${groupId} started (${topics.size} topics)`);
+  }
+
+  /**
+   * kafkajs cannot change the topics of a running consumer, so the group's consumer is
+   * disconnected (finishing in-flight messages and committing their offsets) and a new one
+   * is started with the current subscriptions.
+   */
+  private async restartConsumer(groupId: string): Promise<void> {
+    const previous = this.consumers.get(groupId);
+    this.consumers.delete(groupId);
+    this.running.delete(groupId);
+    await previous?.disconnect();
+
+    await this.startConsumer(groupId);
+  }
+
+  private serialize(change: () => Promise<void>): Promise<void> {
+    const result = this.changes.then(change);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+
+  private retryTopicsOf(topic: string): string[] {
+    if (!this.deadLetters || topic.endsWith('.dlq')) {
+      return [];
+    }
+    return this.deadLetters.originalTopicOf(topic, {}) === topic
+      ? this.deadLetters.retryTopicsFor(topic)
+      : [];
+  }
+
+  /**
+   * Records a topic, and the retry topics failed messages come back through, for a group.
+   * Returns the topics that were added; none when the group already reads the topic.
+   */
+  private addSubscription(groupId: string, topic: string, fromBeginning = false): string[] {
+    if (!this.subscriptions.has(groupId)) {
+      this.subscriptions.set(groupId, new Map());
+    }
+    const topics = this.subscriptions.get(groupId);
+    if (topics.has(topic)) {
+      return [];
+    }
+
+    topics.set(topic, fromBeginning);
+    const added = [topic];
+    for (const retryTopic of this.retryTopicsOf(topic)) {
+      if (!topics.has(retryTopic)) {
+        topics.set(retryTopic, false);
+        added.push(retryTopic);
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Subscribes the service's consumer group to a topic. Once the consumer runs, it is
+   * restarted with the new subscription.
+   */
+  async subscribeToTopic(topic: string, options: { fromBeginning?: boolean } = {}): Promise<void> {
+    const added = this.addSubscription(this.groupId, topic, options.fromBeginning);
+    if (added.length === 0) {
       this.logger.log(`Already subscribed to topic: ${topic}`);
       return;
     }
 
-    if (!this.consumer) {
-      this.logger.warn('Cannot subscribe to topic: Kafka consumer not initialized');
-      this.subscribedTopics.add(topic); // Add to list for testing purposes
+    if (!this.started) {
+      // Subscribed when the consumer starts
       return;
     }
 
     try {
-      await this.consumer.subscribe({ topic, fromBeginning: false });
-      this.subscribedTopics.add(topic);
+      await this.serialize(() => this.restartConsumer(this.groupId));
       this.logger.log(`Subscribed to topic: ${topic}`);
     } catch (error) {
+      added.forEach((t) => this.subscriptions.get(this.groupId).delete(t));
       this.logger.error(`Failed to subscribe to topic: ${topic}`, error);
       throw error;
     }
   }
 
-  private async handleMessage({ topic, partition, message }: EachMessagePayload): Promise<void> {
+  /**
+   * Stops reading a topic and its retry topics in every consumer group, restarting the
+   * affected consumers. Messages not yet consumed stay on the topic.
+   */
+  async unsubscribeFromTopic(topic: string): Promise<void> {
+    const groups = this.groupsReading(topic);
+    if (groups.length === 0) {
+      throw new TopicNotSubscribedError(topic);
+    }
+
+    const removed = [topic, ...this.retryTopicsOf(topic)];
+    for (const groupId of groups) {
+      removed.forEach((t) => this.subscriptions.get(groupId).delete(t));
+    }
+    removed
+      .filter((t) => this.groupsReading(t).length === 0)
+      .forEach((t) => this.pausedTopics.delete(t));
+
+    if (this.started) {
+      for (const groupId of groups) {
+        await this.serialize(() => this.restartConsumer(groupId));
+      }
+    }
+    this.logger.log(`Unsubscribed from topic: ${topic}`);
+  }
+
+  /**
+   * Stops fetching a topic and its retry topics without leaving the group, e.g. while a
+   * downstream dependency is overloaded. Partitions stay assigned and offsets are kept.
+   */
+  async pauseTopic(topic: string): Promise<void> {
+    await this.setPaused(topic, true);
+    this.logger.log(`Paused topic: ${topic}`);
+  }
+
+  async resumeTopic(topic: string): Promise<void> {
+    await this.setPaused(topic, false);
+    this.logger.log(`Resumed topic: ${topic}`);
+  }
+
+  private async setPaused(topic: string, paused: boolean): Promise<void> {
+    if (this.groupsReading(topic).length === 0) {
+      throw new TopicNotSubscribedError(topic);
+    }
+
+    const topics = [topic, ...this.retryTopicsOf(topic)];
+    await this.serialize(async () => {
+      topics.forEach((t) => (paused ? this.pausedTopics.add(t) : this.pausedTopics.delete(t)));
+
+      for (const groupId of this.running) {
+        const subscribed = topics.filter((t) => this.subscriptions.get(groupId)?.has(t));
+        if (subscribed.length === 0) {
+          continue;
+        }
+        const consumer = this.consumers.get(groupId);
+        const targets = subscribed.map((t) => ({ topic: t }));
+        if (paused) {
+          consumer.pause(targets);
+        } else {
+          consumer.resume(targets);
+        }
+      }
+    });
+  }
+
+  private groupsReading(topic: string): string[] {
+    return Array.from(this.subscriptions.entries())
+      .filter(([, topics]) => topics.has(topic))
+      .map(([groupId]) => groupId);
+  }
+
+  private async handleMessage(
+    { topic, partition, message, heartbeat }: EachMessagePayload,
+    groupId: string = this.groupId,
+  ): Promise<void> {
     const messageId = randomUUID();
     const timestamp = new Date().toISOString();
+    const key = message.key?.toString();
+    const headers = this.parseHeaders(message.headers as Record<string, Buffer | undefined>);
+    // Messages read from `<topic>.retry.N` are decoded and handled as `<topic>` messages
+    const sourceTopic = this.deadLetters?.originalTopicOf(topic, headers) ?? topic;
+    let accepted = false;
+
+    // Retry topics are shared by every group reading the source topic; only the group
+    // whose handler failed reprocesses the message
+    const retryGroup = headers[RETRY_HEADERS.groupId];
+    if (retryGroup && retryGroup !== groupId) {
+      return;
+    }
 
     try {
-      const key = message.key?.toString();
-      const value = message.value ? JSON.parse(message.value.toString()) : null;
-      const headers = this.parseHeaders(message.headers as Record<string, Buffer | undefined>);
+      await this.waitForRetryDelay(headers, heartbeat);
+
+      const decoded = message.value
+        ? await (this.serializers ?? this.jsonSerializer).deserialize(sourceTopic, message.value)
+        : null;
+
+      // Topics with an event contract only see valid events, upcast to their latest version
+      const validation = validateEvent(sourceTopic, decoded);
+      if (!validation.valid) {
+        throw new EventValidationError(sourceTopic, validation.reasons);
+      }
+      const value = validation.event;
+      accepted = true;
 
       this.logger.log(`Received message from topic: ${topic}`, {
         messageId,
@@ -130,10 +415,21 @@ export class KafkaConsumerService implements OnModuleInit {
       };
 
       if (this.eventStorage) {
-        this.eventStorage.addEvent(kafkaEvent);
+        await this.eventStorage.addEvent(kafkaEvent);
+      }
+
+      const pipeline = this.pipelines.get(topic);
+      if (pipeline) {
+        await this.runPipeline(pipeline, partition, message.offset, key, value, headers);
+        return;
       }
 
-      this.processBusinessLogic(topic, value, headers);
+      await this.dispatch(sourceTopic, value, headers, groupId, {
+        topic,
+        partition,
+        offset: message.offset,
+        key,
+      });
     } catch (error) {
       this.logger.error(`Failed to process message from topic: ${topic}`, error);
 
@@ -142,7 +438,7 @@ export class KafkaConsumerService implements OnModuleInit {
         topic,
         partition,
         offset: message.offset,
-        key: message.key?.toString(),
+        key,
         value: message.value?.toString(),
         headers: {},
         timestamp,
@@ -150,11 +446,100 @@ export class KafkaConsumerService implements OnModuleInit {
       };
 
       if (this.eventStorage) {
-        this.eventStorage.addEvent(kafkaEvent);
+        await this.eventStorage.addEvent(kafkaEvent);
       }
+
+      // Rethrow for pipeline topics so kafkajs does not auto-commit the input offset
+      // outside the transaction; the message is redelivered instead
+      if (this.pipelines.has(topic)) {
+        throw error;
+      }
+
+      if (this.deadLetters) {
+        // A payload that cannot be decoded or breaks its event contract is rejected
+        // straight away: a later attempt would fail the same way
+        await this.deadLetters.handleFailure({
+          topic,
+          partition,
+          offset: message.offset,
+          key,
+          value: message.value ?? null,
+          headers,
+          error: error instanceof Error ? error : new Error(String(error)),
+          retryable: accepted,
+          groupId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Holds a retried message until its `x-retry-not-before` time. Each retry topic has a
+   * single delay, so waiting on the head message never delays one that is due earlier.
+   */
+  private async waitForRetryDelay(
+    headers: Record<string, string>,
+    heartbeat?: () => Promise<void>,
+  ): Promise<void> {
+    const notBefore = this.deadLetters?.notBefore(headers);
+    if (!notBefore) {
+      return;
+    }
+
+    let remaining = notBefore - Date.now();
+    while (remaining > 0) {
+      // Keep heartbeating so a long delay does not get the consumer kicked from the group
+      await new Promise((resolve) => setTimeout(resolve, Math.min(remaining, 3000)));
+      await heartbeat?.();
+      remaining = notBefore - Date.now();
     }
   }
 
+  /**
+   * Registers a consume-transform-produce step for a topic and subscribes to it. With a
+   * transactional producer the output message and the input offset are committed in
+   * one Kafka transaction, giving exactly-once processing of the input topic.
+   */
+  async registerPipeline(pipeline: TransformPipeline): Promise<void> {
+    this.pipelines.set(pipeline.from, pipeline);
+    await this.subscribeToTopic(pipeline.from);
+  }
+
+  private async runPipeline(
+    pipeline: TransformPipeline,
+    partition: number,
+    offset: string,
+    key: string | undefined,
+    value: any,
+    headers: Record<string, string>,
+  ): Promise<void> {
+    if (!this.kafkaProducer) {
+      throw new Error(`Cannot run pipeline for ${pipeline.from}: Kafka producer not available`);
+    }
+
+    if (!this.kafkaProducer.isTransactional()) {
+      const output = await pipeline.transform(value, headers);
+      if (output !== undefined) {
+        await this.kafkaProducer.produce(pipeline.to, output, key, headers);
+      }
+      return;
+    }
+
+    await this.kafkaProducer.transaction(async (tx) => {
+      const output = await pipeline.transform(value, headers);
+      if (output !== undefined) {
+        await tx.send(pipeline.to, output, key, headers);
+      }
+      // The committed offset is the next one to read, hence + 1
+      await tx.sendOffsets(this.groupId, [
+        {
+          topic: pipeline.from,
+          partitions: [{ partition, offset: (BigInt(offset) + BigInt(1)).toString() }],
+        },
+      ]);
+    });
+  }
+
   private parseHeaders(headers?: Record<string, Buffer | undefined>): Record<string, string> {
     if (!headers) return {};
 
@@ -167,77 +552,80 @@ export class KafkaConsumerService implements OnModuleInit {
     return parsed;
   }
 
-  private processBusinessLogic(topic: string, value: any, headers: Record<string, string>): void {
-    switch (topic) {
-      case 'user-events':
-        this.handleUserEvent(value, headers);
-        break;
-      case 'system-events':
-        this.handleSystemEvent(value, headers);
-        break;
-      case 'showcase-events':
-        this.handleShowcaseEvent(value, headers);
-        break;
-      case 'call-events':
-        this.handleCallEvent(value, headers);
-        break;
-      default:
-        this.logger.log(`Received message from topic: ${topic}`, value);
+  private async dispatch(
+    topic: string,
+    value: any,
+    headers: Record<string, string>,
+    groupId: string,
+    context: KafkaMessageContext,
+  ): Promise<void> {
+    const handlers = this.handlerRegistry?.getHandlersFor(topic, groupId, this.groupId) ?? [];
+    if (handlers.length === 0) {
+      this.logger.log(`Received message from topic: ${topic}`, value);
+      return;
     }
-  }
-
-  private handleUserEvent(event: any, headers: Record<string, string>): void {
-    this.logger.log('Processing user event', { event, headers });
-  }
 
-  private handleSystemEvent(event: any, headers: Record<string, string>): void {
-    this.logger.log('Processing system event', { event, headers });
+    for (const handler of handlers) {
+      await handler.handle(value, headers, context);
+    }
   }
 
-  private handleShowcaseEvent(event: any, headers: Record<string, string>): void {
-    this.logger.log('Processing showcase event', { event, headers });
+  /** The broker client, for short-lived consumers and admin calls; null without Kafka */
+  getClient(): KafkaTransport | null {
+    return this.kafka;
   }
 
-  private async handleCallEvent(event: any, headers: Record<string, string>): Promise<void> {
-    this.logger.log('Processing call event', { event, headers });
-
-    // Validate event data
-    if (!event || !event.callerId || !event.recipientId) {
-      this.logger.warn('Invalid call event received');
-      return;
+  /**
+   * Decodes a message read outside this service's consumers (e.g. by a replay) and passes
+   * it to every handler of its topic, whatever their consumer group. Unlike live
+   * consumption, failures are thrown to the caller rather than routed to retry topics.
+   */
+  async redeliver(
+    { topic, partition, message }: Pick<EachMessagePayload, 'topic' | 'partition' | 'message'>,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<void> {
+    const headers = {
+      ...this.parseHeaders(message.headers as Record<string, Buffer | undefined>),
+      ...extraHeaders,
+    };
+    const sourceTopic = this.deadLetters?.originalTopicOf(topic, headers) ?? topic;
+
+    const decoded = message.value
+      ? await (this.serializers ?? this.jsonSerializer).deserialize(sourceTopic, message.value)
+      : null;
+    const validation = validateEvent(sourceTopic, decoded);
+    if (!validation.valid) {
+      throw new EventValidationError(sourceTopic, validation.reasons);
     }
 
-    try {
-      // Only process if services are available
-      if (this.callRepository) {
-        const call = await this.callRepository.createCall({
-          callerId: event.callerId,
-          recipientId: event.recipientId,
-          status: event.status || 'initiated',
-          metadata: event.metadata || {},
-        });
-
-        // Only use Redis if available
-        if (this.redisService) {
-          await this.redisService.store(`call:${call.id}`, call, 3600);
-
-          await this.redisService.publish('call-created', {
-            callId: call.id,
-            timestamp: new Date().toISOString(),
-            ...call,
-          });
-
-          await this.redisService.addCallToQueue(call);
-        }
-
-        this.logger.log(`Call event processed and stored: ${call.id}`);
-      }
-    } catch (error) {
-      this.logger.error('Failed to process call event', error);
+    const handlers = (this.handlerRegistry?.getHandlers() ?? []).filter(
+      (handler) => handler.topic === sourceTopic,
+    );
+    const context = { topic, partition, offset: message.offset, key: message.key?.toString() };
+    for (const handler of handlers) {
+      await handler.handle(validation.event, headers, context);
     }
   }
 
   getSubscribedTopics(): string[] {
-    return Array.from(this.subscribedTopics);
+    return Array.from(new Set(this.getSubscriptions().map(({ topic }) => topic)));
+  }
+
+  /** Every topic read by each consumer group, and whether it is being consumed */
+  getSubscriptions(): TopicSubscription[] {
+    return Array.from(this.subscriptions.entries()).flatMap(([groupId, topics]) =>
+      Array.from(topics.keys()).map((topic) => ({
+        topic,
+        groupId,
+        status: this.statusOf(groupId, topic),
+      })),
+    );
+  }
+
+  private statusOf(groupId: string, topic: string): TopicSubscription['status'] {
+    if (!this.running.has(groupId)) {
+      return 'stopped';
+    }
+    return this.pausedTopics.has(topic) ? 'paused' : 'active';
   }
 }
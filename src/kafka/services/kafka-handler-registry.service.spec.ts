@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { KafkaHandler } from '../decorators/kafka-handler.decorator';
+import { KafkaHandlerRegistry } from './kafka-handler-registry.service';
+import { KafkaConsumerService } from './kafka-consumer.service';
+
+@Injectable()
+class OrdersHandler {
+  readonly received: Array<{ value: any; topic: string }> = [];
+
+  @KafkaHandler('order-events')
+  @KafkaHandler('order-events-legacy', { fromBeginning: true })
+  handleOrder(value: any, _headers: Record<string, string>, context: { topic: string }) {
+    this.received.push({ value, topic: context.topic });
+  }
+
+  @KafkaHandler('order-events', { groupId: 'order-audit', concurrency: 4 })
+  audit() {
+    // Runs in its own consumer group
+  }
+
+  notAHandler() {
+    // Undecorated methods are ignored
+  }
+}
+
+describe('KafkaHandlerRegistry', () => {
+  let registry: KafkaHandlerRegistry;
+  let consumer: KafkaConsumerService;
+  let orders: OrdersHandler;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        KafkaHandlerRegistry,
+        KafkaConsumerService,
+        OrdersHandler,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: any) => defaultValue) },
+        },
+      ],
+    }).compile();
+    await module.init();
+
+    registry = module.get(KafkaHandlerRegistry);
+    consumer = module.get(KafkaConsumerService);
+    orders = module.get(OrdersHandler);
+  });
+
+  it('should discover decorated provider methods with their options', () => {
+    expect(
+      registry.getHandlers().map(({ topic, name, groupId, fromBeginning, concurrency }) => ({
+        topic,
+        name,
+        groupId,
+        fromBeginning,
+        concurrency,
+      })),
+    ).toEqual(
+      expect.arrayContaining([
+        { topic: 'order-events', name: 'OrdersHandler.handleOrder' },
+        { topic: 'order-events-legacy', name: 'OrdersHandler.handleOrder', fromBeginning: true },
+        {
+          topic: 'order-events',
+          name: 'OrdersHandler.audit',
+          groupId: 'order-audit',
+          concurrency: 4,
+        },
+      ]),
+    );
+    expect(registry.getHandlers()).toHaveLength(3);
+  });
+
+  it('should only return the handlers of the requested consumer group', () => {
+    const names = (groupId: string) =>
+      registry
+        .getHandlersFor('order-events', groupId, 'core-pipeline-group')
+        .map((handler) => handler.name);
+
+    expect(names('core-pipeline-group')).toEqual(['OrdersHandler.handleOrder']);
+    expect(names('order-audit')).toEqual(['OrdersHandler.audit']);
+  });
+
+  it('should route consumed messages to the decorated handler', async () => {
+    await (consumer as any).handleMessage({
+      topic: 'order-events',
+      partition: 0,
+      message: { key: null, value: Buffer.from('{"orderId":1}'), offset: '0', headers: {} },
+    });
+
+    expect(orders.received).toEqual([{ value: { orderId: 1 }, topic: 'order-events' }]);
+  });
+});
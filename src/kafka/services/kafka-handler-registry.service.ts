@@ -0,0 +1,81 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { KAFKA_HANDLER_METADATA } from '../decorators/kafka-handler.decorator';
+import {
+  KafkaHandlerMetadata,
+  KafkaHandlerOptions,
+  KafkaMessageHandler,
+  RegisteredKafkaHandler,
+} from '../interfaces/kafka-handler.interface';
+
+/**
+ * Collects `@KafkaHandler` methods from every provider in the application, plus any
+ * handlers registered programmatically, and serves them per topic and consumer group.
+ */
+@Injectable()
+export class KafkaHandlerRegistry {
+  private readonly logger = new Logger(KafkaHandlerRegistry.name);
+  private readonly handlers: RegisteredKafkaHandler[] = [];
+  private discovered = false;
+
+  constructor(
+    @Optional() private readonly discoveryService?: DiscoveryService,
+    @Optional() private readonly metadataScanner?: MetadataScanner,
+  ) {}
+
+  /** Scans providers for decorated methods; safe to call more than once */
+  discover(): RegisteredKafkaHandler[] {
+    if (this.discovered || !this.discoveryService || !this.metadataScanner) {
+      return this.getHandlers();
+    }
+    this.discovered = true;
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      // Request-scoped providers have no single instance to bind handlers to
+      if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const metadata: KafkaHandlerMetadata[] | undefined = Reflect.getMetadata(
+          KAFKA_HANDLER_METADATA,
+          prototype[methodName],
+        );
+
+        for (const { topic, ...options } of metadata ?? []) {
+          this.register(
+            topic,
+            (value, headers, context) => instance[methodName](value, headers, context),
+            options,
+            `${instance.constructor.name}.${methodName}`,
+          );
+        }
+      }
+    }
+
+    return this.getHandlers();
+  }
+
+  register(
+    topic: string,
+    handle: KafkaMessageHandler,
+    options: KafkaHandlerOptions = {},
+    name = 'anonymous',
+  ): void {
+    this.handlers.push({ topic, ...options, name, handle });
+    this.logger.log(`Registered Kafka handler ${name} for topic: ${topic}`);
+  }
+
+  getHandlers(): RegisteredKafkaHandler[] {
+    return [...this.handlers];
+  }
+
+  /** Handlers for `topic` that run in `groupId` (handlers without a group use `defaultGroupId`) */
+  getHandlersFor(topic: string, groupId: string, defaultGroupId: string): RegisteredKafkaHandler[] {
+    return this.handlers.filter(
+      (handler) => handler.topic === topic && (handler.groupId ?? defaultGroupId) === groupId,
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { ConfigService } from '@nestjs/config';
+import { AssignerProtocol } from 'kafkajs';
+import { KafkaLagMonitorService } from './kafka-lag-monitor.service';
+import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaHandlerRegistry } from './kafka-handler-registry.service';
+import { MetricsService } from '../../services/metrics.service';
+
+describe('KafkaLagMonitorService', () => {
+  let admin: Record<string, jest.Mock>;
+  let metrics: { setConsumerLag: jest.Mock };
+  let config: Record<string, any>;
+  let registry: KafkaHandlerRegistry;
+
+  const createMonitor = () =>
+    new KafkaLagMonitorService(
+      { getClient: () => ({ admin: () => admin }) } as unknown as KafkaConsumerService,
+      {
+        get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+      } as unknown as ConfigService,
+      metrics as unknown as MetricsService,
+      registry,
+    );
+
+  beforeEach(() => {
+    config = {
+      'kafka.groupId': 'core-pipeline-group',
+      'kafka.lag.groups': ['reporting'],
+      'kafka.lag.readinessThreshold': 100,
+    };
+    registry = new KafkaHandlerRegistry();
+    metrics = { setConsumerLag: jest.fn() };
+    admin = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      describeGroups: jest.fn(async ([groupId]: string[]) => ({
+        groups: [
+          {
+            groupId,
+            state: 'Stable',
+            protocol: 'RoundRobinAssigner',
+            protocolType: 'consumer',
+            members: [
+              {
+                memberId: 'member-1',
+                clientId: 'core-pipeline',
+                clientHost: '/10.0.0.1',
+                memberMetadata: Buffer.alloc(0),
+                memberAssignment: AssignerProtocol.MemberAssignment.encode({
+                  version: 0,
+                  assignment: { 'call-events': [1, 0], 'user-events': [0] },
+                  userData: Buffer.alloc(0),
+                }),
+              },
+            ],
+          },
+        ],
+      })),
+      fetchOffsets: jest.fn().mockResolvedValue([
+        {
+          topic: 'call-events',
+          partitions: [
+            { partition: 0, offset: '40', metadata: null },
+            { partition: 1, offset: '-1', metadata: null },
+          ],
+        },
+      ]),
+      fetchTopicOffsets: jest.fn(async (topic: string) =>
+        topic === 'call-events'
+          ? [
+              { partition: 1, low: '5', high: '20', offset: '20' },
+              { partition: 0, low: '0', high: '50', offset: '50' },
+            ]
+          : [{ partition: 0, low: '0', high: '0', offset: '0' }],
+      ),
+    };
+  });
+
+  it('should report members, assignments and per-partition lag', async () => {
+    const status = await createMonitor().describeGroup('core-pipeline-group');
+
+    expect(status).toEqual(
+      expect.objectContaining({
+        groupId: 'core-pipeline-group',
+        state: 'Stable',
+        protocol: 'RoundRobinAssigner',
+        totalLag: 25,
+      }),
+    );
+    expect(status.members).toEqual([
+      {
+        memberId: 'member-1',
+        clientId: 'core-pipeline',
+        clientHost: '/10.0.0.1',
+        assignments: [
+          { topic: 'call-events', partitions: [0, 1] },
+          { topic: 'user-events', partitions: [0] },
+        ],
+      },
+    ]);
+    // Without a commit, lag counts from the low watermark
+    expect(status.partitions).toEqual([
+      { topic: 'call-events', partition: 0, committedOffset: '40', highWatermark: '50', lag: 10 },
+      { topic: 'call-events', partition: 1, committedOffset: null, highWatermark: '20', lag: 15 },
+      { topic: 'user-events', partition: 0, committedOffset: null, highWatermark: '0', lag: 0 },
+    ]);
+  });
+
+  it('should measure every monitored group and export the lag gauges', async () => {
+    registry.register('audit-events', jest.fn(), { groupId: 'audit' });
+    const monitor = createMonitor();
+
+    await monitor.refresh();
+
+    expect(monitor.getMonitoredGroups()).toEqual(['core-pipeline-group', 'audit', 'reporting']);
+    expect(admin.connect).toHaveBeenCalledTimes(1);
+    const [series] = metrics.setConsumerLag.mock.calls[0];
+    expect(series).toHaveLength(9);
+    expect(series).toContainEqual({
+      groupId: 'audit',
+      topic: 'call-events',
+      partition: 0,
+      lag: 10,
+    });
+  });
+
+  it('should keep the last measurement when a refresh fails', async () => {
+    const monitor = createMonitor();
+    await monitor.refresh();
+
+    admin.describeGroups.mockRejectedValue(new Error('broker unavailable'));
+    await monitor.refresh();
+
+    expect(monitor.getSnapshot('core-pipeline-group').totalLag).toBe(25);
+    expect(metrics.setConsumerLag.mock.calls[1][0]).toHaveLength(6);
+  });
+
+  it('should drop measurements older than the max age while refreshes fail', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      config['kafka.lag.intervalMs'] = 1000;
+      config['kafka.lag.readinessThreshold'] = 20;
+      const monitor = createMonitor();
+      await monitor.refresh();
+      expect(monitor.checkReadiness().ready).toBe(false);
+
+      admin.describeGroups.mockRejectedValue(new Error('broker unavailable'));
+      jest.setSystemTime(3001);
+      await monitor.refresh();
+
+      expect(monitor.getSnapshot('core-pipeline-group')).toBeUndefined();
+      expect(monitor.checkReadiness()).toEqual({ ready: true, threshold: 20, groups: {} });
+      expect(metrics.setConsumerLag).toHaveBeenLastCalledWith([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should fail readiness once a group lags beyond the threshold', async () => {
+    const monitor = createMonitor();
+    expect(monitor.checkReadiness().ready).toBe(true);
+
+    await monitor.refresh();
+    expect(monitor.checkReadiness()).toEqual({
+      ready: true,
+      threshold: 100,
+      groups: { 'core-pipeline-group': 25, reporting: 25 },
+    });
+
+    config['kafka.lag.readinessThreshold'] = 20;
+    const strict = createMonitor();
+    await strict.refresh();
+    expect(strict.checkReadiness().ready).toBe(false);
+  });
+
+  it('should always be ready when the threshold is disabled', async () => {
+    config['kafka.lag.readinessThreshold'] = 0;
+    const monitor = createMonitor();
+
+    await monitor.refresh();
+
+    expect(monitor.checkReadiness().ready).toBe(true);
+  });
+});
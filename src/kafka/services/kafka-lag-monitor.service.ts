@@ -0,0 +1,211 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AssignerProtocol } from 'kafkajs';
+import { TransportAdmin } from '../interfaces/kafka-transport.interface';
+import {
+  ConsumerGroupMember,
+  ConsumerGroupStatus,
+  LagReadiness,
+  PartitionLag,
+} from '../interfaces/consumer-lag.interface';
+import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaHandlerRegistry } from './kafka-handler-registry.service';
+import { MetricsService } from '../../services/metrics.service';
+
+/**
+ * Periodically compares the committed offsets of the service's consumer groups with the
+ * partitions' high watermarks, exports the difference as the `kafka_consumer_lag` gauge
+ * and reports whether it is within the readiness threshold.
+ */
+@Injectable()
+export class KafkaLagMonitorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KafkaLagMonitorService.name);
+  private readonly intervalMs: number;
+  private readonly maxAgeMs: number;
+  private readonly readinessThreshold: number;
+  private readonly extraGroups: string[];
+  // Last successful measurement per group; kept when a later refresh fails, until maxAgeMs
+  private readonly snapshots: Map<string, ConsumerGroupStatus> = new Map();
+  private admin: TransportAdmin | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+
+  constructor(
+    private readonly kafkaConsumer: KafkaConsumerService,
+    private readonly configService: ConfigService,
+    @Optional() private readonly metrics?: MetricsService,
+    @Optional() private readonly handlerRegistry?: KafkaHandlerRegistry,
+  ) {
+    this.intervalMs = this.configService.get('kafka.lag.intervalMs', 30000);
+    this.maxAgeMs = this.configService.get('kafka.lag.maxAgeMs') || this.intervalMs * 3;
+    this.readinessThreshold = this.configService.get('kafka.lag.readinessThreshold', 0);
+    this.extraGroups = this.configService.get('kafka.lag.groups', []);
+  }
+
+  onModuleInit() {
+    if (!this.kafkaConsumer.getClient()) {
+      this.logger.log('Kafka not available - consumer lag monitoring disabled');
+      return;
+    }
+
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.intervalMs);
+    this.logger.log(`Consumer lag monitor started (interval ${this.intervalMs}ms)`);
+  }
+
+  async onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.admin?.disconnect().catch(() => undefined);
+    this.admin = null;
+  }
+
+  /** The service's consumer group, groups declared by `@KafkaHandler`s and `KAFKA_LAG_GROUPS` */
+  getMonitoredGroups(): string[] {
+    const groups = [
+      this.configService.get('kafka.groupId', 'core-pipeline-group'),
+      ...(this.handlerRegistry?.getHandlers() ?? []).map((handler) => handler.groupId),
+      ...this.extraGroups,
+    ];
+    return Array.from(new Set(groups.filter(Boolean)));
+  }
+
+  /** Measures every monitored group and publishes the lag gauges */
+  async refresh(): Promise<void> {
+    if (this.refreshing) {
+      return;
+    }
+
+    this.refreshing = true;
+    try {
+      for (const groupId of this.getMonitoredGroups()) {
+        try {
+          this.snapshots.set(groupId, await this.describeGroup(groupId));
+        } catch (error) {
+          this.logger.warn(`Failed to measure lag of consumer group ${groupId}: ${error.message}`);
+        }
+      }
+
+      this.metrics?.setConsumerLag(
+        this.current().flatMap(({ groupId, partitions }) =>
+          partitions.map(({ topic, partition, lag }) => ({ groupId, topic, partition, lag })),
+        ),
+      );
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /** Last measured lag of a monitored group, unless it is older than `maxAgeMs` */
+  getSnapshot(groupId: string): ConsumerGroupStatus | undefined {
+    return this.current().find((snapshot) => snapshot.groupId === groupId);
+  }
+
+  /**
+   * Ready unless a monitored group's last measured total lag exceeds the threshold. Groups
+   * without a measurement from the last `maxAgeMs` (e.g. without a broker) do not fail
+   * readiness.
+   */
+  checkReadiness(): LagReadiness {
+    const groups = Object.fromEntries(
+      this.current().map(({ groupId, totalLag }) => [groupId, totalLag]),
+    );
+    const ready =
+      this.readinessThreshold <= 0 ||
+      Object.values(groups).every((lag) => lag <= this.readinessThreshold);
+
+    return { ready, threshold: Math.max(this.readinessThreshold, 0), groups };
+  }
+
+  /** Live members, assignments and per-partition lag of any consumer group */
+  async describeGroup(groupId: string): Promise<ConsumerGroupStatus> {
+    const admin = await this.getAdmin();
+    const {
+      groups: [group],
+    } = await admin.describeGroups([groupId]);
+
+    const members: ConsumerGroupMember[] = group.members.map((member) => {
+      // Empty while the group is rebalancing
+      const decoded = member.memberAssignment?.length
+        ? AssignerProtocol.MemberAssignment.decode(member.memberAssignment)
+        : null;
+      return {
+        memberId: member.memberId,
+        clientId: member.clientId,
+        clientHost: member.clientHost,
+        assignments: Object.entries(decoded?.assignment ?? {}).map(([topic, partitions]) => ({
+          topic,
+          partitions: [...partitions].sort((a, b) => a - b),
+        })),
+      };
+    });
+
+    // Topics the group committed on, plus assigned topics it has not committed on yet
+    const committed = await admin.fetchOffsets({ groupId });
+    const topics = new Set([
+      ...committed.map(({ topic }) => topic),
+      ...members.flatMap(({ assignments }) => assignments.map(({ topic }) => topic)),
+    ]);
+
+    const partitions: PartitionLag[] = [];
+    for (const topic of topics) {
+      const commits = committed.find((entry) => entry.topic === topic)?.partitions ?? [];
+      for (const { partition, high, low } of await admin.fetchTopicOffsets(topic)) {
+        const offset = commits.find((commit) => commit.partition === partition)?.offset;
+        const hasCommit = offset !== undefined && BigInt(offset) >= BigInt(0);
+        const consumed = hasCommit ? BigInt(offset) : BigInt(low);
+        const lag = BigInt(high) > consumed ? Number(BigInt(high) - consumed) : 0;
+
+        partitions.push({
+          topic,
+          partition,
+          committedOffset: hasCommit ? offset : null,
+          highWatermark: high,
+          lag,
+        });
+      }
+    }
+
+    return {
+      groupId,
+      state: group.state,
+      protocol: group.protocol,
+      members,
+      partitions: partitions.sort((a, b) =>
+        a.topic === b.topic ? a.partition - b.partition : a.topic < b.topic ? -1 : 1,
+      ),
+      totalLag: partitions.reduce((total, { lag }) => total + lag, 0),
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  // Drops the measurements that are too old to describe the group any more
+  private current(): ConsumerGroupStatus[] {
+    const cutoff = Date.now() - this.maxAgeMs;
+    for (const [groupId, { checkedAt }] of this.snapshots) {
+      if (Date.parse(checkedAt) < cutoff) {
+        this.logger.warn(`Lag of consumer group ${groupId} was last measured at ${checkedAt}`);
+        this.snapshots.delete(groupId);
+      }
+    }
+    return Array.from(this.snapshots.values());
+  }
+
+  private async getAdmin(): Promise<TransportAdmin> {
+    if (this.admin) {
+      return this.admin;
+    }
+
+    const kafka = this.kafkaConsumer.getClient();
+    if (!kafka) {
+      throw new Error('Kafka is not available');
+    }
+
+    const admin = kafka.admin();
+    await admin.connect();
+    this.admin = admin;
+    return admin;
+  }
+}
@@ -1,18 +1,28 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClientKafka } from '@nestjs/microservices';
 import { KafkaProducerService } from './kafka-producer.service';
+import { Partitioners } from 'kafkajs';
 import { EventStorageService } from './event-storage.service';
-import { of, throwError } from 'rxjs';
+import { InMemoryKafkaBroker } from '../transport/in-memory-kafka-broker';
+import { partitionMetadata } from '../transport/in-memory-kafka-producer';
 
 describe('KafkaProducerService', () => {
   let service: KafkaProducerService;
   let kafkaClient: ClientKafka;
   let eventStorage: EventStorageService;
+  let send: jest.Mock;
+  let sendBatch: jest.Mock;
+
+  const metadata = (partition = 0, baseOffset = '0') => [
+    { topicName: 'test-topic', partition, errorCode: 0, baseOffset, logAppendTime: '-1' },
+  ];
 
   beforeEach(async () => {
+    send = jest.fn();
+    sendBatch = jest.fn();
     const mockKafkaClient = {
       connect: jest.fn().mockResolvedValue(undefined),
-      emit: jest.fn(),
+      producer: { send, sendBatch },
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -36,9 +46,9 @@ describe('KafkaProducerService', () => {
   });
 
   describe('onModuleInit', () => {
-    it('should set isConnected to true in test environment', async () => {
+    it('should connect through the Kafka client', async () => {
       await service.onModuleInit();
-      // In test environment, we skip actual connection
+      expect(kafkaClient.connect).toHaveBeenCalled();
       expect((service as any).isConnected).toBe(true);
     });
   });
@@ -55,7 +65,7 @@ describe('KafkaProducerService', () => {
       const key = 'test-key';
       const headers = { correlationId: '123' };
 
-      jest.spyOn(kafkaClient, 'emit').mockReturnValue(of(undefined));
+      send.mockResolvedValue(metadata(2, '41'));
       jest.spyOn(eventStorage, 'addEvent');
 
       const result = await service.produce(topic, message, key, headers);
@@ -64,9 +74,14 @@ describe('KafkaProducerService', () => {
       expect(result.topic).toBe(topic);
       expect(result.messageId).toBeDefined();
       expect(result.timestamp).toBeDefined();
+      expect(result.partition).toBe(2);
+      expect(result.offset).toBe('41');
+      expect(result.baseTimestamp).toBe(result.timestamp);
       expect(eventStorage.addEvent).toHaveBeenCalledWith(
         expect.objectContaining({
           topic,
+          partition: 2,
+          offset: '41',
           value: message,
           key,
           headers,
@@ -75,12 +90,29 @@ describe('KafkaProducerService', () => {
       );
     });
 
+    it('should report the broker log append time when available', async () => {
+      const logAppendTime = Date.UTC(2024, 0, 1);
+      send.mockResolvedValue([
+        {
+          topicName: 'test-topic',
+          partition: 1,
+          errorCode: 0,
+          baseOffset: '7',
+          logAppendTime: logAppendTime.toString(),
+        },
+      ]);
+
+      const result = await service.produce('test-topic', { test: 'data' });
+
+      expect(result.baseTimestamp).toBe(new Date(logAppendTime).toISOString());
+    });
+
     it('should handle production failure', async () => {
       const topic = 'test-topic';
       const message = { test: 'data' };
       const error = new Error('Kafka error');
 
-      jest.spyOn(kafkaClient, 'emit').mockReturnValue(throwError(() => error));
+      send.mockRejectedValue(error);
       jest.spyOn(eventStorage, 'addEvent');
 
       const result = await service.produce(topic, message);
@@ -100,22 +132,70 @@ describe('KafkaProducerService', () => {
       const topic = 'test-topic';
       const message = { test: 'data' };
 
-      jest.spyOn(kafkaClient, 'emit').mockReturnValue(of(undefined));
+      send.mockResolvedValue(metadata());
 
       const result = await service.produce(topic, message);
 
       expect(result.success).toBe(true);
-      expect(kafkaClient.emit).toHaveBeenCalledWith(
+      expect(kafkaClient.producer.send).toHaveBeenCalledWith({
         topic,
-        expect.objectContaining({
-          value: message,
-        }),
-      );
+        messages: [
+          expect.objectContaining({
+            key: null,
+            value: JSON.stringify(message),
+          }),
+        ],
+      });
+    });
+  });
+
+  describe('event contracts', () => {
+    beforeEach(async () => {
+      await service.onModuleInit();
+    });
+
+    it('should reject invalid call events with structured reasons', async () => {
+      const result = await service.produce('call-events', {
+        eventType: 'CallEnded',
+        schemaVersion: 1,
+        callId: 'not-a-uuid',
+        duration: -5,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reasons).toEqual([
+        expect.objectContaining({ path: 'callId', constraints: { isUuid: expect.any(String) } }),
+        expect.objectContaining({ path: 'duration', constraints: { min: expect.any(String) } }),
+      ]);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should upcast legacy call payloads before sending', async () => {
+      send.mockResolvedValue(metadata());
+
+      const result = await service.produce('call-events', {
+        callerId: 'a',
+        recipientId: 'b',
+        status: 'initiated',
+      });
+
+      expect(result.success).toBe(true);
+      const [{ messages }] = send.mock.calls[0];
+      expect(JSON.parse(messages[0].value)).toEqual({
+        eventType: 'CallInitiated',
+        schemaVersion: 1,
+        callerId: 'a',
+        recipientId: 'b',
+      });
     });
   });
 
   describe('produceMany', () => {
-    it('should produce multiple messages', async () => {
+    beforeEach(async () => {
+      await service.onModuleInit();
+    });
+
+    it('should produce multiple messages with a single sendBatch call', async () => {
       const topic = 'test-topic';
       const messages = [
         { key: 'key1', value: { data: 'message1' } },
@@ -123,52 +203,190 @@ describe('KafkaProducerService', () => {
         { key: 'key3', value: { data: 'message3' } },
       ];
 
-      jest.spyOn(kafkaClient, 'emit').mockReturnValue(of(undefined));
+      sendBatch.mockResolvedValue(metadata(1, '10'));
 
       const results = await service.produceMany(topic, messages);
 
+      expect(sendBatch).toHaveBeenCalledTimes(1);
+      expect(sendBatch.mock.calls[0][0].topicMessages).toEqual([
+        { topic, messages: expect.arrayContaining([expect.objectContaining({ key: 'key1' })]) },
+      ]);
+      expect(send).not.toHaveBeenCalled();
       expect(results).toHaveLength(3);
       expect(results.every((r) => r.success)).toBe(true);
       expect(results.every((r) => r.topic === topic)).toBe(true);
+      expect(results.map((r) => r.offset)).toEqual(['10', '11', '12']);
+      expect(results.every((r) => r.partition === 1)).toBe(true);
     });
 
     it('should handle partial failure in batch production', async () => {
       const topic = 'test-topic';
       const messages = [
         { key: 'key1', value: { data: 'message1' } },
-        { key: 'key2', value: { data: 'message2' } },
+        { key: 'key2', value: undefined },
+        { key: 'key3', value: { data: 'message3' } },
       ];
 
-      let callCount = 0;
-      // Mock emit to succeed first, then fail
-      jest.spyOn(service, 'produce').mockImplementation(async (topic) => {
-        callCount++;
-        if (callCount === 1) {
-          // First message succeeds
-          return {
-            success: true,
-            messageId: 'mock-id-1',
-            topic,
-            timestamp: new Date().toISOString(),
-          };
-        } else {
-          // Second message fails
-          return {
-            success: false,
-            messageId: 'mock-id-2',
-            topic,
-            timestamp: new Date().toISOString(),
-            error: 'Kafka error',
-          };
-        }
-      });
+      sendBatch.mockResolvedValue(metadata(0, '5'));
 
       const results = await service.produceMany(topic, messages);
 
-      expect(results).toHaveLength(2);
+      expect(results).toHaveLength(3);
       expect(results[0].success).toBe(true);
+      expect(results[0].offset).toBe('5');
       expect(results[1].success).toBe(false);
-      expect(results[1].error).toBe('Kafka error');
+      expect(results[1].error).toBe('Message value is required');
+      expect(results[2].success).toBe(true);
+      expect(results[2].offset).toBe('6');
+    });
+
+    it('should report a failure for every message when the batch is rejected', async () => {
+      sendBatch.mockRejectedValue(new Error('Kafka error'));
+
+      const results = await service.produceMany('test-topic', [
+        { value: { data: 1 } },
+        { value: { data: 2 } },
+      ]);
+
+      expect(results.map((r) => r.success)).toEqual([false, false]);
+      expect(results.every((r) => r.error === 'Kafka error')).toBe(true);
+    });
+  });
+
+  describe('produceBatch', () => {
+    beforeEach(async () => {
+      await service.onModuleInit();
+    });
+
+    it('should send messages for several topics in one request', async () => {
+      sendBatch.mockResolvedValue([
+        { topicName: 'topic-a', partition: 0, errorCode: 0, baseOffset: '3' },
+        { topicName: 'topic-b', partition: 2, errorCode: 0, baseOffset: '8' },
+      ]);
+
+      const results = await service.produceBatch([
+        { topic: 'topic-a', value: { n: 1 } },
+        { topic: 'topic-b', value: { n: 2 } },
+        { topic: 'topic-a', value: { n: 3 } },
+      ]);
+
+      expect(sendBatch).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => [r.topic, r.partition, r.offset])).toEqual([
+        ['topic-a', 0, '3'],
+        ['topic-b', 2, '8'],
+        ['topic-a', 0, '4'],
+      ]);
+    });
+  });
+
+  describe('batches across partitions', () => {
+    it('should report the partition and offset of every message', async () => {
+      const broker = new InMemoryKafkaBroker();
+      broker.createTopic('orders', 3);
+      const producer = new KafkaProducerService(
+        { connect: jest.fn() } as unknown as ClientKafka,
+        eventStorage,
+        undefined,
+        undefined,
+        undefined,
+        broker,
+      );
+      await producer.onModuleInit();
+      const keys = ['a', 'b', 'c', 'd', 'e', 'f', 'a', 'c'];
+
+      const results = await producer.produceMany(
+        'orders',
+        keys.map((key, n) => ({ key, value: { n } })),
+      );
+
+      // Each partition's messages follow each other from offset 0 in the order they were sent
+      const partitioner = Partitioners.DefaultPartitioner();
+      const sent = new Map<number, number>();
+      const expected = keys.map((key) => {
+        const partition = partitioner({
+          topic: 'orders',
+          partitionMetadata: partitionMetadata(3),
+          message: { key, value: null },
+        });
+        const offset = sent.get(partition) ?? 0;
+        sent.set(partition, offset + 1);
+        return [partition, String(offset)];
+      });
+      expect(sent.size).toBeGreaterThan(1);
+      expect(results.map((r) => [r.partition, r.offset])).toEqual(expected);
+    });
+  });
+
+  describe('transaction', () => {
+    let tx: Record<string, jest.Mock>;
+    let transactional: KafkaProducerService;
+
+    beforeEach(async () => {
+      tx = {
+        send: jest
+          .fn()
+          .mockImplementation(async ({ topic }) => [
+            { topicName: topic, partition: 0, errorCode: 0, baseOffset: '100' },
+          ]),
+        sendOffsets: jest.fn().mockResolvedValue(undefined),
+        commit: jest.fn().mockResolvedValue(undefined),
+        abort: jest.fn().mockResolvedValue(undefined),
+      };
+      const configService = {
+        get: jest.fn((key: string) => (key === 'kafka.transactionalId' ? 'core-tx' : undefined)),
+      };
+      transactional = new KafkaProducerService(
+        {
+          connect: jest.fn().mockResolvedValue(undefined),
+          producer: { transaction: jest.fn().mockResolvedValue(tx) },
+        } as any,
+        eventStorage,
+        undefined,
+        configService as any,
+      );
+      await transactional.onModuleInit();
+    });
+
+    it('should reject transactions without a transactional id', async () => {
+      await expect(service.transaction(async () => undefined)).rejects.toThrow(
+        'kafka.transactionalId',
+      );
+    });
+
+    it('should commit messages to several topics and consumer offsets together', async () => {
+      const results = await transactional.transaction(async (t) => {
+        const a = await t.send('topic-a', { n: 1 }, 'k');
+        const b = await t.send('topic-b', { n: 2 }, 'k');
+        await t.sendOffsets('group-1', [
+          { topic: 'input', partitions: [{ partition: 0, offset: '6' }] },
+        ]);
+        return [a, b];
+      });
+
+      expect(results.map((r) => [r.topic, r.offset])).toEqual([
+        ['topic-a', '100'],
+        ['topic-b', '100'],
+      ]);
+      expect(tx.sendOffsets).toHaveBeenCalledWith({
+        consumerGroupId: 'group-1',
+        topics: [{ topic: 'input', partitions: [{ partition: 0, offset: '6' }] }],
+      });
+      expect(tx.commit).toHaveBeenCalled();
+      expect(tx.abort).not.toHaveBeenCalled();
+      expect((await eventStorage.getStats()).byStatus.processed).toBe(2);
+    });
+
+    it('should abort the transaction when the work throws', async () => {
+      await expect(
+        transactional.transaction(async (t) => {
+          await t.send('topic-a', { n: 1 });
+          throw new Error('transform failed');
+        }),
+      ).rejects.toThrow('transform failed');
+
+      expect(tx.abort).toHaveBeenCalled();
+      expect(tx.commit).not.toHaveBeenCalled();
+      expect((await eventStorage.getStats()).byStatus.failed).toBe(1);
     });
   });
 });
@@ -1,40 +1,101 @@
-import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Inject, Logger, OnModuleInit, Optional } from '@nestjs/common';
 import { ClientKafka } from '@nestjs/microservices';
-import { ProducerResult } from '../interfaces/kafka-event.interface';
+import { ConfigService } from '@nestjs/config';
+import { Message, RecordMetadata, TopicOffsets } from 'kafkajs';
+import { EntityManager } from 'typeorm';
+import {
+  BatchMessage,
+  KafkaEvent,
+  ProduceOptions,
+  ProducerResult,
+  ProducerTransaction,
+} from '../interfaces/kafka-event.interface';
+import {
+  KAFKA_TRANSPORT,
+  KafkaTransport,
+  TransportProducer,
+} from '../interfaces/kafka-transport.interface';
 import { EventStorageService } from './event-storage.service';
+import { BatchEntryResult, ProducerBatcher } from './producer-batcher';
+import { SerializerRegistryService } from './serializer-registry.service';
+import { JsonSerializer } from '../serialization/json.serializer';
+import { validateEvent } from '../contracts/event-contracts';
+import {
+  EventRejectionReason,
+  EventValidationError,
+  EventValidationResult,
+  describeReasons,
+} from '../contracts/event-contract';
+import { OutboxRepository } from '../../repositories/outbox.repository';
 import { randomUUID } from 'crypto';
 
 @Injectable()
 export class KafkaProducerService implements OnModuleInit {
   private readonly logger = new Logger(KafkaProducerService.name);
   private isConnected = false;
+  private producer: TransportProducer | null = null;
+  private readonly batcher: ProducerBatcher;
+  private readonly jsonSerializer = new JsonSerializer();
+  private readonly transactionalId?: string;
+  // kafkajs allows one open transaction per producer, so transactions are serialized
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   constructor(
     @Inject('KAFKA_SERVICE') private readonly kafkaClient: ClientKafka,
     private readonly eventStorage: EventStorageService,
-  ) {}
+    @Optional() private readonly outboxRepository?: OutboxRepository,
+    @Optional() private readonly configService?: ConfigService,
+    @Optional() private readonly serializers?: SerializerRegistryService,
+    @Optional() @Inject(KAFKA_TRANSPORT) private readonly transport?: KafkaTransport | null,
+  ) {
+    this.batcher = new ProducerBatcher((batch) => this.getProducer().sendBatch(batch), {
+      maxBatchSize: this.configService?.get('kafka.batch.maxSize') ?? 500,
+      lingerMs: this.configService?.get('kafka.batch.lingerMs') ?? 5,
+    });
+    this.transactionalId = this.configService?.get('kafka.transactionalId') || undefined;
+  }
+
+  isTransactional(): boolean {
+    return !!this.transactionalId;
+  }
 
   async onModuleInit() {
-    // Skip connection in test environment
-    if (process.env.NODE_ENV === 'test') {
-      this.isConnected = true;
-      return;
-    }
+    await this.connect();
+  }
 
+  private async connect(): Promise<boolean> {
+    let timer: NodeJS.Timeout;
     try {
-      await Promise.race([
-        this.kafkaClient.connect(),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Kafka connection timeout')), 5000),
-        ),
-      ]);
+      this.producer = await Promise.race([
+        this.transport ? this.connectTransport() : this.kafkaClient.connect(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Kafka connection timeout')), 5000);
+        }),
+      ]).finally(() => clearTimeout(timer));
       this.isConnected = true;
       this.logger.log('Kafka producer connected');
     } catch (error) {
       this.logger.warn(`Kafka producer connection failed: ${error.message}`);
-      this.logger.warn('Running without Kafka support - messages will be stored locally only');
+      this.logger.warn(
+        this.outboxRepository
+          ? 'Running without Kafka support - messages will be queued in the outbox'
+          : 'Running without Kafka support - messages will be stored locally only',
+      );
       this.isConnected = false;
     }
+    return this.isConnected;
+  }
+
+  private async connectTransport(): Promise<TransportProducer> {
+    const idempotent = this.configService?.get('kafka.idempotent', false);
+    const producer = this.transport.producer({
+      createPartitioner: this.batcher.createPartitioner,
+      idempotent,
+      transactionalId: this.transactionalId,
+      ...(idempotent ? { maxInFlightRequests: 1 } : {}),
+    });
+    await producer.connect();
+    return producer;
   }
 
   async produce(
@@ -42,10 +103,26 @@ export class KafkaProducerService implements OnModuleInit {
     message: any,
     key?: string,
     headers?: Record<string, string>,
+    options: ProduceOptions = {},
   ): Promise<ProducerResult> {
     const messageId = randomUUID();
     const timestamp = new Date().toISOString();
 
+    // Topics with an event contract only accept valid events, upcast to their latest version
+    const validation = validateEvent(topic, message);
+    if (!validation.valid) {
+      return this.rejection(messageId, topic, timestamp, validation.reasons);
+    }
+    message = validation.event;
+
+    // A caller-supplied manager means the message must commit with the caller's
+    // transaction, so it always goes through the outbox. Without one we only
+    // fall back to the outbox when Kafka is unreachable.
+    if (options.manager || (!this.isConnected && this.outboxRepository)) {
+      return this.enqueue(topic, message, key, headers, messageId, timestamp, options.manager);
+    }
+
+    let metadata: RecordMetadata | undefined;
     try {
       this.logger.log(`Producing message to topic: ${topic}`, {
         messageId,
@@ -55,26 +132,20 @@ export class KafkaProducerService implements OnModuleInit {
 
       // If Kafka is connected, try to send the message
       if (this.isConnected) {
-        await this.kafkaClient
-          .emit(topic, {
-            key,
-            value: message,
-            headers: {
-              ...headers,
-              messageId,
-              timestamp,
-            },
-          })
-          .toPromise();
+        metadata = await this.send(topic, message, key, { ...headers, messageId, timestamp });
       } else {
         this.logger.warn(`Kafka not connected. Storing message locally only.`);
       }
 
+      const partition = metadata?.partition ?? -1;
+      const offset = metadata ? this.offsetOf(metadata) : '-1';
+      const baseTimestamp = metadata ? this.baseTimestampOf(metadata, timestamp) : undefined;
+
       const kafkaEvent = {
         id: messageId,
         topic,
-        partition: 0,
-        offset: '0',
+        partition,
+        offset,
         key,
         value: message,
         headers,
@@ -82,27 +153,41 @@ export class KafkaProducerService implements OnModuleInit {
         status: 'processed' as const,
       };
 
-      this.eventStorage.addEvent(kafkaEvent);
+      await this.eventStorage.addEvent(kafkaEvent);
 
       this.logger.log(`Message produced successfully`, {
         messageId,
         topic,
+        partition,
+        offset,
       });
 
       return {
         success: true,
         messageId,
         topic,
+        partition: metadata?.partition,
+        offset: metadata ? offset : undefined,
         timestamp,
+        baseTimestamp,
       };
     } catch (error) {
+      // The producer may still count as connected while the broker is gone. Kafka did not take
+      // the message unless it returned metadata, so the relay retries it from the outbox
+      if (!metadata && this.outboxRepository) {
+        this.logger.warn(
+          `Failed to send message to topic ${topic}, queueing it in the outbox: ${error.message}`,
+        );
+        return this.enqueue(topic, message, key, headers, messageId, timestamp);
+      }
+
       this.logger.error(`Failed to produce message to topic: ${topic}`, error);
 
       const kafkaEvent = {
         id: messageId,
         topic,
-        partition: 0,
-        offset: '0',
+        partition: -1,
+        offset: '-1',
         key,
         value: message,
         headers,
@@ -110,7 +195,7 @@ export class KafkaProducerService implements OnModuleInit {
         status: 'failed' as const,
       };
 
-      this.eventStorage.addEvent(kafkaEvent);
+      await this.eventStorage.addEvent(kafkaEvent);
 
       return {
         success: false,
@@ -122,17 +207,317 @@ export class KafkaProducerService implements OnModuleInit {
     }
   }
 
+  /**
+   * Sends a message straight to Kafka without touching the outbox or event storage.
+   * Used by the outbox relay; throws when the broker cannot be reached.
+   */
+  async publish(
+    topic: string,
+    message: any,
+    key?: string,
+    headers?: Record<string, string>,
+  ): Promise<RecordMetadata> {
+    if (!this.isConnected && !(await this.connect())) {
+      throw new Error('Kafka producer is not connected');
+    }
+    return this.send(topic, message, key, headers);
+  }
+
+  /**
+   * Sends through the underlying kafkajs producer (rather than ClientKafka.emit) so the
+   * broker's record metadata for the written message is available to the caller.
+   */
+  private async send(
+    topic: string,
+    message: any,
+    key?: string,
+    headers?: Record<string, string>,
+  ): Promise<RecordMetadata> {
+    const [metadata] = await this.getProducer().send({
+      topic,
+      messages: [await this.toKafkaMessage(topic, message, key, headers)],
+    });
+
+    if (!metadata) {
+      throw new Error(`Broker returned no record metadata for topic: ${topic}`);
+    }
+    return metadata;
+  }
+
+  private getProducer(): TransportProducer {
+    return this.producer ?? this.kafkaClient.producer;
+  }
+
+  /**
+   * Runs `work` inside a Kafka transaction. Everything sent through `tx` - across any
+   * number of topics - and any consumer offsets passed to `tx.sendOffsets` become
+   * visible atomically when `work` resolves, and are aborted when it throws.
+   * Requires `kafka.transactionalId` to be configured.
+   */
+  async transaction<T>(work: (tx: ProducerTransaction) => Promise<T>): Promise<T> {
+    if (!this.transactionalId) {
+      throw new Error('Kafka transactions require kafka.transactionalId to be configured');
+    }
+
+    const run = () => this.runTransaction(work);
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runTransaction<T>(work: (tx: ProducerTransaction) => Promise<T>): Promise<T> {
+    if (!this.isConnected && !(await this.connect())) {
+      throw new Error('Kafka producer is not connected');
+    }
+
+    const kafkaTransaction = await this.getProducer().transaction();
+    const events: KafkaEvent[] = [];
+
+    const tx: ProducerTransaction = {
+      send: async (topic, message, key, headers) => {
+        const validation = validateEvent(topic, message);
+        if (!validation.valid) {
+          throw new EventValidationError(topic, validation.reasons);
+        }
+        message = validation.event;
+
+        const messageId = randomUUID();
+        const timestamp = new Date().toISOString();
+        const [metadata] = await kafkaTransaction.send({
+          topic,
+          messages: [
+            await this.toKafkaMessage(topic, message, key, { ...headers, messageId, timestamp }),
+          ],
+        });
+
+        const partition = metadata?.partition ?? -1;
+        const offset = metadata ? this.offsetOf(metadata) : '-1';
+        events.push({
+          id: messageId,
+          topic,
+          partition,
+          offset,
+          key,
+          value: message,
+          headers,
+          timestamp,
+          status: 'pending',
+        });
+
+        return {
+          success: true,
+          messageId,
+          topic,
+          partition: metadata?.partition,
+          offset: metadata ? offset : undefined,
+          timestamp,
+        };
+      },
+      sendOffsets: async (consumerGroupId: string, topics: TopicOffsets[]) => {
+        await kafkaTransaction.sendOffsets({ consumerGroupId, topics });
+      },
+    };
+
+    try {
+      const result = await work(tx);
+      await kafkaTransaction.commit();
+      for (const event of events) {
+        await this.eventStorage.addEvent({ ...event, status: 'processed' });
+      }
+      this.logger.log(`Kafka transaction committed (${events.length} messages)`);
+      return result;
+    } catch (error) {
+      this.logger.error('Kafka transaction failed, aborting', error);
+      try {
+        await kafkaTransaction.abort();
+      } catch (abortError) {
+        this.logger.error('Failed to abort Kafka transaction', abortError);
+      }
+      for (const event of events) {
+        await this.eventStorage.addEvent({ ...event, status: 'failed' });
+      }
+      throw error;
+    }
+  }
+
+  private async toKafkaMessage(
+    topic: string,
+    message: any,
+    key?: string,
+    headers?: Record<string, string>,
+  ): Promise<Message> {
+    const timestamp = headers?.timestamp ? new Date(headers.timestamp).getTime() : Date.now();
+    return {
+      key: key ?? null,
+      // Buffers are already encoded (e.g. records forwarded to retry topics) and go as-is
+      value: Buffer.isBuffer(message)
+        ? message
+        : await (this.serializers ?? this.jsonSerializer).serialize(topic, message),
+      headers,
+      timestamp: timestamp.toString(),
+    };
+  }
+
+  private offsetOf(metadata: RecordMetadata): string {
+    // Produce responses carry the base offset of the written record set
+    return metadata.baseOffset ?? metadata.offset ?? '-1';
+  }
+
+  private baseTimestampOf(metadata: RecordMetadata, timestamp: string): string {
+    // Brokers report logAppendTime only for LogAppendTime topics (-1 means CreateTime),
+    // in which case the record keeps the producer timestamp we set ourselves
+    const logAppendTime = Number(metadata.logAppendTime ?? metadata.timestamp ?? -1);
+    return logAppendTime > 0 ? new Date(logAppendTime).toISOString() : timestamp;
+  }
+
+  private async enqueue(
+    topic: string,
+    message: any,
+    key: string | undefined,
+    headers: Record<string, string> | undefined,
+    messageId: string,
+    timestamp: string,
+    manager?: EntityManager,
+  ): Promise<ProducerResult> {
+    if (!this.outboxRepository) {
+      throw new Error('Transactional produce requires the outbox repository');
+    }
+
+    await this.outboxRepository.enqueue(
+      {
+        messageId,
+        topic,
+        messageKey: key ?? null,
+        payload: message,
+        headers: { ...headers, messageId, timestamp },
+      },
+      manager,
+    );
+
+    this.logger.log(`Message queued in outbox for topic: ${topic}`, { messageId, key });
+
+    // The event store is outside the caller's transaction, which may still roll back: the
+    // relay records the event once it publishes the committed row
+    if (manager) {
+      return { success: true, messageId, topic, timestamp, queued: true };
+    }
+
+    await this.eventStorage.addEvent({
+      id: messageId,
+      topic,
+      partition: -1,
+      offset: '-1',
+      key,
+      value: message,
+      headers,
+      timestamp,
+      status: 'pending',
+    });
+
+    return {
+      success: true,
+      messageId,
+      topic,
+      timestamp,
+      queued: true,
+    };
+  }
+
   async produceMany(
     topic: string,
     messages: Array<{ key?: string; value: any; headers?: Record<string, string> }>,
   ): Promise<ProducerResult[]> {
-    const results: ProducerResult[] = [];
+    return this.produceBatch(messages.map((message) => ({ ...message, topic })));
+  }
 
-    for (const message of messages) {
-      const result = await this.produce(topic, message.value, message.key, message.headers);
-      results.push(result);
+  /**
+   * Produces messages for one or more topics through the batcher, which coalesces them
+   * into as few `sendBatch` calls as the configured max batch size allows. Results are
+   * aligned with the input: `results[i]` always describes `messages[i]`.
+   */
+  async produceBatch(messages: BatchMessage[]): Promise<ProducerResult[]> {
+    // Without a broker every message takes the single-message fallback path (outbox or
+    // local storage); sequential calls keep the outbox insertion order intact
+    if (!this.isConnected) {
+      const results: ProducerResult[] = [];
+      for (const message of messages) {
+        results.push(
+          await this.produce(message.topic, message.value, message.key, message.headers),
+        );
+      }
+      return results;
     }
 
-    return results;
+    this.logger.log(`Producing batch of ${messages.length} messages`);
+
+    return Promise.all(
+      messages.map(async ({ topic, key, value, headers }) => {
+        const messageId = randomUUID();
+        const timestamp = new Date().toISOString();
+
+        let result: ProducerResult;
+        let validation: EventValidationResult;
+        if (!topic) {
+          result = this.failure(messageId, topic, timestamp, 'Topic is required');
+        } else if (value === undefined || value === null) {
+          result = this.failure(messageId, topic, timestamp, 'Message value is required');
+        } else if (!(validation = validateEvent(topic, value)).valid) {
+          result = this.rejection(messageId, topic, timestamp, validation.reasons);
+        } else {
+          const outcome = await this.toKafkaMessage(topic, validation.event, key, {
+            ...headers,
+            messageId,
+            timestamp,
+          }).then(
+            (message) => this.batcher.add({ topic, message }),
+            (error: Error) => ({ error } as BatchEntryResult),
+          );
+          result = outcome.error
+            ? this.failure(messageId, topic, timestamp, outcome.error.message)
+            : {
+                success: true,
+                messageId,
+                topic,
+                partition: outcome.partition,
+                offset: outcome.offset,
+                timestamp,
+              };
+        }
+
+        await this.eventStorage.addEvent({
+          id: messageId,
+          topic,
+          partition: result.partition ?? -1,
+          offset: result.offset ?? '-1',
+          key,
+          value,
+          headers,
+          timestamp,
+          status: result.success ? 'processed' : 'failed',
+        });
+
+        return result;
+      }),
+    );
+  }
+
+  private failure(
+    messageId: string,
+    topic: string,
+    timestamp: string,
+    error: string,
+  ): ProducerResult {
+    this.logger.error(`Failed to produce message to topic: ${topic}: ${error}`);
+    return { success: false, messageId, topic, timestamp, error };
+  }
+
+  private rejection(
+    messageId: string,
+    topic: string,
+    timestamp: string,
+    reasons: EventRejectionReason[],
+  ): ProducerResult {
+    const error = `Invalid ${topic} event: ${describeReasons(reasons)}`;
+    return { ...this.failure(messageId, topic, timestamp, error), reasons };
   }
 }
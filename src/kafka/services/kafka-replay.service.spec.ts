@@ -0,0 +1,284 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  InvalidReplayRequestError,
+  KafkaReplayService,
+  REPLAY_JOB_HEADER,
+} from './kafka-replay.service';
+import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaProducerService } from './kafka-producer.service';
+import { ReplayJob } from '../interfaces/replay.interface';
+
+const END_BATCH_PROCESS = 'consumer.end_batch_process';
+const CRASH = 'consumer.crash';
+
+describe('KafkaReplayService', () => {
+  let admin: Record<string, jest.Mock>;
+  let consumer: Record<string, any>;
+  let kafka: { admin: jest.Mock; consumer: jest.Mock };
+  let redeliver: jest.Mock;
+  let publish: jest.Mock;
+  let service: KafkaReplayService;
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  const finished = (job: ReplayJob) => waitFor(() => job.finishedAt !== undefined);
+
+  const deliver = (partition: number, offset: number) =>
+    consumer.eachMessage({
+      topic: 'call-events',
+      partition,
+      message: {
+        offset: String(offset),
+        key: Buffer.from(`call-${offset}`),
+        value: Buffer.from(JSON.stringify({ offset })),
+        headers: { correlationId: Buffer.from('abc') },
+      },
+    });
+
+  beforeEach(() => {
+    admin = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      deleteGroups: jest.fn().mockResolvedValue(undefined),
+      fetchTopicOffsets: jest.fn().mockResolvedValue([
+        { partition: 0, low: '0', high: '10', offset: '10' },
+        { partition: 1, low: '2', high: '5', offset: '5' },
+      ]),
+      fetchTopicOffsetsByTimestamp: jest.fn(),
+    };
+    consumer = {
+      events: { END_BATCH_PROCESS, CRASH },
+      listeners: {},
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+      on: jest.fn((event: string, listener: (event: any) => void) => {
+        consumer.listeners[event] = [...(consumer.listeners[event] ?? []), listener];
+      }),
+      run: jest.fn(async ({ eachMessage }) => {
+        consumer.eachMessage = eachMessage;
+      }),
+      seek: jest.fn(),
+      pause: jest.fn(),
+    };
+    kafka = { admin: jest.fn(() => admin), consumer: jest.fn(() => consumer) };
+    redeliver = jest.fn().mockResolvedValue(undefined);
+    publish = jest.fn().mockResolvedValue({ topicName: 'x', partition: 0, baseOffset: '0' });
+
+    service = new KafkaReplayService(
+      { getClient: () => kafka, redeliver } as unknown as KafkaConsumerService,
+      { publish } as unknown as KafkaProducerService,
+    );
+  });
+
+  it('should replay an offset range through the handlers with a temporary group', async () => {
+    const job = service.start({
+      topic: 'call-events',
+      partitions: [0],
+      fromOffset: '3',
+      toOffset: '4',
+    });
+    await waitFor(() => consumer.seek.mock.calls.length > 0);
+
+    expect(kafka.consumer).toHaveBeenCalledWith({ groupId: job.groupId });
+    expect(job.groupId).toBe(`core-pipeline-group-replay-${job.id}`);
+    expect(consumer.seek).toHaveBeenCalledWith({ topic: 'call-events', partition: 0, offset: '3' });
+    expect(consumer.pause).toHaveBeenCalledWith([{ topic: 'call-events', partitions: [1] }]);
+    expect(job.total).toBe(2);
+
+    await deliver(0, 3);
+    expect(job.progress).toBe(50);
+    await deliver(0, 4);
+    await finished(job);
+
+    expect(job).toEqual(
+      expect.objectContaining({ status: 'completed', replayed: 2, failed: 0, progress: 100 }),
+    );
+    expect(job.partitions).toEqual([
+      {
+        partition: 0,
+        startOffset: '3',
+        endOffset: '5',
+        position: '5',
+        replayed: 2,
+        failed: 0,
+      },
+    ]);
+    expect(redeliver).toHaveBeenCalledTimes(2);
+    expect(redeliver.mock.calls[0][1]).toEqual({ [REPLAY_JOB_HEADER]: job.id });
+    expect(consumer.disconnect).toHaveBeenCalled();
+    expect(admin.deleteGroups).toHaveBeenCalledWith([job.groupId]);
+  });
+
+  it('should resolve timestamps to offsets and republish to a target topic', async () => {
+    admin.fetchTopicOffsetsByTimestamp.mockImplementation(async (_topic, timestamp) =>
+      timestamp === Date.parse('2024-01-01T10:00:00Z')
+        ? [
+            { partition: 0, offset: '8' },
+            { partition: 1, offset: '4' },
+          ]
+        : [
+            { partition: 0, offset: '9' },
+            { partition: 1, offset: '4' },
+          ],
+    );
+
+    const job = service.start({
+      topic: 'call-events',
+      fromTimestamp: '2024-01-01T10:00:00Z',
+      toTimestamp: '2024-01-01T11:00:00Z',
+      targetTopic: 'call-events.reprocess',
+    });
+    await waitFor(() => consumer.seek.mock.calls.length > 0);
+
+    // Partition 1 has nothing in the window and is never read
+    expect(consumer.seek).toHaveBeenCalledTimes(1);
+    expect(consumer.pause).toHaveBeenCalledWith([{ topic: 'call-events', partitions: [1] }]);
+
+    await deliver(0, 8);
+    await finished(job);
+
+    expect(job.status).toBe('completed');
+    expect(redeliver).not.toHaveBeenCalled();
+    const [topic, value, key, headers] = publish.mock.calls[0];
+    expect(topic).toBe('call-events.reprocess');
+    expect(value.toString()).toBe('{"offset":8}');
+    expect(key).toBe('call-8');
+    expect(headers).toEqual({ correlationId: 'abc', [REPLAY_JOB_HEADER]: job.id });
+  });
+
+  it('should only size the ranges in dry-run mode', async () => {
+    const job = service.start({ topic: 'call-events', fromOffset: '0', dryRun: true });
+    await finished(job);
+
+    expect(job.status).toBe('completed');
+    // Ranges are clamped to the partitions' low watermarks
+    expect(job.total).toBe(13);
+    expect(job.partitions.map((p) => [p.startOffset, p.endOffset])).toEqual([
+      ['0', '10'],
+      ['2', '5'],
+    ]);
+    expect(kafka.consumer).not.toHaveBeenCalled();
+  });
+
+  it('should count failed messages and keep replaying', async () => {
+    redeliver.mockRejectedValueOnce(new Error('call not found'));
+
+    const job = service.start({ topic: 'call-events', partitions: [0], fromOffset: '8' });
+    await waitFor(() => consumer.eachMessage !== undefined);
+    await deliver(0, 8);
+    await deliver(0, 9);
+    await finished(job);
+
+    expect(job).toEqual(
+      expect.objectContaining({
+        status: 'completed',
+        replayed: 1,
+        failed: 1,
+        lastError: 'call not found',
+      }),
+    );
+  });
+
+  it('should finish a partition on a batch end past offsets without messages', async () => {
+    const job = service.start({
+      topic: 'call-events',
+      partitions: [0],
+      fromOffset: '0',
+      toOffset: '2',
+    });
+    await waitFor(() => consumer.eachMessage !== undefined);
+    await deliver(0, 0);
+    await deliver(0, 1);
+
+    // Offset 2 is a transaction marker: the batch ends there without delivering it
+    consumer.listeners[END_BATCH_PROCESS].forEach((listener) =>
+      listener({ payload: { topic: 'call-events', partition: 0, lastOffset: '2' } }),
+    );
+    await finished(job);
+
+    expect(job.status).toBe('completed');
+    expect(job.replayed).toBe(2);
+  });
+
+  it('should stop a cancelled replay', async () => {
+    const job = service.start({ topic: 'call-events', partitions: [0], fromOffset: '0' });
+    await waitFor(() => consumer.eachMessage !== undefined);
+    await deliver(0, 0);
+
+    expect(service.cancel(job.id).status).toBe('cancelled');
+    await finished(job);
+    await deliver(0, 1);
+
+    expect(job.status).toBe('cancelled');
+    expect(job.replayed).toBe(1);
+    expect(consumer.disconnect).toHaveBeenCalled();
+    expect(admin.deleteGroups).toHaveBeenCalledWith([job.groupId]);
+  });
+
+  it('should fail the job when its consumer crashes', async () => {
+    const job = service.start({ topic: 'call-events', partitions: [0], fromOffset: '0' });
+    await waitFor(() => consumer.eachMessage !== undefined);
+
+    consumer.listeners[CRASH].forEach((listener) =>
+      listener({ payload: { error: new Error('Broker not available'), restart: true } }),
+    );
+    await finished(job);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Broker not available');
+    expect(consumer.disconnect).toHaveBeenCalled();
+  });
+
+  it('should fail the job when no partition advances for the idle timeout', async () => {
+    service = new KafkaReplayService(
+      { getClient: () => kafka, redeliver } as unknown as KafkaConsumerService,
+      undefined,
+      new ConfigService({ kafka: { replay: { idleTimeoutMs: 20 } } }),
+    );
+
+    const job = service.start({ topic: 'call-events', partitions: [0], fromOffset: '0' });
+    await waitFor(() => consumer.eachMessage !== undefined);
+    await deliver(0, 0);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await finished(job);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('No progress for 20ms, giving up');
+    expect(job.replayed).toBe(1);
+  });
+
+  it('should fail the job for unknown partitions', async () => {
+    const job = service.start({ topic: 'call-events', partitions: [7], fromOffset: '0' });
+    await finished(job);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Topic call-events has no partition 7');
+  });
+
+  it('should fail the job without a Kafka client', async () => {
+    service = new KafkaReplayService({ getClient: () => null } as unknown as KafkaConsumerService);
+
+    const job = service.start({ topic: 'call-events', fromOffset: '0' });
+    await finished(job);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Kafka is not available');
+  });
+
+  it.each([
+    [{ topic: 'call-events' }],
+    [{ topic: 'call-events', fromOffset: '1', fromTimestamp: '2024-01-01T00:00:00Z' }],
+    [{ topic: 'call-events', fromOffset: '1', toOffset: '2', toTimestamp: '2024-01-01' }],
+    [{ topic: 'call-events', fromOffset: '-1' }],
+    [{ topic: 'call-events', fromTimestamp: 'yesterday' }],
+    [{ topic: 'call-events', fromOffset: '0', targetTopic: 'call-events' }],
+  ])('should reject the request %j', (request) => {
+    expect(() => service.start(request)).toThrow(InvalidReplayRequestError);
+  });
+});
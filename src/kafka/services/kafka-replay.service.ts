@@ -0,0 +1,397 @@
+import { Injectable, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EachMessagePayload } from 'kafkajs';
+import { randomUUID } from 'crypto';
+import { ReplayJob, ReplayPartitionProgress, ReplayRequest } from '../interfaces/replay.interface';
+import { KafkaTransport, TransportAdmin } from '../interfaces/kafka-transport.interface';
+import { KafkaConsumerService } from './kafka-consumer.service';
+import { KafkaProducerService } from './kafka-producer.service';
+
+/** Set on every replayed message so handlers and downstream consumers can tell replays apart */
+export const REPLAY_JOB_HEADER = 'x-replay-job';
+
+const MAX_JOBS = 100;
+
+export class InvalidReplayRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidReplayRequestError';
+  }
+}
+
+interface OffsetRange {
+  progress: ReplayPartitionProgress;
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * Re-processes a window of a topic. Each job reads with its own temporary consumer group,
+ * seeks every partition to the start of its range and stops once all ranges are read, so
+ * the service's regular consumer groups and their committed offsets are left untouched.
+ * Messages go through the topic's normal handlers, or are republished to a target topic.
+ */
+@Injectable()
+export class KafkaReplayService implements OnModuleDestroy {
+  private readonly logger = new Logger(KafkaReplayService.name);
+  private readonly jobs: Map<string, ReplayJob> = new Map();
+  // Settles the wait of a running job: without an error once it is done or cancelled, with
+  // one when it cannot finish
+  private readonly running: Map<string, (error?: Error) => void> = new Map();
+  private readonly groupPrefix: string;
+  private readonly idleTimeoutMs: number;
+
+  constructor(
+    private readonly kafkaConsumer: KafkaConsumerService,
+    @Optional() private readonly kafkaProducer?: KafkaProducerService,
+    @Optional() private readonly configService?: ConfigService,
+  ) {
+    const groupId = this.configService?.get('kafka.groupId') ?? 'core-pipeline-group';
+    this.groupPrefix = `${groupId}-replay`;
+    this.idleTimeoutMs = this.configService?.get('kafka.replay.idleTimeoutMs') ?? 300000;
+  }
+
+  async onModuleDestroy() {
+    for (const id of this.running.keys()) {
+      this.cancel(id);
+    }
+  }
+
+  /** Starts a replay in the background; poll `getJob` for its progress */
+  start(request: ReplayRequest): ReplayJob {
+    this.validate(request);
+
+    const id = randomUUID();
+    const job: ReplayJob = {
+      id,
+      groupId: `${this.groupPrefix}-${id}`,
+      request,
+      status: 'running',
+      total: 0,
+      replayed: 0,
+      failed: 0,
+      progress: 0,
+      partitions: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(id, job);
+    if (this.jobs.size > MAX_JOBS) {
+      const finished = Array.from(this.jobs.values()).find((j) => j.status !== 'running');
+      this.jobs.delete(finished?.id ?? this.jobs.keys().next().value);
+    }
+
+    void this.run(job);
+    return job;
+  }
+
+  getJob(id: string): ReplayJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /** Most recent first */
+  getJobs(): ReplayJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  cancel(id: string): ReplayJob | undefined {
+    const job = this.jobs.get(id);
+    if (job?.status === 'running') {
+      job.status = 'cancelled';
+      this.running.get(id)?.();
+      this.logger.log(`Replay ${id} cancelled`);
+    }
+    return job;
+  }
+
+  private validate(request: ReplayRequest): void {
+    if ((request.fromOffset === undefined) === (request.fromTimestamp === undefined)) {
+      throw new InvalidReplayRequestError('Exactly one of fromOffset or fromTimestamp is required');
+    }
+    if (request.toOffset !== undefined && request.toTimestamp !== undefined) {
+      throw new InvalidReplayRequestError('At most one of toOffset or toTimestamp is allowed');
+    }
+
+    for (const name of ['fromOffset', 'toOffset'] as const) {
+      if (request[name] !== undefined && !/^\d+$/.test(request[name])) {
+        throw new InvalidReplayRequestError(`${name} must be a non-negative integer`);
+      }
+    }
+    for (const name of ['fromTimestamp', 'toTimestamp'] as const) {
+      if (request[name] !== undefined && Number.isNaN(Date.parse(request[name]))) {
+        throw new InvalidReplayRequestError(`${name} must be an ISO 8601 timestamp`);
+      }
+    }
+
+    if (request.targetTopic === request.topic) {
+      throw new InvalidReplayRequestError('targetTopic must differ from the replayed topic');
+    }
+    if (request.targetTopic && !this.kafkaProducer) {
+      throw new InvalidReplayRequestError('Replaying to a target topic needs a Kafka producer');
+    }
+  }
+
+  private async run(job: ReplayJob): Promise<void> {
+    const kafka = this.kafkaConsumer.getClient();
+    if (!kafka) {
+      this.finish(job, 'failed', 'Kafka is not available');
+      return;
+    }
+
+    const admin = kafka.admin();
+    try {
+      await admin.connect();
+      const { ranges, partitions } = await this.resolveRanges(admin, job.request);
+      job.partitions = ranges.map((range) => range.progress);
+      job.total = ranges.reduce((total, range) => total + Number(range.end - range.start), 0);
+      this.logger.log(
+        `Replay ${job.id} of ${job.request.topic}: ${job.total} messages in ${ranges.length} partitions` +
+          (job.request.dryRun ? ' (dry run)' : ''),
+      );
+
+      if (!job.request.dryRun && job.total > 0 && job.status === 'running') {
+        await this.consume(kafka, job, ranges, partitions);
+      }
+      this.finish(job, 'completed');
+    } catch (error) {
+      this.logger.error(`Replay ${job.id} failed`, error);
+      this.finish(job, 'failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      // The group only exists once the job consumed; failing to delete it is harmless
+      await admin.deleteGroups([job.groupId]).catch(() => undefined);
+      await admin.disconnect().catch(() => undefined);
+    }
+  }
+
+  /** Offset ranges of the requested partitions, plus every partition of the topic */
+  private async resolveRanges(
+    admin: TransportAdmin,
+    request: ReplayRequest,
+  ): Promise<{ ranges: OffsetRange[]; partitions: number[] }> {
+    const watermarks = await admin.fetchTopicOffsets(request.topic);
+    const starts = request.fromTimestamp
+      ? await admin.fetchTopicOffsetsByTimestamp(request.topic, Date.parse(request.fromTimestamp))
+      : [];
+    const ends = request.toTimestamp
+      ? await admin.fetchTopicOffsetsByTimestamp(request.topic, Date.parse(request.toTimestamp))
+      : [];
+    const offsetIn = (offsets: Array<{ partition: number; offset: string }>, partition: number) =>
+      BigInt(offsets.find((offset) => offset.partition === partition).offset);
+
+    const unknown = (request.partitions ?? []).filter(
+      (partition) => !watermarks.some((watermark) => watermark.partition === partition),
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Topic ${request.topic} has no partition ${unknown.join(', ')}`);
+    }
+
+    const ranges = watermarks
+      .filter(({ partition }) => !request.partitions || request.partitions.includes(partition))
+      .sort((a, b) => a.partition - b.partition)
+      .map(({ partition, low, high }) => {
+        const from = request.fromTimestamp
+          ? offsetIn(starts, partition)
+          : BigInt(request.fromOffset);
+        const to = request.toTimestamp
+          ? offsetIn(ends, partition)
+          : request.toOffset !== undefined
+          ? BigInt(request.toOffset) + BigInt(1)
+          : BigInt(high);
+
+        // Ranges are clamped to what the partition holds now, so the replay terminates
+        const start = from > BigInt(low) ? from : BigInt(low);
+        const end = to < BigInt(high) ? to : BigInt(high);
+        const bounded = end > start ? end : start;
+
+        return {
+          start,
+          end: bounded,
+          progress: {
+            partition,
+            startOffset: start.toString(),
+            endOffset: bounded.toString(),
+            position: start.toString(),
+            replayed: 0,
+            failed: 0,
+          },
+        };
+      });
+    return { ranges, partitions: watermarks.map(({ partition }) => partition) };
+  }
+
+  private async consume(
+    kafka: KafkaTransport,
+    job: ReplayJob,
+    ranges: OffsetRange[],
+    partitions: number[],
+  ): Promise<void> {
+    const { topic } = job.request;
+    const byPartition = new Map(ranges.map((range) => [range.progress.partition, range]));
+    const isDone = (range: OffsetRange) => BigInt(range.progress.position) >= range.end;
+
+    const finished = new Promise<void>((resolve, reject) =>
+      this.running.set(job.id, (error) => (error ? reject(error) : resolve())),
+    );
+    // Awaited once the consumer runs; a failure before that must not go unhandled meanwhile
+    finished.catch(() => undefined);
+    const consumer = kafka.consumer({ groupId: job.groupId });
+
+    // Fails the job when no partition moves forward for idleTimeoutMs, e.g. while the
+    // brokers are unreachable; 0 waits indefinitely
+    let idle: NodeJS.Timeout | undefined;
+    const watch = () => {
+      clearTimeout(idle);
+      if (this.idleTimeoutMs > 0) {
+        idle = setTimeout(
+          () =>
+            this.running.get(job.id)?.(
+              new Error(`No progress for ${this.idleTimeoutMs}ms, giving up`),
+            ),
+          this.idleTimeoutMs,
+        );
+      }
+    };
+
+    // Moves a partition's position forward and releases the job once every range is read
+    const advance = (range: OffsetRange, next: bigint) => {
+      const position = next < range.end ? next : range.end;
+      if (position > BigInt(range.progress.position)) {
+        range.progress.position = position.toString();
+        this.updateProgress(job, ranges);
+        watch();
+      }
+      if (isDone(range)) {
+        consumer.pause([{ topic, partitions: [range.progress.partition] }]);
+      }
+      if (ranges.every(isDone)) {
+        this.running.get(job.id)?.();
+      }
+    };
+
+    try {
+      await consumer.connect();
+      await consumer.subscribe({ topic, fromBeginning: true });
+
+      // A crashed consumer is not restarted with the job's seeks, so the job cannot finish
+      consumer.on(consumer.events.CRASH, ({ payload }) =>
+        this.running.get(job.id)?.(payload.error ?? new Error('Replay consumer crashed')),
+      );
+
+      // Batches also cover offsets without a delivered message (e.g. transaction markers)
+      consumer.on(consumer.events.END_BATCH_PROCESS, ({ payload }) => {
+        const range = byPartition.get(payload.partition);
+        if (range && payload.topic === topic) {
+          advance(range, BigInt(payload.lastOffset) + BigInt(1));
+        }
+      });
+
+      await consumer.run({
+        autoCommit: false,
+        eachMessage: async (payload: EachMessagePayload) => {
+          const range = byPartition.get(payload.partition);
+          const offset = BigInt(payload.message.offset);
+          if (job.status !== 'running' || !range || offset < range.start || offset >= range.end) {
+            return;
+          }
+
+          await this.replayMessage(job, range, payload);
+          advance(range, offset + BigInt(1));
+        },
+      });
+
+      for (const range of ranges) {
+        if (!isDone(range)) {
+          consumer.seek({
+            topic,
+            partition: range.progress.partition,
+            offset: range.progress.position,
+          });
+        }
+      }
+      // Partitions outside the replay are assigned to the group too; keep them from being read
+      const idle = partitions.filter(
+        (partition) => !byPartition.has(partition) || isDone(byPartition.get(partition)),
+      );
+      if (idle.length > 0) {
+        consumer.pause([{ topic, partitions: idle }]);
+      }
+
+      if (ranges.every(isDone)) {
+        this.running.get(job.id)?.();
+      }
+      watch();
+      await finished;
+    } finally {
+      clearTimeout(idle);
+      this.running.delete(job.id);
+      await consumer.disconnect();
+    }
+  }
+
+  private async replayMessage(
+    job: ReplayJob,
+    range: OffsetRange,
+    payload: EachMessagePayload,
+  ): Promise<void> {
+    const { topic, partition, message } = payload;
+    try {
+      if (job.request.targetTopic) {
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(message.headers ?? {})) {
+          if (value !== undefined) {
+            headers[name] = value.toString();
+          }
+        }
+        await this.kafkaProducer.publish(
+          job.request.targetTopic,
+          message.value,
+          message.key?.toString(),
+          { ...headers, [REPLAY_JOB_HEADER]: job.id },
+        );
+      } else {
+        await this.kafkaConsumer.redeliver(payload, { [REPLAY_JOB_HEADER]: job.id });
+      }
+      range.progress.replayed++;
+      job.replayed++;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Replay ${job.id} failed for ${topic}[${partition}]@${message.offset}: ${reason}`,
+      );
+      range.progress.failed++;
+      job.failed++;
+      job.lastError = reason;
+    }
+  }
+
+  private updateProgress(job: ReplayJob, ranges: OffsetRange[]): void {
+    const covered = ranges.reduce(
+      (total, range) => total + Number(BigInt(range.progress.position) - range.start),
+      0,
+    );
+    const progress = job.total > 0 ? Math.floor((covered / job.total) * 100) : 100;
+
+    // Log every 10% so long replays show up in the logs without flooding them
+    if (Math.floor(progress / 10) > Math.floor(job.progress / 10)) {
+      this.logger.log(
+        `Replay ${job.id}: ${progress}% (${job.replayed} replayed, ${job.failed} failed)`,
+      );
+    }
+    job.progress = progress;
+  }
+
+  private finish(job: ReplayJob, status: 'completed' | 'failed', error?: string): void {
+    job.finishedAt = new Date().toISOString();
+    // A cancelled job stays cancelled even though its run winds down normally
+    if (job.status !== 'running') {
+      return;
+    }
+
+    job.status = status;
+    job.error = error;
+    if (status === 'completed') {
+      job.progress = 100;
+    }
+    this.logger.log(`Replay ${job.id} ${status}`);
+  }
+}
@@ -0,0 +1,238 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { OutboxRelayService } from './outbox-relay.service';
+import { KafkaProducerService } from './kafka-producer.service';
+import { EventStorageService } from './event-storage.service';
+import { OutboxRepository } from '../../repositories/outbox.repository';
+import { CallRepository } from '../../repositories/call.repository';
+import { OutboxMessage } from '../../entities/outbox-message.entity';
+import { Call } from '../../entities/call.entity';
+import { DistributedLockService } from '../../locks/distributed-lock.service';
+
+describe('OutboxRelayService', () => {
+  let dataSource: DataSource;
+  let outboxRepository: OutboxRepository;
+  let callRepository: CallRepository;
+  let eventStorage: EventStorageService;
+  let kafkaClient: { connect: jest.Mock; producer: { send: jest.Mock } };
+  let producer: KafkaProducerService;
+  let configService: ConfigService;
+  let relay: OutboxRelayService;
+  let published: Array<{ topic: string; key?: string; value: any }>;
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [Call, OutboxMessage],
+      synchronize: true,
+      dropSchema: true,
+      logging: false,
+    });
+    await dataSource.initialize();
+
+    outboxRepository = new OutboxRepository(dataSource);
+    callRepository = new CallRepository(dataSource);
+    eventStorage = new EventStorageService();
+    published = [];
+    kafkaClient = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      producer: {
+        send: jest.fn().mockImplementation(async ({ topic, messages: [message] }) => {
+          published.push({ topic, key: message.key, value: JSON.parse(message.value) });
+          return [
+            { topicName: topic, partition: 0, errorCode: 0, baseOffset: `${published.length}` },
+          ];
+        }),
+      },
+    };
+
+    producer = new KafkaProducerService(kafkaClient as any, eventStorage, outboxRepository);
+    await producer.onModuleInit();
+
+    configService = {
+      get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+    } as unknown as ConfigService;
+    relay = new OutboxRelayService(outboxRepository, producer, eventStorage, configService);
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should commit the call and its event atomically', async () => {
+    await dataSource.transaction(async (manager) => {
+      await callRepository.createCall({ callerId: 'a', recipientId: 'b' }, manager);
+      await producer.produce(
+        'call-events',
+        { callerId: 'a', recipientId: 'b' },
+        'call-1',
+        undefined,
+        { manager },
+      );
+    });
+
+    await expect(
+      dataSource.transaction(async (manager) => {
+        await callRepository.createCall({ callerId: 'c', recipientId: 'd' }, manager);
+        await producer.produce(
+          'call-events',
+          { callerId: 'c', recipientId: 'd' },
+          'call-2',
+          undefined,
+          {
+            manager,
+          },
+        );
+        throw new Error('business write failed');
+      }),
+    ).rejects.toThrow('business write failed');
+
+    expect(await callRepository.count()).toBe(1);
+    expect(await outboxRepository.countPending()).toBe(1);
+    expect(await eventStorage.getAllEvents()).toEqual([]);
+    expect(kafkaClient.producer.send).not.toHaveBeenCalled();
+  });
+
+  it('should publish pending rows and set published_at', async () => {
+    const result = await producer.produce('user-events', { n: 1 }, 'k', undefined, {
+      manager: dataSource.manager,
+    });
+    expect(result.queued).toBe(true);
+    expect(await eventStorage.getEvent(result.messageId)).toBeUndefined();
+
+    const drained = await relay.drain();
+
+    expect(drained).toEqual({ published: 1, failed: 0, deferred: 0 });
+    expect(published).toEqual([{ topic: 'user-events', key: 'k', value: { n: 1 } }]);
+    const row = await outboxRepository.findOneBy({ messageId: result.messageId });
+    expect(row.publishedAt).toBeInstanceOf(Date);
+    expect(await eventStorage.getEvent(result.messageId)).toEqual(
+      expect.objectContaining({
+        topic: 'user-events',
+        partition: 0,
+        offset: '1',
+        key: 'k',
+        value: { n: 1 },
+        headers: {},
+        timestamp: result.timestamp,
+        status: 'processed',
+      }),
+    );
+    expect(await outboxRepository.countPending()).toBe(0);
+  });
+
+  it('should hold back later messages for a key until the earlier one is published', async () => {
+    const manager = dataSource.manager;
+    await producer.produce('user-events', { n: 1 }, 'key-a', undefined, { manager });
+    await producer.produce('user-events', { n: 2 }, 'key-a', undefined, { manager });
+    await producer.produce('user-events', { n: 3 }, 'key-b', undefined, { manager });
+
+    kafkaClient.producer.send.mockRejectedValueOnce(new Error('broker unavailable'));
+
+    const first = await relay.drain();
+    expect(first).toEqual({ published: 1, failed: 1, deferred: 1 });
+    expect(published.map((p) => p.value.n)).toEqual([3]);
+
+    const failedRow = await outboxRepository.findOneBy({ messageKey: 'key-a', attempts: 1 });
+    expect(failedRow.lastError).toBe('broker unavailable');
+    expect(failedRow.nextAttemptAt).toBeInstanceOf(Date);
+
+    // Still backing off: nothing for key-a may be sent yet
+    const second = await relay.drain();
+    expect(second).toEqual({ published: 0, failed: 0, deferred: 0 });
+
+    const third = await relay.drain(new Date(Date.now() + 120000));
+    expect(third).toEqual({ published: 2, failed: 0, deferred: 0 });
+    expect(published.map((p) => p.value.n)).toEqual([3, 1, 2]);
+  });
+
+  it('should keep draining other keys while one key has more failing rows than a batch', async () => {
+    (configService.get as jest.Mock).mockImplementation((key: string, defaultValue?: any) =>
+      key === 'kafka.outbox.batchSize' ? 3 : defaultValue,
+    );
+    relay = new OutboxRelayService(outboxRepository, producer, eventStorage, configService);
+    const manager = dataSource.manager;
+    for (let n = 1; n <= 5; n++) {
+      await producer.produce('user-events', { n }, 'failing', undefined, { manager });
+    }
+    await producer.produce('user-events', { n: 6 }, 'healthy', undefined, { manager });
+    kafkaClient.producer.send.mockRejectedValueOnce(new Error('message too large'));
+
+    expect(await relay.drain()).toEqual({ published: 0, failed: 1, deferred: 2 });
+    expect(await relay.drain()).toEqual({ published: 1, failed: 0, deferred: 0 });
+    expect(published.map((p) => p.value.n)).toEqual([6]);
+  });
+
+  it('should park a row after maxAttempts and release the rows after it', async () => {
+    (configService.get as jest.Mock).mockImplementation((key: string, defaultValue?: any) =>
+      key === 'kafka.outbox.maxAttempts' ? 2 : defaultValue,
+    );
+    relay = new OutboxRelayService(outboxRepository, producer, eventStorage, configService);
+    const manager = dataSource.manager;
+    const { messageId } = await producer.produce('user-events', { n: 1 }, 'k', undefined, {
+      manager,
+    });
+    await producer.produce('user-events', { n: 2 }, 'k', undefined, { manager });
+    kafkaClient.producer.send
+      .mockRejectedValueOnce(new Error('message too large'))
+      .mockRejectedValueOnce(new Error('message too large'));
+
+    expect(await relay.drain()).toEqual({ published: 0, failed: 1, deferred: 1 });
+    const later = new Date(Date.now() + 120000);
+    expect(await relay.drain(later)).toEqual({ published: 0, failed: 1, deferred: 1 });
+    const parked = await outboxRepository.findOneBy({ messageId });
+    expect(parked).toMatchObject({ attempts: 2, lastError: 'message too large' });
+    expect(parked.parkedAt).toBeInstanceOf(Date);
+
+    expect(await relay.drain(later)).toEqual({ published: 1, failed: 0, deferred: 0 });
+    expect(published.map((p) => p.value.n)).toEqual([2]);
+    expect(await outboxRepository.countPending()).toBe(0);
+  });
+
+  it('should publish each row once while two replicas drain at the same time', async () => {
+    const locks = new DistributedLockService();
+    const replicas = [1, 2].map(
+      () => new OutboxRelayService(outboxRepository, producer, eventStorage, configService, locks),
+    );
+    const manager = dataSource.manager;
+    await producer.produce('user-events', { n: 1 }, 'key-a', undefined, { manager });
+    await producer.produce('user-events', { n: 2 }, 'key-b', undefined, { manager });
+
+    const results = await Promise.all(replicas.map((replica) => replica.drain()));
+
+    expect(results).toEqual(
+      expect.arrayContaining([
+        { published: 2, failed: 0, deferred: 0 },
+        { published: 0, failed: 0, deferred: 0 },
+      ]),
+    );
+    expect(published.map((p) => p.value.n)).toEqual([1, 2]);
+    await locks.onModuleDestroy();
+  });
+
+  it('should queue messages in the outbox while Kafka is disconnected', async () => {
+    (producer as any).isConnected = false;
+
+    const result = await producer.produce('user-events', { n: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.queued).toBe(true);
+    expect(kafkaClient.producer.send).not.toHaveBeenCalled();
+    expect(await outboxRepository.countPending()).toBe(1);
+  });
+
+  it('should queue messages in the outbox when sending fails while connected', async () => {
+    kafkaClient.producer.send.mockRejectedValueOnce(new Error('Request timed out'));
+
+    const result = await producer.produce('user-events', { n: 1 }, 'k');
+
+    expect(result).toMatchObject({ success: true, queued: true });
+    const row = await outboxRepository.findOneBy({ messageId: result.messageId });
+    expect(row).toMatchObject({ topic: 'user-events', messageKey: 'k', payload: { n: 1 } });
+    expect(await eventStorage.getEvent(result.messageId)).toMatchObject({ status: 'pending' });
+
+    expect(await relay.drain()).toEqual({ published: 1, failed: 0, deferred: 0 });
+    expect(published).toEqual([{ topic: 'user-events', key: 'k', value: { n: 1 } }]);
+  });
+});
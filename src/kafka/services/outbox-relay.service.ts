@@ -0,0 +1,171 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OutboxRepository } from '../../repositories/outbox.repository';
+import { OutboxMessage } from '../../entities/outbox-message.entity';
+import { KafkaProducerService } from './kafka-producer.service';
+import { EventStorageService } from './event-storage.service';
+import { DistributedLockService, Lock } from '../../locks/distributed-lock.service';
+
+export interface OutboxDrainResult {
+  published: number;
+  failed: number;
+  deferred: number;
+}
+
+// Replicas drain one at a time, or each would publish the same pending rows
+const DRAIN_LOCK = 'kafka:outbox-relay';
+
+@Injectable()
+export class OutboxRelayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly baseBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly kafkaProducer: KafkaProducerService,
+    private readonly eventStorage: EventStorageService,
+    private readonly configService: ConfigService,
+    @Optional() private readonly locks?: DistributedLockService,
+  ) {
+    this.pollIntervalMs = this.configService.get('kafka.outbox.pollIntervalMs', 1000);
+    this.batchSize = this.configService.get('kafka.outbox.batchSize', 100);
+    this.baseBackoffMs = this.configService.get('kafka.outbox.baseBackoffMs', 500);
+    this.maxBackoffMs = this.configService.get('kafka.outbox.maxBackoffMs', 60000);
+    this.maxAttempts = this.configService.get('kafka.outbox.maxAttempts', 50);
+  }
+
+  onModuleInit() {
+    if (this.pollIntervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.drain().catch((error) => this.logger.error('Outbox relay iteration failed', error));
+    }, this.pollIntervalMs);
+    this.logger.log(`Outbox relay started (interval ${this.pollIntervalMs}ms)`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publishes pending outbox rows in insertion order. Once a row for a key fails or is
+   * still backing off, later rows with the same key are held back so per-key ordering
+   * survives retries. Rows without a key have no ordering guarantee. A row that fails
+   * `maxAttempts` times is parked, which lets the rows after it go. Only the replica
+   * holding the relay lock drains; the others find nothing to do until it lets go.
+   */
+  async drain(now: Date = new Date()): Promise<OutboxDrainResult> {
+    const result: OutboxDrainResult = { published: 0, failed: 0, deferred: 0 };
+    if (this.draining) {
+      return result;
+    }
+
+    this.draining = true;
+    try {
+      if (this.locks) {
+        await this.locks.withLock(DRAIN_LOCK, (lock) => this.drainBatch(now, result, lock));
+      } else {
+        await this.drainBatch(now, result);
+      }
+    } finally {
+      this.draining = false;
+    }
+
+    if (result.published || result.failed) {
+      this.logger.log('Outbox relay iteration finished', result);
+    }
+    return result;
+  }
+
+  private async drainBatch(now: Date, result: OutboxDrainResult, lock?: Lock): Promise<void> {
+    // Rows backing off are not loaded, nor are the later rows of their keys
+    const rows = await this.outboxRepository.findPending(this.batchSize, now);
+    const blockedKeys = new Set<string>();
+
+    for (const row of rows) {
+      // Another replica may take over once the lease is lost
+      if (lock && !lock.isHeld) {
+        this.logger.warn('Lost the outbox relay lock; stopping this batch');
+        return;
+      }
+
+      if (row.messageKey !== null && blockedKeys.has(row.messageKey)) {
+        result.deferred++;
+        continue;
+      }
+
+      if (await this.relay(row)) {
+        result.published++;
+      } else {
+        this.block(blockedKeys, row);
+        result.failed++;
+      }
+    }
+  }
+
+  private async relay(row: OutboxMessage): Promise<boolean> {
+    try {
+      const metadata = await this.kafkaProducer.publish(
+        row.topic,
+        row.payload,
+        row.messageKey ?? undefined,
+        row.headers ?? undefined,
+      );
+      await this.outboxRepository.markPublished(row.sequence);
+      // Rows written within a caller's transaction have no event recorded yet. The producer
+      // added the id and timestamp headers itself
+      const { timestamp, ...headers } = row.headers ?? {};
+      delete headers.messageId;
+      await this.eventStorage.addEvent({
+        id: row.messageId,
+        topic: row.topic,
+        partition: metadata.partition,
+        offset: metadata.baseOffset ?? metadata.offset,
+        key: row.messageKey ?? undefined,
+        value: row.payload,
+        headers,
+        timestamp: timestamp ?? new Date(row.createdAt).toISOString(),
+        status: 'processed',
+      });
+      return true;
+    } catch (error) {
+      const attempts = row.attempts + 1;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (attempts >= this.maxAttempts) {
+        this.logger.error(
+          `Parking outbox message ${row.messageId} after ${attempts} attempts: ${message}`,
+        );
+        await this.outboxRepository.markParked(row.sequence, attempts, message);
+        return false;
+      }
+
+      const nextAttemptAt = new Date(Date.now() + this.backoff(attempts));
+      this.logger.warn(
+        `Failed to relay outbox message ${row.messageId} (attempt ${attempts}): ${message}`,
+      );
+      await this.outboxRepository.markFailed(row.sequence, attempts, message, nextAttemptAt);
+      return false;
+    }
+  }
+
+  private backoff(attempts: number): number {
+    return Math.min(this.baseBackoffMs * 2 ** (attempts - 1), this.maxBackoffMs);
+  }
+
+  private block(blockedKeys: Set<string>, row: OutboxMessage): void {
+    if (row.messageKey !== null) {
+      blockedKeys.add(row.messageKey);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { EachMessagePayload } from 'kafkajs';
+import { PartitionWorkerPool } from './partition-worker-pool';
+import { FakeKafkaBroker } from '../../../test/fake-kafka-broker';
+
+describe('PartitionWorkerPool', () => {
+  let broker: FakeKafkaBroker;
+  let processed: Array<{ key: string; n: number }>;
+  let inFlight: number;
+  let maxInFlight: number;
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // Later messages finish sooner, so anything not forced into order runs out of order
+  const handler =
+    (delay: (n: number) => number = (n) => 20 - n) =>
+    async ({ message }: EachMessagePayload) => {
+      const { n } = JSON.parse(message.value.toString());
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(Math.max(delay(n), 0));
+      inFlight--;
+      processed.push({ key: message.key?.toString(), n });
+    };
+
+  const orderOf = (key: string) => processed.filter((p) => p.key === key).map((p) => p.n);
+
+  beforeEach(() => {
+    broker = new FakeKafkaBroker('call-events');
+    processed = [];
+    inFlight = 0;
+    maxInFlight = 0;
+  });
+
+  it('should process messages with the same key in offset order', async () => {
+    const keys = ['a', 'b', 'a', 'c', 'b', 'a', 'c', 'a'];
+    keys.forEach((key, n) => broker.produce(0, key, { n }));
+    const pool = new PartitionWorkerPool(4, handler());
+
+    await broker.consume((payload) => pool.process(payload));
+
+    expect(orderOf('a')).toEqual([0, 2, 5, 7]);
+    expect(orderOf('b')).toEqual([1, 4]);
+    expect(orderOf('c')).toEqual([3, 6]);
+    // Different keys did overlap
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(broker.committed.get(0)).toBe(8);
+  });
+
+  it('should never run more handlers than workers', async () => {
+    for (let n = 0; n < 12; n++) {
+      broker.produce(0, `call-${n}`, { n });
+    }
+    const pool = new PartitionWorkerPool(3, handler());
+
+    await broker.consume((payload) => pool.process(payload));
+
+    expect(maxInFlight).toBe(3);
+    expect(processed).toHaveLength(12);
+  });
+
+  it('should process a partition sequentially with a single worker', async () => {
+    for (let n = 0; n < 5; n++) {
+      broker.produce(0, null, { n });
+    }
+    const pool = new PartitionWorkerPool(1, handler());
+
+    await broker.consume((payload) => pool.process(payload));
+
+    expect(processed.map(({ n }) => n)).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('should resolve an offset only once it and every earlier message are processed', async () => {
+    ['a', 'b', 'c'].forEach((key, n) => broker.produce(0, key, { n }));
+    const resolved: string[] = [];
+    const pool = new PartitionWorkerPool(
+      3,
+      handler((n) => (n === 0 ? 30 : 0)),
+    );
+
+    await broker.consume((payload) =>
+      pool.process({
+        ...payload,
+        resolveOffset: (offset) => {
+          // Offset 0 finishes last, so nothing may be resolved before it
+          resolved.push(`${offset}:${processed.length}`);
+          payload.resolveOffset(offset);
+        },
+      }),
+    );
+
+    expect(processed.map(({ n }) => n)).toEqual([1, 2, 0]);
+    expect(resolved).toEqual(['0:3', '1:3', '2:3']);
+  });
+
+  it('should commit up to the failed message and redeliver the rest', async () => {
+    ['a', 'b', 'a', 'c', 'a'].forEach((key, n) => broker.produce(0, key, { n }));
+    const attempts = new Map<number, number>();
+    const process = handler(() => 5);
+    const pool = new PartitionWorkerPool(2, async (payload) => {
+      const { n } = JSON.parse(payload.message.value.toString());
+      attempts.set(n, (attempts.get(n) ?? 0) + 1);
+      if (n === 2 && attempts.get(n) === 1) {
+        throw new Error('database unavailable');
+      }
+      await process(payload);
+    });
+
+    await broker.consume((payload) => pool.process(payload));
+
+    expect(broker.committed.get(0)).toBe(5);
+    expect(attempts.get(2)).toBe(2);
+    // Later messages of the failed key waited for its redelivery
+    expect(orderOf('a')).toEqual([0, 2, 4]);
+    expect(attempts.get(4)).toBe(1);
+  });
+
+  it('should consume partitions concurrently up to the configured limit', async () => {
+    for (let partition = 0; partition < 4; partition++) {
+      for (let n = 0; n < 3; n++) {
+        broker.produce(partition, `p${partition}`, { n });
+      }
+    }
+    const pool = new PartitionWorkerPool(
+      1,
+      handler(() => 5),
+    );
+
+    await broker.consume((payload) => pool.process(payload), { partitionsConsumedConcurrently: 2 });
+
+    expect(broker.maxConcurrentPartitions).toBe(2);
+    expect(maxInFlight).toBe(2);
+    [0, 1, 2, 3].forEach((partition) => {
+      expect(broker.committed.get(partition)).toBe(3);
+      expect(orderOf(`p${partition}`)).toEqual([0, 1, 2]);
+    });
+  });
+});
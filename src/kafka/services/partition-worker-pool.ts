@@ -0,0 +1,83 @@
+import { EachBatchPayload, EachMessagePayload } from 'kafkajs';
+
+type MessageHandler = (payload: EachMessagePayload) => Promise<void>;
+
+/**
+ * Processes the messages of a partition batch with up to `workers` handlers in flight.
+ * Messages with the same key run one after another in offset order; messages without a
+ * key have no ordering constraint. An offset is resolved, and so becomes committable,
+ * only once its handler and the handlers of every earlier message in the batch resolved.
+ *
+ * When a handler throws, no further messages are started, in-flight ones are awaited and
+ * the error is rethrown, so kafkajs commits the offsets resolved so far and redelivers
+ * the rest of the batch.
+ */
+export class PartitionWorkerPool {
+  constructor(private readonly workers: number, private readonly handle: MessageHandler) {}
+
+  async process({
+    batch,
+    resolveOffset,
+    heartbeat,
+    pause,
+    isRunning,
+    isStale,
+  }: EachBatchPayload): Promise<void> {
+    const { topic, partition, messages } = batch;
+    const completed = new Set<string>();
+    // Tail of the chain of in-flight messages per key
+    const chains = new Map<string, Promise<void>>();
+    const inFlight = new Set<Promise<void>>();
+    let resolved = 0;
+    let failure: { error: unknown } | null = null;
+
+    const complete = (offset: string) => {
+      completed.add(offset);
+      while (resolved < messages.length && completed.has(messages[resolved].offset)) {
+        resolveOffset(messages[resolved].offset);
+        resolved++;
+      }
+    };
+
+    for (const message of messages) {
+      while (inFlight.size >= this.workers) {
+        await Promise.race(inFlight);
+      }
+      if (failure || !isRunning() || isStale()) {
+        break;
+      }
+
+      const key = message.key?.toString();
+      const previous = key === undefined ? undefined : chains.get(key);
+      const task = (async () => {
+        await previous;
+        // A failed predecessor is redelivered first, so its successors must wait for it
+        if (failure) {
+          return;
+        }
+        await this.handle({ topic, partition, message, heartbeat, pause });
+        complete(message.offset);
+      })().catch((error) => {
+        failure = failure ?? { error };
+      });
+
+      inFlight.add(task);
+      if (key !== undefined) {
+        chains.set(key, task);
+      }
+      void task.then(() => {
+        inFlight.delete(task);
+        if (key !== undefined && chains.get(key) === task) {
+          chains.delete(key);
+        }
+      });
+    }
+
+    await Promise.all(inFlight);
+    await heartbeat();
+
+    if (failure) {
+      throw failure.error;
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { ICustomPartitioner, Message, Partitioners, ProducerBatch, RecordMetadata } from 'kafkajs';
+
+export interface BatchEntry {
+  topic: string;
+  message: Message;
+}
+
+export interface BatchEntryResult {
+  partition?: number;
+  offset?: string;
+  error?: Error;
+}
+
+export interface ProducerBatcherOptions {
+  maxBatchSize: number;
+  lingerMs: number;
+}
+
+interface PendingEntry extends BatchEntry {
+  resolve: (result: BatchEntryResult) => void;
+}
+
+type SendBatch = (batch: ProducerBatch) => Promise<RecordMetadata[]>;
+
+/**
+ * Accumulates messages for up to `lingerMs` (or until `maxBatchSize` is reached) and
+ * writes them with a single kafkajs `sendBatch` call covering every topic involved.
+ * Each entry resolves with its own result; entries never reject.
+ */
+export class ProducerBatcher {
+  private pending: PendingEntry[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  // Where `createPartitioner`'s partitioners put each message
+  private readonly placed = new WeakMap<Message, number>();
+
+  /**
+   * The kafkajs default partitioner, noting the partition of every message it places. Give
+   * it to the producer so entries get their own partition and offset in multi-partition batches
+   */
+  readonly createPartitioner: ICustomPartitioner = () => {
+    const partitioner = Partitioners.DefaultPartitioner();
+    return (args) => {
+      const partition = partitioner(args);
+      this.placed.set(args.message, partition);
+      return partition;
+    };
+  };
+
+  constructor(
+    private readonly sendBatch: SendBatch,
+    private readonly options: ProducerBatcherOptions,
+  ) {}
+
+  add(entry: BatchEntry): Promise<BatchEntryResult> {
+    return new Promise((resolve) => {
+      this.pending.push({ ...entry, resolve });
+
+      if (this.pending.length >= this.options.maxBatchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.options.lingerMs);
+      }
+    });
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.pending.length > 0) {
+      const chunk = this.pending.splice(0, this.options.maxBatchSize);
+      await this.sendChunk(chunk);
+    }
+  }
+
+  private async sendChunk(chunk: PendingEntry[]): Promise<void> {
+    const byTopic = new Map<string, PendingEntry[]>();
+    for (const entry of chunk) {
+      if (!byTopic.has(entry.topic)) {
+        byTopic.set(entry.topic, []);
+      }
+      byTopic.get(entry.topic).push(entry);
+    }
+
+    let metadata: RecordMetadata[];
+    try {
+      metadata = await this.sendBatch({
+        topicMessages: Array.from(byTopic.entries()).map(([topic, entries]) => ({
+          topic,
+          messages: entries.map((entry) => entry.message),
+        })),
+      });
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error('Unknown error');
+      chunk.forEach((entry) => entry.resolve({ error: failure }));
+      return;
+    }
+
+    for (const [topic, entries] of byTopic.entries()) {
+      const topicMetadata = metadata.filter((m) => m.topicName === topic);
+
+      // The broker answers per topic-partition with the base offset of the records it
+      // appended, in the order they were sent. A message whose partition is unknown (placed
+      // by another partitioner) can only be matched when the topic's messages all landed in
+      // one partition; otherwise only success is reported for it.
+      const next = new Map(
+        topicMetadata.map(({ partition, baseOffset, offset }) => [
+          partition,
+          BigInt(baseOffset ?? offset ?? '0'),
+        ]),
+      );
+      for (const entry of entries) {
+        const partition =
+          this.placed.get(entry.message) ??
+          entry.message.partition ??
+          (topicMetadata.length === 1 ? topicMetadata[0].partition : undefined);
+        const offset = next.get(partition);
+        if (offset === undefined) {
+          entry.resolve({});
+          continue;
+        }
+        next.set(partition, offset + BigInt(1));
+        entry.resolve({ partition, offset: offset.toString() });
+      }
+    }
+  }
+}
@@ -1,95 +1,44 @@
 import { Injectable, Optional, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
-import Redis from 'ioredis';
 import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { RedisConnection, RedisConnectionFactory } from '../../redis/redis-connection.factory';
 
 @Injectable()
 export class RedisService {
   private readonly logger = new Logger(RedisService.name);
-  private redisClient: Redis | null = null;
-  private redisPubClient: Redis | null = null;
+  private redisClient: RedisConnection | null = null;
+  private redisPubClient: RedisConnection | null = null;
   private isConnected = false;
+  private readonly enabled: boolean;
 
   constructor(
     @Optional() @InjectQueue('call-queue') private callQueue: Queue,
-    private configService: ConfigService,
+    @Optional() private readonly connections?: RedisConnectionFactory,
+    @Optional() configService?: ConfigService,
   ) {
-    // Skip Redis initialization in test environment
-    if (process.env.NODE_ENV !== 'test') {
+    this.enabled = configService?.get<boolean>('redis.serviceEnabled', true) ?? true;
+    if (this.enabled) {
       this.initializeRedis();
     }
   }
 
   private async initializeRedis() {
     try {
-      const redisUrl = this.configService.get('REDIS_URL');
+      const url = this.connections?.urlFor('command');
 
-      if (!redisUrl) {
+      if (!url) {
         this.logger.warn('REDIS_URL not provided. Running without Redis.');
         return;
       }
 
-      // Parse Redis URL to properly extract credentials
-      let redisConfig: any = {
-        retryStrategy: (times: number) => {
-          if (times <= 3) {
-            this.logger.warn(`Redis retry attempt ${times}/3`);
-          }
-          if (times >= 3) {
-            if (times === 3) {
-              this.logger.error('Redis connection failed after 3 attempts. Running without Redis.');
-            }
-            return null; // Stop retrying
-          }
-          return Math.min(times * 100, 2000);
-        },
-        enableOfflineQueue: false,
-        lazyConnect: true,
-        showFriendlyErrorStack: true,
-      };
-
-      try {
-        const url = new URL(redisUrl);
-
-        redisConfig.host = url.hostname;
-        redisConfig.port = parseInt(url.port) || 6379;
-
-        if (url.password) {
-          redisConfig.password = url.password;
-          // Log password details to help debug auth issues
-          this.logger.log(`Redis password: ${url.password.length} chars, starts with '${url.password[0]}', ends with '${url.password[url.password.length - 1]}'`);
-        } else if (this.configService.get('REDIS_PASSWORD')) {
-          redisConfig.password = this.configService.get('REDIS_PASSWORD');
-          this.logger.log('Using REDIS_PASSWORD from environment');
-        } else {
-          this.logger.warn('No password in REDIS_URL!');
-        }
-
-        // Only set username if explicitly provided (Redis 6+ ACL)
-        if (url.username && url.username !== '' && url.username !== 'default') {
-          redisConfig.username = url.username;
-          this.logger.log(`Redis username: ${url.username}`);
-        } else {
-          this.logger.log('Redis username: (none - password-only auth)');
-        }
-
-        const sanitizedUrl = redisUrl.replace(/:[^:@]+@/, ':***@');
-        this.logger.log(`Initializing Redis: ${sanitizedUrl}`);
-      } catch (parseError) {
-        this.logger.error(`Failed to parse REDIS_URL: ${parseError.message}`);
-        // Fallback to using the URL string directly
-        redisConfig = redisUrl;
-      }
-
-      this.redisClient = new Redis(redisConfig);
-      this.redisPubClient = new Redis(redisConfig);
-
-      // Set up error handlers to prevent crashes
-      this.redisClient.on('error', (err) => {
-        this.logger.error(`Redis error: ${err.message}`);
-        this.isConnected = false;
-      });
+      this.logger.log(
+        `Initializing Redis (${url.mode}${url.tls ? ', TLS' : ''}): ${url.nodes
+          .map(({ host, port }) => `${host}:${port}`)
+          .join(',')}`,
+      );
+      this.redisClient = this.connections.get('command');
+      this.redisPubClient = this.connections.get('pub');
 
       this.redisClient.on('ready', () => {
         this.logger.log('✓ Redis connected and ready');
@@ -101,15 +50,11 @@ export class RedisService {
         this.isConnected = false;
       });
 
-      this.redisPubClient.on('error', (err) => {
-        this.logger.error(`Redis pub client error: ${err.message}`);
-      });
-
       // Try to connect
       try {
-        await this.redisClient.connect();
+        await this.connections.connect('command');
         await this.redisClient.ping();
-        await this.redisPubClient.connect();
+        await this.connections.connect('pub');
       } catch (err) {
         this.logger.error(`Failed to connect to Redis: ${err.message}`);
         this.redisClient = null;
@@ -155,52 +100,18 @@ export class RedisService {
     await this.redisPubClient.publish(channel, serializedMessage);
   }
 
-  async subscribe(channel: string, callback: (message: any) => void): Promise<void> {
-    if (process.env.NODE_ENV === 'test') return;
+  /** Listens on the shared subscriber connection; resolves to a function that unsubscribes */
+  async subscribe(channel: string, callback: (message: any) => void): Promise<() => Promise<void>> {
+    if (!this.enabled || !this.connections) return async () => undefined;
 
-    const redisUrl = this.configService.get('REDIS_URL');
-    if (!redisUrl) return;
-
-    // Parse Redis URL to use same config as main clients
-    let redisConfig: any;
-    try {
-      const url = new URL(redisUrl);
-      redisConfig = {
-        host: url.hostname,
-        port: parseInt(url.port) || 6379,
-      };
-
-      if (url.password) {
-        redisConfig.password = url.password;
-      } else if (this.configService.get('REDIS_PASSWORD')) {
-        redisConfig.password = this.configService.get('REDIS_PASSWORD');
-      }
-
-      // IMPORTANT: Only set username if explicitly provided and not empty
-      if (url.username && url.username !== '' && url.username !== 'default') {
-        redisConfig.username = url.username;
-      }
-
-      this.logger.log(`Creating subscribe client for channel: ${channel}`);
-    } catch (parseError) {
-      this.logger.warn(`Failed to parse REDIS_URL for subscribe: ${parseError.message}`);
-      redisConfig = redisUrl;
-    }
-
-    const subClient = new Redis(redisConfig);
-
-    await subClient.subscribe(channel);
-    subClient.on('message', (receivedChannel, message) => {
-      if (receivedChannel === channel) {
-        const parsedMessage = JSON.parse(message);
-        callback(parsedMessage);
-      }
-    });
+    return this.connections.subscribe(channel, (message) => callback(JSON.parse(message)));
   }
 
-  async addCallToQueue(callData: any): Promise<void> {
+  /** A `jobId` the queue already holds is not added again */
+  async addCallToQueue(callData: any, jobId?: string): Promise<void> {
     if (!this.callQueue) return;
     await this.callQueue.add('process-call', callData, {
+      jobId,
       attempts: 3,
       backoff: {
         type: 'exponential',
@@ -221,7 +132,7 @@ export class RedisService {
       await this.redisClient.ping();
       return true;
     } catch (error) {
-      console.error('Redis connection test failed:', error);
+      this.logger.error(`Redis connection test failed: ${error.message}`);
       return false;
     }
   }
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { SerializerRegistryService } from './serializer-registry.service';
+import { FileSchemaRegistry } from '../serialization/file-schema-registry';
+import { decodeWireFormat } from '../serialization/wire-format';
+
+const CALL_AVRO_SCHEMA = JSON.stringify({
+  type: 'record',
+  name: 'CallEvent',
+  fields: [
+    { name: 'callId', type: 'string' },
+    { name: 'duration', type: 'int' },
+  ],
+});
+
+const CALL_PROTO_SCHEMA = `
+syntax = "proto3";
+package calls;
+
+message CallEvent {
+  string callId = 1;
+  int32 duration = 2;
+}
+`;
+
+describe('SerializerRegistryService', () => {
+  let registry: FileSchemaRegistry;
+  let service: SerializerRegistryService;
+
+  beforeEach(() => {
+    registry = new FileSchemaRegistry();
+    const configService = {
+      get: jest.fn((key: string) =>
+        key === 'kafka.serialization.topics'
+          ? { 'avro-calls': 'avro', 'proto-calls': 'protobuf' }
+          : undefined,
+      ),
+    } as unknown as ConfigService;
+    service = new SerializerRegistryService(configService, registry);
+  });
+
+  it('should use JSON for topics without a configured format', async () => {
+    const data = await service.serialize('user-events', { id: 1 });
+
+    expect(data).toBe('{"id":1}');
+    expect(await service.deserialize('user-events', Buffer.from(data))).toEqual({ id: 1 });
+  });
+
+  it('should round-trip Avro values in the Confluent wire format', async () => {
+    const { id } = await registry.register('avro-calls-value', 'AVRO', CALL_AVRO_SCHEMA);
+
+    const data = (await service.serialize('avro-calls', { callId: 'c1', duration: 42 })) as Buffer;
+
+    expect(data[0]).toBe(0);
+    expect(decodeWireFormat(data).schemaId).toBe(id);
+    expect(await service.deserialize('avro-calls', data)).toEqual({ callId: 'c1', duration: 42 });
+  });
+
+  it('should reject values that do not match the Avro schema', async () => {
+    await registry.register('avro-calls-value', 'AVRO', CALL_AVRO_SCHEMA);
+
+    await expect(service.serialize('avro-calls', { callId: 'c1' })).rejects.toThrow(
+      'invalid duration',
+    );
+  });
+
+  it('should round-trip Protobuf values in the Confluent wire format', async () => {
+    const { id } = await registry.register('proto-calls-value', 'PROTOBUF', CALL_PROTO_SCHEMA);
+
+    const data = (await service.serialize('proto-calls', { callId: 'c2', duration: 7 })) as Buffer;
+    const { schemaId, payload } = decodeWireFormat(data);
+
+    expect(schemaId).toBe(id);
+    // Single zero byte: message index path [0]
+    expect(payload[0]).toBe(0);
+    expect(await service.deserialize('proto-calls', data)).toEqual({
+      callId: 'c2',
+      duration: 7,
+    });
+  });
+
+  it('should fail when a topic has no registered schema', async () => {
+    await expect(service.serialize('avro-calls', { callId: 'c1', duration: 1 })).rejects.toThrow(
+      'Subject avro-calls-value not found',
+    );
+  });
+
+  it('should reject unknown serialization formats', () => {
+    expect(() => service.setTopicFormat('user-events', 'xml' as any)).toThrow(
+      'Unknown serialization format "xml"',
+    );
+  });
+});
+
+describe('FileSchemaRegistry', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'schemas-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should register schema files found in its directory', async () => {
+    await fs.writeFile(path.join(directory, 'call-events-value.avsc'), CALL_AVRO_SCHEMA);
+
+    const latest = await new FileSchemaRegistry(directory).getLatest('call-events-value');
+
+    expect(latest).toEqual(
+      expect.objectContaining({ id: 1, version: 1, schemaType: 'AVRO', schema: CALL_AVRO_SCHEMA }),
+    );
+  });
+
+  it('should keep ids stable across instances and version changed schemas', async () => {
+    const first = new FileSchemaRegistry(directory);
+    const v1 = await first.register('call-events-value', 'AVRO', CALL_AVRO_SCHEMA);
+    expect(await first.register('call-events-value', 'AVRO', CALL_AVRO_SCHEMA)).toEqual(v1);
+
+    const second = new FileSchemaRegistry(directory);
+    expect(await second.getById(v1.id)).toEqual(v1);
+
+    const changed = CALL_AVRO_SCHEMA.replace('CallEvent', 'CallEventV2');
+    const v2 = await second.register('call-events-value', 'AVRO', changed);
+    expect(v2).toEqual(expect.objectContaining({ id: 2, version: 2 }));
+    expect(await second.getLatest('call-events-value')).toEqual(v2);
+  });
+});
@@ -0,0 +1,69 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MessageSerializer,
+  SchemaRegistry,
+  SerializationFormat,
+} from '../interfaces/message-serializer.interface';
+import { JsonSerializer } from '../serialization/json.serializer';
+import { AvroSerializer } from '../serialization/avro.serializer';
+import { ProtobufSerializer } from '../serialization/protobuf.serializer';
+import { FileSchemaRegistry } from '../serialization/file-schema-registry';
+import { SCHEMA_REGISTRY } from '../serialization/schema-registry.factory';
+
+/**
+ * Resolves the serializer for a topic from `kafka.serialization.topics`, falling back to
+ * `kafka.serialization.defaultFormat` (JSON unless configured otherwise).
+ */
+@Injectable()
+export class SerializerRegistryService {
+  private readonly logger = new Logger(SerializerRegistryService.name);
+  private readonly serializers: Map<SerializationFormat, MessageSerializer>;
+  private readonly topicFormats: Record<string, SerializationFormat>;
+  private readonly defaultFormat: SerializationFormat;
+
+  constructor(
+    @Optional() private readonly configService?: ConfigService,
+    @Optional() @Inject(SCHEMA_REGISTRY) readonly schemaRegistry?: SchemaRegistry,
+  ) {
+    this.schemaRegistry = schemaRegistry ?? new FileSchemaRegistry();
+    this.serializers = new Map<SerializationFormat, MessageSerializer>([
+      ['json', new JsonSerializer()],
+      ['avro', new AvroSerializer(this.schemaRegistry)],
+      ['protobuf', new ProtobufSerializer(this.schemaRegistry)],
+    ]);
+
+    this.defaultFormat = this.configService?.get('kafka.serialization.defaultFormat') ?? 'json';
+    this.topicFormats = { ...this.configService?.get('kafka.serialization.topics') };
+
+    for (const [topic, format] of Object.entries(this.topicFormats)) {
+      if (!this.serializers.has(format)) {
+        throw new Error(`Unknown serialization format "${format}" for topic ${topic}`);
+      }
+    }
+    if (!this.serializers.has(this.defaultFormat)) {
+      throw new Error(`Unknown default serialization format "${this.defaultFormat}"`);
+    }
+  }
+
+  forTopic(topic: string): MessageSerializer {
+    return this.serializers.get(this.topicFormats[topic] ?? this.defaultFormat);
+  }
+
+  /** Overrides the configured format for a topic at runtime. */
+  setTopicFormat(topic: string, format: SerializationFormat): void {
+    if (!this.serializers.has(format)) {
+      throw new Error(`Unknown serialization format "${format}"`);
+    }
+    this.topicFormats[topic] = format;
+    this.logger.log(`Topic ${topic} now uses ${format} serialization`);
+  }
+
+  serialize(topic: string, value: any): Promise<Buffer | string> {
+    return this.forTopic(topic).serialize(topic, value);
+  }
+
+  deserialize(topic: string, data: Buffer): Promise<any> {
+    return this.forTopic(topic).deserialize(topic, data);
+  }
+}
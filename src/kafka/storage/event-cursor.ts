@@ -0,0 +1,63 @@
+import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import { EventPage, EventSortOrder } from '../interfaces/event-store.interface';
+import { InvalidEventQueryError } from './event-query';
+
+/**
+ * Keyset pagination cursor over (timestamp, id), the order events are listed in. Stable
+ * under concurrent inserts, unlike offset-based paging.
+ */
+export interface EventCursor {
+  timestamp: string;
+  id: string;
+}
+
+export class InvalidCursorError extends InvalidEventQueryError {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function encodeCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify([cursor.timestamp, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): EventCursor {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof timestamp === 'string' && typeof id === 'string') {
+      return { timestamp, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Orders by timestamp, newest first unless `order` is `asc`; ties on timestamp are broken
+ * by id so the order is total.
+ */
+export function compareEvents(
+  a: EventCursor,
+  b: EventCursor,
+  order: EventSortOrder = 'desc',
+): number {
+  const byTime = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+  // Plain code-unit comparison, matching how the database orders the id column
+  const ascending = byTime !== 0 ? byTime : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  return order === 'asc' ? ascending : -ascending;
+}
+
+/**
+ * Cuts a page from events already in order, fetched with one more than `limit` so the
+ * presence of a next page is known without a count query.
+ */
+export function paginate(events: KafkaEvent[], limit?: number): EventPage {
+  if (limit === undefined || events.length <= limit) {
+    return { events };
+  }
+
+  const page = events.slice(0, limit);
+  return { events: page, nextCursor: encodeCursor(page[page.length - 1]) };
+}
@@ -0,0 +1,92 @@
+import { InvalidEventQueryError, compileEventFilter, parseValuePredicate } from './event-query';
+
+describe('parseValuePredicate', () => {
+  const value = {
+    callId: 'call-1',
+    attempt: 2,
+    active: true,
+    caller: { id: 'user-1', 'display name': 'Ada' },
+    tags: ['urgent', 'vip'],
+    endedAt: null,
+  };
+
+  it.each([
+    ['$.callId == "call-1"', true],
+    ["$.callId == 'call-1'", true],
+    ['$.callId != "call-1"', false],
+    ['$.attempt > 1', true],
+    ['$.attempt >= 3', false],
+    ['$.attempt < "3"', false],
+    ['$.active == true', true],
+    ['$.endedAt == null', true],
+    ['$.caller.id == "user-1"', true],
+    ["$.caller['display name'] == 'Ada'", true],
+    ['$.caller["display name"] == "Ada"', true],
+    ['$.tags[1] == "vip"', true],
+    ['$.tags[2]', false],
+    ['$.caller', true],
+    ['$.missing.deeper', false],
+    ['$.callId == "call-1" && $.attempt <= 2', true],
+    ['$.callId == "call-1" && $.attempt < 2', false],
+  ])('%s should be %s', (expression, expected) => {
+    expect(parseValuePredicate(expression)(value)).toBe(expected);
+  });
+
+  it('should match against non-object values', () => {
+    expect(parseValuePredicate('$ == "plain"')('plain')).toBe(true);
+    expect(parseValuePredicate('$.field')('plain')).toBe(false);
+  });
+
+  it.each(['callId == "a"', '$.callId ==', '$.callId == unquoted', '$.a == 1 ||', '$.a = 1'])(
+    'should reject %s',
+    (expression) => {
+      expect(() => parseValuePredicate(expression)).toThrow(InvalidEventQueryError);
+    },
+  );
+});
+
+describe('compileEventFilter', () => {
+  const event = {
+    id: 'e1',
+    topic: 'call-events',
+    partition: 1,
+    offset: '10',
+    key: 'call-1',
+    value: { callId: 'call-1' },
+    headers: { correlationId: 'abc', source: 'api' },
+    timestamp: '2024-01-01T12:00:00.000Z',
+    status: 'processed' as const,
+  };
+
+  it('should match when every filter matches', () => {
+    const matches = compileEventFilter({
+      topic: 'call-events',
+      status: 'processed',
+      key: 'call-1',
+      partition: 1,
+      headers: { correlationId: 'abc' },
+      from: '2024-01-01T12:00:00Z',
+      to: '2024-01-01T12:00:01Z',
+      where: '$.callId == "call-1"',
+    });
+
+    expect(matches(event)).toBe(true);
+  });
+
+  it.each([
+    { status: 'failed' as const },
+    { key: 'call-2' },
+    { partition: 0 },
+    { headers: { correlationId: 'other' } },
+    { headers: { missing: 'abc' } },
+    { from: '2024-01-01T12:00:01Z' },
+    { to: '2024-01-01T12:00:00Z' },
+    { where: '$.callId != "call-1"' },
+  ])('should reject events not matching %j', (query) => {
+    expect(compileEventFilter(query)(event)).toBe(false);
+  });
+
+  it('should reject malformed timestamps', () => {
+    expect(() => compileEventFilter({ from: 'yesterday' })).toThrow(InvalidEventQueryError);
+  });
+});
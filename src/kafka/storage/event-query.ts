@@ -0,0 +1,213 @@
+import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import { EventQuery } from '../interfaces/event-store.interface';
+
+/** A query the caller got wrong (bad cursor, timestamp or predicate) rather than a store failure */
+export class InvalidEventQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidEventQueryError';
+  }
+}
+
+export type ValuePredicate = (value: unknown) => boolean;
+
+type PathSegment = string | number;
+
+const OPERATORS = ['==', '!=', '>=', '<=', '>', '<'] as const;
+type Operator = (typeof OPERATORS)[number];
+
+const PATH_SEGMENTS = [
+  { pattern: /^\.([A-Za-z_$][\w$-]*)/, parse: (match: string) => match },
+  { pattern: /^\[(\d+)\]/, parse: (match: string) => Number(match) },
+  { pattern: /^\['([^']*)'\]/, parse: (match: string) => match },
+  { pattern: /^\[("(?:[^"\\]|\\.)*")\]/, parse: (match: string) => JSON.parse(match) as string },
+];
+
+const LITERAL = /^(?:"(?:[^"\\]|\\.)*"|'[^']*'|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/;
+
+/**
+ * Parses a small JSONPath subset: `$`-rooted paths (`$.a.b`, `$.items[0]`, `$['odd key']`)
+ * optionally compared against a JSON literal with `== != > >= < <=`, joined with `&&`.
+ * A bare path matches when the value has that field. Ordering comparisons only match
+ * numbers against numbers and strings against strings.
+ */
+export function parseValuePredicate(expression: string): ValuePredicate {
+  return new PredicateParser(expression).parse();
+}
+
+class PredicateParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): ValuePredicate {
+    const clauses = [this.clause()];
+    while (this.consume('&&')) {
+      clauses.push(this.clause());
+    }
+
+    this.skipWhitespace();
+    if (this.position < this.source.length) {
+      throw this.error('Unexpected input');
+    }
+    return (value) => clauses.every((clause) => clause(value));
+  }
+
+  private clause(): ValuePredicate {
+    const path = this.path();
+    const operator = OPERATORS.find((candidate) => this.consume(candidate));
+    if (!operator) {
+      return (value) => resolvePath(value, path) !== undefined;
+    }
+
+    const expected = this.literal();
+    return (value) => compare(resolvePath(value, path), operator, expected);
+  }
+
+  private path(): PathSegment[] {
+    if (!this.consume('$')) {
+      throw this.error("Expected a path starting with '$'");
+    }
+
+    const segments: PathSegment[] = [];
+    for (;;) {
+      const rest = this.source.slice(this.position);
+      const segment = PATH_SEGMENTS.map(({ pattern, parse }) => {
+        const match = pattern.exec(rest);
+        return match && { length: match[0].length, value: parse(match[1]) };
+      }).find(Boolean);
+
+      if (!segment) {
+        return segments;
+      }
+      segments.push(segment.value);
+      this.position += segment.length;
+    }
+  }
+
+  private literal(): unknown {
+    this.skipWhitespace();
+    const match = LITERAL.exec(this.source.slice(this.position));
+    if (!match) {
+      throw this.error('Expected a string, number, true, false or null');
+    }
+
+    this.position += match[0].length;
+    const literal = match[0];
+    return literal.startsWith("'") ? literal.slice(1, -1) : JSON.parse(literal);
+  }
+
+  private consume(token: string): boolean {
+    this.skipWhitespace();
+    if (!this.source.startsWith(token, this.position)) {
+      return false;
+    }
+    this.position += token.length;
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source.charAt(this.position))) {
+      this.position++;
+    }
+  }
+
+  private error(message: string): InvalidEventQueryError {
+    return new InvalidEventQueryError(
+      `Invalid value predicate at position ${this.position}: ${message}`,
+    );
+  }
+}
+
+function resolvePath(value: unknown, path: PathSegment[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (typeof segment === 'number' && !Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<PathSegment, unknown>)[segment];
+  }
+  return current;
+}
+
+function compare(actual: unknown, operator: Operator, expected: unknown): boolean {
+  if (operator === '==') {
+    return actual === expected;
+  }
+  if (operator === '!=') {
+    return actual !== expected;
+  }
+
+  if (typeof actual !== typeof expected) {
+    return false;
+  }
+  if (typeof actual !== 'number' && typeof actual !== 'string') {
+    return false;
+  }
+
+  const left = actual as number | string;
+  const right = expected as number | string;
+  switch (operator) {
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+  }
+}
+
+function parseTimestamp(name: string, timestamp?: string): number | undefined {
+  if (timestamp === undefined) {
+    return undefined;
+  }
+
+  const time = new Date(timestamp).getTime();
+  if (Number.isNaN(time)) {
+    throw new InvalidEventQueryError(`Invalid ${name} timestamp`);
+  }
+  return time;
+}
+
+/**
+ * Builds an in-process matcher for every filter in the query (pagination aside). Throws
+ * `InvalidEventQueryError` up front so a bad query fails before any event is read.
+ */
+export function compileEventFilter(query: EventQuery): (event: KafkaEvent) => boolean {
+  const where = query.where ? parseValuePredicate(query.where) : undefined;
+  const from = parseTimestamp('from', query.from);
+  const to = parseTimestamp('to', query.to);
+  const headers = Object.entries(query.headers ?? {});
+
+  return (event) => {
+    if (query.topic && event.topic !== query.topic) {
+      return false;
+    }
+    if (query.topicSuffix && !event.topic.endsWith(query.topicSuffix)) {
+      return false;
+    }
+    if (query.status && event.status !== query.status) {
+      return false;
+    }
+    if (query.key !== undefined && event.key !== query.key) {
+      return false;
+    }
+    if (query.partition !== undefined && event.partition !== query.partition) {
+      return false;
+    }
+    if (headers.some(([name, value]) => event.headers?.[name] !== value)) {
+      return false;
+    }
+
+    const time = new Date(event.timestamp).getTime();
+    if ((from !== undefined && time < from) || (to !== undefined && time >= to)) {
+      return false;
+    }
+    return !where || where(event.value);
+  };
+}
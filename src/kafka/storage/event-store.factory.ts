@@ -0,0 +1,22 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { EventStoreBackend } from '../interfaces/event-store.interface';
+import { InMemoryEventStore } from './in-memory-event-store';
+import { TypeOrmEventStore } from './typeorm-event-store';
+
+/** `kafka.eventStore.backend` selects `typeorm` (the `events` table) or `memory` */
+export function createEventStore(
+  configService: ConfigService,
+  dataSource: DataSource,
+): EventStoreBackend {
+  if (configService.get('kafka.eventStore.backend', 'typeorm') === 'memory') {
+    return new InMemoryEventStore({
+      maxSize: configService.get('kafka.eventStore.maxSize'),
+      ttlMs: configService.get('kafka.eventStore.ttlMs'),
+    });
+  }
+  return new TypeOrmEventStore(dataSource, {
+    retentionMs: configService.get('kafka.eventStore.retentionMs'),
+    maxRows: configService.get('kafka.eventStore.maxRows'),
+  });
+}
@@ -0,0 +1,306 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { DataSource } from 'typeorm';
+import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import { EventStoreBackend } from '../interfaces/event-store.interface';
+import { EventRecord } from '../../entities/event-record.entity';
+import { InMemoryEventStore } from './in-memory-event-store';
+import { TypeOrmEventStore } from './typeorm-event-store';
+import { InvalidCursorError } from './event-cursor';
+import { InvalidEventQueryError } from './event-query';
+
+const event = (id: string, topic: string, second: number, overrides: Partial<KafkaEvent> = {}) => ({
+  id,
+  topic,
+  partition: 0,
+  offset: String(second),
+  key: `key-${id}`,
+  value: { id },
+  headers: { source: 'spec' },
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, second)).toISOString(),
+  status: 'processed' as const,
+  ...overrides,
+});
+
+const createDataSource = (database: string) =>
+  new DataSource({
+    type: 'sqlite',
+    database,
+    entities: [EventRecord],
+    synchronize: true,
+    logging: false,
+  });
+
+describe.each([
+  [
+    'InMemoryEventStore',
+    async () => ({ store: new InMemoryEventStore(), close: () => Promise.resolve() }),
+  ],
+  [
+    'TypeOrmEventStore',
+    async () => {
+      const dataSource = createDataSource(':memory:');
+      await dataSource.initialize();
+      return { store: new TypeOrmEventStore(dataSource), close: () => dataSource.destroy() };
+    },
+  ],
+] as Array<[string, () => Promise<{ store: EventStoreBackend; close: () => Promise<void> }>]>)(
+  '%s',
+  (_name, setup) => {
+    let store: EventStoreBackend;
+    let close: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ store, close } = await setup());
+    });
+
+    afterEach(async () => {
+      await close();
+    });
+
+    it('should store, update and return events', async () => {
+      await store.add(event('e1', 'topic-a', 1, { status: 'pending' }));
+      await store.update('e1', { status: 'processed', offset: '42' });
+
+      expect(await store.get('e1')).toEqual(
+        event('e1', 'topic-a', 1, { status: 'processed', offset: '42' }),
+      );
+      expect(await store.get('missing')).toBeUndefined();
+    });
+
+    it('should page through events newest first with cursors', async () => {
+      // e2 and e3 share a timestamp; the id breaks the tie
+      for (const [id, second] of [
+        ['e1', 1],
+        ['e2', 2],
+        ['e3', 2],
+        ['e4', 3],
+        ['e5', 4],
+      ] as const) {
+        await store.add(event(id, 'topic-a', second));
+      }
+      await store.add(event('other', 'topic-b', 5));
+
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await store.query({ topic: 'topic-a', limit: 2, cursor });
+        ids.push(...page.events.map((e) => e.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(ids).toEqual(['e5', 'e4', 'e3', 'e2', 'e1']);
+      expect((await store.query({})).events).toHaveLength(6);
+    });
+
+    it('should page in ascending order', async () => {
+      for (const [id, second] of [
+        ['e1', 1],
+        ['e2', 2],
+        ['e3', 2],
+        ['e4', 3],
+      ] as const) {
+        await store.add(event(id, 'topic-a', second));
+      }
+
+      const first = await store.query({ order: 'asc', limit: 3 });
+      const second = await store.query({ order: 'asc', limit: 3, cursor: first.nextCursor });
+
+      expect(first.events.map((e) => e.id)).toEqual(['e1', 'e2', 'e3']);
+      expect(second.events.map((e) => e.id)).toEqual(['e4']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should filter by column, header, time range and value predicate', async () => {
+      await store.add(event('e1', 'topic-a', 1, { key: 'call-1', value: { attempt: 1 } }));
+      await store.add(
+        event('e2', 'topic-a', 2, {
+          key: 'call-1',
+          partition: 1,
+          status: 'failed',
+          headers: { correlationId: 'abc' },
+          value: { attempt: 2 },
+        }),
+      );
+      await store.add(event('e3', 'topic-a', 3, { headers: { correlationId: 'abc' } }));
+      await store.add(event('e4', 'topic-b', 4, { key: 'call-1', value: { attempt: 3 } }));
+      await store.add(event('e5', 'topic-B', 5));
+
+      const ids = async (query: Parameters<EventStoreBackend['query']>[0]) =>
+        (await store.query(query)).events.map((e) => e.id);
+
+      expect(await ids({ key: 'call-1' })).toEqual(['e4', 'e2', 'e1']);
+      expect(await ids({ status: 'failed' })).toEqual(['e2']);
+      expect(await ids({ partition: 1 })).toEqual(['e2']);
+      expect(await ids({ headers: { correlationId: 'abc' } })).toEqual(['e3', 'e2']);
+      expect(
+        await ids({ from: '2024-01-01T00:00:02Z', to: '2024-01-01T00:00:04Z', topic: 'topic-a' }),
+      ).toEqual(['e3', 'e2']);
+      expect(await ids({ where: '$.attempt >= 2' })).toEqual(['e4', 'e2']);
+      // Exact, without LIKE wildcards
+      expect(await ids({ topicSuffix: '-b' })).toEqual(['e4']);
+      expect(await ids({ topicSuffix: '_b' })).toEqual([]);
+    });
+
+    it('should page through predicate matches', async () => {
+      for (let second = 1; second <= 6; second++) {
+        await store.add(
+          event(`e${second}`, 'topic-a', second, { value: { even: second % 2 === 0 } }),
+        );
+      }
+
+      const first = await store.query({ where: '$.even == true', limit: 2 });
+      const second = await store.query({
+        where: '$.even == true',
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+
+      expect(first.events.map((e) => e.id)).toEqual(['e6', 'e4']);
+      expect(second.events.map((e) => e.id)).toEqual(['e2']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should reject malformed predicates', async () => {
+      await expect(store.query({ where: 'callId == 1' })).rejects.toBeInstanceOf(
+        InvalidEventQueryError,
+      );
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(store.query({ cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(
+        InvalidCursorError,
+      );
+    });
+
+    it('should count events by topic and status', async () => {
+      await store.add(event('e1', 'topic-a', 1));
+      await store.add(event('e2', 'topic-a', 2, { status: 'failed' }));
+      await store.add(event('e3', 'topic-b', 3));
+
+      expect(await store.stats()).toEqual({
+        total: 3,
+        byTopic: { 'topic-a': 2, 'topic-b': 1 },
+        byStatus: { pending: 0, processed: 2, failed: 1 },
+      });
+
+      await store.clear();
+      expect((await store.stats()).total).toBe(0);
+    });
+  },
+);
+
+describe('InMemoryEventStore eviction', () => {
+  it('should evict the oldest events beyond the max size', async () => {
+    const store = new InMemoryEventStore({ maxSize: 2 });
+
+    await store.add(event('e1', 'topic-a', 1));
+    await store.add(event('e2', 'topic-a', 2));
+    await store.add(event('e3', 'topic-a', 3));
+
+    expect((await store.query({})).events.map((e) => e.id)).toEqual(['e3', 'e2']);
+  });
+
+  it('should evict events older than the TTL', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const store = new InMemoryEventStore({ ttlMs: 1000 });
+      await store.add(event('e1', 'topic-a', 1));
+      jest.setSystemTime(600);
+      await store.add(event('e2', 'topic-a', 2));
+      jest.setSystemTime(1200);
+
+      expect(await store.get('e1')).toBeUndefined();
+      expect(await store.get('e2')).toBeDefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('TypeOrmEventStore retention', () => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = createDataSource(':memory:');
+    await dataSource.initialize();
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  const remaining = async (store: TypeOrmEventStore) =>
+    (await store.query({ order: 'asc' })).events.map((e) => e.id);
+
+  it('should prune events older than the retention', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 1, 0, 0, 10), doNotFake: ['setImmediate'] });
+    try {
+      const store = new TypeOrmEventStore(dataSource, { retentionMs: 5000 });
+      for (const [id, second] of [
+        ['e1', 1],
+        ['e2', 4],
+        ['e3', 5],
+      ] as const) {
+        await store.add(event(id, 'topic-a', second));
+      }
+
+      await expect(store.prune()).resolves.toBe(2);
+      expect(await remaining(store)).toEqual(['e3']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should prune all but the newest rows', async () => {
+    const store = new TypeOrmEventStore(dataSource, { maxRows: 2 });
+    // e2 and e3 share a timestamp; the id decides which one is older
+    for (const [id, second] of [
+      ['e1', 1],
+      ['e2', 2],
+      ['e3', 2],
+      ['e4', 3],
+    ] as const) {
+      await store.add(event(id, 'topic-a', second));
+    }
+
+    await expect(store.prune()).resolves.toBe(2);
+    expect(await remaining(store)).toEqual(['e3', 'e4']);
+    await expect(store.prune()).resolves.toBe(0);
+  });
+
+  it('should keep everything without a retention', async () => {
+    const store = new TypeOrmEventStore(dataSource);
+    await store.add(event('e1', 'topic-a', 1));
+
+    await expect(store.prune()).resolves.toBe(0);
+    expect(await remaining(store)).toEqual(['e1']);
+  });
+});
+
+describe('TypeOrmEventStore persistence', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'events-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep events across restarts', async () => {
+    const database = path.join(directory, 'events.sqlite');
+
+    const first = createDataSource(database);
+    await first.initialize();
+    await new TypeOrmEventStore(first).add(event('e1', 'topic-a', 1));
+    await first.destroy();
+
+    const second = createDataSource(database);
+    await second.initialize();
+    expect(await new TypeOrmEventStore(second).get('e1')).toEqual(event('e1', 'topic-a', 1));
+    await second.destroy();
+  });
+});
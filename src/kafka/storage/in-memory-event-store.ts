@@ -0,0 +1,109 @@
+import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import {
+  EventPage,
+  EventQuery,
+  EventStats,
+  EventStoreBackend,
+} from '../interfaces/event-store.interface';
+import { compareEvents, decodeCursor, paginate } from './event-cursor';
+import { compileEventFilter } from './event-query';
+
+export interface InMemoryEventStoreOptions {
+  /** Oldest events are evicted beyond this many; 0 disables the limit */
+  maxSize?: number;
+  /** Events older than this (since they were stored) are evicted; 0 disables expiry */
+  ttlMs?: number;
+}
+
+/**
+ * Process-local event store. Bounded by size and age so a long-running instance does
+ * not grow without limit; contents are lost on restart.
+ */
+export class InMemoryEventStore implements EventStoreBackend {
+  // Map iteration follows insertion order, which doubles as the eviction order
+  private readonly events: Map<string, { event: KafkaEvent; storedAt: number }> = new Map();
+  private readonly maxSize: number;
+  private readonly ttlMs: number;
+
+  constructor(options: InMemoryEventStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000;
+    this.ttlMs = options.ttlMs ?? 0;
+  }
+
+  async add(event: KafkaEvent): Promise<void> {
+    // Re-adding an id moves it to the back of the eviction order
+    this.events.delete(event.id);
+    this.events.set(event.id, { event, storedAt: Date.now() });
+    this.evict();
+  }
+
+  async get(id: string): Promise<KafkaEvent | undefined> {
+    this.evict();
+    return this.events.get(id)?.event;
+  }
+
+  async update(id: string, changes: Partial<Omit<KafkaEvent, 'id' | 'topic'>>): Promise<void> {
+    const entry = this.events.get(id);
+    if (entry) {
+      Object.assign(entry.event, changes);
+    }
+  }
+
+  async query(query: EventQuery): Promise<EventPage> {
+    const matches = compileEventFilter(query);
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    this.evict();
+
+    const matching = Array.from(this.events.values())
+      .map(({ event }) => event)
+      .filter((event) => matches(event))
+      .filter((event) => !cursor || compareEvents(cursor, event, query.order) < 0)
+      .sort((a, b) => compareEvents(a, b, query.order));
+
+    return paginate(matching, query.limit);
+  }
+
+  async stats(): Promise<EventStats> {
+    this.evict();
+    const stats: EventStats = {
+      total: this.events.size,
+      byTopic: {},
+      byStatus: {
+        pending: 0,
+        processed: 0,
+        failed: 0,
+      },
+    };
+
+    for (const { event } of this.events.values()) {
+      stats.byTopic[event.topic] = (stats.byTopic[event.topic] ?? 0) + 1;
+      stats.byStatus[event.status]++;
+    }
+    return stats;
+  }
+
+  async clear(): Promise<void> {
+    this.events.clear();
+  }
+
+  private evict(): void {
+    if (this.ttlMs > 0) {
+      const cutoff = Date.now() - this.ttlMs;
+      for (const [id, { storedAt }] of this.events) {
+        if (storedAt > cutoff) {
+          break;
+        }
+        this.events.delete(id);
+      }
+    }
+
+    if (this.maxSize > 0) {
+      for (const id of this.events.keys()) {
+        if (this.events.size <= this.maxSize) {
+          break;
+        }
+        this.events.delete(id);
+      }
+    }
+  }
+}
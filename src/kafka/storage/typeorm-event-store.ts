@@ -0,0 +1,222 @@
+import { DataSource, LessThan, LessThanOrEqual, Repository, SelectQueryBuilder } from 'typeorm';
+import { KafkaEvent } from '../interfaces/kafka-event.interface';
+import {
+  EventPage,
+  EventQuery,
+  EventSortOrder,
+  EventStats,
+  EventStoreBackend,
+} from '../interfaces/event-store.interface';
+import { EventRecord } from '../../entities/event-record.entity';
+import { EventCursor, decodeCursor, paginate } from './event-cursor';
+import { compileEventFilter } from './event-query';
+
+// Rows read per round trip while scanning for header or value predicate matches
+const SCAN_BATCH_SIZE = 500;
+
+export interface TypeOrmEventStoreOptions {
+  /** `prune` deletes events with an older timestamp than this; 0 keeps them */
+  retentionMs?: number;
+  /** `prune` deletes all but this many newest events; 0 disables the limit */
+  maxRows?: number;
+}
+
+/** Stores events in the `events` table so they survive restarts, until they are pruned */
+export class TypeOrmEventStore implements EventStoreBackend {
+  private readonly repository: Repository<EventRecord>;
+  private readonly retentionMs: number;
+  private readonly maxRows: number;
+
+  constructor(dataSource: DataSource, options: TypeOrmEventStoreOptions = {}) {
+    this.repository = dataSource.getRepository(EventRecord);
+    this.retentionMs = options.retentionMs ?? 0;
+    this.maxRows = options.maxRows ?? 0;
+  }
+
+  async add(event: KafkaEvent): Promise<void> {
+    await this.repository.save(this.toRecord(event));
+  }
+
+  async get(id: string): Promise<KafkaEvent | undefined> {
+    const record = await this.repository.findOneBy({ id });
+    return record ? this.toEvent(record) : undefined;
+  }
+
+  async update(id: string, changes: Partial<Omit<KafkaEvent, 'id' | 'topic'>>): Promise<void> {
+    const { timestamp, ...rest } = changes;
+    await this.repository.update(id, {
+      ...rest,
+      ...(timestamp ? { timestamp: new Date(timestamp) } : {}),
+    });
+  }
+
+  /**
+   * Column filters and keyset pagination run in SQL. Header and value predicates are
+   * evaluated in-process (their JSON storage differs between postgres and sqlite), and so is
+   * the exact topic suffix, as LIKE ignores case on sqlite. The store then scans forward in
+   * batches until the page is full or the table is exhausted.
+   */
+  async query(query: EventQuery): Promise<EventPage> {
+    const inProcess =
+      query.headers !== undefined || query.where !== undefined || query.topicSuffix !== undefined;
+    // Also validates the query; re-checking the SQL-filtered columns is harmless
+    const matches = compileEventFilter(query);
+    const order = query.order ?? 'desc';
+    // One extra row tells whether another page follows
+    const wanted = query.limit === undefined ? Infinity : query.limit + 1;
+    const batchSize = inProcess ? SCAN_BATCH_SIZE : query.limit === undefined ? undefined : wanted;
+
+    const events: KafkaEvent[] = [];
+    let cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    for (;;) {
+      const builder = this.select(query, order, cursor);
+      if (batchSize !== undefined) {
+        builder.take(batchSize);
+      }
+
+      const records = await builder.getMany();
+      for (const record of records) {
+        const event = this.toEvent(record);
+        if (matches(event) && events.length < wanted) {
+          events.push(event);
+        }
+      }
+
+      if (batchSize === undefined || records.length < batchSize || events.length >= wanted) {
+        return paginate(events, query.limit);
+      }
+      cursor = this.toEvent(records[records.length - 1]);
+    }
+  }
+
+  async stats(): Promise<EventStats> {
+    const rows: Array<{ topic: string; status: string; count: string }> = await this.repository
+      .createQueryBuilder('event')
+      .select('event.topic', 'topic')
+      .addSelect('event.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('event.topic')
+      .addGroupBy('event.status')
+      .getRawMany();
+
+    const stats: EventStats = {
+      total: 0,
+      byTopic: {},
+      byStatus: {
+        pending: 0,
+        processed: 0,
+        failed: 0,
+      },
+    };
+
+    for (const row of rows) {
+      const count = Number(row.count);
+      stats.total += count;
+      stats.byTopic[row.topic] = (stats.byTopic[row.topic] ?? 0) + count;
+      stats.byStatus[row.status] = (stats.byStatus[row.status] ?? 0) + count;
+    }
+    return stats;
+  }
+
+  async clear(): Promise<void> {
+    await this.repository.clear();
+  }
+
+  async prune(): Promise<number> {
+    let deleted = 0;
+    if (this.retentionMs > 0) {
+      const cutoff = new Date(Date.now() - this.retentionMs);
+      deleted += (await this.repository.delete({ timestamp: LessThan(cutoff) })).affected ?? 0;
+    }
+
+    if (this.maxRows > 0) {
+      // The newest row past the limit; it and everything older in (timestamp, id) order go
+      const [boundary] = await this.select({}, 'desc').skip(this.maxRows).take(1).getMany();
+      if (boundary) {
+        const result = await this.repository
+          .createQueryBuilder()
+          .delete()
+          .where([
+            { timestamp: LessThan(boundary.timestamp) },
+            { timestamp: boundary.timestamp, id: LessThanOrEqual(boundary.id) },
+          ])
+          .execute();
+        deleted += result.affected ?? 0;
+      }
+    }
+    return deleted;
+  }
+
+  private select(
+    query: EventQuery,
+    order: EventSortOrder,
+    cursor?: EventCursor,
+  ): SelectQueryBuilder<EventRecord> {
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const builder = this.repository
+      .createQueryBuilder('event')
+      .orderBy('event.timestamp', direction)
+      .addOrderBy('event.id', direction);
+
+    if (query.topic) {
+      builder.andWhere('event.topic = :topic', { topic: query.topic });
+    }
+    if (query.topicSuffix) {
+      builder.andWhere(`event.topic LIKE :topicPattern ESCAPE '\\'`, {
+        topicPattern: `%${query.topicSuffix.replace(/[\\%_]/g, '\\$&')}`,
+      });
+    }
+    if (query.status) {
+      builder.andWhere('event.status = :status', { status: query.status });
+    }
+    if (query.key !== undefined) {
+      builder.andWhere('event.key = :key', { key: query.key });
+    }
+    if (query.partition !== undefined) {
+      builder.andWhere('event.partition = :partition', { partition: query.partition });
+    }
+    if (query.from) {
+      builder.andWhere('event.timestamp >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      builder.andWhere('event.timestamp < :to', { to: new Date(query.to) });
+    }
+
+    if (cursor) {
+      const after = order === 'asc' ? '>' : '<';
+      builder.andWhere(
+        `(event.timestamp ${after} :cursorTime OR (event.timestamp = :cursorTime AND event.id ${after} :cursorId))`,
+        { cursorTime: new Date(cursor.timestamp), cursorId: cursor.id },
+      );
+    }
+    return builder;
+  }
+
+  private toRecord(event: KafkaEvent): EventRecord {
+    return this.repository.create({
+      id: event.id,
+      topic: event.topic,
+      partition: event.partition,
+      offset: event.offset,
+      key: event.key ?? null,
+      value: event.value ?? null,
+      headers: event.headers ?? null,
+      timestamp: new Date(event.timestamp),
+      status: event.status,
+    });
+  }
+
+  private toEvent(record: EventRecord): KafkaEvent {
+    return {
+      id: record.id,
+      topic: record.topic,
+      partition: record.partition,
+      offset: record.offset,
+      key: record.key ?? undefined,
+      value: record.value,
+      headers: record.headers ?? undefined,
+      timestamp: new Date(record.timestamp).toISOString(),
+      status: record.status,
+    };
+  }
+}
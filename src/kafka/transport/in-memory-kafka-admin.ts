@@ -0,0 +1,186 @@
+import {
+  AssignerProtocol,
+  ConfigSource,
+  DescribeConfigResponse,
+  GroupDescriptions,
+  GroupOverview,
+  IResourceConfig,
+  ITopicConfig,
+  ITopicMetadata,
+  ITopicPartitionConfig,
+} from 'kafkajs';
+import { InMemoryKafkaBroker } from './in-memory-kafka-broker';
+import { TransportAdmin } from '../interfaces/kafka-transport.interface';
+
+/** Admin client of the in-memory broker; a single broker with id 0 leads every partition */
+export class InMemoryKafkaAdmin implements TransportAdmin {
+  constructor(private readonly broker: InMemoryKafkaBroker) {}
+
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to disconnect from
+  }
+
+  async listTopics(): Promise<string[]> {
+    return this.broker.listTopics();
+  }
+
+  /** False when every topic already existed */
+  async createTopics({ topics }: { topics: ITopicConfig[] }): Promise<boolean> {
+    let created = false;
+    for (const { topic, numPartitions, configEntries = [] } of topics) {
+      const configs = Object.fromEntries(configEntries.map(({ name, value }) => [name, value]));
+      // -1 asks for the broker default, as with kafkajs
+      const partitions = numPartitions > 0 ? numPartitions : undefined;
+      created = this.broker.createTopic(topic, partitions, configs) || created;
+    }
+    return created;
+  }
+
+  async deleteTopics({ topics }: { topics: string[] }): Promise<void> {
+    topics.forEach((topic) => this.broker.deleteTopic(topic));
+  }
+
+  async createPartitions({
+    topicPartitions,
+  }: {
+    topicPartitions: ITopicPartitionConfig[];
+  }): Promise<boolean> {
+    topicPartitions.forEach(({ topic, count }) => this.broker.addPartitions(topic, count));
+    return true;
+  }
+
+  async fetchTopicMetadata({ topics }: { topics?: string[] } = {}): Promise<{
+    topics: ITopicMetadata[];
+  }> {
+    return {
+      topics: (topics ?? this.broker.listTopics()).map((name) => ({
+        name,
+        partitions: Array.from({ length: this.broker.partitionCount(name) }, (_, partitionId) => ({
+          partitionErrorCode: 0,
+          partitionId,
+          leader: 0,
+          replicas: [0],
+          isr: [0],
+          offlineReplicas: [],
+        })),
+      })),
+    };
+  }
+
+  /** Only topic config overrides exist; broker defaults are not reported */
+  async describeConfigs({
+    resources,
+  }: {
+    resources: Array<{ type: number; name: string; configNames?: string[] }>;
+  }): Promise<DescribeConfigResponse> {
+    return {
+      throttleTime: 0,
+      resources: resources.map(({ type, name, configNames }) => ({
+        errorCode: 0,
+        errorMessage: null,
+        resourceType: type,
+        resourceName: name,
+        configEntries: Object.entries(this.broker.getConfigs(name))
+          .filter(([configName]) => !configNames || configNames.includes(configName))
+          .map(([configName, configValue]) => ({
+            configName,
+            configValue,
+            readOnly: false,
+            isDefault: false,
+            configSource: ConfigSource.TOPIC_CONFIG,
+            isSensitive: false,
+            configSynonyms: [],
+          })),
+      })),
+    };
+  }
+
+  async alterConfigs({ resources }: { resources: IResourceConfig[] }): Promise<void> {
+    for (const { name, configEntries } of resources) {
+      this.broker.setConfigs(
+        name,
+        Object.fromEntries(configEntries.map(({ name: key, value }) => [key, value])),
+      );
+    }
+  }
+
+  async fetchTopicOffsets(
+    topic: string,
+  ): Promise<Array<{ partition: number; offset: string; high: string; low: string }>> {
+    return Array.from({ length: this.broker.partitionCount(topic) }, (_, partition) => {
+      const high = String(this.broker.highWatermark(topic, partition));
+      return { partition, offset: high, high, low: '0' };
+    });
+  }
+
+  async fetchTopicOffsetsByTimestamp(
+    topic: string,
+    timestamp?: number,
+  ): Promise<Array<{ partition: number; offset: string }>> {
+    return this.broker.offsetsForTimestamp(topic, timestamp ?? Date.now());
+  }
+
+  /** Committed offsets, -1 for partitions without one */
+  async fetchOffsets({ groupId, topics }: { groupId: string; topics?: string[] }): Promise<
+    Array<{
+      topic: string;
+      partitions: Array<{ partition: number; offset: string; metadata: string | null }>;
+    }>
+  > {
+    return (topics ?? this.broker.committedTopics(groupId))
+      .filter((topic) => this.broker.hasTopic(topic))
+      .map((topic) => ({
+        topic,
+        partitions: Array.from({ length: this.broker.partitionCount(topic) }, (_, partition) => ({
+          partition,
+          offset: this.broker.committedOffset(groupId, topic, partition) ?? '-1',
+          metadata: null,
+        })),
+      }));
+  }
+
+  async describeGroups(groupIds: string[]): Promise<GroupDescriptions> {
+    return {
+      groups: groupIds.map((groupId) => {
+        const members = this.broker.members(groupId);
+        return {
+          groupId,
+          errorCode: 0,
+          state: members.length > 0 ? 'Stable' : 'Empty',
+          protocolType: 'consumer',
+          protocol: members.length > 0 ? 'RoundRobinAssigner' : '',
+          members: members.map((member) => ({
+            memberId: member.memberId,
+            clientId: member.clientId,
+            clientHost: '/127.0.0.1',
+            memberMetadata: AssignerProtocol.MemberMetadata.encode({
+              version: 0,
+              topics: member.subscribedTopics(),
+              userData: Buffer.alloc(0),
+            }),
+            memberAssignment: AssignerProtocol.MemberAssignment.encode({
+              version: 0,
+              assignment: member.currentAssignment(),
+              userData: Buffer.alloc(0),
+            }),
+          })),
+        };
+      }),
+    };
+  }
+
+  async listGroups(): Promise<{ groups: GroupOverview[] }> {
+    return {
+      groups: this.broker.groupIds().map((groupId) => ({ groupId, protocolType: 'consumer' })),
+    };
+  }
+
+  async deleteGroups(groupIds: string[]): Promise<Array<{ groupId: string; errorCode: number }>> {
+    groupIds.forEach((groupId) => this.broker.deleteGroup(groupId));
+    return groupIds.map((groupId) => ({ groupId, errorCode: 0 }));
+  }
+}
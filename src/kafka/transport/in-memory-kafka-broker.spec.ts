@@ -0,0 +1,269 @@
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AssignerProtocol, EachMessagePayload } from 'kafkajs';
+import { TransportConsumer } from '../interfaces/kafka-transport.interface';
+import { InMemoryKafkaBroker } from './in-memory-kafka-broker';
+import { KAFKA_TRANSPORT } from '../interfaces/kafka-transport.interface';
+import { KafkaProducerService } from '../services/kafka-producer.service';
+import { KafkaConsumerService } from '../services/kafka-consumer.service';
+import { KafkaHandlerRegistry } from '../services/kafka-handler-registry.service';
+import { EventStorageService } from '../services/event-storage.service';
+import { CallEventsHandler } from '../handlers/call-events.handler';
+
+describe('InMemoryKafkaBroker', () => {
+  let broker: InMemoryKafkaBroker;
+  let consumers: TransportConsumer[];
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const eventually = async (assertion: () => void, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      try {
+        assertion();
+        return;
+      } catch (error) {
+        if (Date.now() > deadline) {
+          throw error;
+        }
+        await sleep(10);
+      }
+    }
+  };
+
+  const send = async (topic: string, ...values: Array<{ key?: string; n: number }>) => {
+    const producer = broker.producer();
+    await producer.connect();
+    return producer.send({
+      topic,
+      messages: values.map(({ key, n }) => ({ key, value: JSON.stringify({ n }) })),
+    });
+  };
+
+  /** Runs a consumer collecting what it reads; `fail` makes the handler throw */
+  const consume = async (
+    groupId: string,
+    topic: string,
+    fail: (n: number) => boolean = () => false,
+  ) => {
+    const received: Array<{ partition: number; n: number }> = [];
+    const consumer = broker.consumer({ groupId, retry: { initialRetryTime: 10 } });
+    consumers.push(consumer);
+    await consumer.connect();
+    await consumer.subscribe({ topic, fromBeginning: true });
+    await consumer.run({
+      eachMessage: async ({ partition, message }: EachMessagePayload) => {
+        const { n } = JSON.parse(message.value.toString());
+        if (fail(n)) {
+          throw new Error(`cannot handle ${n}`);
+        }
+        received.push({ partition, n });
+      },
+    });
+    return { consumer, received };
+  };
+
+  beforeEach(() => {
+    broker = new InMemoryKafkaBroker();
+    consumers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(consumers.map((consumer) => consumer.disconnect()));
+  });
+
+  it('should deliver produced messages and commit their offsets', async () => {
+    const { received } = await consume('readers', 'orders');
+
+    const [metadata] = await send('orders', { n: 1 }, { n: 2 });
+
+    expect(metadata).toMatchObject({ topicName: 'orders', partition: 0, baseOffset: '0' });
+    await eventually(() => expect(received.map(({ n }) => n)).toEqual([1, 2]));
+    expect(broker.committedOffset('readers', 'orders', 0)).toBe('2');
+  });
+
+  it('should keep messages with the same key on one partition', async () => {
+    await broker.admin().createTopics({ topics: [{ topic: 'orders', numPartitions: 4 }] });
+
+    const metadata = await send(
+      'orders',
+      { key: 'a', n: 1 },
+      { key: 'b', n: 2 },
+      { key: 'a', n: 3 },
+    );
+    const [again] = await send('orders', { key: 'a', n: 4 });
+
+    const partitionOfA = metadata.find(({ baseOffset }) => baseOffset === '0').partition;
+    expect(again.partition).toBe(partitionOfA);
+    expect(broker.highWatermark('orders', partitionOfA)).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should resume a group from its committed offsets', async () => {
+    const first = await consume('readers', 'orders');
+    await send('orders', { n: 1 });
+    await eventually(() => expect(first.received).toHaveLength(1));
+    await first.consumer.disconnect();
+
+    await send('orders', { n: 2 });
+    const second = await consume('readers', 'orders');
+
+    await eventually(() => expect(second.received.map(({ n }) => n)).toEqual([2]));
+  });
+
+  it('should split partitions between the members of a group', async () => {
+    await broker.admin().createTopics({ topics: [{ topic: 'orders', numPartitions: 4 }] });
+    const one = await consume('readers', 'orders');
+    const two = await consume('readers', 'orders');
+    const other = await consume('auditors', 'orders');
+
+    await send('orders', ...Array.from({ length: 8 }, (_, n) => ({ n })));
+
+    await eventually(() => {
+      expect(one.received.length + two.received.length).toBe(8);
+      expect(other.received).toHaveLength(8);
+    });
+    expect(one.received.map(({ partition }) => partition).sort()).toEqual([0, 0, 2, 2]);
+    expect(two.received.map(({ partition }) => partition).sort()).toEqual([1, 1, 3, 3]);
+
+    const {
+      groups: [group],
+    } = await broker.admin().describeGroups(['readers']);
+    expect(group.state).toBe('Stable');
+    expect(
+      group.members.map(
+        ({ memberAssignment }) =>
+          AssignerProtocol.MemberAssignment.decode(memberAssignment).assignment,
+      ),
+    ).toEqual([{ orders: [0, 2] }, { orders: [1, 3] }]);
+  });
+
+  it('should redeliver from the failed message after a handler error', async () => {
+    let failures = 0;
+    const { received } = await consume('readers', 'orders', (n) => n === 2 && failures++ === 0);
+
+    await send('orders', { n: 1 }, { n: 2 }, { n: 3 });
+
+    await eventually(() => expect(received.map(({ n }) => n)).toEqual([1, 2, 3]));
+    expect(failures).toBe(2);
+  });
+
+  it('should stop fetching paused topics until resumed', async () => {
+    const { consumer, received } = await consume('readers', 'orders');
+    consumer.pause([{ topic: 'orders' }]);
+
+    await send('orders', { n: 1 });
+    await sleep(20);
+    expect(received).toHaveLength(0);
+
+    consumer.resume([{ topic: 'orders' }]);
+    await eventually(() => expect(received).toHaveLength(1));
+  });
+
+  it('should expose transactional messages only once committed', async () => {
+    const { received } = await consume('readers', 'orders');
+    const producer = broker.producer({ transactionalId: 'tx' });
+
+    const aborted = await producer.transaction();
+    await aborted.send({ topic: 'orders', messages: [{ value: JSON.stringify({ n: 1 }) }] });
+    await aborted.abort();
+
+    const committed = await producer.transaction();
+    await committed.send({ topic: 'orders', messages: [{ value: JSON.stringify({ n: 2 }) }] });
+    await committed.sendOffsets({
+      consumerGroupId: 'pipeline',
+      topics: [{ topic: 'input', partitions: [{ partition: 0, offset: '5' }] }],
+    });
+    await sleep(20);
+    expect(received).toHaveLength(0);
+
+    await committed.commit();
+
+    await eventually(() => expect(received.map(({ n }) => n)).toEqual([2]));
+    expect(broker.committedOffset('pipeline', 'input', 0)).toBe('5');
+  });
+
+  it('should administer topics and report watermarks', async () => {
+    const admin = broker.admin();
+    await admin.createTopics({
+      topics: [
+        {
+          topic: 'orders',
+          numPartitions: 2,
+          configEntries: [{ name: 'retention.ms', value: '1' }],
+        },
+      ],
+    });
+    await admin.createPartitions({ topicPartitions: [{ topic: 'orders', count: 3 }] });
+    await send('orders', { n: 1 });
+
+    const {
+      topics: [metadata],
+    } = await admin.fetchTopicMetadata({ topics: ['orders'] });
+    expect(metadata.partitions).toHaveLength(3);
+    expect(
+      (await admin.fetchTopicOffsets('orders')).reduce(
+        (total, { high }) => total + Number(high),
+        0,
+      ),
+    ).toBe(1);
+    await expect(
+      admin.createPartitions({ topicPartitions: [{ topic: 'orders', count: 2 }] }),
+    ).rejects.toMatchObject({ type: 'INVALID_PARTITIONS' });
+
+    await admin.deleteTopics({ topics: ['orders'] });
+    expect(await admin.listTopics()).toEqual([]);
+  });
+
+  describe('with the Kafka services', () => {
+    let module: TestingModule;
+    let handler: CallEventsHandler;
+
+    beforeEach(async () => {
+      module = await Test.createTestingModule({
+        imports: [DiscoveryModule],
+        providers: [
+          KafkaProducerService,
+          KafkaConsumerService,
+          KafkaHandlerRegistry,
+          EventStorageService,
+          CallEventsHandler,
+          { provide: KAFKA_TRANSPORT, useValue: broker },
+          // Only used without a transport
+          { provide: 'KAFKA_SERVICE', useValue: null },
+          {
+            provide: ConfigService,
+            useValue: { get: jest.fn((_key: string, defaultValue?: any) => defaultValue) },
+          },
+        ],
+      }).compile();
+
+      handler = module.get(CallEventsHandler);
+      jest.spyOn(handler, 'handleCallEvent');
+      await module.init();
+    });
+
+    afterEach(async () => {
+      await module.close();
+    });
+
+    it('should consume what the producer service produces', async () => {
+      const result = await module
+        .get(KafkaProducerService)
+        .produce(
+          'call-events',
+          { eventType: 'CallInitiated', schemaVersion: 1, callerId: 'a', recipientId: 'b' },
+          'call-1',
+        );
+
+      expect(result).toMatchObject({ success: true, partition: 0, offset: '0' });
+      await eventually(() =>
+        expect(handler.handleCallEvent).toHaveBeenCalledWith(
+          expect.objectContaining({ callerId: 'a', recipientId: 'b' }),
+          expect.objectContaining({ messageId: result.messageId }),
+          expect.objectContaining({ topic: 'call-events', offset: '0', key: 'call-1' }),
+        ),
+      );
+    });
+  });
+});
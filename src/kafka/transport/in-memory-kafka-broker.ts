@@ -0,0 +1,398 @@
+import {
+  ConsumerConfig,
+  IHeaders,
+  KafkaJSProtocolError,
+  KafkaMessage,
+  Message,
+  ProducerConfig,
+  RecordMetadata,
+} from 'kafkajs';
+import {
+  KafkaTransport,
+  TransportAdmin,
+  TransportConsumer,
+  TransportProducer,
+} from '../interfaces/kafka-transport.interface';
+import { InMemoryKafkaAdmin } from './in-memory-kafka-admin';
+import { InMemoryKafkaConsumer } from './in-memory-kafka-consumer';
+import { InMemoryKafkaProducer } from './in-memory-kafka-producer';
+
+export interface InMemoryBrokerOptions {
+  /** Partitions of topics created by producing or subscribing to them */
+  defaultPartitions?: number;
+}
+
+/** A record of a partition log */
+export interface StoredRecord {
+  message: KafkaMessage;
+  /** Records of an open transaction block readers; those of an aborted one are skipped */
+  transaction?: 'open' | 'aborted';
+}
+
+/** A consumer taking part in a group's partition assignment */
+export interface GroupMember {
+  readonly memberId: string;
+  readonly clientId: string;
+  subscribedTopics(): string[];
+  currentAssignment(): Record<string, number[]>;
+  assign(assignment: Record<string, number[]>): void;
+}
+
+interface TopicState {
+  partitions: StoredRecord[][];
+  configs: Record<string, string>;
+}
+
+interface GroupState {
+  /** In join order */
+  members: GroupMember[];
+  /** Committed offset (the next one to read) per topic and partition */
+  offsets: Map<string, Map<number, string>>;
+}
+
+/**
+ * An in-process stand-in for a Kafka cluster, selected with `KAFKA_TRANSPORT=memory`: topics
+ * with partitioned logs, consumer groups with committed offsets and round-robin partition
+ * assignment, and producer, consumer and admin clients that follow the kafkajs API closely
+ * enough for the services in this module. Nothing is persisted; the cluster lives and dies
+ * with the process.
+ */
+export class InMemoryKafkaBroker implements KafkaTransport {
+  private readonly topics: Map<string, TopicState> = new Map();
+  private readonly groups: Map<string, GroupState> = new Map();
+  private waiters: Array<() => void> = [];
+  private nextPartition = 0;
+
+  constructor(private readonly options: InMemoryBrokerOptions = {}) {}
+
+  producer(config: ProducerConfig = {}): TransportProducer {
+    return new InMemoryKafkaProducer(this, config);
+  }
+
+  consumer(config: ConsumerConfig): TransportConsumer {
+    return new InMemoryKafkaConsumer(this, config);
+  }
+
+  admin(): TransportAdmin {
+    return new InMemoryKafkaAdmin(this);
+  }
+
+  listTopics(): string[] {
+    return Array.from(this.topics.keys());
+  }
+
+  hasTopic(topic: string): boolean {
+    return this.topics.has(topic);
+  }
+
+  /** False when the topic already exists */
+  createTopic(
+    topic: string,
+    numPartitions = this.options.defaultPartitions ?? 1,
+    configs: Record<string, string> = {},
+  ): boolean {
+    if (this.topics.has(topic)) {
+      return false;
+    }
+    if (!Number.isInteger(numPartitions) || numPartitions < 1) {
+      throw this.error('INVALID_PARTITIONS', 37, `Invalid partition count ${numPartitions}`);
+    }
+
+    this.topics.set(topic, {
+      partitions: Array.from({ length: numPartitions }, () => []),
+      configs: { ...configs },
+    });
+    this.notify();
+    return true;
+  }
+
+  deleteTopic(topic: string): void {
+    this.topicState(topic);
+    this.topics.delete(topic);
+    for (const group of this.groups.values()) {
+      group.offsets.delete(topic);
+    }
+    for (const groupId of this.groups.keys()) {
+      this.rebalance(groupId);
+    }
+  }
+
+  partitionCount(topic: string): number {
+    return this.topicState(topic).partitions.length;
+  }
+
+  addPartitions(topic: string, count: number): void {
+    const { partitions } = this.topicState(topic);
+    if (!Number.isInteger(count) || count <= partitions.length) {
+      throw this.error(
+        'INVALID_PARTITIONS',
+        37,
+        `Topic ${topic} has ${partitions.length} partitions, cannot change to ${count}`,
+      );
+    }
+
+    while (partitions.length < count) {
+      partitions.push([]);
+    }
+    for (const groupId of this.groups.keys()) {
+      this.rebalance(groupId);
+    }
+  }
+
+  getConfigs(topic: string): Record<string, string> {
+    return { ...this.topicState(topic).configs };
+  }
+
+  /** Replaces the topic's config overrides, like a (non-incremental) AlterConfigs */
+  setConfigs(topic: string, configs: Record<string, string>): void {
+    this.topicState(topic).configs = { ...configs };
+  }
+
+  /**
+   * Appends messages to their partitions, creating the topic if needed. Messages go to their
+   * explicit partition, else to the partition their key hashes to, else round-robin.
+   */
+  append(
+    topic: string,
+    messages: Message[],
+    transactional = false,
+  ): { records: StoredRecord[]; metadata: RecordMetadata[] } {
+    this.createTopic(topic);
+    const { partitions } = this.topicState(topic);
+    const records: StoredRecord[] = [];
+    const baseOffsets = new Map<number, string>();
+
+    for (const message of messages) {
+      const partition = this.partitionFor(message, partitions.length);
+      const log = partitions[partition];
+      const record: StoredRecord = {
+        message: {
+          key: this.toBuffer(message.key),
+          value: this.toBuffer(message.value),
+          headers: this.toHeaders(message.headers),
+          timestamp: message.timestamp ?? String(Date.now()),
+          offset: String(log.length),
+          attributes: 0,
+          size: 0,
+        } as KafkaMessage,
+        transaction: transactional ? 'open' : undefined,
+      };
+
+      log.push(record);
+      records.push(record);
+      if (!baseOffsets.has(partition)) {
+        baseOffsets.set(partition, record.message.offset);
+      }
+    }
+
+    this.notify();
+    return {
+      records,
+      metadata: Array.from(baseOffsets.entries()).map(([partition, baseOffset]) => ({
+        topicName: topic,
+        partition,
+        errorCode: 0,
+        baseOffset,
+        logAppendTime: '-1',
+        logStartOffset: '0',
+      })),
+    };
+  }
+
+  /** Makes a transaction's records visible to readers, or skipped by them when aborted */
+  endTransaction(records: StoredRecord[], committed: boolean): void {
+    for (const record of records) {
+      record.transaction = committed ? undefined : 'aborted';
+    }
+    this.notify();
+  }
+
+  /**
+   * Records readable from `offset`, up to the first one of an open transaction. `end` is the
+   * offset after the last record covered, including skipped (aborted) ones.
+   */
+  fetch(
+    topic: string,
+    partition: number,
+    offset: number,
+    maxMessages: number,
+  ): { messages: KafkaMessage[]; end: number } {
+    const log = this.topics.get(topic)?.partitions[partition] ?? [];
+    const messages: KafkaMessage[] = [];
+    let end = offset;
+
+    while (end < log.length && messages.length < maxMessages && log[end].transaction !== 'open') {
+      if (!log[end].transaction) {
+        messages.push(log[end].message);
+      }
+      end++;
+    }
+    return { messages, end };
+  }
+
+  highWatermark(topic: string, partition: number): number {
+    return this.topics.get(topic)?.partitions[partition]?.length ?? 0;
+  }
+
+  /** The first offset of each partition whose timestamp is at or after `timestamp` */
+  offsetsForTimestamp(
+    topic: string,
+    timestamp: number,
+  ): Array<{ partition: number; offset: string }> {
+    return this.topicState(topic).partitions.map((log, partition) => {
+      const index = log.findIndex(({ message }) => Number(message.timestamp) >= timestamp);
+      return { partition, offset: String(index === -1 ? log.length : index) };
+    });
+  }
+
+  join(groupId: string, member: GroupMember): void {
+    const group = this.groupState(groupId);
+    if (!group.members.includes(member)) {
+      group.members.push(member);
+    }
+    this.rebalance(groupId);
+  }
+
+  leave(groupId: string, member: GroupMember): void {
+    const group = this.groups.get(groupId);
+    if (group) {
+      group.members = group.members.filter((m) => m !== member);
+      this.rebalance(groupId);
+    }
+  }
+
+  members(groupId: string): GroupMember[] {
+    return [...(this.groups.get(groupId)?.members ?? [])];
+  }
+
+  groupIds(): string[] {
+    return Array.from(this.groups.keys());
+  }
+
+  /** Forgets a group and its offsets; members must have left */
+  deleteGroup(groupId: string): void {
+    const group = this.groups.get(groupId);
+    if (!group) {
+      throw this.error('GROUP_ID_NOT_FOUND', 69, `Group ${groupId} does not exist`);
+    }
+    if (group.members.length > 0) {
+      throw this.error('NON_EMPTY_GROUP', 68, `Group ${groupId} has active members`);
+    }
+    this.groups.delete(groupId);
+  }
+
+  commit(groupId: string, topic: string, partition: number, offset: string): void {
+    const { offsets } = this.groupState(groupId);
+    if (!offsets.has(topic)) {
+      offsets.set(topic, new Map());
+    }
+    offsets.get(topic).set(partition, offset);
+  }
+
+  committedOffset(groupId: string, topic: string, partition: number): string | undefined {
+    return this.groups.get(groupId)?.offsets.get(topic)?.get(partition);
+  }
+
+  /** Topics the group committed offsets on */
+  committedTopics(groupId: string): string[] {
+    return Array.from(this.groups.get(groupId)?.offsets.keys() ?? []);
+  }
+
+  /** Resolves once messages are appended, topics change or `notify` is called */
+  waitForChange(timeoutMs?: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+        resolve();
+      };
+      const timer = timeoutMs === undefined ? undefined : setTimeout(wake, timeoutMs);
+      this.waiters.push(wake);
+    });
+  }
+
+  notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((wake) => wake());
+  }
+
+  /** Spreads each topic's partitions over the members subscribed to it, in join order */
+  private rebalance(groupId: string): void {
+    const members = this.groups.get(groupId)?.members ?? [];
+    const assignments = new Map<GroupMember, Record<string, number[]>>(
+      members.map((member) => [member, {}]),
+    );
+
+    const topics = new Set(members.flatMap((member) => member.subscribedTopics()));
+    for (const topic of topics) {
+      if (!this.topics.has(topic)) {
+        continue;
+      }
+      const readers = members.filter((member) => member.subscribedTopics().includes(topic));
+      this.topics.get(topic).partitions.forEach((_, partition) => {
+        const assignment = assignments.get(readers[partition % readers.length]);
+        assignment[topic] = [...(assignment[topic] ?? []), partition];
+      });
+    }
+
+    for (const [member, assignment] of assignments) {
+      member.assign(assignment);
+    }
+    this.notify();
+  }
+
+  private partitionFor(message: Message, count: number): number {
+    if (message.partition !== undefined) {
+      if (message.partition < 0 || message.partition >= count) {
+        throw this.error('UNKNOWN_TOPIC_OR_PARTITION', 3, `Unknown partition ${message.partition}`);
+      }
+      return message.partition;
+    }
+    if (message.key === null || message.key === undefined) {
+      return this.nextPartition++ % count;
+    }
+
+    // Any stable hash keeps a key on one partition; this is not Kafka's murmur2
+    const hash = this.toBuffer(message.key).reduce((h, byte) => (h * 31 + byte) | 0, 0);
+    return Math.abs(hash) % count;
+  }
+
+  private topicState(topic: string): TopicState {
+    const state = this.topics.get(topic);
+    if (!state) {
+      throw this.error('UNKNOWN_TOPIC_OR_PARTITION', 3, `Topic ${topic} does not exist`);
+    }
+    return state;
+  }
+
+  private groupState(groupId: string): GroupState {
+    if (!this.groups.has(groupId)) {
+      this.groups.set(groupId, { members: [], offsets: new Map() });
+    }
+    return this.groups.get(groupId);
+  }
+
+  private toBuffer(value: Buffer | string | null | undefined): Buffer | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return Buffer.isBuffer(value) ? value : Buffer.from(value);
+  }
+
+  private toHeaders(headers: IHeaders = {}): IHeaders {
+    return Object.fromEntries(
+      Object.entries(headers)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => [
+          name,
+          Array.isArray(value) ? value.map((v) => this.toBuffer(v)) : this.toBuffer(value),
+        ]),
+    );
+  }
+
+  /** Errors shaped like the broker's, so callers can handle them by `type` */
+  private error(type: string, code: number, message: string): KafkaJSProtocolError {
+    return new KafkaJSProtocolError({ type, code, message, retriable: false } as any);
+  }
+}
@@ -0,0 +1,396 @@
+import { Logger } from '@nestjs/common';
+import {
+  ConsumerConfig,
+  ConsumerRunConfig,
+  ConsumerSubscribeTopic,
+  ConsumerSubscribeTopics,
+  EachBatchPayload,
+  KafkaJSNonRetriableError,
+  KafkaMessage,
+  TopicPartitionOffset,
+  TopicPartitions,
+} from 'kafkajs';
+import { randomUUID } from 'crypto';
+import { GroupMember, InMemoryKafkaBroker } from './in-memory-kafka-broker';
+import { TransportConsumer } from '../interfaces/kafka-transport.interface';
+
+/**
+ * The kafkajs instrumentation events of the transports' consumers. They never emit `CRASH`:
+ * their loops retry failed reads instead of stopping
+ */
+export const CONSUMER_EVENTS = {
+  GROUP_JOIN: 'consumer.group_join',
+  START_BATCH_PROCESS: 'consumer.start_batch_process',
+  END_BATCH_PROCESS: 'consumer.end_batch_process',
+  CONNECT: 'consumer.connect',
+  DISCONNECT: 'consumer.disconnect',
+  STOP: 'consumer.stop',
+  CRASH: 'consumer.crash',
+} as const;
+
+/** Messages handed to the handler per partition fetch */
+const MAX_BATCH_SIZE = 100;
+
+interface FetchedBatch {
+  topic: string;
+  partition: number;
+  /** Position the batch was fetched from */
+  offset: number;
+  messages: KafkaMessage[];
+  /** Offset after the last record the batch covers */
+  end: number;
+  generation: number;
+}
+
+/**
+ * Consumer of the in-memory broker, behaving like a kafkajs consumer with its default
+ * settings: it joins its group on `run`, reads assigned partitions from the group's
+ * committed offsets (or the start or end of the log without one), commits the offsets
+ * resolved by each batch, and fetches a batch whose handler threw again after a short
+ * delay, from the first unresolved offset.
+ */
+export class InMemoryKafkaConsumer implements TransportConsumer, GroupMember {
+  readonly memberId = `in-memory-${randomUUID()}`;
+  readonly clientId = 'in-memory';
+  readonly events = CONSUMER_EVENTS;
+  private readonly logger = new Logger(InMemoryKafkaConsumer.name);
+  private readonly groupId: string;
+  private readonly retryDelayMs: number;
+  // Topics with their fromBeginning option
+  private readonly subscriptions: Map<string, boolean> = new Map();
+  private assignment: Record<string, number[]> = {};
+  // Next offset to read per `topic:partition`
+  private readonly positions: Map<string, number> = new Map();
+  // Bumped when a partition is sought or revoked, so batches fetched before become stale
+  private readonly generations: Map<string, number> = new Map();
+  // Paused topics, and paused partitions as `topic:partition`
+  private readonly pausedKeys: Set<string> = new Set();
+  private readonly retryAt: Map<string, number> = new Map();
+  private readonly listeners: Map<string, Set<(event: any) => void>> = new Map();
+  private autoCommit = true;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(private readonly broker: InMemoryKafkaBroker, config: ConsumerConfig) {
+    this.groupId = config.groupId;
+    this.retryDelayMs = config.retry?.initialRetryTime ?? 100;
+  }
+
+  async connect(): Promise<void> {
+    this.emit(CONSUMER_EVENTS.CONNECT, {});
+  }
+
+  async disconnect(): Promise<void> {
+    await this.stop();
+    this.emit(CONSUMER_EVENTS.DISCONNECT, {});
+  }
+
+  /** Finishes the batches in progress, committing their offsets, and leaves the group */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    this.broker.notify();
+    await this.loop;
+    this.loop = null;
+    this.broker.leave(this.groupId, this);
+    this.emit(CONSUMER_EVENTS.STOP, {});
+  }
+
+  async subscribe(subscription: ConsumerSubscribeTopic | ConsumerSubscribeTopics): Promise<void> {
+    if (this.running) {
+      throw new KafkaJSNonRetriableError('Cannot subscribe to topic while consumer is running');
+    }
+
+    const topics = 'topics' in subscription ? subscription.topics : [subscription.topic];
+    for (const topic of topics) {
+      if (typeof topic !== 'string') {
+        throw new KafkaJSNonRetriableError('The in-memory broker does not support topic patterns');
+      }
+      this.broker.createTopic(topic);
+      this.subscriptions.set(topic, !!subscription.fromBeginning);
+    }
+  }
+
+  async run(config: ConsumerRunConfig = {}): Promise<void> {
+    if (this.running) {
+      throw new KafkaJSNonRetriableError('Consumer is already running');
+    }
+
+    this.running = true;
+    this.autoCommit = config.autoCommit !== false;
+    this.broker.join(this.groupId, this);
+    this.emit(CONSUMER_EVENTS.GROUP_JOIN, {
+      groupId: this.groupId,
+      memberId: this.memberId,
+      memberAssignment: this.assignment,
+    });
+    this.loop = this.consume(config);
+  }
+
+  subscribedTopics(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  currentAssignment(): Record<string, number[]> {
+    return this.assignment;
+  }
+
+  assign(assignment: Record<string, number[]>): void {
+    const assigned = new Set(
+      Object.entries(assignment).flatMap(([topic, partitions]) =>
+        partitions.map((partition) => this.keyOf(topic, partition)),
+      ),
+    );
+    for (const key of this.positions.keys()) {
+      if (!assigned.has(key)) {
+        this.positions.delete(key);
+        this.bumpGeneration(key);
+      }
+    }
+
+    for (const [topic, partitions] of Object.entries(assignment)) {
+      for (const partition of partitions) {
+        const key = this.keyOf(topic, partition);
+        if (this.positions.has(key)) {
+          continue;
+        }
+        const committed = this.broker.committedOffset(this.groupId, topic, partition);
+        this.positions.set(
+          key,
+          committed !== undefined
+            ? Number(committed)
+            : this.subscriptions.get(topic)
+            ? 0
+            : this.broker.highWatermark(topic, partition),
+        );
+      }
+    }
+    this.assignment = assignment;
+  }
+
+  seek({ topic, partition, offset }: TopicPartitionOffset): void {
+    const key = this.keyOf(topic, partition);
+    this.positions.set(key, Number(offset));
+    this.bumpGeneration(key);
+    this.retryAt.delete(key);
+    if (this.autoCommit) {
+      this.broker.commit(this.groupId, topic, partition, offset);
+    }
+    this.broker.notify();
+  }
+
+  pause(topics: TopicPartitions[] | Array<{ topic: string }>): void {
+    for (const { topic, partitions } of topics as TopicPartitions[]) {
+      if (partitions) {
+        partitions.forEach((partition) => this.pausedKeys.add(this.keyOf(topic, partition)));
+      } else {
+        this.pausedKeys.add(topic);
+      }
+    }
+  }
+
+  resume(topics: TopicPartitions[] | Array<{ topic: string }>): void {
+    for (const { topic, partitions } of topics as TopicPartitions[]) {
+      if (partitions) {
+        partitions.forEach((partition) => this.pausedKeys.delete(this.keyOf(topic, partition)));
+      } else {
+        Array.from(this.pausedKeys)
+          .filter((key) => key === topic || key.startsWith(`${topic}:`))
+          .forEach((key) => this.pausedKeys.delete(key));
+      }
+    }
+    this.broker.notify();
+  }
+
+  paused(): TopicPartitions[] {
+    return Object.entries(this.assignment)
+      .map(([topic, partitions]) => ({
+        topic,
+        partitions: partitions.filter((partition) => this.isPaused(topic, partition)),
+      }))
+      .filter(({ partitions }) => partitions.length > 0);
+  }
+
+  async commitOffsets(offsets: TopicPartitionOffset[]): Promise<void> {
+    for (const { topic, partition, offset } of offsets) {
+      this.broker.commit(this.groupId, topic, partition, offset);
+    }
+  }
+
+  on(eventName: string, listener: (event: any) => void): () => void {
+    if (!this.listeners.has(eventName)) {
+      this.listeners.set(eventName, new Set());
+    }
+    this.listeners.get(eventName).add(listener);
+    return () => this.listeners.get(eventName).delete(listener);
+  }
+
+  private async consume(config: ConsumerRunConfig): Promise<void> {
+    const concurrency = Math.max(config.partitionsConsumedConcurrently ?? 1, 1);
+
+    while (this.running) {
+      const batches = this.fetch();
+      if (batches.length === 0) {
+        await this.broker.waitForChange(this.nextRetryIn());
+        continue;
+      }
+
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, batches.length) }, async () => {
+          for (let batch = batches.shift(); batch && this.running; batch = batches.shift()) {
+            await this.process(batch, config);
+          }
+        }),
+      );
+    }
+  }
+
+  private fetch(): FetchedBatch[] {
+    const now = Date.now();
+    const batches: FetchedBatch[] = [];
+
+    for (const [topic, partitions] of Object.entries(this.assignment)) {
+      for (const partition of partitions) {
+        const key = this.keyOf(topic, partition);
+        if (this.isPaused(topic, partition) || (this.retryAt.get(key) ?? 0) > now) {
+          continue;
+        }
+        this.retryAt.delete(key);
+
+        const offset = this.positions.get(key);
+        const { messages, end } = this.broker.fetch(topic, partition, offset, MAX_BATCH_SIZE);
+        if (end > offset) {
+          const generation = this.generations.get(key) ?? 0;
+          batches.push({ topic, partition, offset, messages, end, generation });
+        }
+      }
+    }
+    return batches;
+  }
+
+  private async process(
+    { topic, partition, offset, messages, end, generation }: FetchedBatch,
+    config: ConsumerRunConfig,
+  ): Promise<void> {
+    const key = this.keyOf(topic, partition);
+    const isStale = () => (this.generations.get(key) ?? 0) !== generation;
+    const highWatermark = String(this.broker.highWatermark(topic, partition));
+    const firstOffset = messages[0]?.offset ?? null;
+    const lastOffset = String(end - 1);
+    const offsetLag = String(Number(highWatermark) - end);
+    let resolved = offset;
+    let completed = false;
+
+    const resolveOffset = (resolvedOffset: string) => {
+      resolved = Math.max(resolved, Number(resolvedOffset) + 1);
+    };
+    const commit = async () => {
+      if (this.autoCommit && !isStale()) {
+        this.broker.commit(this.groupId, topic, partition, String(resolved));
+      }
+    };
+    const heartbeat = async () => undefined;
+    const pause = () => {
+      this.pause([{ topic, partitions: [partition] }]);
+      return () => this.resume([{ topic, partitions: [partition] }]);
+    };
+    const batchEvent = {
+      topic,
+      partition,
+      highWatermark,
+      offsetLag,
+      offsetLagLow: offsetLag,
+      batchSize: messages.length,
+      firstOffset,
+      lastOffset,
+    };
+
+    try {
+      if (messages.length === 0) {
+        // Only skipped records, e.g. of aborted transactions
+      } else if (config.eachBatch) {
+        this.emit(CONSUMER_EVENTS.START_BATCH_PROCESS, batchEvent);
+        await config.eachBatch({
+          batch: {
+            topic,
+            partition,
+            highWatermark,
+            messages,
+            isEmpty: () => messages.length === 0,
+            firstOffset: () => firstOffset,
+            lastOffset: () => lastOffset,
+            offsetLag: () => offsetLag,
+            offsetLagLow: () => offsetLag,
+          },
+          resolveOffset,
+          heartbeat,
+          pause,
+          commitOffsetsIfNecessary: commit,
+          uncommittedOffsets: () => ({
+            topics: [{ topic, partitions: [{ partition, offset: String(resolved) }] }],
+          }),
+          isRunning: () => this.running,
+          isStale,
+        } as unknown as EachBatchPayload);
+        if (config.eachBatchAutoResolve === false) {
+          completed = true;
+          return;
+        }
+      } else {
+        this.emit(CONSUMER_EVENTS.START_BATCH_PROCESS, batchEvent);
+        for (const message of messages) {
+          if (!this.running || isStale() || this.isPaused(topic, partition)) {
+            return;
+          }
+          await config.eachMessage?.({ topic, partition, message, heartbeat, pause });
+          resolveOffset(message.offset);
+        }
+      }
+
+      resolveOffset(lastOffset);
+      completed = true;
+    } catch (error) {
+      this.logger.warn(
+        `Error processing ${topic}[${partition}] at offset ${resolved}, ` +
+          `refetching in ${this.retryDelayMs}ms: ${error.message}`,
+      );
+      this.retryAt.set(key, Date.now() + this.retryDelayMs);
+    } finally {
+      if (!isStale()) {
+        this.positions.set(key, resolved);
+        await commit();
+      }
+      if (completed) {
+        this.emit(CONSUMER_EVENTS.END_BATCH_PROCESS, batchEvent);
+      }
+    }
+  }
+
+  private nextRetryIn(): number | undefined {
+    const now = Date.now();
+    const delays = Array.from(this.retryAt.values())
+      .map((at) => at - now)
+      .filter((delay) => delay > 0);
+    return delays.length > 0 ? Math.min(...delays) : undefined;
+  }
+
+  private isPaused(topic: string, partition: number): boolean {
+    return this.pausedKeys.has(topic) || this.pausedKeys.has(this.keyOf(topic, partition));
+  }
+
+  private bumpGeneration(key: string): void {
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+  }
+
+  private keyOf(topic: string, partition: number): string {
+    return `${topic}:${partition}`;
+  }
+
+  private emit(type: string, payload: Record<string, unknown>): void {
+    const event = { id: randomUUID(), type, timestamp: Date.now(), payload };
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+}
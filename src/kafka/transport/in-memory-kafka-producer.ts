@@ -0,0 +1,127 @@
+import {
+  ICustomPartitioner,
+  KafkaJSNonRetriableError,
+  Message,
+  Offsets,
+  PartitionMetadata,
+  ProducerBatch,
+  ProducerConfig,
+  ProducerRecord,
+  RecordMetadata,
+  Transaction,
+} from 'kafkajs';
+import { InMemoryKafkaBroker, StoredRecord } from './in-memory-kafka-broker';
+import { TransportProducer } from '../interfaces/kafka-transport.interface';
+
+/** What a kafkajs partitioner is told about the partitions of a single-broker topic */
+export const partitionMetadata = (count: number): PartitionMetadata[] =>
+  Array.from({ length: count }, (_, partitionId) => ({
+    partitionErrorCode: 0,
+    partitionId,
+    leader: 0,
+    replicas: [0],
+    isr: [0],
+    offlineReplicas: [],
+  }));
+
+/**
+ * Producer of the in-memory broker. Messages are appended as soon as they are sent;
+ * transactional ones stay invisible to consumers until their transaction commits, together
+ * with any consumer offsets sent in it. A `createPartitioner` in the config places messages
+ * as with kafkajs; without one the broker does.
+ */
+export class InMemoryKafkaProducer implements TransportProducer {
+  private readonly partitioner: ReturnType<ICustomPartitioner> | undefined;
+
+  constructor(
+    private readonly broker: InMemoryKafkaBroker,
+    private readonly config: ProducerConfig,
+  ) {
+    this.partitioner = config.createPartitioner?.();
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to disconnect from
+  }
+
+  isIdempotent(): boolean {
+    return !!this.config.idempotent;
+  }
+
+  async send({ topic, messages }: ProducerRecord): Promise<RecordMetadata[]> {
+    return this.broker.append(topic, this.place(topic, messages)).metadata;
+  }
+
+  async sendBatch({ topicMessages = [] }: ProducerBatch): Promise<RecordMetadata[]> {
+    return topicMessages.flatMap(
+      ({ topic, messages }) => this.broker.append(topic, this.place(topic, messages)).metadata,
+    );
+  }
+
+  async transaction(): Promise<Transaction> {
+    if (!this.config.transactionalId) {
+      throw new KafkaJSNonRetriableError(
+        'Must provide transactional id for transactional producer',
+      );
+    }
+
+    const records: StoredRecord[] = [];
+    const offsets: Array<Offsets & { consumerGroupId: string }> = [];
+    let active = true;
+
+    const send = async ({ topic, messages }: ProducerRecord) => {
+      const appended = this.broker.append(topic, this.place(topic, messages), true);
+      records.push(...appended.records);
+      return appended.metadata;
+    };
+    const end = (committed: boolean) => {
+      if (!active) {
+        throw new KafkaJSNonRetriableError('Transaction is not active');
+      }
+      active = false;
+      this.broker.endTransaction(records, committed);
+    };
+
+    return {
+      send,
+      sendBatch: async ({ topicMessages = [] }: ProducerBatch) =>
+        (await Promise.all(topicMessages.map(send))).flat(),
+      sendOffsets: async (offset) => {
+        offsets.push(offset);
+      },
+      commit: async () => {
+        end(true);
+        for (const { consumerGroupId, topics } of offsets) {
+          for (const { topic, partitions } of topics) {
+            for (const { partition, offset } of partitions) {
+              this.broker.commit(consumerGroupId, topic, partition, offset);
+            }
+          }
+        }
+      },
+      abort: async () => end(false),
+      isActive: () => active,
+    };
+  }
+
+  on(): () => void {
+    return () => undefined;
+  }
+
+  /** Pins every message to the partition the configured partitioner picks for it */
+  private place(topic: string, messages: Message[]): Message[] {
+    if (!this.partitioner) {
+      return messages;
+    }
+    this.broker.createTopic(topic);
+    const partitions = partitionMetadata(this.broker.partitionCount(topic));
+    return messages.map((message) => ({
+      ...message,
+      partition: this.partitioner({ topic, partitionMetadata: partitions, message }),
+    }));
+  }
+}
@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { buildKafkaClientConfig } from './kafka-client-config';
+import { createOAuthBearerProvider } from './oauth-bearer.provider';
+
+describe('buildKafkaClientConfig', () => {
+  let dir: string;
+
+  const config = (values: Record<string, any>) =>
+    ({
+      get: jest.fn((key: string, defaultValue?: any) => values[key] ?? defaultValue),
+    } as unknown as ConfigService);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kafka-tls-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should connect to every listed broker without TLS or SASL by default', () => {
+    const result = buildKafkaClientConfig(
+      config({
+        'kafka.brokers': ['kafka-1:9092', 'kafka-2:9092', 'kafka-3:9092'],
+        'kafka.clientId': 'svc',
+      }),
+    );
+
+    expect(result).toMatchObject({
+      clientId: 'svc',
+      brokers: ['kafka-1:9092', 'kafka-2:9092', 'kafka-3:9092'],
+    });
+    expect(result.ssl).toBeUndefined();
+    expect(result.sasl).toBeUndefined();
+  });
+
+  it('should use SCRAM credentials over TLS', () => {
+    const result = buildKafkaClientConfig(
+      config({
+        'kafka.ssl': { enabled: true, rejectUnauthorized: true },
+        'kafka.sasl': { mechanism: 'SCRAM-SHA-512', username: 'svc', password: 'secret' },
+      }),
+    );
+
+    expect(result.ssl).toBe(true);
+    expect(result.sasl).toEqual({
+      mechanism: 'scram-sha-512',
+      username: 'svc',
+      password: 'secret',
+    });
+  });
+
+  it('should read the CA, certificate and key from files', () => {
+    writeFileSync(join(dir, 'ca.pem'), 'CA');
+    writeFileSync(join(dir, 'cert.pem'), 'CERT');
+    writeFileSync(join(dir, 'key.pem'), 'KEY');
+
+    const result = buildKafkaClientConfig(
+      config({
+        'kafka.ssl': {
+          enabled: true,
+          caFile: join(dir, 'ca.pem'),
+          certFile: join(dir, 'cert.pem'),
+          keyFile: join(dir, 'key.pem'),
+          keyPassphrase: 'pass',
+          rejectUnauthorized: true,
+        },
+      }),
+    );
+
+    expect(result.ssl).toEqual({
+      rejectUnauthorized: true,
+      ca: ['CA'],
+      cert: 'CERT',
+      key: 'KEY',
+      passphrase: 'pass',
+    });
+  });
+
+  it('should fail on unreadable files and incomplete security settings', () => {
+    expect(() =>
+      buildKafkaClientConfig(
+        config({ 'kafka.ssl': { enabled: true, caFile: join(dir, 'missing.pem') } }),
+      ),
+    ).toThrow(/Cannot read KAFKA_SSL_CA_FILE/);
+    expect(() =>
+      buildKafkaClientConfig(
+        config({ 'kafka.ssl': { enabled: true, certFile: join(dir, 'cert.pem') } }),
+      ),
+    ).toThrow('KAFKA_SSL_CERT_FILE and KAFKA_SSL_KEY_FILE must be set together');
+    expect(() =>
+      buildKafkaClientConfig(config({ 'kafka.sasl': { mechanism: 'plain', username: 'svc' } })),
+    ).toThrow('KAFKA_SASL_USERNAME and KAFKA_SASL_PASSWORD are required for SASL plain');
+    expect(() => buildKafkaClientConfig(config({ 'kafka.sasl': { mechanism: 'gssapi' } }))).toThrow(
+      /Unsupported KAFKA_SASL_MECHANISM "gssapi"/,
+    );
+    expect(() =>
+      buildKafkaClientConfig(config({ 'kafka.sasl': { mechanism: 'oauthbearer', oauth: {} } })),
+    ).toThrow('KAFKA_SASL_OAUTH_TOKEN_URL is required for SASL oauthbearer');
+  });
+
+  it('should prefer a given OAuth bearer token provider', async () => {
+    const oauthBearerProvider = jest.fn().mockResolvedValue({ value: 'token' });
+
+    const result = buildKafkaClientConfig(config({ 'kafka.sasl': { mechanism: 'oauthbearer' } }), {
+      oauthBearerProvider,
+    });
+
+    expect(result.sasl).toEqual({ mechanism: 'oauthbearer', oauthBearerProvider });
+  });
+
+  describe('createOAuthBearerProvider', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    const tokenResponse = (body: Record<string, unknown>, status = 200) =>
+      new Response(JSON.stringify(body), { status });
+
+    beforeEach(() => {
+      fetchSpy = jest.spyOn(global, 'fetch');
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    it('should request a client credentials token and reuse it until it expires', async () => {
+      fetchSpy
+        .mockResolvedValueOnce(tokenResponse({ access_token: 'first', expires_in: 3600 }))
+        .mockResolvedValueOnce(tokenResponse({ access_token: 'second', expires_in: 3600 }));
+      const provider = createOAuthBearerProvider({
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'svc',
+        clientSecret: 'secret',
+        scope: 'kafka',
+      });
+
+      const tokens = await Promise.all([provider(), provider()]);
+
+      expect(tokens).toEqual([{ value: 'first' }, { value: 'first' }]);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toBe('https://auth.example.com/token');
+      expect(init.headers.Authorization).toBe(
+        `Basic ${Buffer.from('svc:secret').toString('base64')}`,
+      );
+      expect(init.body.toString()).toBe('grant_type=client_credentials&scope=kafka');
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 3600 * 1000);
+      try {
+        expect(await provider()).toEqual({ value: 'second' });
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('should report failed token requests', async () => {
+      fetchSpy.mockResolvedValueOnce(new Response('invalid_client', { status: 401 }));
+      const provider = createOAuthBearerProvider({ tokenUrl: 'https://auth.example.com/token' });
+
+      await expect(provider()).rejects.toThrow(
+        'OAuth token request to https://auth.example.com/token failed with 401: invalid_client',
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { readFileSync } from 'fs';
+import { ConnectionOptions } from 'tls';
+import { ConfigService } from '@nestjs/config';
+import { KafkaConfig, SASLOptions } from 'kafkajs';
+import {
+  OAuthBearerOptions,
+  OAuthBearerProvider,
+  createOAuthBearerProvider,
+} from './oauth-bearer.provider';
+
+const SASL_MECHANISMS = ['plain', 'scram-sha-256', 'scram-sha-512', 'oauthbearer'];
+
+export interface KafkaSslSettings {
+  enabled?: boolean;
+  caFile?: string;
+  certFile?: string;
+  keyFile?: string;
+  keyPassphrase?: string;
+  rejectUnauthorized?: boolean;
+}
+
+export interface KafkaSaslSettings {
+  mechanism?: string;
+  username?: string;
+  password?: string;
+  oauth?: Partial<OAuthBearerOptions>;
+}
+
+export interface KafkaClientConfigOptions {
+  // Replaces the client credentials provider built from `kafka.sasl.oauth`
+  oauthBearerProvider?: OAuthBearerProvider;
+}
+
+/**
+ * Connection settings shared by every kafkajs client of the application: the brokers
+ * (`kafka.brokers`), TLS (`kafka.ssl`) and SASL (`kafka.sasl`). Invalid
+ * security settings throw, so a misconfigured client fails at startup instead of on connect.
+ */
+export function buildKafkaClientConfig(
+  configService: ConfigService,
+  options: KafkaClientConfigOptions = {},
+): KafkaConfig {
+  const brokers = configService.get<string[]>('kafka.brokers', ['localhost:9092']);
+  if (brokers.length === 0) {
+    throw new Error('KAFKA_BROKER must list at least one broker');
+  }
+
+  const ssl = buildSsl(configService.get<KafkaSslSettings>('kafka.ssl'));
+  const sasl = buildSasl(configService.get<KafkaSaslSettings>('kafka.sasl'), options);
+
+  return {
+    clientId: configService.get('kafka.clientId', 'core-pipeline'),
+    brokers,
+    ...(ssl !== undefined ? { ssl } : {}),
+    ...(sasl ? { sasl } : {}),
+    retry: {
+      retries: 3,
+      initialRetryTime: 100,
+      maxRetryTime: 1000,
+    },
+  };
+}
+
+function buildSsl(settings?: KafkaSslSettings): ConnectionOptions | boolean | undefined {
+  if (!settings?.enabled) {
+    return undefined;
+  }
+
+  const { caFile, certFile, keyFile, keyPassphrase, rejectUnauthorized = true } = settings;
+  if (!caFile && !certFile && !keyFile && rejectUnauthorized) {
+    return true;
+  }
+  if (!certFile !== !keyFile) {
+    throw new Error('KAFKA_SSL_CERT_FILE and KAFKA_SSL_KEY_FILE must be set together');
+  }
+
+  return {
+    rejectUnauthorized,
+    ...(caFile ? { ca: [readPem('KAFKA_SSL_CA_FILE', caFile)] } : {}),
+    ...(certFile ? { cert: readPem('KAFKA_SSL_CERT_FILE', certFile) } : {}),
+    ...(keyFile ? { key: readPem('KAFKA_SSL_KEY_FILE', keyFile) } : {}),
+    ...(keyPassphrase ? { passphrase: keyPassphrase } : {}),
+  };
+}
+
+function readPem(variable: string, path: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read ${variable} (${path}): ${error.message}`);
+  }
+}
+
+function buildSasl(
+  settings: KafkaSaslSettings | undefined,
+  options: KafkaClientConfigOptions,
+): SASLOptions | undefined {
+  const mechanism = settings?.mechanism?.toLowerCase();
+  if (!mechanism) {
+    return undefined;
+  }
+
+  switch (mechanism) {
+    case 'plain':
+    case 'scram-sha-256':
+    case 'scram-sha-512': {
+      if (!settings.username || !settings.password) {
+        throw new Error(
+          `KAFKA_SASL_USERNAME and KAFKA_SASL_PASSWORD are required for SASL ${mechanism}`,
+        );
+      }
+      return { mechanism, username: settings.username, password: settings.password };
+    }
+    case 'oauthbearer': {
+      if (options.oauthBearerProvider) {
+        return { mechanism, oauthBearerProvider: options.oauthBearerProvider };
+      }
+      if (!settings.oauth?.tokenUrl) {
+        throw new Error('KAFKA_SASL_OAUTH_TOKEN_URL is required for SASL oauthbearer');
+      }
+      return {
+        mechanism,
+        oauthBearerProvider: createOAuthBearerProvider({
+          ...settings.oauth,
+          tokenUrl: settings.oauth.tokenUrl,
+        }),
+      };
+    }
+    default:
+      throw new Error(
+        `Unsupported KAFKA_SASL_MECHANISM "${
+          settings.mechanism
+        }"; expected one of ${SASL_MECHANISMS.join(', ')}`,
+      );
+  }
+}
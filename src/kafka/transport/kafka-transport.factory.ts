@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Kafka } from 'kafkajs';
+import { KafkaTransport } from '../interfaces/kafka-transport.interface';
+import { RedisConnectionFactory } from '../../redis/redis-connection.factory';
+import { DistributedLockService } from '../../locks/distributed-lock.service';
+import { InMemoryKafkaBroker } from './in-memory-kafka-broker';
+import { buildKafkaClientConfig } from './kafka-client-config';
+import { RedisStreamsTransport } from './redis-streams-transport';
+
+/**
+ * `kafka.transport` selects `kafka` (a kafkajs client for the configured brokers), `memory`
+ * (an in-process broker shared by every client of the application) or `redis-streams`
+ * (topics kept in Redis Streams on the `command` connection, with partitions leased through
+ * the lock service). Null when the kafkajs client cannot be created or Redis is not
+ * configured, in which case the services run without Kafka; invalid TLS or SASL settings
+ * throw instead.
+ */
+export function createKafkaTransport(
+  configService: ConfigService,
+  connections?: RedisConnectionFactory,
+  locks?: DistributedLockService,
+): KafkaTransport | null {
+  const transport = configService.get('kafka.transport', 'kafka');
+  if (transport === 'memory') {
+    return new InMemoryKafkaBroker();
+  }
+  if (transport === 'redis-streams') {
+    if (!connections?.urlFor('command')) {
+      new Logger('KafkaTransport').warn('Redis Streams transport selected without Redis');
+      return null;
+    }
+    return new RedisStreamsTransport(connections, configService.get('kafka.streams'), locks);
+  }
+
+  const config = buildKafkaClientConfig(configService);
+  try {
+    return new Kafka(config);
+  } catch (error) {
+    new Logger('KafkaTransport').warn(`Failed to initialize Kafka: ${error.message}`);
+    return null;
+  }
+}
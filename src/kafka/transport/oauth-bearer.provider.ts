@@ -0,0 +1,68 @@
+import { OauthbearerProviderResponse } from 'kafkajs';
+
+export interface OAuthBearerOptions {
+  tokenUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+}
+
+export type OAuthBearerProvider = () => Promise<OauthbearerProviderResponse>;
+
+/**
+ * Token provider for SASL/OAUTHBEARER using the OAuth 2.0 client credentials grant. kafkajs
+ * asks for a token on every (re)authentication, so tokens are reused until `refreshMarginMs`
+ * before they expire and concurrent requests share one fetch.
+ */
+export function createOAuthBearerProvider(
+  options: OAuthBearerOptions,
+  refreshMarginMs = 30000,
+): OAuthBearerProvider {
+  let token: { value: string; expiresAt: number } | null = null;
+  let pending: Promise<{ value: string; expiresAt: number }> | null = null;
+
+  return async () => {
+    if (!token || Date.now() >= token.expiresAt - refreshMarginMs) {
+      pending ??= requestToken(options).finally(() => (pending = null));
+      token = await pending;
+    }
+    return { value: token.value };
+  };
+}
+
+async function requestToken(
+  options: OAuthBearerOptions,
+): Promise<{ value: string; expiresAt: number }> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  if (options.clientId) {
+    const credentials = `${encodeURIComponent(options.clientId)}:${encodeURIComponent(
+      options.clientSecret ?? '',
+    )}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (options.scope) {
+    body.set('scope', options.scope);
+  }
+
+  const response = await fetch(options.tokenUrl, { method: 'POST', headers, body });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(
+      `OAuth token request to ${options.tokenUrl} failed with ${response.status}${
+        detail ? `: ${detail}` : ''
+      }`,
+    );
+  }
+
+  const { access_token, expires_in } = (await response.json()) as {
+    access_token: string;
+    expires_in?: number;
+  };
+  // Tokens without an expiry are not reused
+  return { value: access_token, expiresAt: Date.now() + (expires_in ?? 0) * 1000 };
+}
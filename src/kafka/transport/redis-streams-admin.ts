@@ -0,0 +1,329 @@
+import {
+  AssignerProtocol,
+  ConfigSource,
+  DescribeConfigResponse,
+  GroupDescriptions,
+  GroupOverview,
+  IResourceConfig,
+  ITopicConfig,
+  ITopicMetadata,
+  ITopicPartitionConfig,
+} from 'kafkajs';
+import { entryIdOf, RedisStreamsTransport, toRecord } from './redis-streams-transport';
+import { TransportAdmin } from '../interfaces/kafka-transport.interface';
+
+interface StreamGroupMember {
+  memberId: string;
+  topics: string[];
+  assignment: Record<string, number[]>;
+}
+
+/**
+ * Admin client of the Redis Streams transport. Topics and their configs live in the
+ * transport's registry; groups are the stream consumer groups of their partitions, and the
+ * consumers that read within `claimIdleMs` are their members.
+ */
+export class RedisStreamsAdmin implements TransportAdmin {
+  constructor(private readonly transport: RedisStreamsTransport) {}
+
+  async connect(): Promise<void> {
+    await this.transport.redis();
+  }
+
+  async disconnect(): Promise<void> {
+    // The connection is shared and closed with the application
+  }
+
+  async listTopics(): Promise<string[]> {
+    return this.transport.listTopics();
+  }
+
+  /** False when every topic already existed */
+  async createTopics({ topics }: { topics: ITopicConfig[] }): Promise<boolean> {
+    let created = false;
+    for (const { topic, numPartitions, configEntries = [] } of topics) {
+      const configs = Object.fromEntries(configEntries.map(({ name, value }) => [name, value]));
+      // -1 asks for the broker default, as with kafkajs
+      const partitions = numPartitions > 0 ? numPartitions : undefined;
+      created = (await this.transport.createTopic(topic, partitions, configs)) || created;
+    }
+    return created;
+  }
+
+  async deleteTopics({ topics }: { topics: string[] }): Promise<void> {
+    for (const topic of topics) {
+      await this.transport.deleteTopic(topic);
+    }
+  }
+
+  async createPartitions({
+    topicPartitions,
+  }: {
+    topicPartitions: ITopicPartitionConfig[];
+  }): Promise<boolean> {
+    for (const { topic, count } of topicPartitions) {
+      const state = await this.transport.describeTopic(topic);
+      if (count <= state.numPartitions) {
+        throw this.transport.error(
+          'INVALID_PARTITIONS',
+          37,
+          `Topic ${topic} already has ${state.numPartitions} partitions`,
+        );
+      }
+      await this.transport.updateTopic(topic, { ...state, numPartitions: count });
+    }
+    return true;
+  }
+
+  async fetchTopicMetadata({ topics }: { topics?: string[] } = {}): Promise<{
+    topics: ITopicMetadata[];
+  }> {
+    const names = topics ?? (await this.transport.listTopics());
+    const metadata: ITopicMetadata[] = [];
+    for (const name of names) {
+      const { numPartitions } = await this.transport.describeTopic(name);
+      metadata.push({
+        name,
+        partitions: Array.from({ length: numPartitions }, (_, partitionId) => ({
+          partitionErrorCode: 0,
+          partitionId,
+          leader: 0,
+          replicas: [0],
+          isr: [0],
+          offlineReplicas: [],
+        })),
+      });
+    }
+    return { topics: metadata };
+  }
+
+  /** Only the topic configs set through this client are reported */
+  async describeConfigs({
+    resources,
+  }: {
+    resources: Array<{ type: number; name: string; configNames?: string[] }>;
+  }): Promise<DescribeConfigResponse> {
+    const described: DescribeConfigResponse['resources'] = [];
+    for (const { type, name, configNames } of resources) {
+      const { configs } = await this.transport.describeTopic(name);
+      described.push({
+        errorCode: 0,
+        errorMessage: null,
+        resourceType: type,
+        resourceName: name,
+        configEntries: Object.entries(configs)
+          .filter(([configName]) => !configNames || configNames.includes(configName))
+          .map(([configName, configValue]) => ({
+            configName,
+            configValue,
+            readOnly: false,
+            isDefault: false,
+            configSource: ConfigSource.TOPIC_CONFIG,
+            isSensitive: false,
+            configSynonyms: [],
+          })),
+      });
+    }
+    return { throttleTime: 0, resources: described };
+  }
+
+  async alterConfigs({ resources }: { resources: IResourceConfig[] }): Promise<void> {
+    for (const { name, configEntries } of resources) {
+      const state = await this.transport.describeTopic(name);
+      await this.transport.updateTopic(name, {
+        ...state,
+        configs: Object.fromEntries(configEntries.map(({ name: key, value }) => [key, value])),
+      });
+    }
+  }
+
+  async fetchTopicOffsets(
+    topic: string,
+  ): Promise<Array<{ partition: number; offset: string; high: string; low: string }>> {
+    const { numPartitions } = await this.transport.describeTopic(topic);
+    const offsets = [];
+    for (let partition = 0; partition < numPartitions; partition++) {
+      const high = await this.transport.highWatermark(topic, partition);
+      const low = await this.transport.lowWatermark(topic, partition);
+      offsets.push({ partition, offset: high, high, low });
+    }
+    return offsets;
+  }
+
+  /** The first offset of each partition written at or after `timestamp` */
+  async fetchTopicOffsetsByTimestamp(
+    topic: string,
+    timestamp?: number,
+  ): Promise<Array<{ partition: number; offset: string }>> {
+    const { numPartitions } = await this.transport.describeTopic(topic);
+    const target = timestamp ?? Date.now();
+    const offsets = [];
+    for (let partition = 0; partition < numPartitions; partition++) {
+      // Binary search, as entries are added in time order
+      let low = Number(await this.transport.lowWatermark(topic, partition));
+      let high = Number(await this.transport.highWatermark(topic, partition));
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const written = await this.timestampAt(topic, partition, middle);
+        if (written === null || written < target) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+      offsets.push({ partition, offset: String(low) });
+    }
+    return offsets;
+  }
+
+  /** Committed offsets, -1 for partitions without one */
+  async fetchOffsets({ groupId, topics }: { groupId: string; topics?: string[] }): Promise<
+    Array<{
+      topic: string;
+      partitions: Array<{ partition: number; offset: string; metadata: string | null }>;
+    }>
+  > {
+    const names = topics ?? (await this.groupTopics(groupId));
+    const offsets = [];
+    for (const topic of names) {
+      const state = await this.transport.getTopic(topic);
+      if (!state) {
+        continue;
+      }
+      const partitions = [];
+      for (let partition = 0; partition < state.numPartitions; partition++) {
+        const offset = await this.transport.committedOffset(topic, partition, groupId);
+        partitions.push({ partition, offset, metadata: null });
+      }
+      offsets.push({ topic, partitions });
+    }
+    return offsets;
+  }
+
+  async describeGroups(groupIds: string[]): Promise<GroupDescriptions> {
+    const groups: GroupDescriptions['groups'] = [];
+    for (const groupId of groupIds) {
+      const members = await this.members(groupId);
+      groups.push({
+        groupId,
+        state: members.length > 0 ? 'Stable' : 'Empty',
+        protocolType: 'consumer',
+        protocol: members.length > 0 ? 'RedisStreams' : '',
+        members: members.map((member) => ({
+          memberId: member.memberId,
+          clientId: 'redis-streams',
+          clientHost: '/127.0.0.1',
+          memberMetadata: AssignerProtocol.MemberMetadata.encode({
+            version: 0,
+            topics: member.topics,
+            userData: Buffer.alloc(0),
+          }),
+          memberAssignment: AssignerProtocol.MemberAssignment.encode({
+            version: 0,
+            assignment: member.assignment,
+            userData: Buffer.alloc(0),
+          }),
+        })),
+      });
+    }
+    return { groups };
+  }
+
+  async listGroups(): Promise<{ groups: GroupOverview[] }> {
+    const groupIds = new Set<string>();
+    for (const { topic, partition } of await this.partitions()) {
+      for (const { name } of await this.transport.groupsOf(topic, partition)) {
+        groupIds.add(String(name));
+      }
+    }
+    return {
+      groups: Array.from(groupIds).map((groupId) => ({ groupId, protocolType: 'consumer' })),
+    };
+  }
+
+  async deleteGroups(groupIds: string[]): Promise<Array<{ groupId: string; errorCode: number }>> {
+    const redis = await this.transport.redis();
+    for (const { topic, partition } of await this.partitions()) {
+      for (const groupId of groupIds) {
+        // Partitions never written to have no stream to destroy the group on
+        await redis
+          .call('XGROUP', 'DESTROY', this.transport.streamKey(topic, partition), groupId)
+          .catch((error) => {
+            if (!/requires the key to exist/i.test(error.message)) {
+              throw error;
+            }
+          });
+      }
+    }
+    return groupIds.map((groupId) => ({ groupId, errorCode: 0 }));
+  }
+
+  /** Consumers of the group that read within `claimIdleMs`, with the partitions they read */
+  private async members(groupId: string): Promise<StreamGroupMember[]> {
+    const redis = await this.transport.redis();
+    const members = new Map<string, StreamGroupMember>();
+
+    for (const { topic, partition } of await this.partitions()) {
+      const groups = await this.transport.groupsOf(topic, partition);
+      if (!groups.some(({ name }) => String(name) === groupId)) {
+        continue;
+      }
+      const consumers = (await redis.call(
+        'XINFO',
+        'CONSUMERS',
+        this.transport.streamKey(topic, partition),
+        groupId,
+      )) as unknown[][];
+      for (const consumer of consumers.map(toRecord)) {
+        if (Number(consumer.idle) >= this.transport.options.claimIdleMs) {
+          continue;
+        }
+        const memberId = String(consumer.name);
+        const member = members.get(memberId) ?? { memberId, topics: [], assignment: {} };
+        if (!member.topics.includes(topic)) {
+          member.topics.push(topic);
+          member.assignment[topic] = [];
+        }
+        member.assignment[topic].push(partition);
+        members.set(memberId, member);
+      }
+    }
+    return Array.from(members.values());
+  }
+
+  private async groupTopics(groupId: string): Promise<string[]> {
+    const topics = new Set<string>();
+    for (const { topic, partition } of await this.partitions()) {
+      const groups = await this.transport.groupsOf(topic, partition);
+      if (groups.some(({ name }) => String(name) === groupId)) {
+        topics.add(topic);
+      }
+    }
+    return Array.from(topics);
+  }
+
+  private async partitions(): Promise<Array<{ topic: string; partition: number }>> {
+    const partitions = [];
+    for (const topic of await this.transport.listTopics()) {
+      const state = await this.transport.getTopic(topic);
+      for (let partition = 0; partition < (state?.numPartitions ?? 0); partition++) {
+        partitions.push({ topic, partition });
+      }
+    }
+    return partitions;
+  }
+
+  private async timestampAt(topic: string, partition: number, offset: number) {
+    const id = entryIdOf(offset);
+    const [entry] = (await (
+      await this.transport.redis()
+    ).call('XRANGE', this.transport.streamKey(topic, partition), id, id)) as Array<
+      [string, string[]]
+    >;
+    if (!entry) {
+      return null;
+    }
+    const fields = entry[1];
+    return Number(fields[fields.indexOf('timestamp') + 1]);
+  }
+}
@@ -0,0 +1,642 @@
+import { Logger } from '@nestjs/common';
+import {
+  ConsumerConfig,
+  ConsumerRunConfig,
+  ConsumerSubscribeTopic,
+  ConsumerSubscribeTopics,
+  EachBatchPayload,
+  KafkaJSNonRetriableError,
+  KafkaMessage,
+  TopicPartitionOffset,
+  TopicPartitions,
+} from 'kafkajs';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { RedisConnection } from '../../redis/redis-connection.factory';
+import { Lock } from '../../locks/distributed-lock.service';
+import { CONSUMER_EVENTS } from './in-memory-kafka-consumer';
+import { decodeEntry, RedisStreamsTransport, StreamEntry } from './redis-streams-transport';
+import { TransportConsumer } from '../interfaces/kafka-transport.interface';
+
+/** Entries read per partition and call */
+const MAX_BATCH_SIZE = 100;
+
+interface ReadBatch {
+  topic: string;
+  partition: number;
+  messages: KafkaMessage[];
+  /** Read from this consumer's pending entries rather than new ones */
+  redelivered: boolean;
+  generation: number;
+}
+
+/**
+ * Consumer of the Redis Streams transport, one consumer of its group's stream consumer
+ * groups. It reads new entries of its assigned partitions with XREADGROUP on a connection
+ * of its own, acknowledges the ones each batch resolves, and reads its pending entries
+ * again, from the first unresolved one, after a handler threw or left messages unresolved.
+ *
+ * Every `claimIdleMs / 2` it rebalances: it records itself as a live member of the group,
+ * gives up the partition leases beyond its fair share and leases free partitions up to it.
+ * Entries left pending on a partition it gained are taken over with XAUTOCLAIM before any
+ * new ones are read, and so are entries other consumers left pending for `claimIdleMs`,
+ * unless it does not commit on its own.
+ */
+export class RedisStreamsConsumer implements TransportConsumer {
+  readonly memberId = `${hostname()}-${randomUUID()}`;
+  readonly clientId = 'redis-streams';
+  readonly events = CONSUMER_EVENTS;
+  private readonly logger = new Logger(RedisStreamsConsumer.name);
+  private readonly groupId: string;
+  private readonly retryDelayMs: number;
+  // Topics with their fromBeginning option
+  private readonly subscriptions: Map<string, boolean> = new Map();
+  private assignment: Record<string, number[]> = {};
+  // Partition leases, by `topic:partition`
+  private readonly leases: Map<string, Lock> = new Map();
+  // Leased partitions whose pending entries are still to be claimed
+  private readonly gained: Set<string> = new Set();
+  // The assignment last announced with GROUP_JOIN, as sorted `topic:partition` keys
+  private joinedWith: string | null = null;
+  // Partitions read from pending entries, as `topic:partition` with the entry id to read after
+  private readonly redeliveries: Map<string, string> = new Map();
+  // Bumped when a partition is sought, so batches read before become stale
+  private readonly generations: Map<string, number> = new Map();
+  // Paused topics, and paused partitions as `topic:partition`
+  private readonly pausedKeys: Set<string> = new Set();
+  private readonly retryAt: Map<string, number> = new Map();
+  private readonly listeners: Map<string, Set<(event: any) => void>> = new Map();
+  private connection: RedisConnection | null = null;
+  private seeks: Promise<void> = Promise.resolve();
+  private lastClaimAt = 0;
+  private autoCommit = true;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(private readonly transport: RedisStreamsTransport, config: ConsumerConfig) {
+    this.groupId = config.groupId;
+    this.retryDelayMs = config.retry?.initialRetryTime ?? 100;
+  }
+
+  async connect(): Promise<void> {
+    await this.transport.redis();
+    this.emit(CONSUMER_EVENTS.CONNECT, {});
+  }
+
+  async disconnect(): Promise<void> {
+    await this.stop();
+    this.emit(CONSUMER_EVENTS.DISCONNECT, {});
+  }
+
+  /**
+   * Finishes the batches in progress, acknowledging their entries, and leaves the group.
+   * A read in progress is not interrupted, so this takes up to `blockMs`.
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    await this.connection.quit().catch(() => undefined);
+    this.connection = null;
+    await this.leave();
+    this.emit(CONSUMER_EVENTS.STOP, {});
+  }
+
+  async subscribe(subscription: ConsumerSubscribeTopic | ConsumerSubscribeTopics): Promise<void> {
+    if (this.running) {
+      throw new KafkaJSNonRetriableError('Cannot subscribe to topic while consumer is running');
+    }
+
+    const topics = 'topics' in subscription ? subscription.topics : [subscription.topic];
+    for (const topic of topics) {
+      if (typeof topic !== 'string') {
+        throw new KafkaJSNonRetriableError(
+          'The Redis Streams transport does not support topic patterns',
+        );
+      }
+      await this.transport.partitionCount(topic);
+      this.subscriptions.set(topic, !!subscription.fromBeginning);
+    }
+  }
+
+  async run(config: ConsumerRunConfig = {}): Promise<void> {
+    if (this.running) {
+      throw new KafkaJSNonRetriableError('Consumer is already running');
+    }
+
+    this.connection = await this.transport.blockingConnection();
+    this.running = true;
+    this.autoCommit = config.autoCommit !== false;
+    await this.join();
+    this.lastClaimAt = Date.now();
+    this.loop = this.consume(config);
+  }
+
+  subscribedTopics(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  currentAssignment(): Record<string, number[]> {
+    return this.assignment;
+  }
+
+  /** Moves the group, not only this consumer, to `offset` of the partition */
+  seek({ topic, partition, offset }: TopicPartitionOffset): void {
+    const key = this.keyOf(topic, partition);
+    this.bumpGeneration(key);
+    this.retryAt.delete(key);
+    this.redeliveries.delete(key);
+
+    const stream = this.transport.streamKey(topic, partition);
+    this.seeks = this.seeks
+      .then(async () => {
+        // The group's last delivered entry becomes the one before `offset`
+        await (
+          await this.transport.redis()
+        ).call('XGROUP', 'SETID', stream, this.groupId, `0-${offset}`);
+      })
+      .catch((error) => this.logger.warn(`Failed to seek ${stream}: ${error.message}`));
+  }
+
+  pause(topics: TopicPartitions[] | Array<{ topic: string }>): void {
+    for (const { topic, partitions } of topics as TopicPartitions[]) {
+      if (partitions) {
+        partitions.forEach((partition) => this.pausedKeys.add(this.keyOf(topic, partition)));
+      } else {
+        this.pausedKeys.add(topic);
+      }
+    }
+  }
+
+  resume(topics: TopicPartitions[] | Array<{ topic: string }>): void {
+    for (const { topic, partitions } of topics as TopicPartitions[]) {
+      if (partitions) {
+        partitions.forEach((partition) => this.pausedKeys.delete(this.keyOf(topic, partition)));
+      } else {
+        Array.from(this.pausedKeys)
+          .filter((key) => key === topic || key.startsWith(`${topic}:`))
+          .forEach((key) => this.pausedKeys.delete(key));
+      }
+    }
+  }
+
+  paused(): TopicPartitions[] {
+    return Object.entries(this.assignment)
+      .map(([topic, partitions]) => ({
+        topic,
+        partitions: partitions.filter((partition) => this.isPaused(topic, partition)),
+      }))
+      .filter(({ partitions }) => partitions.length > 0);
+  }
+
+  /** Acknowledges the group's entries below each offset */
+  async commitOffsets(offsets: TopicPartitionOffset[]): Promise<void> {
+    for (const { topic, partition, offset } of offsets) {
+      await this.transport.acknowledgeBelow(topic, partition, this.groupId, offset);
+    }
+  }
+
+  on(eventName: string, listener: (event: any) => void): () => void {
+    if (!this.listeners.has(eventName)) {
+      this.listeners.set(eventName, new Set());
+    }
+    this.listeners.get(eventName).add(listener);
+    return () => this.listeners.get(eventName).delete(listener);
+  }
+
+  /**
+   * Creates the group on every partition of the subscribed topics and assigns this consumer
+   * the partitions it holds leases on, or all of them without a lock service
+   */
+  private async join(): Promise<void> {
+    const partitions: Array<{ topic: string; partition: number }> = [];
+    for (const [topic, fromBeginning] of this.subscriptions) {
+      const count = await this.transport.partitionCount(topic);
+      for (let partition = 0; partition < count; partition++) {
+        await this.transport.createGroup(topic, partition, this.groupId, fromBeginning ? '0' : '$');
+        partitions.push({ topic, partition });
+      }
+    }
+
+    const assigned = this.transport.locks ? await this.lease(partitions) : partitions;
+    const assignment: Record<string, number[]> = {};
+    for (const { topic, partition } of assigned) {
+      assignment[topic] = [...(assignment[topic] ?? []), partition];
+    }
+    this.assignment = assignment;
+
+    const joinedWith = assigned
+      .map(({ topic, partition }) => this.keyOf(topic, partition))
+      .sort()
+      .join(',');
+    if (joinedWith !== this.joinedWith) {
+      this.joinedWith = joinedWith;
+      this.emit(CONSUMER_EVENTS.GROUP_JOIN, {
+        groupId: this.groupId,
+        memberId: this.memberId,
+        memberAssignment: assignment,
+      });
+    }
+  }
+
+  /**
+   * Keeps this consumer's share of the partitions leased: as many as the partitions divided
+   * by the group's live members, rounded up. Leases beyond it are released for the members
+   * still short of theirs, which take them over on their next rebalance.
+   */
+  private async lease(
+    partitions: Array<{ topic: string; partition: number }>,
+  ): Promise<Array<{ topic: string; partition: number }>> {
+    const share = Math.ceil(partitions.length / (await this.heartbeat()));
+
+    for (const [key, lock] of this.leases) {
+      if (!lock.isHeld) {
+        this.logger.warn(`Lost the lease on ${key} of group ${this.groupId}`);
+        this.drop(key);
+      }
+    }
+    for (const [key, lock] of Array.from(this.leases).slice(share)) {
+      await lock.release();
+      this.drop(key);
+    }
+
+    for (const { topic, partition } of partitions) {
+      const key = this.keyOf(topic, partition);
+      if (this.leases.size >= share) {
+        break;
+      }
+      if (this.leases.has(key)) {
+        continue;
+      }
+      const lock = await this.transport.locks.acquire(
+        `streams:${this.transport.prefix}:${this.groupId}:${key}`,
+        { ttl: this.transport.options.claimIdleMs },
+      );
+      if (lock) {
+        // Batches still in progress for the partition stop at their next message
+        lock.once('lost', () => this.bumpGeneration(key));
+        this.leases.set(key, lock);
+        if (this.autoCommit) {
+          this.gained.add(key);
+        }
+      }
+    }
+    return partitions.filter(({ topic, partition }) =>
+      this.leases.has(this.keyOf(topic, partition)),
+    );
+  }
+
+  /** Records this consumer as a live member; resolves to the number of live members */
+  private async heartbeat(): Promise<number> {
+    const redis = await this.transport.redis();
+    const key = this.transport.membersKey(this.groupId);
+    const now = Date.now();
+    await redis.call('ZADD', key, now, this.memberId);
+    await redis.call('ZREMRANGEBYSCORE', key, '-inf', now - this.transport.options.claimIdleMs);
+    return Math.max(Number(await redis.call('ZCARD', key)), 1);
+  }
+
+  private drop(key: string): void {
+    this.leases.delete(key);
+    this.gained.delete(key);
+    this.bumpGeneration(key);
+    this.retryAt.delete(key);
+    this.redeliveries.delete(key);
+  }
+
+  private async consume(config: ConsumerRunConfig): Promise<void> {
+    const concurrency = Math.max(config.partitionsConsumedConcurrently ?? 1, 1);
+
+    while (this.running) {
+      let batches: ReadBatch[];
+      try {
+        await this.seeks;
+        const rebalance = Date.now() - this.lastClaimAt >= this.transport.options.claimIdleMs / 2;
+        if (rebalance) {
+          this.lastClaimAt = Date.now();
+          await this.join();
+        }
+        batches =
+          this.autoCommit && (rebalance || this.gained.size > 0)
+            ? await this.claim()
+            : await this.read();
+      } catch (error) {
+        this.logger.warn(`Failed to read from Redis, retrying: ${error.message}`);
+        await this.sleep(this.transport.options.blockMs);
+        continue;
+      }
+
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, batches.length) }, async () => {
+          for (let batch = batches.shift(); batch && this.running; batch = batches.shift()) {
+            await this.process(batch, config);
+          }
+        }),
+      );
+    }
+  }
+
+  /**
+   * New entries of the readable partitions, waiting up to `blockMs` for some, and pending
+   * entries of those being redelivered
+   */
+  private async read(): Promise<ReadBatch[]> {
+    const now = Date.now();
+    const readable = Object.entries(this.assignment).flatMap(([topic, partitions]) =>
+      partitions
+        .filter((partition) => {
+          const key = this.keyOf(topic, partition);
+          return (
+            this.owns(key) &&
+            !this.isPaused(topic, partition) &&
+            (this.retryAt.get(key) ?? 0) <= now
+          );
+        })
+        .map((partition) => ({ topic, partition, key: this.keyOf(topic, partition) })),
+    );
+    if (readable.length === 0) {
+      await this.sleep(Math.min(this.transport.options.blockMs, this.nextRetryIn() ?? Infinity));
+      return [];
+    }
+
+    const ids = readable.map(({ key }) => this.redeliveries.get(key) ?? '>');
+    const block = ids.every((id) => id === '>') ? ['BLOCK', this.transport.options.blockMs] : [];
+    const generations = readable.map(({ key }) => this.generations.get(key) ?? 0);
+    const reply = (await this.connection.callBuffer(
+      'XREADGROUP',
+      'GROUP',
+      this.groupId,
+      this.memberId,
+      'COUNT',
+      MAX_BATCH_SIZE,
+      ...block,
+      'STREAMS',
+      ...readable.map(({ topic, partition }) => this.transport.streamKey(topic, partition)),
+      ...ids,
+    )) as Array<[Buffer, StreamEntry[]]> | null;
+
+    const batches: ReadBatch[] = [];
+    for (const [stream, entries] of reply ?? []) {
+      const index = readable.findIndex(
+        ({ topic, partition }) => this.transport.streamKey(topic, partition) === stream.toString(),
+      );
+      const { topic, partition, key } = readable[index];
+      const redelivered = ids[index] !== '>';
+      if (redelivered && entries.length === 0) {
+        this.redeliveries.delete(key);
+        continue;
+      }
+      const messages = await this.decode(topic, partition, entries);
+      if (messages.length > 0) {
+        batches.push({ topic, partition, messages, redelivered, generation: generations[index] });
+      }
+    }
+    return batches;
+  }
+
+  /**
+   * Takes over entries left pending by other consumers for `claimIdleMs`, and all those
+   * pending on partitions just gained, whose previous owner gave up or lost its lease
+   */
+  private async claim(): Promise<ReadBatch[]> {
+    const now = Date.now();
+    const batches: ReadBatch[] = [];
+
+    for (const [topic, partitions] of Object.entries(this.assignment)) {
+      for (const partition of partitions) {
+        const key = this.keyOf(topic, partition);
+        // Entries claimed while paused stay pending until the partition is resumed
+        const gained = this.gained.delete(key);
+        if (
+          !this.owns(key) ||
+          (!gained && (this.isPaused(topic, partition) || (this.retryAt.get(key) ?? 0) > now))
+        ) {
+          continue;
+        }
+
+        const generation = this.generations.get(key) ?? 0;
+        const [, entries] = (await this.connection.callBuffer(
+          'XAUTOCLAIM',
+          this.transport.streamKey(topic, partition),
+          this.groupId,
+          this.memberId,
+          gained ? 0 : this.transport.options.claimIdleMs,
+          '0-0',
+          'COUNT',
+          MAX_BATCH_SIZE,
+        )) as [Buffer, StreamEntry[]];
+        const messages = await this.decode(topic, partition, entries);
+        if (messages.length > 0) {
+          this.logger.log(`Claimed ${messages.length} pending entries of ${topic}[${partition}]`);
+          batches.push({ topic, partition, messages, redelivered: true, generation });
+        }
+      }
+    }
+    return batches;
+  }
+
+  // Entries trimmed away while pending come without fields; they are acknowledged and skipped
+  private async decode(
+    topic: string,
+    partition: number,
+    entries: StreamEntry[],
+  ): Promise<KafkaMessage[]> {
+    const trimmed = entries.filter((entry) => !entry?.[1]).map((entry) => entry?.[0]);
+    if (trimmed.some(Boolean)) {
+      await this.acknowledge(topic, partition, trimmed.filter(Boolean).map(String));
+    }
+    return entries
+      .filter((entry) => entry?.[1])
+      .map(([id, fields]) => decodeEntry(id.toString(), fields));
+  }
+
+  private async process(
+    { topic, partition, messages, redelivered, generation }: ReadBatch,
+    config: ConsumerRunConfig,
+  ): Promise<void> {
+    const key = this.keyOf(topic, partition);
+    const isStale = () => (this.generations.get(key) ?? 0) !== generation;
+    const highWatermark = await this.transport.highWatermark(topic, partition);
+    const firstOffset = messages[0].offset;
+    const lastOffset = messages[messages.length - 1].offset;
+    const offsetLag = String(Number(highWatermark) - Number(lastOffset) - 1);
+    let resolved = Number(firstOffset);
+    let acknowledged = 0;
+    let completed = false;
+
+    const resolveOffset = (resolvedOffset: string) => {
+      resolved = Math.max(resolved, Number(resolvedOffset) + 1);
+    };
+    const commit = async () => {
+      const count = messages.filter(({ offset }) => Number(offset) < resolved).length;
+      if (this.autoCommit && count > acknowledged) {
+        const ids = messages
+          .slice(acknowledged, count)
+          .map(({ offset }) => `0-${Number(offset) + 1}`);
+        await this.acknowledge(topic, partition, ids);
+        acknowledged = count;
+      }
+    };
+    const heartbeat = async () => undefined;
+    const pause = () => {
+      this.pause([{ topic, partitions: [partition] }]);
+      return () => this.resume([{ topic, partitions: [partition] }]);
+    };
+    const batchEvent = {
+      topic,
+      partition,
+      highWatermark,
+      offsetLag,
+      offsetLagLow: offsetLag,
+      batchSize: messages.length,
+      firstOffset,
+      lastOffset,
+    };
+
+    try {
+      if (this.isPaused(topic, partition)) {
+        // Paused after the read; read again from the pending entries once resumed
+      } else if (config.eachBatch) {
+        this.emit(CONSUMER_EVENTS.START_BATCH_PROCESS, batchEvent);
+        await config.eachBatch({
+          batch: {
+            topic,
+            partition,
+            highWatermark,
+            messages,
+            isEmpty: () => messages.length === 0,
+            firstOffset: () => firstOffset,
+            lastOffset: () => lastOffset,
+            offsetLag: () => offsetLag,
+            offsetLagLow: () => offsetLag,
+          },
+          resolveOffset,
+          heartbeat,
+          pause,
+          commitOffsetsIfNecessary: commit,
+          uncommittedOffsets: () => ({
+            topics: [{ topic, partitions: [{ partition, offset: String(resolved) }] }],
+          }),
+          isRunning: () => this.running,
+          isStale,
+        } as unknown as EachBatchPayload);
+        if (config.eachBatchAutoResolve === false) {
+          completed = true;
+          return;
+        }
+        resolveOffset(lastOffset);
+        completed = true;
+      } else {
+        this.emit(CONSUMER_EVENTS.START_BATCH_PROCESS, batchEvent);
+        for (const message of messages) {
+          if (!this.running || isStale() || this.isPaused(topic, partition)) {
+            return;
+          }
+          await config.eachMessage?.({ topic, partition, message, heartbeat, pause });
+          resolveOffset(message.offset);
+        }
+        completed = true;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Error processing ${topic}[${partition}] at offset ${resolved}, ` +
+          `reading it again in ${this.retryDelayMs}ms: ${error.message}`,
+      );
+      this.retryAt.set(key, Date.now() + this.retryDelayMs);
+    } finally {
+      if (!isStale()) {
+        await commit().catch((error) =>
+          this.logger.warn(`Failed to acknowledge ${topic}[${partition}]: ${error.message}`),
+        );
+        // Unresolved entries stay pending and are read again from the first of them
+        if (redelivered || resolved <= Number(lastOffset)) {
+          this.redeliveries.set(key, `0-${resolved}`);
+        }
+      }
+      if (completed) {
+        this.emit(CONSUMER_EVENTS.END_BATCH_PROCESS, batchEvent);
+      }
+    }
+  }
+
+  private async acknowledge(topic: string, partition: number, ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await (
+        await this.transport.redis()
+      ).call('XACK', this.transport.streamKey(topic, partition), this.groupId, ...ids);
+    }
+  }
+
+  /**
+   * Gives up the partition leases. Consumers with pending entries stay in the stream
+   * groups, so others can claim the entries
+   */
+  private async leave(): Promise<void> {
+    this.joinedWith = null;
+    this.gained.clear();
+    await Promise.all(Array.from(this.leases.values()).map((lock) => lock.release()));
+    this.leases.clear();
+
+    try {
+      const redis = await this.transport.redis();
+      await redis.call('ZREM', this.transport.membersKey(this.groupId), this.memberId);
+      for (const [topic, partitions] of Object.entries(this.assignment)) {
+        for (const partition of partitions) {
+          const stream = this.transport.streamKey(topic, partition);
+          const pending = (await redis.call(
+            'XPENDING',
+            stream,
+            this.groupId,
+            '-',
+            '+',
+            1,
+            this.memberId,
+          )) as unknown[];
+          if (pending.length === 0) {
+            await redis.call('XGROUP', 'DELCONSUMER', stream, this.groupId, this.memberId);
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to leave consumer group ${this.groupId}: ${error.message}`);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private nextRetryIn(): number | undefined {
+    const now = Date.now();
+    const delays = Array.from(this.retryAt.values())
+      .map((at) => at - now)
+      .filter((delay) => delay > 0);
+    return delays.length > 0 ? Math.min(...delays) : undefined;
+  }
+
+  // Until the next rebalance, partitions whose lease was lost stay assigned but are not read
+  private owns(key: string): boolean {
+    return !this.transport.locks || !!this.leases.get(key)?.isHeld;
+  }
+
+  private isPaused(topic: string, partition: number): boolean {
+    return this.pausedKeys.has(topic) || this.pausedKeys.has(this.keyOf(topic, partition));
+  }
+
+  private bumpGeneration(key: string): void {
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+  }
+
+  private keyOf(topic: string, partition: number): string {
+    return `${topic}:${partition}`;
+  }
+
+  private emit(type: string, payload: Record<string, unknown>): void {
+    const event = { id: randomUUID(), type, timestamp: Date.now(), payload };
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  ICustomPartitioner,
+  KafkaJSNonRetriableError,
+  Message,
+  ProducerBatch,
+  ProducerConfig,
+  ProducerRecord,
+  RecordMetadata,
+  Transaction,
+} from 'kafkajs';
+import { encodeEntry, offsetOf, RedisStreamsTransport } from './redis-streams-transport';
+import { partitionMetadata } from './in-memory-kafka-producer';
+import { TransportProducer } from '../interfaces/kafka-transport.interface';
+
+/**
+ * Producer of the Redis Streams transport. Each message is one XADD to its partition's
+ * stream, which is trimmed to about `maxLength` entries on the way. A `createPartitioner`
+ * in the config places messages as with kafkajs.
+ */
+export class RedisStreamsProducer implements TransportProducer {
+  private nextPartition = 0;
+  private readonly partitioner: ReturnType<ICustomPartitioner> | undefined;
+
+  constructor(
+    private readonly transport: RedisStreamsTransport,
+    private readonly config: ProducerConfig,
+  ) {
+    this.partitioner = config.createPartitioner?.();
+  }
+
+  async connect(): Promise<void> {
+    await this.transport.redis();
+  }
+
+  async disconnect(): Promise<void> {
+    // The connection is shared and closed with the application
+  }
+
+  isIdempotent(): boolean {
+    return false;
+  }
+
+  async send({ topic, messages }: ProducerRecord): Promise<RecordMetadata[]> {
+    const redis = await this.transport.redis();
+    const count = await this.transport.partitionCount(topic);
+    const partitions = messages.map((message) => this.partitionFor(topic, message, count));
+
+    // Sent together, so they are added in order without waiting for each reply
+    const ids = (await Promise.all(
+      messages.map((message, i) =>
+        redis.call(
+          'XADD',
+          this.transport.streamKey(topic, partitions[i]),
+          'MAXLEN',
+          '~',
+          this.transport.options.maxLength,
+          '0-*',
+          ...encodeEntry(message),
+        ),
+      ),
+    )) as string[];
+
+    const baseOffsets = new Map<number, string>();
+    partitions.forEach((partition, i) => {
+      if (!baseOffsets.has(partition)) {
+        baseOffsets.set(partition, offsetOf(ids[i]));
+      }
+    });
+    return Array.from(baseOffsets.entries()).map(([partition, baseOffset]) => ({
+      topicName: topic,
+      partition,
+      errorCode: 0,
+      baseOffset,
+      logAppendTime: '-1',
+      logStartOffset: '0',
+    }));
+  }
+
+  async sendBatch({ topicMessages = [] }: ProducerBatch): Promise<RecordMetadata[]> {
+    const metadata: RecordMetadata[] = [];
+    for (const record of topicMessages) {
+      metadata.push(...(await this.send(record)));
+    }
+    return metadata;
+  }
+
+  async transaction(): Promise<Transaction> {
+    throw new KafkaJSNonRetriableError(
+      `The Redis Streams transport does not support transactions (${this.config.transactionalId})`,
+    );
+  }
+
+  on(): () => void {
+    return () => undefined;
+  }
+
+  // Without a partitioner, the same placement as the in-memory broker's
+  private partitionFor(topic: string, message: Message, count: number): number {
+    const partition = this.partitioner
+      ? this.partitioner({ topic, partitionMetadata: partitionMetadata(count), message })
+      : message.partition;
+    if (partition !== undefined) {
+      if (partition < 0 || partition >= count) {
+        throw this.transport.error(
+          'UNKNOWN_TOPIC_OR_PARTITION',
+          3,
+          `Unknown partition ${partition}`,
+        );
+      }
+      return partition;
+    }
+    if (message.key === null || message.key === undefined) {
+      return this.nextPartition++ % count;
+    }
+
+    const key = Buffer.isBuffer(message.key) ? message.key : Buffer.from(message.key);
+    const hash = key.reduce((h, byte) => (h * 31 + byte) | 0, 0);
+    return Math.abs(hash) % count;
+  }
+}
@@ -0,0 +1,327 @@
+import { AssignerProtocol, EachMessagePayload } from 'kafkajs';
+import { TransportConsumer } from '../interfaces/kafka-transport.interface';
+import { RedisStreamsTransport } from './redis-streams-transport';
+import { RedisStreamsConsumer } from './redis-streams-consumer';
+import { RedisConnectionFactory } from '../../redis/redis-connection.factory';
+import { DistributedLockService } from '../../locks/distributed-lock.service';
+import { FakeRedisStreams } from '../../../test/fake-redis-streams';
+
+describe('RedisStreamsTransport', () => {
+  let redis: FakeRedisStreams;
+  let locks: DistributedLockService;
+  let transport: RedisStreamsTransport;
+  let consumers: TransportConsumer[];
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const eventually = async (assertion: () => void | Promise<void>, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      try {
+        await assertion();
+        return;
+      } catch (error) {
+        if (Date.now() > deadline) {
+          throw error;
+        }
+        await sleep(10);
+      }
+    }
+  };
+
+  const createTransport = (options: { maxLength?: number; claimIdleMs?: number } = {}) =>
+    new RedisStreamsTransport(
+      {
+        keyPrefix: (prefix: string) => prefix,
+        connect: async () => redis,
+        createBlockingConnection: () => redis,
+      } as unknown as RedisConnectionFactory,
+      { prefix: 'stream', maxLength: 1000, claimIdleMs: 60000, blockMs: 20, ...options },
+      locks,
+    );
+
+  const send = async (topic: string, ...values: Array<{ n: number; timestamp?: string }>) => {
+    const producer = transport.producer();
+    await producer.connect();
+    return producer.send({
+      topic,
+      messages: values.map(({ n, timestamp }) => ({ value: JSON.stringify({ n }), timestamp })),
+    });
+  };
+
+  /** Runs a consumer collecting what it reads; `fail` makes the handler throw */
+  const consume = async (
+    groupId: string,
+    topic: string,
+    fail: (n: number) => boolean = () => false,
+    autoCommit = true,
+  ) => {
+    const received: Array<{ partition: number; n: number }> = [];
+    const consumer = transport.consumer({ groupId, retry: { initialRetryTime: 10 } });
+    consumers.push(consumer);
+    await consumer.connect();
+    await consumer.subscribe({ topic, fromBeginning: true });
+    await consumer.run({
+      autoCommit,
+      eachMessage: async ({ partition, message }: EachMessagePayload) => {
+        const { n } = JSON.parse(message.value.toString());
+        if (fail(n)) {
+          throw new Error(`cannot handle ${n}`);
+        }
+        received.push({ partition, n });
+      },
+    });
+    return { consumer, received };
+  };
+
+  const assignmentOf = (consumer: TransportConsumer) =>
+    (consumer as RedisStreamsConsumer).currentAssignment();
+
+  const committed = async (groupId: string, topic: string) => {
+    const [{ partitions }] = await transport.admin().fetchOffsets({ groupId, topics: [topic] });
+    return partitions.map(({ offset }) => offset);
+  };
+
+  beforeEach(() => {
+    redis = new FakeRedisStreams();
+    // Locks within this process stand in for Redlock across replicas
+    locks = new DistributedLockService();
+    transport = createTransport();
+    consumers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(consumers.map((consumer) => consumer.disconnect()));
+    await locks.onModuleDestroy();
+  });
+
+  it('should add messages to trimmed streams with offsets counted from 0', async () => {
+    const [metadata] = await send('orders', { n: 1 }, { n: 2 });
+
+    expect(metadata).toMatchObject({ topicName: 'orders', partition: 0, baseOffset: '0' });
+    expect(redis.call).toHaveBeenCalledWith(
+      'XADD',
+      'stream:orders:0',
+      'MAXLEN',
+      '~',
+      1000,
+      '0-*',
+      'timestamp',
+      expect.any(String),
+      'value',
+      Buffer.from(JSON.stringify({ n: 2 })),
+    );
+    await expect(transport.admin().listTopics()).resolves.toEqual(['orders']);
+  });
+
+  it('should deliver messages to each group and acknowledge them', async () => {
+    const { received } = await consume('readers', 'orders');
+    const other = await consume('auditors', 'orders');
+
+    await send('orders', { n: 1 }, { n: 2 });
+
+    await eventually(() => {
+      expect(received.map(({ n }) => n)).toEqual([1, 2]);
+      expect(other.received.map(({ n }) => n)).toEqual([1, 2]);
+    });
+    await eventually(() =>
+      expect(redis.streams.get('stream:orders:0').groups.get('readers').pending.size).toBe(0),
+    );
+    await expect(committed('readers', 'orders')).resolves.toEqual(['2']);
+  });
+
+  it('should keep binary values, keys and headers', async () => {
+    const messages: EachMessagePayload['message'][] = [];
+    const consumer = transport.consumer({ groupId: 'readers' });
+    consumers.push(consumer);
+    await consumer.subscribe({ topic: 'orders', fromBeginning: true });
+    await consumer.run({
+      eachMessage: async ({ message }) => {
+        messages.push(message);
+      },
+    });
+
+    await transport.producer().send({
+      topic: 'orders',
+      messages: [
+        {
+          key: 'call-1',
+          value: Buffer.from([0, 255, 10]),
+          headers: { 'x-trace': 'abc', 'x-list': ['a', 'b'] },
+        },
+        { value: null },
+      ],
+    });
+
+    await eventually(() => expect(messages).toHaveLength(2));
+    expect(messages[0]).toMatchObject({
+      key: Buffer.from('call-1'),
+      value: Buffer.from([0, 255, 10]),
+      headers: { 'x-trace': Buffer.from('abc'), 'x-list': [Buffer.from('a'), Buffer.from('b')] },
+      offset: '0',
+    });
+    expect(messages[1]).toMatchObject({ key: null, value: null, offset: '1' });
+  });
+
+  it('should redeliver from the failed message after a handler error', async () => {
+    let failures = 0;
+    const { received } = await consume('readers', 'orders', (n) => n === 2 && failures++ === 0);
+
+    await send('orders', { n: 1 }, { n: 2 }, { n: 3 });
+
+    await eventually(() => expect(received.map(({ n }) => n)).toEqual([1, 2, 3]));
+    expect(failures).toBe(2);
+    await eventually(async () => expect(await committed('readers', 'orders')).toEqual(['3']));
+  });
+
+  it('should claim entries another consumer left pending', async () => {
+    transport = createTransport({ claimIdleMs: 50 });
+    await send('orders', { n: 1 }, { n: 2 });
+    await transport.createGroup('orders', 0, 'readers', '0');
+    // A consumer that read both entries and then died
+    await redis.call('XREADGROUP', 'GROUP', 'readers', 'gone', 'STREAMS', 'stream:orders:0', '>');
+
+    const { received } = await consume('readers', 'orders');
+
+    await eventually(() => expect(received.map(({ n }) => n)).toEqual([1, 2]));
+    await eventually(async () => expect(await committed('readers', 'orders')).toEqual(['2']));
+  });
+
+  it('should share the partitions of a group between its members', async () => {
+    transport = createTransport({ claimIdleMs: 200 });
+    await transport.admin().createTopics({ topics: [{ topic: 'orders', numPartitions: 2 }] });
+    const first = await consume('readers', 'orders');
+    expect(assignmentOf(first.consumer)).toEqual({ orders: [0, 1] });
+
+    const second = await consume('readers', 'orders');
+    await eventually(() => {
+      expect(assignmentOf(first.consumer)).toEqual({ orders: [0] });
+      expect(assignmentOf(second.consumer)).toEqual({ orders: [1] });
+    });
+
+    const producer = transport.producer();
+    await producer.send({
+      topic: 'orders',
+      messages: [1, 2, 3, 4].map((n) => ({ value: JSON.stringify({ n }), partition: n % 2 })),
+    });
+    await eventually(() => {
+      expect(first.received).toEqual([
+        { partition: 0, n: 2 },
+        { partition: 0, n: 4 },
+      ]);
+      expect(second.received).toEqual([
+        { partition: 1, n: 1 },
+        { partition: 1, n: 3 },
+      ]);
+    });
+
+    // The remaining member takes over the partition of one that left
+    await second.consumer.disconnect();
+    await producer.send({ topic: 'orders', messages: [{ value: '{"n":5}', partition: 1 }] });
+    await eventually(() => expect(first.received).toContainEqual({ partition: 1, n: 5 }));
+    expect(assignmentOf(first.consumer)).toEqual({ orders: [0, 1] });
+  });
+
+  it('should leave entries pending without autoCommit until offsets are committed', async () => {
+    const { consumer, received } = await consume('replay', 'orders', () => false, false);
+
+    await send('orders', { n: 1 }, { n: 2 });
+
+    await eventually(() => expect(received).toHaveLength(2));
+    await expect(committed('replay', 'orders')).resolves.toEqual(['0']);
+
+    await consumer.commitOffsets([{ topic: 'orders', partition: 0, offset: '2' }]);
+    await expect(committed('replay', 'orders')).resolves.toEqual(['2']);
+    expect(received).toHaveLength(2);
+  });
+
+  it('should stop reading paused topics until resumed', async () => {
+    const { consumer, received } = await consume('readers', 'orders');
+    consumer.pause([{ topic: 'orders' }]);
+
+    await send('orders', { n: 1 });
+    await sleep(50);
+    expect(received).toHaveLength(0);
+    expect(consumer.paused()).toEqual([{ topic: 'orders', partitions: [0] }]);
+
+    consumer.resume([{ topic: 'orders' }]);
+    await eventually(() => expect(received).toHaveLength(1));
+  });
+
+  it('should not support transactions', async () => {
+    await expect(transport.producer({ transactionalId: 'tx' }).transaction()).rejects.toThrow(
+      'does not support transactions',
+    );
+  });
+
+  it('should administer topics and groups and report watermarks', async () => {
+    transport = createTransport({ maxLength: 2 });
+    const admin = transport.admin();
+    await admin.createTopics({
+      topics: [
+        {
+          topic: 'orders',
+          numPartitions: 1,
+          configEntries: [{ name: 'retention.ms', value: '1' }],
+        },
+      ],
+    });
+    await admin.createPartitions({ topicPartitions: [{ topic: 'orders', count: 2 }] });
+    await transport.producer().send({
+      topic: 'orders',
+      messages: ['1000', '2000', '3000'].map((timestamp) => ({
+        value: '{}',
+        timestamp,
+        partition: 0,
+      })),
+    });
+
+    const {
+      topics: [metadata],
+    } = await admin.fetchTopicMetadata({ topics: ['orders'] });
+    expect(metadata.partitions).toHaveLength(2);
+    await expect(admin.fetchTopicOffsets('orders')).resolves.toEqual([
+      { partition: 0, offset: '3', high: '3', low: '1' },
+      { partition: 1, offset: '0', high: '0', low: '0' },
+    ]);
+    await expect(admin.fetchTopicOffsetsByTimestamp('orders', 2500)).resolves.toEqual([
+      { partition: 0, offset: '2' },
+      { partition: 1, offset: '0' },
+    ]);
+    const {
+      resources: [configs],
+    } = await admin.describeConfigs({
+      resources: [{ type: 2, name: 'orders' }],
+      includeSynonyms: false,
+    });
+    expect(configs.configEntries).toEqual([
+      expect.objectContaining({ configName: 'retention.ms', configValue: '1' }),
+    ]);
+    await expect(
+      admin.createPartitions({ topicPartitions: [{ topic: 'orders', count: 2 }] }),
+    ).rejects.toMatchObject({ type: 'INVALID_PARTITIONS' });
+
+    const { consumer } = await consume('readers', 'orders');
+    const {
+      groups: [group],
+    } = await admin.describeGroups(['readers']);
+    expect(group.state).toBe('Stable');
+    expect(
+      group.members.map(
+        ({ memberAssignment }) =>
+          AssignerProtocol.MemberAssignment.decode(memberAssignment).assignment,
+      ),
+    ).toEqual([{ orders: [0, 1] }]);
+    await expect(admin.listGroups()).resolves.toEqual({
+      groups: [{ groupId: 'readers', protocolType: 'consumer' }],
+    });
+
+    await consumer.disconnect();
+    await admin.deleteGroups(['readers']);
+    await expect(admin.listGroups()).resolves.toEqual({ groups: [] });
+
+    await admin.deleteTopics({ topics: ['orders'] });
+    expect(await admin.listTopics()).toEqual([]);
+    expect(redis.streams.size).toBe(0);
+  });
+});
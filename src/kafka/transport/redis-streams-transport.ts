@@ -0,0 +1,371 @@
+import {
+  ConsumerConfig,
+  IHeaders,
+  KafkaJSConnectionError,
+  KafkaJSProtocolError,
+  KafkaMessage,
+  Message,
+  ProducerConfig,
+} from 'kafkajs';
+import { RedisConnection, RedisConnectionFactory } from '../../redis/redis-connection.factory';
+import { DistributedLockService } from '../../locks/distributed-lock.service';
+import {
+  KafkaTransport,
+  TransportAdmin,
+  TransportConsumer,
+  TransportProducer,
+} from '../interfaces/kafka-transport.interface';
+import { RedisStreamsAdmin } from './redis-streams-admin';
+import { RedisStreamsConsumer } from './redis-streams-consumer';
+import { RedisStreamsProducer } from './redis-streams-producer';
+
+export interface RedisStreamsOptions {
+  /** Prefix of the stream keys and of the topic registry */
+  prefix: string;
+  /** Streams are trimmed to about this many entries as they grow */
+  maxLength: number;
+  /**
+   * Entries a consumer has not acknowledged for this long are claimed by another one, and
+   * the partitions of a consumer not heard from for this long are leased to others
+   */
+  claimIdleMs: number;
+  /** How long a read waits for new entries */
+  blockMs: number;
+}
+
+/** A topic as recorded in the registry */
+export interface StreamTopic {
+  numPartitions: number;
+  configs: Record<string, string>;
+}
+
+/** An entry as read by XREADGROUP or XAUTOCLAIM; the fields are null once trimmed away */
+export type StreamEntry = [Buffer, Buffer[] | null];
+
+// How long producers trust a topic's partition count before reading it again
+const PARTITION_CACHE_MS = 5000;
+
+/**
+ * Entries are added with the id `0-*`, so Redis numbers them 0-1, 0-2, ... and the entry
+ * `0-n` holds offset n - 1: offsets count from 0 without gaps, like a Kafka partition's.
+ */
+export const entryIdOf = (offset: string | number): string => `0-${BigInt(offset) + BigInt(1)}`;
+
+export const offsetOf = (entryId: string): string =>
+  String(BigInt(entryId.slice(entryId.indexOf('-') + 1)) - BigInt(1));
+
+/** The offset after an entry id, e.g. the next to read after the last delivered entry */
+export const nextOffsetOf = (entryId: string): string =>
+  String(BigInt(entryId.slice(entryId.indexOf('-') + 1)));
+
+/** XINFO replies are flat name/value lists */
+export const toRecord = (reply: unknown[]): Record<string, any> => {
+  const record: Record<string, any> = {};
+  for (let i = 0; i + 1 < reply.length; i += 2) {
+    record[String(reply[i])] = reply[i + 1];
+  }
+  return record;
+};
+
+/**
+ * Topics kept in Redis Streams, selected with `KAFKA_TRANSPORT=redis-streams` for
+ * environments too small for Kafka. Each partition of a topic is the stream
+ * `<prefix>:<topic>:<partition>` and a registry hash records the topics with their
+ * partition count and configs. Consumer groups are stream consumer groups whose members
+ * lease partitions from the lock service, each its fair share, so a partition is read by one
+ * member at a time and messages with the same key are handled in order, as with Kafka.
+ * Without a lock service every member reads every partition, competing for its entries.
+ * The producer, consumer and admin clients follow the kafkajs API closely enough for the
+ * services in this module; transactions are not supported.
+ */
+export class RedisStreamsTransport implements KafkaTransport {
+  readonly prefix: string;
+  private readonly partitionCounts = new Map<string, { count: number; readAt: number }>();
+
+  constructor(
+    private readonly connections: RedisConnectionFactory,
+    readonly options: RedisStreamsOptions,
+    readonly locks?: DistributedLockService,
+  ) {
+    // XREADGROUP reads all partitions of a consumer at once, so on a Cluster they share a slot
+    this.prefix = connections.keyPrefix(options.prefix);
+  }
+
+  producer(config: ProducerConfig = {}): TransportProducer {
+    return new RedisStreamsProducer(this, config);
+  }
+
+  consumer(config: ConsumerConfig): TransportConsumer {
+    return new RedisStreamsConsumer(this, config);
+  }
+
+  admin(): TransportAdmin {
+    return new RedisStreamsAdmin(this);
+  }
+
+  /** The shared command connection, connected */
+  async redis(): Promise<RedisConnection> {
+    const connection = await this.connections.connect('command');
+    if (!connection) {
+      throw new KafkaJSConnectionError('Redis is not configured');
+    }
+    return connection;
+  }
+
+  /** A new connection for a consumer's blocking reads; the consumer quits it */
+  async blockingConnection(): Promise<RedisConnection> {
+    const connection = this.connections.createBlockingConnection();
+    if (!connection) {
+      throw new KafkaJSConnectionError('Redis is not configured');
+    }
+    if (connection.status === 'wait') {
+      await connection.connect();
+    }
+    return connection;
+  }
+
+  streamKey(topic: string, partition: number): string {
+    return `${this.prefix}:${topic}:${partition}`;
+  }
+
+  /** Sorted set of a group's members, scored by when they were last heard from */
+  membersKey(groupId: string): string {
+    return `${this.prefix}:members:${groupId}`;
+  }
+
+  async listTopics(): Promise<string[]> {
+    return (await this.redis()).hkeys(this.registryKey());
+  }
+
+  async getTopic(topic: string): Promise<StreamTopic | null> {
+    const raw = await (await this.redis()).hget(this.registryKey(), topic);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /** Like `getTopic`, but throws for unknown topics */
+  async describeTopic(topic: string): Promise<StreamTopic> {
+    const state = await this.getTopic(topic);
+    if (!state) {
+      throw this.error('UNKNOWN_TOPIC_OR_PARTITION', 3, `Topic ${topic} does not exist`);
+    }
+    return state;
+  }
+
+  /** False when the topic already exists */
+  async createTopic(
+    topic: string,
+    numPartitions = 1,
+    configs: Record<string, string> = {},
+  ): Promise<boolean> {
+    if (!Number.isInteger(numPartitions) || numPartitions < 1) {
+      throw this.error('INVALID_PARTITIONS', 37, `Invalid partition count ${numPartitions}`);
+    }
+    const state: StreamTopic = { numPartitions, configs };
+    const created = await (
+      await this.redis()
+    ).hsetnx(this.registryKey(), topic, JSON.stringify(state));
+    return created === 1;
+  }
+
+  async updateTopic(topic: string, state: StreamTopic): Promise<void> {
+    await (await this.redis()).hset(this.registryKey(), topic, JSON.stringify(state));
+    this.partitionCounts.delete(topic);
+  }
+
+  async deleteTopic(topic: string): Promise<void> {
+    const { numPartitions } = await this.describeTopic(topic);
+    const redis = await this.redis();
+    await redis.hdel(this.registryKey(), topic);
+    for (let partition = 0; partition < numPartitions; partition++) {
+      await redis.del(this.streamKey(topic, partition));
+    }
+    this.partitionCounts.delete(topic);
+  }
+
+  /** Partitions of a topic, which is created as Kafka would auto-create it if needed */
+  async partitionCount(topic: string): Promise<number> {
+    const cached = this.partitionCounts.get(topic);
+    if (cached && Date.now() - cached.readAt < PARTITION_CACHE_MS) {
+      return cached.count;
+    }
+    await this.createTopic(topic);
+    const { numPartitions } = await this.describeTopic(topic);
+    this.partitionCounts.set(topic, { count: numPartitions, readAt: Date.now() });
+    return numPartitions;
+  }
+
+  /** Creates a consumer group on a partition, reading from `start` (`0` or `$`) */
+  async createGroup(topic: string, partition: number, groupId: string, start: string) {
+    try {
+      await (
+        await this.redis()
+      ).call('XGROUP', 'CREATE', this.streamKey(topic, partition), groupId, start, 'MKSTREAM');
+    } catch (error) {
+      if (!String(error.message).startsWith('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  /** The offset the next entry of a partition gets */
+  async highWatermark(topic: string, partition: number): Promise<string> {
+    const info = await this.streamInfo(topic, partition);
+    return info ? nextOffsetOf(String(info['last-generated-id'])) : '0';
+  }
+
+  /** The offset of the oldest entry left after trimming */
+  async lowWatermark(topic: string, partition: number): Promise<string> {
+    const info = await this.streamInfo(topic, partition);
+    if (!info) {
+      return '0';
+    }
+    const [first] = (await (
+      await this.redis()
+    ).call('XRANGE', this.streamKey(topic, partition), '-', '+', 'COUNT', 1)) as Array<
+      [string, string[]]
+    >;
+    return first ? offsetOf(first[0]) : nextOffsetOf(String(info['last-generated-id']));
+  }
+
+  /** XINFO STREAM as a record, or null when the stream does not exist */
+  async streamInfo(topic: string, partition: number): Promise<Record<string, any> | null> {
+    try {
+      return toRecord(
+        (await (
+          await this.redis()
+        ).call('XINFO', 'STREAM', this.streamKey(topic, partition))) as unknown[],
+      );
+    } catch (error) {
+      if (/no such key/i.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** XINFO GROUPS of a partition, each group as a record */
+  async groupsOf(topic: string, partition: number): Promise<Array<Record<string, any>>> {
+    try {
+      const groups = (await (
+        await this.redis()
+      ).call('XINFO', 'GROUPS', this.streamKey(topic, partition))) as unknown[][];
+      return groups.map(toRecord);
+    } catch (error) {
+      if (/no such key/i.test(error.message)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The group's position on a partition as Kafka would commit it: the offset of its oldest
+   * unacknowledged entry, or the one after the last entry delivered. -1 without the group.
+   */
+  async committedOffset(topic: string, partition: number, groupId: string): Promise<string> {
+    const group = (await this.groupsOf(topic, partition)).find(
+      ({ name }) => String(name) === groupId,
+    );
+    if (!group) {
+      return '-1';
+    }
+    const [oldest] = (await (
+      await this.redis()
+    ).call('XPENDING', this.streamKey(topic, partition), groupId, '-', '+', 1)) as Array<
+      [string, string, number, number]
+    >;
+    return oldest ? offsetOf(oldest[0]) : nextOffsetOf(String(group['last-delivered-id']));
+  }
+
+  /** Acknowledges the group's pending entries of a partition below `offset` */
+  async acknowledgeBelow(
+    topic: string,
+    partition: number,
+    groupId: string,
+    offset: string,
+  ): Promise<void> {
+    const redis = await this.redis();
+    const key = this.streamKey(topic, partition);
+    for (;;) {
+      const pending = (await redis.call(
+        'XPENDING',
+        key,
+        groupId,
+        '-',
+        `(${entryIdOf(offset)}`,
+        1000,
+      )) as Array<[string]>;
+      if (pending.length === 0) {
+        return;
+      }
+      await redis.call('XACK', key, groupId, ...pending.map(([id]) => id));
+    }
+  }
+
+  /** Errors shaped like the broker's, so callers can handle them by `type` */
+  error(type: string, code: number, message: string): KafkaJSProtocolError {
+    return new KafkaJSProtocolError(
+      Object.assign(new Error(message), { type, code, retriable: false }),
+    );
+  }
+
+  private registryKey(): string {
+    return `${this.prefix}:topics`;
+  }
+}
+
+/** XADD field/value pairs of a message; headers are kept as JSON with base64 values */
+export function encodeEntry(message: Message): Array<string | Buffer> {
+  const fields: Array<string | Buffer> = ['timestamp', message.timestamp ?? String(Date.now())];
+  if (message.key !== null && message.key !== undefined) {
+    fields.push('key', toBuffer(message.key));
+  }
+  if (message.value !== null && message.value !== undefined) {
+    fields.push('value', toBuffer(message.value));
+  }
+
+  const headers = Object.entries(message.headers ?? {}).filter(([, value]) => value !== undefined);
+  if (headers.length > 0) {
+    const encoded = headers.map(([name, value]) => [
+      name,
+      Array.isArray(value)
+        ? value.map((v) => toBuffer(v).toString('base64'))
+        : toBuffer(value).toString('base64'),
+    ]);
+    fields.push('headers', JSON.stringify(Object.fromEntries(encoded)));
+  }
+  return fields;
+}
+
+export function decodeEntry(entryId: string, fields: Buffer[]): KafkaMessage {
+  const values = new Map<string, Buffer>();
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    values.set(fields[i].toString(), fields[i + 1]);
+  }
+
+  const encoded: Record<string, string | string[]> = JSON.parse(
+    values.get('headers')?.toString() ?? '{}',
+  );
+  const headers: IHeaders = Object.fromEntries(
+    Object.entries(encoded).map(([name, value]) => [
+      name,
+      Array.isArray(value)
+        ? value.map((v) => Buffer.from(v, 'base64'))
+        : Buffer.from(value, 'base64'),
+    ]),
+  );
+
+  return {
+    key: values.get('key') ?? null,
+    value: values.get('value') ?? null,
+    headers,
+    timestamp: values.get('timestamp')?.toString() ?? '0',
+    offset: offsetOf(entryId),
+    attributes: 0,
+    size: 0,
+  } as KafkaMessage;
+}
+
+function toBuffer(value: Buffer | string): Buffer {
+  return Buffer.isBuffer(value) ? value : Buffer.from(value);
+}
@@ -0,0 +1,166 @@
+import { Injectable, Module, OnModuleInit } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { DistributedLockService } from './distributed-lock.service';
+import { LocksModule } from './locks.module';
+import { WithLock } from './with-lock.decorator';
+import { RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { FakeRedis } from '../../test/fake-redis';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('DistributedLockService', () => {
+  let masters: FakeRedis[];
+  let service: DistributedLockService;
+
+  const withMasters = (count: number) => {
+    masters = Array.from({ length: count }, () => new FakeRedis());
+    service = new DistributedLockService({
+      lockConnections: () => masters,
+    } as unknown as RedisConnectionFactory);
+  };
+
+  beforeEach(() => withMasters(1));
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+  });
+
+  it('should grant a lock to one holder at a time with increasing fencing tokens', async () => {
+    const first = await service.acquire('reconcile');
+
+    expect(first.fencingToken).toBe(1);
+    expect(first.isHeld).toBe(true);
+    expect(masters[0].ttls.get('lock:{reconcile}')).toBe('PX 30000');
+    await expect(service.acquire('reconcile')).resolves.toBeNull();
+
+    await first.release();
+    const second = await service.acquire('reconcile');
+    expect(first.isHeld).toBe(false);
+    expect(second.fencingToken).toBe(2);
+  });
+
+  it('should need a majority of the masters', async () => {
+    withMasters(3);
+    masters[2].eval.mockRejectedValue(new Error('Connection is closed.'));
+
+    const lock = await service.acquire('reconcile');
+    expect(lock).not.toBeNull();
+    await lock.release();
+
+    masters[1].store.set('lock:{reconcile}', 'other-instance');
+    await expect(service.acquire('reconcile')).resolves.toBeNull();
+    // The master that granted the lock on its own was released
+    expect(masters[0].store.has('lock:{reconcile}')).toBe(false);
+  });
+
+  it('should take fencing tokens from the first master only', async () => {
+    withMasters(3);
+    masters[1].store.set('lock:{reconcile}:fence', '41');
+
+    const first = await service.acquire('reconcile');
+    await first.release();
+    const second = await service.acquire('reconcile');
+
+    expect([first.fencingToken, second.fencingToken]).toEqual([1, 2]);
+    expect(masters[1].store.get('lock:{reconcile}:fence')).toBe('41');
+  });
+
+  it('should refuse locks while the fencing master is unreachable', async () => {
+    withMasters(3);
+    masters[0].eval.mockRejectedValue(new Error('Connection is closed.'));
+
+    await expect(service.acquire('reconcile')).resolves.toBeNull();
+    expect(masters[1].store.has('lock:{reconcile}')).toBe(false);
+  });
+
+  it('should refuse locks while most masters are unreachable', async () => {
+    withMasters(3);
+    masters[1].eval.mockRejectedValue(new Error('Connection is closed.'));
+    masters[2].eval.mockRejectedValue(new Error('Connection is closed.'));
+
+    await expect(service.acquire('reconcile', { waitMs: 300 })).resolves.toBeNull();
+    expect(masters[0].store.has('lock:{reconcile}')).toBe(false);
+    await expect(service.withLock('reconcile', jest.fn())).resolves.toBeUndefined();
+  });
+
+  it('should wait up to waitMs for the holder to release', async () => {
+    const first = await service.acquire('reconcile');
+    setTimeout(() => void first.release(), 100);
+
+    await expect(service.acquire('reconcile', { waitMs: 50 })).resolves.toBeNull();
+    await expect(service.acquire('reconcile', { waitMs: 2000 })).resolves.toMatchObject({
+      fencingToken: 2,
+    });
+  });
+
+  it('should renew the lease while held and report when it is lost', async () => {
+    const lock = await service.acquire('reconcile', { ttl: 60 });
+    const lost = jest.fn();
+    lock.on('lost', lost);
+
+    await sleep(150);
+    expect(lock.isHeld).toBe(true);
+    expect(masters[0].eval).toHaveBeenCalledWith(
+      expect.stringContaining('pexpire'),
+      1,
+      'lock:{reconcile}',
+      expect.any(String),
+      60,
+    );
+
+    // Taken over, e.g. after the lease expired during a pause
+    masters[0].store.set('lock:{reconcile}', 'someone-else');
+    await sleep(60);
+    expect(lost).toHaveBeenCalledWith(lock);
+    expect(lock.isHeld).toBe(false);
+  });
+
+  it('should skip withLock tasks while the lock is held elsewhere', async () => {
+    const held = await service.acquire('cleanup');
+    const task = jest.fn(async () => 'done');
+
+    await expect(service.withLock('cleanup', task)).resolves.toBeUndefined();
+    await held.release();
+    await expect(service.withLock('cleanup', task)).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(masters[0].store.has('lock:{cleanup}')).toBe(false);
+  });
+
+  it('should lock within the process without Redis', async () => {
+    service = new DistributedLockService();
+
+    const lock = await service.acquire('reconcile');
+    await expect(service.acquire('reconcile')).resolves.toBeNull();
+    await lock.release();
+    await expect(service.acquire('reconcile')).resolves.toMatchObject({ fencingToken: 2 });
+  });
+});
+
+describe('@WithLock', () => {
+  @Injectable()
+  class ManifestReconciler implements OnModuleInit {
+    heldDuringRun: boolean;
+
+    constructor(private readonly locks: DistributedLockService) {}
+
+    async onModuleInit() {
+      await this.reconcile();
+    }
+
+    @WithLock('manifest')
+    async reconcile() {
+      this.heldDuringRun = (await this.locks.acquire('manifest')) === null;
+    }
+  }
+
+  @Module({ imports: [LocksModule], providers: [ManifestReconciler] })
+  class ReconcilerModule {}
+
+  it('should run the method under the lock, including from onModuleInit', async () => {
+    const moduleRef = await Test.createTestingModule({ imports: [ReconcilerModule] }).compile();
+    await moduleRef.init();
+
+    expect(moduleRef.get(ManifestReconciler).heldDuringRun).toBe(true);
+    await moduleRef.close();
+  });
+});
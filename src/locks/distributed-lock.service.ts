@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { Injectable, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { RedisConnection, RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { LeaderElection, LeaderElectionOptions } from './leader-election';
+
+export interface LockOptions {
+  /** Lease in milliseconds, renewed every third of it while the lock is held */
+  ttl?: number;
+  /** Milliseconds to keep retrying while the lock is held elsewhere; 0 tries once */
+  waitMs?: number;
+  /** Renew the lease until `release`; on by default */
+  autoExtend?: boolean;
+}
+
+const DEFAULT_TTL_MS = 30000;
+const RETRY_DELAY_MS = 200;
+// Redlock's allowance for clock drift between the Redis servers
+const CLOCK_DRIFT_FACTOR = 0.01;
+
+// On the fencing master. The counter shares the lock's hash tag, so both keys live on one
+// cluster node
+const ACQUIRE_SCRIPT = `
+if redis.call('set', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return redis.call('incr', KEYS[2])
+end
+return 0`;
+
+// On the other masters, which only vote
+const GRANT_SCRIPT = `
+if redis.call('set', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return 1
+end
+return 0`;
+
+const EXTEND_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Fewer than a quorum of the lock masters could be reached */
+class LockBackendUnavailableError extends Error {}
+
+interface LockBackend {
+  /**
+   * The fencing token and the milliseconds the lease is valid for, or null when the lock is
+   * held elsewhere. Rejects with `LockBackendUnavailableError` when the lock store is down.
+   */
+  acquire(
+    key: string,
+    owner: string,
+    ttl: number,
+  ): Promise<{ token: number; validity: number } | null>;
+  /** The milliseconds the renewed lease is valid for, or null when the lock was lost */
+  extend(key: string, owner: string, ttl: number): Promise<number | null>;
+  release(key: string, owner: string): Promise<void>;
+}
+
+/**
+ * Redlock: a lock is held when a majority of independent Redis masters granted it, within
+ * a lease shortened by the time it took and the clock drift allowance. Fencing tokens come
+ * from a counter on the first master alone, so they only ever grow; a lock is refused
+ * whenever that master did not grant it.
+ */
+class RedlockBackend implements LockBackend {
+  private readonly quorum: number;
+
+  constructor(private readonly connections: RedisConnection[]) {
+    this.quorum = Math.floor(connections.length / 2) + 1;
+  }
+
+  async acquire(key: string, owner: string, ttl: number) {
+    const start = Date.now();
+    const replies = await this.onEach((redis, index) =>
+      index === 0
+        ? redis.eval(ACQUIRE_SCRIPT, 2, key, `${key}:fence`, owner, ttl)
+        : redis.eval(GRANT_SCRIPT, 1, key, owner, ttl),
+    );
+    const [token] = replies;
+
+    const validity = this.validity(ttl, start);
+    if (token > 0 && replies.filter((reply) => reply > 0).length >= this.quorum && validity > 0) {
+      return { token, validity };
+    }
+    await this.release(key, owner);
+    if (token === null) {
+      throw new LockBackendUnavailableError('The fencing lock master is unreachable');
+    }
+    if (replies.filter((reply) => reply !== null).length < this.quorum) {
+      throw new LockBackendUnavailableError(`Fewer than ${this.quorum} lock masters reachable`);
+    }
+    return null;
+  }
+
+  async extend(key: string, owner: string, ttl: number) {
+    const start = Date.now();
+    const extended = await this.onEach((redis) => redis.eval(EXTEND_SCRIPT, 1, key, owner, ttl));
+    const validity = this.validity(ttl, start);
+    return extended.filter(Boolean).length >= this.quorum && validity > 0 ? validity : null;
+  }
+
+  async release(key: string, owner: string) {
+    await this.onEach((redis) => redis.eval(RELEASE_SCRIPT, 1, key, owner));
+  }
+
+  private validity(ttl: number, start: number): number {
+    return ttl - (Date.now() - start) - Math.round(ttl * CLOCK_DRIFT_FACTOR) - 2;
+  }
+
+  // A master that is down or unreachable replies null, which counts as a refusal
+  private onEach(
+    command: (redis: RedisConnection, index: number) => Promise<unknown>,
+  ): Promise<Array<number | null>> {
+    return Promise.all(
+      this.connections.map(async (redis, index) => {
+        try {
+          if (redis.status === 'wait') {
+            await redis.connect();
+          }
+          return Number(await command(redis, index));
+        } catch {
+          return null;
+        }
+      }),
+    );
+  }
+}
+
+/** Locks within this process, for development and tests without Redis */
+class LocalLockBackend implements LockBackend {
+  private readonly leases = new Map<string, { owner: string; expiresAt: number }>();
+  private readonly fences = new Map<string, number>();
+
+  async acquire(key: string, owner: string, ttl: number) {
+    if ((this.leases.get(key)?.expiresAt ?? 0) > Date.now()) {
+      return null;
+    }
+    const token = (this.fences.get(key) ?? 0) + 1;
+    this.fences.set(key, token);
+    this.leases.set(key, { owner, expiresAt: Date.now() + ttl });
+    return { token, validity: ttl };
+  }
+
+  async extend(key: string, owner: string, ttl: number) {
+    const lease = this.leases.get(key);
+    if (lease?.owner !== owner || lease.expiresAt <= Date.now()) {
+      return null;
+    }
+    lease.expiresAt = Date.now() + ttl;
+    return ttl;
+  }
+
+  async release(key: string, owner: string) {
+    if (this.leases.get(key)?.owner === owner) {
+      this.leases.delete(key);
+    }
+  }
+}
+
+/**
+ * A held lock. `fencingToken` grows with every acquisition of the name: pass it along with
+ * the writes the lock protects so they can be refused once a newer holder exists. Emits
+ * `lost` when the lease could not be renewed and the lock may belong to someone else.
+ */
+export class Lock extends EventEmitter {
+  private validUntil: number;
+  private renewal: NodeJS.Timeout | null = null;
+  private released = false;
+
+  constructor(
+    readonly name: string,
+    readonly fencingToken: number,
+    validity: number,
+    private readonly key: string,
+    private readonly owner: string,
+    private readonly ttl: number,
+    private readonly backend: LockBackend,
+    autoExtend: boolean,
+  ) {
+    super();
+    this.validUntil = Date.now() + validity;
+    if (autoExtend) {
+      this.renewal = setInterval(() => void this.extend(), Math.max(Math.floor(ttl / 3), 1));
+      this.renewal.unref();
+    }
+  }
+
+  get isHeld(): boolean {
+    return !this.released && Date.now() < this.validUntil;
+  }
+
+  /** Renews the lease; false (and `lost`) when the lock is no longer held */
+  async extend(ttl = this.ttl): Promise<boolean> {
+    if (this.released) {
+      return false;
+    }
+    const validity = await this.backend.extend(this.key, this.owner, ttl);
+    if (validity === null) {
+      this.stop();
+      this.emit('lost', this);
+      return false;
+    }
+    this.validUntil = Date.now() + validity;
+    return true;
+  }
+
+  async release(): Promise<void> {
+    if (this.released) {
+      return;
+    }
+    this.stop();
+    await this.backend.release(this.key, this.owner);
+    this.emit('released', this);
+  }
+
+  private stop() {
+    this.released = true;
+    if (this.renewal) {
+      clearInterval(this.renewal);
+      this.renewal = null;
+    }
+  }
+}
+
+/**
+ * Distributed locks for work that must run on a single replica at a time, taken with the
+ * Redlock algorithm on the masters from `RedisConnectionFactory.lockConnections` (the main
+ * Redis unless `REDIS_LOCK_URLS` lists independent ones). While the masters cannot grant
+ * locks, none are granted. Without Redis, locks only exclude other callers in this process.
+ */
+@Injectable()
+export class DistributedLockService implements OnModuleDestroy {
+  private readonly logger = new Logger(DistributedLockService.name);
+  private readonly held = new Set<Lock>();
+  private backend: LockBackend | null = null;
+  private closing = false;
+
+  constructor(@Optional() private readonly connections?: RedisConnectionFactory) {}
+
+  /** Resolves to the lock, or null when it is still held elsewhere after `waitMs` */
+  async acquire(name: string, options: LockOptions = {}): Promise<Lock | null> {
+    const ttl = options.ttl ?? DEFAULT_TTL_MS;
+    const deadline = Date.now() + (options.waitMs ?? 0);
+    const key = `lock:{${name}}`;
+    const owner = randomUUID();
+    const backend = this.getBackend();
+
+    while (!this.closing) {
+      // Fails closed: while Redis is down nobody can tell whether the lock is held elsewhere
+      const acquired = await backend.acquire(key, owner, ttl).catch((error) => {
+        if (!(error instanceof LockBackendUnavailableError)) {
+          throw error;
+        }
+        this.logger.warn(`Cannot acquire lock ${name}: ${error.message}`);
+        return null;
+      });
+      if (acquired) {
+        const lock = new Lock(
+          name,
+          acquired.token,
+          acquired.validity,
+          key,
+          owner,
+          ttl,
+          backend,
+          options.autoExtend ?? true,
+        );
+        this.held.add(lock);
+        lock.once('released', () => this.held.delete(lock));
+        lock.once('lost', () => this.held.delete(lock));
+        return lock;
+      }
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      // Jittered, so waiting replicas do not retry in lockstep
+      await sleep(Math.min(RETRY_DELAY_MS * (0.5 + Math.random()), deadline - Date.now()));
+    }
+    return null;
+  }
+
+  /**
+   * Runs `task` while holding the lock and releases it afterwards. Resolves to undefined
+   * without running the task when the lock is held elsewhere.
+   */
+  async withLock<T>(
+    name: string,
+    task: (lock: Lock) => Promise<T> | T,
+    options: LockOptions = {},
+  ): Promise<T | undefined> {
+    const lock = await this.acquire(name, options);
+    if (!lock) {
+      this.logger.debug(`Lock ${name} is held elsewhere; skipping`);
+      return undefined;
+    }
+    try {
+      return await task(lock);
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /** A leader election over the lock `leader:<name>`; call `start` to campaign */
+  createLeaderElection(name: string, options: LeaderElectionOptions = {}): LeaderElection {
+    return new LeaderElection(this, name, options);
+  }
+
+  async onModuleDestroy() {
+    this.closing = true;
+    await Promise.all([...this.held].map((lock) => lock.release()));
+  }
+
+  private getBackend(): LockBackend {
+    if (!this.backend) {
+      const connections = this.connections?.lockConnections() ?? [];
+      if (connections.length === 0) {
+        this.logger.warn('Redis not configured; locks only exclude callers in this process');
+      }
+      this.backend =
+        connections.length > 0 ? new RedlockBackend(connections) : new LocalLockBackend();
+    }
+    return this.backend;
+  }
+}
@@ -0,0 +1,34 @@
+import { DistributedLockService } from './distributed-lock.service';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('LeaderElection', () => {
+  const locks = new DistributedLockService();
+
+  it('should elect one leader and hand over when it stops', async () => {
+    const replicas = [1, 2].map(() =>
+      locks.createLeaderElection('relay', { ttl: 300, retryIntervalMs: 20 }),
+    );
+    const events: string[] = [];
+    replicas.forEach((election, index) => {
+      election.on('becameLeader', ({ fencingToken }) =>
+        events.push(`${index} leads with ${fencingToken}`),
+      );
+      election.on('lostLeadership', () => events.push(`${index} lost`));
+    });
+
+    replicas[0].start();
+    await sleep(10);
+    replicas[1].start();
+    await sleep(50);
+    expect(replicas.map((election) => election.isLeader)).toEqual([true, false]);
+
+    await replicas[0].stop();
+    await sleep(60);
+    expect(replicas.map((election) => election.isLeader)).toEqual([false, true]);
+    expect(replicas[1].fencingToken).toBe(2);
+
+    await replicas[1].stop();
+    expect(events).toEqual(['0 leads with 1', '0 lost', '1 leads with 2', '1 lost']);
+  });
+});
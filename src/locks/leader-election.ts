@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import type { DistributedLockService, Lock } from './distributed-lock.service';
+
+export interface LeaderElectionOptions {
+  /** Lease of the leadership lock in milliseconds; a dead leader is replaced after it */
+  ttl?: number;
+  /** Milliseconds between attempts of a follower to take over */
+  retryIntervalMs?: number;
+}
+
+/**
+ * Keeps one replica leader for `name`: every replica campaigns for the lock
+ * `leader:<name>`, the holder renews it, and the others retry until it is free. Emits
+ * `becameLeader` and `lostLeadership` with the lock's fencing token.
+ */
+export class LeaderElection extends EventEmitter {
+  private lock: Lock | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly locks: DistributedLockService,
+    readonly name: string,
+    private readonly options: LeaderElectionOptions = {},
+  ) {
+    super();
+  }
+
+  get isLeader(): boolean {
+    return this.lock?.isHeld ?? false;
+  }
+
+  /** The current leadership's fencing token, or null when not leader */
+  get fencingToken(): number | null {
+    return this.isLeader ? this.lock.fencingToken : null;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    void this.campaign();
+  }
+
+  /** Stops campaigning and hands leadership over if held */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const lock = this.lock;
+    this.lock = null;
+    if (lock) {
+      await lock.release();
+      this.emit('lostLeadership', { fencingToken: lock.fencingToken });
+    }
+  }
+
+  private async campaign(): Promise<void> {
+    this.timer = null;
+    const lock = await this.locks
+      .acquire(`leader:${this.name}`, { ttl: this.options.ttl ?? 15000 })
+      .catch(() => null);
+    if (!this.running) {
+      await lock?.release();
+      return;
+    }
+    if (!lock) {
+      this.scheduleCampaign();
+      return;
+    }
+
+    this.lock = lock;
+    lock.once('lost', () => {
+      if (this.lock === lock) {
+        this.lock = null;
+        this.emit('lostLeadership', { fencingToken: lock.fencingToken });
+        this.scheduleCampaign();
+      }
+    });
+    this.emit('becameLeader', { fencingToken: lock.fencingToken });
+  }
+
+  private scheduleCampaign(): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => void this.campaign(), this.options.retryIntervalMs ?? 5000);
+    this.timer.unref();
+  }
+}
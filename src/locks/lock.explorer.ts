@@ -0,0 +1,52 @@
+import { Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { WITH_LOCK_METADATA, WithLockMetadata } from './with-lock.decorator';
+import { DistributedLockService } from './distributed-lock.service';
+
+type Method = (...args: unknown[]) => unknown;
+
+/**
+ * Finds `@WithLock` methods on every provider at boot and replaces them, on the provider
+ * instance, with versions that run under `DistributedLockService.withLock`. It initializes
+ * before the modules importing `LocksModule`, so their own `onModuleInit` work is covered.
+ */
+@Injectable()
+export class LockExplorer implements OnModuleInit {
+  private readonly logger = new Logger(LockExplorer.name);
+
+  constructor(
+    private readonly lockService: DistributedLockService,
+    @Optional() private readonly discoveryService?: DiscoveryService,
+    @Optional() private readonly metadataScanner?: MetadataScanner,
+  ) {}
+
+  onModuleInit() {
+    if (!this.discoveryService || !this.metadataScanner) {
+      return;
+    }
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const method: Method = prototype[methodName];
+        const metadata: WithLockMetadata | undefined = Reflect.getMetadata(
+          WITH_LOCK_METADATA,
+          method,
+        );
+        if (!metadata) {
+          continue;
+        }
+
+        const { name, ...options } = metadata;
+        instance[methodName] = (...args: unknown[]) =>
+          this.lockService.withLock(name, () => method.apply(instance, args), options);
+        this.logger.log(`${instance.constructor.name}.${methodName} runs under lock ${name}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { RedisModule } from '../redis/redis.module';
+import { DistributedLockService } from './distributed-lock.service';
+import { LockExplorer } from './lock.explorer';
+
+@Module({
+  imports: [RedisModule, DiscoveryModule],
+  providers: [DistributedLockService, LockExplorer],
+  exports: [DistributedLockService],
+})
+export class LocksModule {}
@@ -0,0 +1,20 @@
+import { LockOptions } from './distributed-lock.service';
+
+export const WITH_LOCK_METADATA = 'locks:with-lock';
+
+export interface WithLockMetadata extends LockOptions {
+  name: string;
+}
+
+/**
+ * Runs a provider method only while holding the distributed lock `name`, so it runs on a
+ * single replica at a time. When the lock is still held elsewhere after `waitMs`, the call
+ * is skipped and resolves to undefined.
+ */
+export function WithLock(name: string, options: LockOptions = {}): MethodDecorator {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const metadata: WithLockMetadata = { name, ...options };
+    Reflect.defineMetadata(WITH_LOCK_METADATA, metadata, descriptor.value);
+    return descriptor;
+  };
+}
@@ -1,5 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { initTracing } from './telemetry/tracing';
@@ -7,19 +9,23 @@ import { LoggerService } from './services/logger.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// Startup output goes through the application logger too, so it is redacted the same way
+const logger = new LoggerService();
+logger.setContext('Bootstrap');
+
 async function bootstrap() {
   // Catch unhandled rejections to prevent Bull from crashing the app
-  process.on('unhandledRejection', (reason, promise) => {
-    console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+  process.on('unhandledRejection', (reason) => {
+    logger.error(`Unhandled Rejection: ${reason}`, (reason as Error)?.stack);
     // Don't exit the process - just log the error
   });
 
   try {
     // Log version information at startup
-    console.log('='.repeat(80));
-    console.log('🚨 ATTENTION!!!! APPLICATION STARTUP SEQUENCE BEGINNING 🚨');
-    console.log('=== Core Pipeline Application Starting ===');
-    console.log('='.repeat(80));
+    logger.log('='.repeat(80));
+    logger.log('🚨 ATTENTION!!!! APPLICATION STARTUP SEQUENCE BEGINNING 🚨');
+    logger.log('=== Core Pipeline Application Starting ===');
+    logger.log('='.repeat(80));
 
     // Read package.json version
     const packageJsonPath = path.join(__dirname, '../package.json');
@@ -28,13 +34,13 @@ async function bootstrap() {
       const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
       appVersion = packageJson.version;
     } catch (e) {
-      console.warn('Could not read package.json version');
+      logger.warn('Could not read package.json version');
     }
 
-    console.log(`App Version: ${appVersion}`);
-    console.log(`Node Version: ${process.version}`);
-    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-    console.log(`Timestamp: ${new Date().toISOString()}`);
+    logger.log(`App Version: ${appVersion}`);
+    logger.log(`Node Version: ${process.version}`);
+    logger.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    logger.log(`Timestamp: ${new Date().toISOString()}`);
 
     // Try to read Git commit info (if available)
     try {
@@ -55,29 +61,30 @@ async function bootstrap() {
           commitHash = headContent.substring(0, 7);
         }
 
-        console.log(`Git Commit: ${commitHash}`);
+        logger.log(`Git Commit: ${commitHash}`);
       }
     } catch (e) {
-      console.log('Git Commit: N/A (not in git repo or running in container)');
+      logger.log('Git Commit: N/A (not in git repo or running in container)');
     }
 
     // Log IMAGE_TAG if set (for Kubernetes deployments)
     if (process.env.IMAGE_TAG) {
-      console.log(`Image Tag: ${process.env.IMAGE_TAG}`);
+      logger.log(`Image Tag: ${process.env.IMAGE_TAG}`);
     }
 
-    console.log('='.repeat(80));
+    logger.log('='.repeat(80));
 
     initTracing();
 
-    // Use default NestJS logger for development (pretty), custom for production (JSON)
-    const isDevelopment = process.env.NODE_ENV !== 'production';
-
-    const app = await NestFactory.create(AppModule, {
-      logger: isDevelopment ? ['error', 'warn', 'log', 'debug', 'verbose'] : new LoggerService(),
+    // Pretty in development, JSON otherwise; secrets are redacted either way
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+      logger: new LoggerService(),
       bufferLogs: false,
     });
 
+    // Behind a load balancer request.ip is the balancer unless its forwarded headers are trusted
+    app.set('trust proxy', app.get(ConfigService).get('trustProxy'));
+
     // Enable validation pipe globally
     app.useGlobalPipes(
       new ValidationPipe({
@@ -121,7 +128,8 @@ async function bootstrap() {
       .setVersion('1.0')
       .addTag('showcase', 'Showcase API - All features consolidated')
       .addTag('health', 'Health check endpoints')
-      .addTag('metrics', 'Metrics endpoints');
+      .addTag('metrics', 'Metrics endpoints')
+      .addTag('config', 'Effective configuration');
 
     // Add appropriate servers based on environment
     if (isProduction) {
@@ -142,30 +150,30 @@ async function bootstrap() {
         customfavIcon: 'https://swagger.io/favicon-32x32.png',
         customCssUrl: 'https://cdnjs.cloudflare.com/ajax/libs/swagger-ui/4.15.5/swagger-ui.min.css',
       });
-      console.log(`Swagger documentation available at: http://localhost:${port}/api-docs`);
+      logger.log(`Swagger documentation available at: http://localhost:${port}/api-docs`);
     } else {
-      console.log(
+      logger.log(
         'Swagger documentation is disabled in production. Set ENABLE_SWAGGER=true to enable.',
       );
     }
     await app.listen(port);
 
-    console.log('='.repeat(80));
-    console.log('🚨 ATTENTION!!!! APPLICATION SUCCESSFULLY STARTED 🚨');
-    console.log('='.repeat(80));
-    console.log(`Application is running on: http://localhost:${port}`);
-    console.log(`Metrics available at: http://localhost:${port}/metrics`);
-    console.log(`Health check available at: http://localhost:${port}/health`);
-    console.log(`Liveness check: http://localhost:${port}/health/liveness`);
-    console.log(`Readiness check: http://localhost:${port}/health/readiness`);
-    console.log('='.repeat(80));
+    logger.log('='.repeat(80));
+    logger.log('🚨 ATTENTION!!!! APPLICATION SUCCESSFULLY STARTED 🚨');
+    logger.log('='.repeat(80));
+    logger.log(`Application is running on: http://localhost:${port}`);
+    logger.log(`Metrics available at: http://localhost:${port}/metrics`);
+    logger.log(`Health check available at: http://localhost:${port}/health`);
+    logger.log(`Liveness check: http://localhost:${port}/health/liveness`);
+    logger.log(`Readiness check: http://localhost:${port}/health/readiness`);
+    logger.log('='.repeat(80));
   } catch (error) {
-    console.error('Failed to start application:', error);
+    logger.error('Failed to start application', error);
     process.exit(1);
   }
 }
 
 bootstrap().catch((error) => {
-  console.error('Bootstrap error:', error);
+  logger.error('Bootstrap error', error);
   process.exit(1);
 });
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateOutboxTable1700000000001 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'outbox_messages',
+        columns: [
+          {
+            name: 'sequence',
+            type: 'bigint',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'increment',
+          },
+          {
+            name: 'messageId',
+            type: 'varchar',
+            length: '36',
+            isUnique: true,
+          },
+          {
+            name: 'topic',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'messageKey',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'headers',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'lastError',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'nextAttemptAt',
+            type: 'timestamp with time zone',
+            isNullable: true,
+          },
+          {
+            name: 'published_at',
+            type: 'timestamp with time zone',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp with time zone',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [
+          {
+            name: 'IDX_OUTBOX_PUBLISHED_AT',
+            columnNames: ['published_at'],
+          },
+          {
+            name: 'IDX_OUTBOX_MESSAGE_KEY',
+            columnNames: ['messageKey'],
+          },
+        ],
+      }),
+      true,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('outbox_messages');
+  }
+}
@@ -0,0 +1,81 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateEventsTable1700000000002 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'events',
+        columns: [
+          {
+            name: 'id',
+            type: 'varchar',
+            length: '36',
+            isPrimary: true,
+          },
+          {
+            name: 'topic',
+            type: 'varchar',
+            length: '255',
+          },
+          {
+            name: 'partition',
+            type: 'int',
+          },
+          {
+            name: 'offset',
+            type: 'varchar',
+            length: '32',
+          },
+          {
+            name: 'key',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'value',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'headers',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'timestamp',
+            type: 'timestamp with time zone',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '16',
+          },
+        ],
+        indices: [
+          {
+            name: 'IDX_EVENTS_TOPIC',
+            columnNames: ['topic'],
+          },
+          {
+            name: 'IDX_EVENTS_STATUS',
+            columnNames: ['status'],
+          },
+          {
+            name: 'IDX_EVENTS_KEY',
+            columnNames: ['key'],
+          },
+          {
+            name: 'IDX_EVENTS_TIMESTAMP',
+            columnNames: ['timestamp', 'id'],
+          },
+        ],
+      }),
+      true,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('events');
+  }
+}
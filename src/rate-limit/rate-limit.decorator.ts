@@ -0,0 +1,31 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_METADATA = 'rate-limit:options';
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitOptions {
+  /** Requests allowed per window; the size of the bucket for `token-bucket` */
+  limit: number;
+  /** Window in milliseconds; a token bucket refills `limit` tokens over it */
+  windowMs: number;
+  /**
+   * `sliding-window` (the default) allows `limit` requests in any `windowMs`; `token-bucket`
+   * allows bursts of up to `limit` and then one request per `windowMs / limit`
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Clients are told apart by IP (the default), or by the API key header, falling back to
+   * the IP without one. Keys are not validated here, so only use `api-key` behind a gateway
+   * that does
+   */
+  by?: 'ip' | 'api-key';
+  /** Routes with the same name share their counters; one per route by default */
+  name?: string;
+}
+
+/**
+ * Limits how often each client may call a route, or every route of a controller; a route's
+ * own limit replaces the controller's. Enforced by `RateLimitGuard`.
+ */
+export const RateLimit = (options: RateLimitOptions) => SetMetadata(RATE_LIMIT_METADATA, options);
@@ -0,0 +1,121 @@
+import { Controller, Get } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { RateLimit } from './rate-limit.decorator';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimiterService } from './rate-limiter.service';
+import configuration from '../config/configuration';
+
+@Controller('limited')
+@RateLimit({ limit: 2, windowMs: 60000 })
+class LimitedController {
+  @Get()
+  list() {
+    return [];
+  }
+
+  @Get('burst')
+  @RateLimit({ algorithm: 'token-bucket', limit: 1, windowMs: 10000, by: 'api-key' })
+  burst() {
+    return {};
+  }
+}
+
+@Controller('open')
+class OpenController {
+  @Get()
+  get() {
+    return {};
+  }
+}
+
+describe('RateLimitGuard', () => {
+  let app: NestExpressApplication;
+  const saved = { ...process.env };
+
+  const start = async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [ConfigModule.forRoot({ load: [configuration], ignoreEnvFile: true })],
+      controllers: [LimitedController, OpenController],
+      providers: [RateLimiterService, { provide: APP_GUARD, useClass: RateLimitGuard }],
+    }).compile();
+    app = moduleRef.createNestApplication<NestExpressApplication>();
+    // As main.ts does
+    app.set('trust proxy', app.get(ConfigService).get('trustProxy'));
+    await app.init();
+  };
+
+  afterEach(async () => {
+    await app.close();
+    process.env = { ...saved };
+  });
+
+  it('should refuse requests over the limit with 429 and Retry-After', async () => {
+    await start();
+
+    const first = await request(app.getHttpServer()).get('/limited').expect(200);
+    expect(first.headers).toMatchObject({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+      'ratelimit-reset': '60',
+      'ratelimit-policy': '2;w=60',
+    });
+    await request(app.getHttpServer()).get('/limited').expect(200);
+
+    const refused = await request(app.getHttpServer()).get('/limited').expect(429);
+    expect(refused.headers['retry-after']).toBe('60');
+    expect(refused.headers['ratelimit-remaining']).toBe('0');
+
+    await request(app.getHttpServer()).get('/open').expect(200);
+  });
+
+  it('should apply a route limit instead of the controller one, per API key', async () => {
+    await start();
+
+    await request(app.getHttpServer()).get('/limited/burst').set('x-api-key', 'a').expect(200);
+    const refused = await request(app.getHttpServer())
+      .get('/limited/burst')
+      .set('x-api-key', 'a')
+      .expect(429);
+    expect(refused.headers['retry-after']).toBe('10');
+
+    await request(app.getHttpServer()).get('/limited/burst').set('x-api-key', 'b').expect(200);
+    // The controller's own counter is untouched
+    await request(app.getHttpServer()).get('/limited').expect(200);
+  });
+
+  it('should count clients behind a trusted proxy apart by their forwarded address', async () => {
+    process.env.TRUST_PROXY = '1';
+    await start();
+
+    const from = (address: string) =>
+      request(app.getHttpServer()).get('/limited').set('x-forwarded-for', address);
+    await from('203.0.113.1').expect(200);
+    await from('203.0.113.1').expect(200);
+    await from('203.0.113.1').expect(429);
+    await from('203.0.113.2').expect(200);
+  });
+
+  it('should ignore forwarded addresses unless the proxy is trusted', async () => {
+    await start();
+
+    await request(app.getHttpServer()).get('/limited').set('x-forwarded-for', '203.0.113.1');
+    await request(app.getHttpServer()).get('/limited').set('x-forwarded-for', '203.0.113.2');
+    await request(app.getHttpServer())
+      .get('/limited')
+      .set('x-forwarded-for', '203.0.113.3')
+      .expect(429);
+  });
+
+  it('should not limit anything when disabled', async () => {
+    process.env.RATE_LIMIT_ENABLED = 'false';
+    await start();
+
+    for (let i = 0; i < 3; i++) {
+      await request(app.getHttpServer()).get('/limited').expect(200);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { RATE_LIMIT_METADATA, RateLimitOptions } from './rate-limit.decorator';
+import { RateLimiterService } from './rate-limiter.service';
+
+/**
+ * Applies `@RateLimit` to HTTP requests. Every limited response carries the `RateLimit-Limit`,
+ * `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy` headers; requests over the
+ * limit are refused with 429 and `Retry-After`.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly limiter: RateLimiterService,
+    @Optional() private readonly configService?: ConfigService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_METADATA, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (
+      !options ||
+      context.getType() !== 'http' ||
+      !this.configService?.get('rateLimit.enabled', true)
+    ) {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const name = options.name ?? `${context.getClass().name}.${context.getHandler().name}`;
+    const result = await this.limiter.consume(`${name}:${this.client(request, options)}`, options);
+
+    response.setHeader('RateLimit-Limit', options.limit);
+    response.setHeader('RateLimit-Remaining', Math.max(result.remaining, 0));
+    response.setHeader('RateLimit-Reset', Math.ceil(result.resetMs / 1000));
+    response.setHeader(
+      'RateLimit-Policy',
+      `${options.limit};w=${Math.ceil(options.windowMs / 1000)}`,
+    );
+    if (!result.allowed) {
+      response.setHeader('Retry-After', Math.max(Math.ceil(result.retryAfterMs / 1000), 1));
+      throw new HttpException('Too many requests, retry later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    return true;
+  }
+
+  // API keys are hashed so they do not end up in Redis keys
+  private client(request: Request, options: RateLimitOptions): string {
+    const header: string = this.configService?.get('rateLimit.clientHeader') ?? 'x-api-key';
+    const apiKey = options.by === 'api-key' ? request.header(header) : undefined;
+    return apiKey
+      ? `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 32)}`
+      : `ip:${request.ip}`;
+  }
+}
@@ -0,0 +1,131 @@
+import { RateLimiterService } from './rate-limiter.service';
+import { RateLimitOptions } from './rate-limit.decorator';
+import { RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { FakeRedis } from '../../test/fake-redis';
+
+describe('RateLimiterService', () => {
+  const slidingWindow: RateLimitOptions = { limit: 3, windowMs: 1000 };
+  const tokenBucket: RateLimitOptions = { algorithm: 'token-bucket', limit: 2, windowMs: 1000 };
+
+  describe('without Redis', () => {
+    let service: RateLimiterService;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 0 });
+      service = new RateLimiterService();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should allow the limit in any sliding window', async () => {
+      await service.consume('client', slidingWindow);
+      jest.setSystemTime(400);
+      await service.consume('client', slidingWindow);
+      await expect(service.consume('client', slidingWindow)).resolves.toEqual({
+        allowed: true,
+        remaining: 0,
+        resetMs: 600,
+        retryAfterMs: 0,
+      });
+      await expect(service.consume('client', slidingWindow)).resolves.toMatchObject({
+        allowed: false,
+        retryAfterMs: 600,
+      });
+
+      // The first request left the window, the others have not
+      jest.setSystemTime(1000);
+      await expect(service.consume('client', slidingWindow)).resolves.toMatchObject({
+        allowed: true,
+        remaining: 0,
+      });
+      await expect(service.consume('other-client', slidingWindow)).resolves.toMatchObject({
+        allowed: true,
+        remaining: 2,
+      });
+    });
+
+    it('should allow bursts up to the bucket size and refill it over the window', async () => {
+      await service.consume('client', tokenBucket);
+      await expect(service.consume('client', tokenBucket)).resolves.toEqual({
+        allowed: true,
+        remaining: 0,
+        resetMs: 1000,
+        retryAfterMs: 0,
+      });
+      await expect(service.consume('client', tokenBucket)).resolves.toMatchObject({
+        allowed: false,
+        retryAfterMs: 500,
+      });
+
+      jest.setSystemTime(500);
+      await expect(service.consume('client', tokenBucket)).resolves.toMatchObject({
+        allowed: true,
+      });
+      await expect(service.consume('client', tokenBucket)).resolves.toMatchObject({
+        allowed: false,
+      });
+    });
+  });
+
+  describe('with Redis', () => {
+    let redis: FakeRedis;
+    let service: RateLimiterService;
+
+    beforeEach(() => {
+      redis = new FakeRedis();
+      service = new RateLimiterService({ get: () => redis } as unknown as RedisConnectionFactory);
+    });
+
+    it('should count in a Lua script per algorithm', async () => {
+      redis.eval.mockResolvedValueOnce([0, 0, 750, 750]).mockResolvedValueOnce([1, 1, 500, 0]);
+
+      await expect(service.consume('route:ip:10.0.0.1', slidingWindow)).resolves.toEqual({
+        allowed: false,
+        remaining: 0,
+        resetMs: 750,
+        retryAfterMs: 750,
+      });
+      await expect(service.consume('route:ip:10.0.0.1', tokenBucket)).resolves.toEqual({
+        allowed: true,
+        remaining: 1,
+        resetMs: 500,
+        retryAfterMs: 0,
+      });
+
+      expect(redis.eval.mock.calls).toEqual([
+        [
+          expect.stringContaining("'zremrangebyscore'"),
+          1,
+          'rate-limit:sliding-window:route:ip:10.0.0.1',
+          3,
+          1000,
+          expect.any(String),
+        ],
+        [
+          expect.stringContaining("'hmget'"),
+          1,
+          'rate-limit:token-bucket:route:ip:10.0.0.1',
+          2,
+          500,
+        ],
+      ]);
+    });
+
+    it('should count in memory while Redis is not ready or fails', async () => {
+      redis.eval.mockRejectedValueOnce(new Error('Connection is closed.'));
+      await expect(service.consume('client', slidingWindow)).resolves.toMatchObject({
+        allowed: true,
+        remaining: 2,
+      });
+
+      redis.status = 'reconnecting';
+      await expect(service.consume('client', slidingWindow)).resolves.toMatchObject({
+        allowed: true,
+        remaining: 1,
+      });
+      expect(redis.eval).toHaveBeenCalledTimes(1);
+    });
+  });
+});
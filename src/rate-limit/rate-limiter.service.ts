@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { RedisConnection, RedisConnectionFactory } from '../redis/redis-connection.factory';
+import { RateLimitOptions } from './rate-limit.decorator';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests left before the limit is reached */
+  remaining: number;
+  /** Milliseconds until the full limit is available again */
+  resetMs: number;
+  /** Milliseconds until the next request would be allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+// Both scripts read the time from Redis, so replicas with skewed clocks share one window
+const NOW = `
+local time = redis.call('time')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)`;
+
+// KEYS[1]: sorted set of the window's request times; ARGV: limit, window, unique member
+const SLIDING_WINDOW_SCRIPT = `${NOW}
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('zremrangebyscore', KEYS[1], '-inf', now - window)
+local count = redis.call('zcard', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('zadd', KEYS[1], now, ARGV[3])
+  redis.call('pexpire', KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('zrange', KEYS[1], 0, 0, 'withscores')
+local reset = tonumber(oldest[2]) + window - now
+return {allowed, limit - count, reset, allowed == 1 and 0 or reset}`;
+
+// KEYS[1]: hash of the tokens left and when they were counted; ARGV: capacity, ms per token
+const TOKEN_BUCKET_SCRIPT = `${NOW}
+local capacity = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+local state = redis.call('hmget', KEYS[1], 'tokens', 'at')
+local tokens = capacity
+if state[1] then
+  tokens = math.min(capacity, tonumber(state[1]) + (now - tonumber(state[2])) / interval)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+local reset = math.ceil((capacity - tokens) * interval)
+redis.call('hset', KEYS[1], 'tokens', tostring(tokens), 'at', now)
+redis.call('pexpire', KEYS[1], math.max(reset, 1))
+return {allowed, math.floor(tokens), reset, allowed == 1 and 0 or math.ceil((1 - tokens) * interval)}`;
+
+// Entries kept by the in-memory limiter before expired ones are swept
+const MEMORY_SWEEP_SIZE = 10000;
+
+type MemoryEntry =
+  | { expiresAt: number; hits: number[] }
+  | { expiresAt: number; tokens: number; at: number };
+
+/**
+ * The same algorithms as the Lua scripts, for this process alone. Used while Redis is not
+ * configured or unavailable.
+ */
+class MemoryRateLimiter {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  consume(key: string, options: RateLimitOptions, now = Date.now()): RateLimitResult {
+    if (this.entries.size >= MEMORY_SWEEP_SIZE) {
+      this.entries.forEach((entry, entryKey) => {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(entryKey);
+        }
+      });
+    }
+    return options.algorithm === 'token-bucket'
+      ? this.tokenBucket(key, options, now)
+      : this.slidingWindow(key, options, now);
+  }
+
+  private slidingWindow(key: string, { limit, windowMs }: RateLimitOptions, now: number) {
+    const entry = this.entries.get(key);
+    const hits = entry && 'hits' in entry ? entry.hits.filter((at) => at > now - windowMs) : [];
+    const allowed = hits.length < limit;
+    if (allowed) {
+      hits.push(now);
+    }
+    this.entries.set(key, { hits, expiresAt: hits[hits.length - 1] + windowMs });
+
+    const resetMs = hits[0] + windowMs - now;
+    return {
+      allowed,
+      remaining: limit - hits.length,
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs,
+    };
+  }
+
+  private tokenBucket(key: string, { limit, windowMs }: RateLimitOptions, now: number) {
+    const interval = windowMs / limit;
+    const entry = this.entries.get(key);
+    let tokens =
+      entry && 'tokens' in entry
+        ? Math.min(limit, entry.tokens + (now - entry.at) / interval)
+        : limit;
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+    const resetMs = Math.ceil((limit - tokens) * interval);
+    this.entries.set(key, { tokens, at: now, expiresAt: now + resetMs });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * interval),
+    };
+  }
+}
+
+/**
+ * Rate limit counters shared by all replicas through the `command` Redis connection, each
+ * check one atomic Lua script. Without a ready Redis connection, or when Redis fails, each
+ * replica counts on its own.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly logger = new Logger(RateLimiterService.name);
+  private readonly memory = new MemoryRateLimiter();
+
+  constructor(@Optional() private readonly connections?: RedisConnectionFactory) {}
+
+  /** Counts a request against the limit of `key` */
+  async consume(key: string, options: RateLimitOptions): Promise<RateLimitResult> {
+    const algorithm = options.algorithm ?? 'sliding-window';
+    const redisKey = `rate-limit:${algorithm}:${key}`;
+    const redis = this.redis();
+    if (!redis) {
+      return this.memory.consume(redisKey, options);
+    }
+
+    try {
+      const reply =
+        algorithm === 'token-bucket'
+          ? await redis.eval(
+              TOKEN_BUCKET_SCRIPT,
+              1,
+              redisKey,
+              options.limit,
+              options.windowMs / options.limit,
+            )
+          : await redis.eval(
+              SLIDING_WINDOW_SCRIPT,
+              1,
+              redisKey,
+              options.limit,
+              options.windowMs,
+              randomUUID(),
+            );
+      const [allowed, remaining, resetMs, retryAfterMs] = (reply as number[]).map(Number);
+      return { allowed: allowed === 1, remaining, resetMs, retryAfterMs };
+    } catch (error) {
+      this.logger.warn(`Failed to check rate limit ${key} in Redis: ${error.message}`);
+      return this.memory.consume(redisKey, options);
+    }
+  }
+
+  private redis(): RedisConnection | null {
+    const connection = this.connections?.get('command');
+    return connection?.status === 'ready' ? connection : null;
+  }
+}
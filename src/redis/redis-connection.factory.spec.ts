@@ -0,0 +1,171 @@
+import { ConfigService } from '@nestjs/config';
+import { RedisConnectionFactory } from './redis-connection.factory';
+
+// Every connection the factory created, in order
+const mockConnections: any[] = [];
+
+jest.mock('ioredis', () => {
+  const { EventEmitter: MockEventEmitter } = jest.requireActual('events');
+  class MockRedis extends MockEventEmitter {
+    status = 'wait';
+    connect = jest.fn(async () => {
+      this.status = 'ready';
+    });
+    subscribe = jest.fn(async () => 1);
+    unsubscribe = jest.fn(async () => 0);
+    quit = jest.fn(async () => 'OK');
+    disconnect = jest.fn();
+    args: any[];
+
+    constructor(...args: any[]) {
+      super();
+      this.args = args;
+      mockConnections.push(this);
+    }
+  }
+  return { __esModule: true, default: MockRedis, Cluster: class extends MockRedis {} };
+});
+
+describe('RedisConnectionFactory', () => {
+  let factory: RedisConnectionFactory;
+
+  const create = (values: Record<string, any>) =>
+    new RedisConnectionFactory({
+      get: jest.fn((key: string) => values[key]),
+    } as unknown as ConfigService);
+
+  beforeEach(() => {
+    mockConnections.length = 0;
+    factory = create({
+      'redis.url': 'redis://:secret@cache:6379/1',
+      'redis.bullUrl': 'redis://queues:6379',
+    });
+  });
+
+  it('should create each named connection once, lazily', () => {
+    const command = factory.get('command');
+
+    expect(factory.get('command')).toBe(command);
+    expect(factory.get('pub')).not.toBe(command);
+    expect(mockConnections).toHaveLength(2);
+    expect(mockConnections[0].args[0]).toMatchObject({
+      host: 'cache',
+      port: 6379,
+      db: 1,
+      password: 'secret',
+      lazyConnect: true,
+    });
+  });
+
+  it('should return null without a Redis URL', async () => {
+    factory = create({});
+
+    expect(factory.get('command')).toBeNull();
+    await expect(factory.connect('pub')).resolves.toBeNull();
+    expect(mockConnections).toHaveLength(0);
+  });
+
+  it('should build Sentinel and Cluster clients from the URL', () => {
+    factory = create({
+      'redis.url': 'rediss+sentinel://sentinel-1,sentinel-2/mymaster',
+      'redis.bullUrl': 'redis+cluster://node-1:7000,node-2:7001',
+      'redis.password': 'from-config',
+    });
+
+    factory.get('command');
+    factory.get('bull');
+
+    const [sentinel, cluster] = mockConnections;
+    expect(sentinel.args[0]).toMatchObject({
+      sentinels: [
+        { host: 'sentinel-1', port: 26379 },
+        { host: 'sentinel-2', port: 26379 },
+      ],
+      name: 'mymaster',
+      enableTLSForSentinelMode: true,
+      tls: {},
+      password: 'from-config',
+    });
+    expect(cluster.args[0]).toEqual([
+      { host: 'node-1', port: 7000 },
+      { host: 'node-2', port: 7001 },
+    ]);
+    expect(cluster.args[1].redisOptions).toMatchObject({ password: 'from-config' });
+  });
+
+  it('should fall back to the REDIS_MODE settings without a URL', () => {
+    factory = create({
+      redis: { mode: 'cluster', clusterNodes: ['node-1:7000'], password: 'from-config' },
+      'redis.password': 'from-config',
+    });
+
+    factory.get('command');
+
+    expect(factory.urlFor('bull')).toMatchObject({ mode: 'cluster' });
+    expect(mockConnections[0].args[0]).toEqual([{ host: 'node-1', port: 7000 }]);
+  });
+
+  it('should wrap the Bull prefix in a hash tag on a cluster', () => {
+    expect(factory.bullPrefix()).toBe('bull');
+
+    factory = create({ 'redis.bullUrl': 'redis+cluster://node-1', 'redis.bullPrefix': 'queues' });
+    expect(factory.bullPrefix()).toBe('{queues}');
+
+    factory = create({ 'redis.bullUrl': 'redis+cluster://node-1', 'redis.bullPrefix': 'q{x}' });
+    expect(factory.bullPrefix()).toBe('q{x}');
+  });
+
+  it('should share one subscriber connection across channels', async () => {
+    const orders = jest.fn();
+    const calls = jest.fn();
+    const unsubscribeOrders = await factory.subscribe('orders', orders);
+    const unsubscribeCalls = await factory.subscribe('calls', calls);
+    const unsubscribeOrdersAgain = await factory.subscribe('orders', jest.fn());
+
+    expect(mockConnections).toHaveLength(1);
+    const [subscriber] = mockConnections;
+    expect(subscriber.connect).toHaveBeenCalledTimes(1);
+    expect(subscriber.subscribe.mock.calls).toEqual([['orders'], ['calls']]);
+
+    subscriber.emit('message', 'calls', '{"id":1}');
+    expect(calls).toHaveBeenCalledWith('{"id":1}');
+    expect(orders).not.toHaveBeenCalled();
+
+    await unsubscribeCalls();
+    await unsubscribeOrders();
+    expect(subscriber.unsubscribe.mock.calls).toEqual([['calls']]);
+    await unsubscribeOrdersAgain();
+    expect(subscriber.unsubscribe.mock.calls).toEqual([['calls'], ['orders']]);
+  });
+
+  it('should give Bull shared client and subscriber connections and new blocking ones', () => {
+    const client = factory.createBullClient('client');
+    const subscriber = factory.createBullClient('subscriber');
+
+    expect(factory.createBullClient('client')).toBe(client);
+    expect(factory.createBullClient('subscriber')).toBe(subscriber);
+    expect(factory.createBullClient('bclient')).not.toBe(factory.createBullClient('bclient'));
+    expect(mockConnections).toHaveLength(4);
+    expect(mockConnections[0].args[0]).toMatchObject({
+      host: 'queues',
+      maxRetriesPerRequest: 0,
+      enableReadyCheck: false,
+    });
+  });
+
+  it('should close every connection on module destroy', async () => {
+    factory.get('command');
+    await factory.subscribe('orders', jest.fn());
+    factory.createBullClient('bclient');
+    mockConnections[0].quit.mockRejectedValueOnce(new Error('Connection is closed.'));
+
+    await factory.onModuleDestroy();
+
+    expect(mockConnections).toHaveLength(3);
+    mockConnections.forEach((connection) => expect(connection.quit).toHaveBeenCalled());
+    expect(mockConnections[0].disconnect).toHaveBeenCalled();
+
+    factory.get('command');
+    expect(mockConnections).toHaveLength(4);
+  });
+});
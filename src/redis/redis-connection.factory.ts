@@ -0,0 +1,251 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis, { Cluster, RedisOptions } from 'ioredis';
+import { RedisSettings, RedisUrl, parseRedisUrl, redisUrlFromSettings } from './redis-url';
+
+export type RedisConnection = Redis | Cluster;
+
+/**
+ * `command` serves cache reads and writes, `pub` publishes, `sub` is the one subscriber for
+ * every channel and `bull` is Bull's command connection (on `BULL_REDIS_URL` when set).
+ */
+export type RedisConnectionName = 'command' | 'pub' | 'sub' | 'bull';
+
+export type BullClientType = 'client' | 'subscriber' | 'bclient';
+
+type MessageListener = (message: string) => void;
+
+/**
+ * Owns every Redis connection of the application: parses `REDIS_URL` / `BULL_REDIS_URL`
+ * (standalone, `rediss://`, Sentinel and Cluster) or, without them, the `REDIS_MODE`
+ * settings, creates each named connection once on first use, and closes all of them when
+ * the application shuts down. Without either there is no Redis and `get` returns null.
+ */
+@Injectable()
+export class RedisConnectionFactory implements OnModuleDestroy {
+  private readonly logger = new Logger(RedisConnectionFactory.name);
+  private readonly connections = new Map<string, RedisConnection>();
+  // Bull opens one blocking connection per queue; they are closed with the rest
+  private readonly blockingConnections = new Set<RedisConnection>();
+  private readonly channels = new Map<string, Set<MessageListener>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /** Where a connection goes, or null when Redis is not configured */
+  urlFor(name: RedisConnectionName): RedisUrl | null {
+    const url = this.configService.get<string>(name === 'bull' ? 'redis.bullUrl' : 'redis.url');
+    if (url) {
+      return parseRedisUrl(url);
+    }
+    const settings = this.configService.get<RedisSettings>('redis');
+    return settings?.mode ? redisUrlFromSettings(settings) : null;
+  }
+
+  /** Bull's key prefix, see `keyPrefix` */
+  bullPrefix(): string {
+    return this.keyPrefix(this.configService.get<string>('redis.bullPrefix') || 'bull', 'bull');
+  }
+
+  /**
+   * A prefix for keys that are used together, e.g. by one Lua script or multi-key command.
+   * A Cluster needs such keys in one slot, so the prefix becomes a hash tag there unless it
+   * already holds one.
+   */
+  keyPrefix(prefix: string, name: RedisConnectionName = 'command'): string {
+    return this.urlFor(name)?.mode === 'cluster' && !/\{[^}]+\}/.test(prefix)
+      ? `{${prefix}}`
+      : prefix;
+  }
+
+  get(name: RedisConnectionName): RedisConnection | null {
+    return this.open(name, name, () => this.urlFor(name));
+  }
+
+  /** Like `get`, but connects the connection if it has not been yet */
+  async connect(name: RedisConnectionName): Promise<RedisConnection | null> {
+    const connection = this.get(name);
+    if (connection?.status === 'wait') {
+      await connection.connect();
+    }
+    return connection;
+  }
+
+  /**
+   * The independent Redis masters Redlock-style locks are taken on: one connection per
+   * `REDIS_LOCK_URLS` entry, or just the `command` connection. Empty without Redis.
+   */
+  lockConnections(): RedisConnection[] {
+    const urls = this.configService.get<string[]>('redis.lockUrls') ?? [];
+    if (urls.length === 0) {
+      return [this.get('command')].filter(Boolean);
+    }
+    return urls.map((url, index) =>
+      this.open(`lock:${index}`, 'command', () => parseRedisUrl(url)),
+    );
+  }
+
+  /**
+   * Subscribes through the shared `sub` connection. A channel is subscribed on Redis once,
+   * whatever the number of listeners, and unsubscribed when its last listener is removed
+   * by calling the returned function.
+   */
+  async subscribe(channel: string, listener: MessageListener): Promise<() => Promise<void>> {
+    const subscriber = await this.connect('sub');
+    if (!subscriber) {
+      return async () => undefined;
+    }
+
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+      await subscriber.subscribe(channel);
+    }
+    listeners.add(listener);
+
+    return async () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.channels.get(channel) === listeners) {
+        this.channels.delete(channel);
+        await subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  /**
+   * `createClient` for Bull: queues share the command and subscriber connections, while each
+   * blocking connection is new, as Bull requires.
+   */
+  createBullClient(type: BullClientType): RedisConnection {
+    if (type === 'client') {
+      return this.get('bull');
+    }
+    if (type === 'subscriber') {
+      return this.open('bull:subscriber', 'bull', () => this.urlFor('bull'));
+    }
+    return this.createBlockingConnection('bull');
+  }
+
+  /**
+   * A new connection for blocking commands, which would hold up every other user of a
+   * shared one. Closed with the others on shutdown unless its user quits it first; null
+   * without Redis.
+   */
+  createBlockingConnection(name: RedisConnectionName = 'command'): RedisConnection | null {
+    const url = this.urlFor(name);
+    if (!url) {
+      return null;
+    }
+    const connection = this.create(name, url);
+    this.blockingConnections.add(connection);
+    connection.once('end', () => this.blockingConnections.delete(connection));
+    return connection;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    const all = [...this.connections.values(), ...this.blockingConnections];
+    this.connections.clear();
+    this.blockingConnections.clear();
+    this.channels.clear();
+
+    await Promise.all(
+      all.map(async (connection) => {
+        try {
+          await connection.quit();
+        } catch {
+          connection.disconnect();
+        }
+      }),
+    );
+  }
+
+  private open(
+    key: string,
+    name: RedisConnectionName,
+    resolveUrl: () => RedisUrl | null,
+  ): RedisConnection | null {
+    if (this.connections.has(key)) {
+      return this.connections.get(key);
+    }
+
+    const url = resolveUrl();
+    if (!url) {
+      return null;
+    }
+    const connection = this.create(name, url);
+    if (key === 'sub') {
+      connection.on('message', (channel: string, message: string) => {
+        this.channels.get(channel)?.forEach((listener) => listener(message));
+      });
+    }
+    this.connections.set(key, connection);
+    return connection;
+  }
+
+  private create(name: RedisConnectionName, url: RedisUrl): RedisConnection {
+    const options: RedisOptions = {
+      ...this.connectionOptions(name),
+      username: url.username,
+      password: url.password ?? (this.configService.get<string>('redis.password') || undefined),
+      tls: url.tls ? {} : undefined,
+    };
+
+    const connection =
+      url.mode === 'cluster'
+        ? new Cluster(url.nodes, {
+            lazyConnect: options.lazyConnect,
+            enableOfflineQueue: options.enableOfflineQueue,
+            clusterRetryStrategy: options.retryStrategy,
+            redisOptions: options,
+          })
+        : new Redis({
+            ...options,
+            db: url.db,
+            ...(url.mode === 'sentinel'
+              ? {
+                  sentinels: url.nodes,
+                  name: url.sentinelMaster,
+                  enableTLSForSentinelMode: url.tls,
+                  // Follow failovers as soon as the sentinels announce them, and reconnect
+                  // when a write still reaches the demoted master
+                  failoverDetector: true,
+                  reconnectOnError: (error: Error) => error.message.startsWith('READONLY'),
+                }
+              : url.nodes[0]),
+          });
+
+    // Without a listener ioredis reports connection errors as unhandled
+    connection.on('error', (error: Error) => {
+      this.logger.error(`Redis ${name} connection error: ${error.message}`);
+    });
+    return connection;
+  }
+
+  private connectionOptions(name: RedisConnectionName): RedisOptions {
+    const retryStrategy = (times: number) => {
+      if (times <= 3) {
+        this.logger.warn(`Redis ${name} connection attempt ${times} failed`);
+      }
+      // Stop retrying after 3 attempts so the application runs without Redis
+      return times >= 3 ? null : Math.min(times * 100, 2000);
+    };
+
+    if (name === 'bull') {
+      // Bull refuses ready checks and request retries on its subscriber and blocking clients,
+      // and waits for `ready` without sending a command, so these connect right away
+      return {
+        lazyConnect: false,
+        maxRetriesPerRequest: 0,
+        enableReadyCheck: false,
+        enableOfflineQueue: false,
+        retryStrategy,
+      };
+    }
+    return {
+      lazyConnect: true,
+      enableOfflineQueue: name === 'sub',
+      showFriendlyErrorStack: true,
+      retryStrategy,
+    };
+  }
+}
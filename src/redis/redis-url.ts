@@ -0,0 +1,165 @@
+export type RedisMode = 'standalone' | 'sentinel' | 'cluster';
+
+export const REDIS_MODES: RedisMode[] = ['standalone', 'sentinel', 'cluster'];
+
+export interface RedisNode {
+  host: string;
+  port: number;
+}
+
+export interface RedisUrl {
+  mode: RedisMode;
+  tls: boolean;
+  // Redis servers for `standalone` and `cluster` (seed nodes), the sentinels for `sentinel`
+  nodes: RedisNode[];
+  username?: string;
+  password?: string;
+  db?: number;
+  // Name of the master the sentinels monitor
+  sentinelMaster?: string;
+}
+
+const SCHEMES: Record<string, { mode: RedisMode; tls: boolean; defaultPort: number }> = {
+  redis: { mode: 'standalone', tls: false, defaultPort: 6379 },
+  rediss: { mode: 'standalone', tls: true, defaultPort: 6379 },
+  'redis+sentinel': { mode: 'sentinel', tls: false, defaultPort: 26379 },
+  'rediss+sentinel': { mode: 'sentinel', tls: true, defaultPort: 26379 },
+  'redis+cluster': { mode: 'cluster', tls: false, defaultPort: 6379 },
+  'rediss+cluster': { mode: 'cluster', tls: true, defaultPort: 6379 },
+};
+
+/** Discrete `REDIS_*` settings, the alternative to a URL */
+export interface RedisSettings {
+  mode?: string;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  db?: number;
+  tls?: boolean;
+  sentinels?: string[];
+  sentinelMaster?: string;
+  clusterNodes?: string[];
+}
+
+const URL_PATTERN = /^([a-z+]+):\/\/(?:([^:@/]*)(?::([^@/]*))?@)?([^/?#]+)(?:\/([^?#]*))?$/i;
+
+/**
+ * Parses a Redis connection URL:
+ *
+ *   redis[s]://[user:password@]host[:port][/db]
+ *   redis[s]+sentinel://[user:password@]sentinel1[:port],sentinel2[:port]/master[/db]
+ *   redis[s]+cluster://[user:password@]node1[:port],node2[:port]
+ *
+ * `rediss` schemes connect over TLS. The `default` user is dropped so password-only servers
+ * are not sent an ACL username. Throws on anything else, naming the problem but not the URL,
+ * which may hold a password.
+ */
+export function parseRedisUrl(url: string): RedisUrl {
+  const match = URL_PATTERN.exec(url.trim());
+  const scheme = SCHEMES[match?.[1].toLowerCase()];
+  if (!match || !scheme) {
+    throw new Error(
+      `Unsupported Redis URL; expected one of ${Object.keys(SCHEMES)
+        .map((name) => `${name}://`)
+        .join(', ')}`,
+    );
+  }
+
+  const [, , rawUsername, rawPassword, hosts, rawPath = ''] = match;
+  const nodes = hosts.split(',').map((node) => parseNode(node, scheme.defaultPort));
+  if (scheme.mode === 'standalone' && nodes.length > 1) {
+    throw new Error(
+      'A standalone Redis URL takes a single host; use redis+cluster:// or redis+sentinel://',
+    );
+  }
+
+  const path = rawPath.split('/').filter(Boolean);
+  const username = rawUsername ? decodeURIComponent(rawUsername) : undefined;
+  const result: RedisUrl = {
+    mode: scheme.mode,
+    tls: scheme.tls,
+    nodes,
+    username: username && username !== 'default' ? username : undefined,
+    password: rawPassword ? decodeURIComponent(rawPassword) : undefined,
+  };
+
+  if (scheme.mode === 'sentinel') {
+    if (!path[0]) {
+      throw new Error('A Redis Sentinel URL needs the master name as its path');
+    }
+    result.sentinelMaster = decodeURIComponent(path[0]);
+    path.shift();
+  }
+  if (path[0] !== undefined) {
+    if (scheme.mode === 'cluster') {
+      throw new Error('A Redis Cluster URL cannot select a database');
+    }
+    result.db = parseInteger(path[0], 'database');
+  }
+
+  return result;
+}
+
+/**
+ * Same result as `parseRedisUrl`, from discrete settings: `standalone` connects to
+ * `host:port`, `sentinel` asks `sentinels` for `sentinelMaster` and `cluster` starts from the
+ * `clusterNodes` seeds. Nodes are `host[:port]`.
+ */
+export function redisUrlFromSettings(settings: RedisSettings): RedisUrl {
+  if (!REDIS_MODES.includes(settings.mode as RedisMode)) {
+    throw new Error(`Unsupported Redis mode; expected one of ${REDIS_MODES.join(', ')}`);
+  }
+  const result: RedisUrl = {
+    mode: settings.mode as RedisMode,
+    tls: settings.tls ?? false,
+    nodes: [],
+    username: settings.username && settings.username !== 'default' ? settings.username : undefined,
+    password: settings.password || undefined,
+  };
+
+  switch (settings.mode) {
+    case 'standalone':
+      result.nodes = [{ host: settings.host || 'localhost', port: settings.port || 6379 }];
+      result.db = settings.db;
+      break;
+    case 'sentinel':
+      if (!settings.sentinels?.length || !settings.sentinelMaster) {
+        throw new Error('Redis Sentinel mode needs REDIS_SENTINELS and REDIS_SENTINEL_MASTER');
+      }
+      result.nodes = settings.sentinels.map((node) => parseNode(node, 26379));
+      result.sentinelMaster = settings.sentinelMaster;
+      result.db = settings.db;
+      break;
+    case 'cluster':
+      if (!settings.clusterNodes?.length) {
+        throw new Error('Redis Cluster mode needs REDIS_CLUSTER_NODES');
+      }
+      if (settings.db) {
+        throw new Error('A Redis Cluster cannot select a database');
+      }
+      result.nodes = settings.clusterNodes.map((node) => parseNode(node, 6379));
+      break;
+  }
+  return result;
+}
+
+function parseNode(node: string, defaultPort: number): RedisNode {
+  // [ipv6]:port or host:port
+  const match = /^(\[[^\]]+\]|[^:]+)(?::(\d*))?$/.exec(node.trim());
+  if (!match) {
+    throw new Error('Invalid host in Redis URL');
+  }
+  const [, host, port] = match;
+  return {
+    host: host.replace(/^\[|\]$/g, ''),
+    port: port ? parseInteger(port, 'port') : defaultPort,
+  };
+}
+
+function parseInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${name} in Redis URL`);
+  }
+  return parseInt(value, 10);
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { RedisConnectionFactory } from './redis-connection.factory';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [RedisConnectionFactory],
+  exports: [RedisConnectionFactory],
+})
+export class RedisModule {}
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
-import { DataSource, Repository } from 'typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
 import { Call } from '../entities/call.entity';
+import { CacheEvict, Cacheable } from '../cache/cache.decorators';
 
 @Injectable()
 export class CallRepository extends Repository<Call> {
@@ -16,24 +17,63 @@ export class CallRepository extends Repository<Call> {
     });
   }
 
+  // Kept for the hour `CallEventsHandler` also caches new calls under this key; unknown ids
+  // are remembered for a minute
+  @Cacheable({ key: 'call:{0}', ttl: 3600, negativeTtl: 60, type: Call })
   async findCallById(id: string): Promise<Call | null> {
     return this.findOne({
       where: { id },
     });
   }
 
-  async createCall(callData: Partial<Call>): Promise<Call> {
+  async createCall(callData: Partial<Call>, manager?: EntityManager): Promise<Call> {
+    // Pass a transactional manager to make the write part of a wider unit of work
+    if (manager) {
+      const repository = manager.getRepository(Call);
+      return repository.save(repository.create(callData));
+    }
     const call = this.create(callData);
     return this.save(call);
   }
 
+  /**
+   * Inserts the call under `id` unless a call with that id exists, so an event delivered
+   * again creates its call once. Resolves to the stored call either way.
+   */
+  async createCallOnce(id: string, callData: Partial<Call>): Promise<Call> {
+    await this.createQueryBuilder()
+      .insert()
+      .values({ ...callData, id })
+      .orIgnore()
+      .execute();
+    return this.findOne({ where: { id } });
+  }
+
   async updateCallStatus(id: string, status: string): Promise<Call | null> {
-    const call = await this.findCallById(id);
+    return this.updateCall(id, { status });
+  }
+
+  /**
+   * Applies `changes` to the stored call, read from the database rather than the cache. Pass
+   * a function to derive them from that call, e.g. to merge into its metadata.
+   */
+  @CacheEvict('call:{0}')
+  async updateCall(
+    id: string,
+    changes: Partial<Call> | ((call: Call) => Partial<Call>),
+  ): Promise<Call | null> {
+    const call = await this.findOne({ where: { id } });
     if (!call) {
       return null;
     }
-    call.status = status;
-    return this.save(call);
+    return this.save(Object.assign(call, typeof changes === 'function' ? changes(call) : changes));
+  }
+
+  /** Resolves to false when there was no such call */
+  @CacheEvict('call:{0}')
+  async deleteCall(id: string): Promise<boolean> {
+    const result = await this.delete({ id });
+    return result.affected > 0;
   }
 
   async findCallsByStatus(status: string): Promise<Call[]> {
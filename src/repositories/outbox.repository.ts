@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, EntityManager, IsNull, Repository } from 'typeorm';
+import { OutboxMessage } from '../entities/outbox-message.entity';
+
+@Injectable()
+export class OutboxRepository extends Repository<OutboxMessage> {
+  constructor(private dataSource: DataSource) {
+    super(OutboxMessage, dataSource.createEntityManager());
+  }
+
+  async enqueue(
+    message: Pick<OutboxMessage, 'messageId' | 'topic' | 'messageKey' | 'payload' | 'headers'>,
+    manager?: EntityManager,
+  ): Promise<OutboxMessage> {
+    // Writing through the caller's manager keeps the row in its transaction
+    const repository = manager ? manager.getRepository(OutboxMessage) : this;
+    const row = repository.create({ ...message, attempts: 0 });
+    return repository.save(row);
+  }
+
+  /**
+   * Unpublished rows that may be sent at `now`, in insertion order. Rows still backing off are
+   * left out, and so are the later rows with their key, which have to wait for them; this way
+   * a key with a batch worth of rows waiting never holds up the rows of other keys.
+   */
+  async findPending(limit = 100, now: Date = new Date()): Promise<OutboxMessage[]> {
+    const waiting = this.createQueryBuilder('earlier')
+      .select('1')
+      .where('earlier.publishedAt IS NULL')
+      .andWhere('earlier.parkedAt IS NULL')
+      .andWhere('earlier.nextAttemptAt > :now')
+      .andWhere(
+        '(earlier.sequence = row.sequence OR ' +
+          '(earlier.messageKey = row.messageKey AND earlier.sequence < row.sequence))',
+      );
+
+    return this.createQueryBuilder('row')
+      .where('row.publishedAt IS NULL')
+      .andWhere('row.parkedAt IS NULL')
+      .andWhere(`NOT EXISTS (${waiting.getQuery()})`)
+      .setParameter('now', now)
+      .orderBy('row.sequence', 'ASC')
+      .limit(limit)
+      .getMany();
+  }
+
+  async markPublished(sequence: string): Promise<void> {
+    await this.update(sequence, { publishedAt: new Date(), lastError: null });
+  }
+
+  async markFailed(
+    sequence: string,
+    attempts: number,
+    error: string,
+    nextAttemptAt: Date,
+  ): Promise<void> {
+    await this.update(sequence, { attempts, lastError: error, nextAttemptAt });
+  }
+
+  /** Gives up on a row: it is no longer relayed and no longer holds back its key */
+  async markParked(sequence: string, attempts: number, error: string): Promise<void> {
+    await this.update(sequence, { attempts, lastError: error, parkedAt: new Date() });
+  }
+
+  async countPending(): Promise<number> {
+    return this.count({ where: { publishedAt: IsNull(), parkedAt: IsNull() } });
+  }
+}
@@ -1,14 +1,24 @@
 import { Injectable, LoggerService as NestLoggerService, Scope } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as pino from 'pino';
+import { collectSecrets, redactConfig, redactSecrets } from '../config/redact-config';
 
+/**
+ * Application logger. Every message, trace and extra param passes through `redactConfig`:
+ * fields named like secrets are censored at any depth, and any configured secret value (see
+ * `collectSecrets`) or URL credential appearing in them is replaced.
+ *
+ * Nest calls it as `log(message, ...params, context)`, its `Logger` appending its context
+ * last, so a trailing string is the context and other params are written under `params`.
+ */
 @Injectable({ scope: Scope.TRANSIENT })
 export class LoggerService implements NestLoggerService {
   private logger: pino.Logger;
   private context?: string;
+  private readonly secrets = collectSecrets();
 
   constructor(private configService?: ConfigService) {
-    const level = this.configService?.get('logging.level') || 'info';
+    const level = this.configService?.get('logging.level') || process.env.LOG_LEVEL || 'info';
     const isDevelopment =
       (this.configService?.get('node_env') || process.env.NODE_ENV) === 'development';
     const prettyPrint = this.configService?.get('logging.prettyPrint') ?? isDevelopment;
@@ -48,27 +58,53 @@ export class LoggerService implements NestLoggerService {
     this.context = context;
   }
 
-  log(message: any, context?: string) {
-    this.logger.info({ context: context || this.context }, message);
+  log(message: any, ...optionalParams: any[]) {
+    this.write('info', message, optionalParams);
   }
 
-  error(message: any, trace?: string, context?: string) {
-    this.logger.error({ context: context || this.context, trace }, message);
+  /** Nest passes `error(message, stack?, context?)`, the stack undefined when there is none */
+  error(message: any, ...optionalParams: any[]) {
+    const [trace, ...params] =
+      typeof optionalParams[0] === 'string' || optionalParams[0] === undefined
+        ? optionalParams
+        : [undefined, ...optionalParams];
+    this.write('error', message, params, trace);
   }
 
-  warn(message: any, context?: string) {
-    this.logger.warn({ context: context || this.context }, message);
+  warn(message: any, ...optionalParams: any[]) {
+    this.write('warn', message, optionalParams);
   }
 
-  debug(message: any, context?: string) {
-    this.logger.debug({ context: context || this.context }, message);
+  debug(message: any, ...optionalParams: any[]) {
+    this.write('debug', message, optionalParams);
   }
 
-  verbose(message: any, context?: string) {
-    this.logger.trace({ context: context || this.context }, message);
+  verbose(message: any, ...optionalParams: any[]) {
+    this.write('trace', message, optionalParams);
   }
 
-  fatal(message: any, context?: string) {
-    this.logger.fatal({ context: context || this.context }, message);
+  fatal(message: any, ...optionalParams: any[]) {
+    this.write('fatal', message, optionalParams);
+  }
+
+  private write(level: pino.Level, message: any, optionalParams: any[], trace?: string) {
+    const params = [...optionalParams];
+    const context = typeof params[params.length - 1] === 'string' ? params.pop() : undefined;
+    const extra = params.filter((param) => param !== undefined).map((param) => this.redact(param));
+    this.logger[level](
+      {
+        context: context || this.context,
+        ...(trace !== undefined && { trace: this.redact(trace) }),
+        ...(extra.length > 0 && { params: extra }),
+      },
+      this.redact(message),
+    );
+  }
+
+  private redact(value: any): any {
+    if (value instanceof Error) {
+      return redactSecrets(value.stack ?? value.message, this.secrets);
+    }
+    return redactConfig(value, this.secrets);
   }
 }
@@ -43,4 +43,20 @@ describe('MetricsService', () => {
     expect(typeof metrics).toBe('string');
     expect(metrics).toContain('# HELP');
   });
+
+  it('should replace the consumer lag series on each update', async () => {
+    service.setConsumerLag([
+      { groupId: 'core-pipeline-group', topic: 'call-events', partition: 0, lag: 12 },
+      { groupId: 'core-pipeline-group', topic: 'call-events', partition: 1, lag: 3 },
+    ]);
+    service.setConsumerLag([
+      { groupId: 'core-pipeline-group', topic: 'call-events', partition: 0, lag: 4 },
+    ]);
+
+    const metrics = await service.getMetrics();
+    expect(metrics).toContain(
+      'kafka_consumer_lag{group="core-pipeline-group",topic="call-events",partition="0",app="core-pipeline",env="test"} 4',
+    );
+    expect(metrics).not.toContain('partition="1"');
+  });
 });
@@ -1,13 +1,16 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as promClient from 'prom-client';
 
 @Injectable()
 export class MetricsService implements OnModuleInit {
+  private readonly logger = new Logger(MetricsService.name);
   private register: promClient.Registry;
   public httpRequestDuration: promClient.Histogram<string>;
   public httpRequestTotal: promClient.Counter<string>;
   public httpRequestErrors: promClient.Counter<string>;
+  public kafkaConsumerLag: promClient.Gauge<string>;
+  public cacheLookups: promClient.Counter<string>;
   private static isInitialized = false;
 
   constructor(private configService: ConfigService) {
@@ -66,12 +69,36 @@ export class MetricsService implements OnModuleInit {
         registers: [this.register],
       });
     }
+
+    const existingLag = this.register.getSingleMetric('kafka_consumer_lag');
+    if (existingLag) {
+      this.kafkaConsumerLag = existingLag as promClient.Gauge<string>;
+    } else {
+      this.kafkaConsumerLag = new promClient.Gauge({
+        name: 'kafka_consumer_lag',
+        help: 'Messages a consumer group has not yet consumed, per topic partition',
+        labelNames: ['group', 'topic', 'partition'],
+        registers: [this.register],
+      });
+    }
+
+    const existingCacheLookups = this.register.getSingleMetric('cache_lookups_total');
+    if (existingCacheLookups) {
+      this.cacheLookups = existingCacheLookups as promClient.Counter<string>;
+    } else {
+      this.cacheLookups = new promClient.Counter({
+        name: 'cache_lookups_total',
+        help: 'Cache-aside lookups per cached method, by result (hit or miss)',
+        labelNames: ['cache', 'result'],
+        registers: [this.register],
+      });
+    }
   }
 
   onModuleInit() {
     const metricsEnabled = this.configService.get('metrics.enabled');
     if (!metricsEnabled) {
-      console.log('Metrics collection disabled');
+      this.logger.log('Metrics collection disabled');
     }
   }
 
@@ -104,4 +131,18 @@ export class MetricsService implements OnModuleInit {
       error_type: errorType,
     });
   }
+
+  /** Replaces every lag series, so partitions and groups that went away stop being reported */
+  setConsumerLag(
+    partitions: Array<{ groupId: string; topic: string; partition: number; lag: number }>,
+  ) {
+    this.kafkaConsumerLag.reset();
+    for (const { groupId, topic, partition, lag } of partitions) {
+      this.kafkaConsumerLag.set({ group: groupId, topic, partition: partition.toString() }, lag);
+    }
+  }
+
+  recordCacheLookup(cache: string, result: 'hit' | 'miss') {
+    this.cacheLookups.inc({ cache, result });
+  }
 }
@@ -5,14 +5,17 @@ import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
 import { BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
 import { trace } from '@opentelemetry/api';
+import { LoggerService } from '../services/logger.service';
 
 export function initTracing() {
   const serviceName = process.env.OTEL_SERVICE_NAME || 'core-pipeline';
   const otlpEndpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318';
   const tracingEnabled = process.env.TRACING_ENABLED !== 'false';
+  const logger = new LoggerService();
+  logger.setContext('Tracing');
 
   if (!tracingEnabled) {
-    console.log('OpenTelemetry tracing disabled');
+    logger.log('OpenTelemetry tracing disabled');
     return null;
   }
 
@@ -45,7 +48,7 @@ export function initTracing() {
   });
 
   sdk.start();
-  console.log(`OpenTelemetry tracing initialized for ${serviceName}`);
+  logger.log(`OpenTelemetry tracing initialized for ${serviceName}`);
 
   return trace.getTracer(serviceName);
 }
@@ -0,0 +1,224 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import * as request from 'supertest';
+import { ShowcaseController } from '../../controllers/showcase.controller';
+import { MetricsService } from '../../services/metrics.service';
+import { KafkaModule } from '../../kafka/kafka.module';
+import { KafkaLagMonitorService } from '../../kafka/services/kafka-lag-monitor.service';
+import { CallEventsHandler } from '../../kafka/handlers/call-events.handler';
+import { CallRepository } from '../../repositories/call.repository';
+import { Call } from '../../entities/call.entity';
+import { OutboxMessage } from '../../entities/outbox-message.entity';
+import { EventRecord } from '../../entities/event-record.entity';
+import configuration from '../../config/configuration';
+
+/**
+ * Runs the real Kafka module on the in-memory broker (`kafka.transport` defaults to `memory`
+ * in tests), so produced messages go through the consumer to their handlers.
+ */
+describe('Kafka in-memory transport E2E Tests', () => {
+  let app: INestApplication;
+  let callRepository: CallRepository;
+  let handler: CallEventsHandler;
+
+  const eventually = async (assertion: () => Promise<void>, timeoutMs = 3000) => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      try {
+        await assertion();
+        return;
+      } catch (error) {
+        if (Date.now() > deadline) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    }
+  };
+
+  const produceCall = async (callerId: string): Promise<string> => {
+    const produced = await request(app.getHttpServer())
+      .post('/api/showcase/kafka/produce')
+      .send({
+        topic: 'call-events',
+        key: callerId,
+        value: { eventType: 'CallInitiated', schemaVersion: 1, callerId, recipientId: 'e2e' },
+      })
+      .expect(201);
+    return produced.body.messageId;
+  };
+
+  const handled = (messageId: string) =>
+    (handler.handleCallEvent as jest.Mock).mock.calls.some(
+      ([, headers]) => headers.messageId === messageId,
+    );
+
+  // Long enough for the in-memory consumer to have delivered a message it was going to
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 300));
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ load: [configuration], isGlobal: true, ignoreEnvFile: true }),
+        TypeOrmModule.forRoot({
+          type: 'sqlite',
+          database: ':memory:',
+          entities: [Call, OutboxMessage, EventRecord],
+          synchronize: true,
+          dropSchema: true,
+          logging: false,
+        }),
+        KafkaModule,
+      ],
+      controllers: [ShowcaseController],
+      providers: [MetricsService, KafkaLagMonitorService],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        transform: true,
+        forbidNonWhitelisted: true,
+      }),
+    );
+
+    handler = app.get(CallEventsHandler);
+    jest.spyOn(handler, 'handleCallEvent');
+    await app.init();
+
+    callRepository = app.get(CallRepository);
+  }, 15000);
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should create the manifest topics on the in-memory broker', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/api/showcase/kafka/admin/topics/call-events')
+      .expect(200);
+
+    expect(response.body.partitions).toHaveLength(6);
+    expect(response.body.configs).toMatchObject({ 'cleanup.policy': 'delete' });
+  });
+
+  it('should consume a produced call event with the call-events handler', async () => {
+    const produced = await request(app.getHttpServer())
+      .post('/api/showcase/kafka/produce')
+      .send({
+        topic: 'call-events',
+        key: 'call-e2e',
+        value: {
+          eventType: 'CallInitiated',
+          schemaVersion: 1,
+          callerId: 'e2e-caller',
+          recipientId: 'e2e-recipient',
+        },
+      })
+      .expect(201);
+
+    expect(produced.body).toMatchObject({ success: true, topic: 'call-events' });
+    expect(produced.body.partition).toBeGreaterThanOrEqual(0);
+
+    await eventually(async () => {
+      expect(handler.handleCallEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ callerId: 'e2e-caller' }),
+        expect.objectContaining({ messageId: produced.body.messageId }),
+        expect.objectContaining({ topic: 'call-events', key: 'call-e2e' }),
+      );
+      const calls = await callRepository.find({ where: { callerId: 'e2e-caller' } });
+      expect(calls).toHaveLength(1);
+      expect(calls[0].recipientId).toBe('e2e-recipient');
+    });
+  });
+
+  it('should create the call of a redelivered CallInitiated event once', async () => {
+    const produced = await request(app.getHttpServer())
+      .post('/api/showcase/kafka/produce')
+      .send({
+        topic: 'call-events',
+        key: 'call-redelivered',
+        value: {
+          eventType: 'CallInitiated',
+          schemaVersion: 1,
+          callerId: 'redelivered-caller',
+          recipientId: 'e2e-recipient',
+        },
+      })
+      .expect(201);
+
+    await eventually(async () => {
+      await expect(
+        callRepository.findOneBy({ id: produced.body.messageId }),
+      ).resolves.toMatchObject({
+        callerId: 'redelivered-caller',
+      });
+    });
+    // As the consumer hands it over again after a rebalance
+    const [event, headers] = (handler.handleCallEvent as jest.Mock).mock.calls.find(
+      ([, { messageId }]) => messageId === produced.body.messageId,
+    );
+    await handler.handleCallEvent(event, headers);
+
+    await expect(
+      callRepository.find({ where: { callerId: 'redelivered-caller' } }),
+    ).resolves.toHaveLength(1);
+  });
+
+  it('should report the consumer group with its committed offsets', async () => {
+    await eventually(async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/showcase/kafka/groups/core-pipeline-group')
+        .expect(200);
+
+      expect(response.body.state).toBe('Stable');
+      expect(response.body.members).toHaveLength(1);
+      expect(response.body.totalLag).toBe(0);
+      expect(response.body.partitions).toEqual(
+        expect.arrayContaining([expect.objectContaining({ topic: 'call-events' })]),
+      );
+    });
+  });
+
+  it('should hold back messages of a paused topic until it is resumed', async () => {
+    await request(app.getHttpServer())
+      .post('/api/showcase/kafka/topics/call-events/pause')
+      .expect(200);
+
+    const messageId = await produceCall('paused-caller');
+    await settle();
+    expect(handled(messageId)).toBe(false);
+
+    await request(app.getHttpServer())
+      .post('/api/showcase/kafka/topics/call-events/resume')
+      .expect(200);
+
+    await eventually(async () => {
+      expect(handled(messageId)).toBe(true);
+      await expect(
+        callRepository.find({ where: { callerId: 'paused-caller' } }),
+      ).resolves.toHaveLength(1);
+    });
+  });
+
+  // Last, as the topic stays unsubscribed
+  it('should stop consuming an unsubscribed topic', async () => {
+    const before = await produceCall('subscribed-caller');
+    await eventually(async () => expect(handled(before)).toBe(true));
+
+    await request(app.getHttpServer())
+      .post('/api/showcase/kafka/unsubscribe')
+      .send({ topic: 'call-events' })
+      .expect(200);
+
+    const after = await produceCall('unsubscribed-caller');
+    await settle();
+    expect(handled(after)).toBe(false);
+    await expect(
+      callRepository.find({ where: { callerId: 'unsubscribed-caller' } }),
+    ).resolves.toHaveLength(0);
+  });
+});
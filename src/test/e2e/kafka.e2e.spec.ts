@@ -104,6 +104,27 @@ describe('Kafka Controller E2E Tests', () => {
       });
     });
 
+    it('should accept header and predicate filters', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/showcase/kafka/messages')
+        .query({ header: 'correlationId:abc-123', where: '$.callId == "call-1"', order: 'asc' })
+        .expect(200);
+
+      expect(response.body).toBeInstanceOf(Array);
+    });
+
+    it('should reject invalid filters', async () => {
+      await request(app.getHttpServer())
+        .get('/api/showcase/kafka/messages?status=unknown')
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/api/showcase/kafka/messages?from=yesterday')
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/api/showcase/kafka/messages?header=correlationId')
+        .expect(400);
+    });
+
     it('should limit number of messages', async () => {
       const limit = 5;
       const response = await request(app.getHttpServer())
@@ -289,6 +310,126 @@ describe('Kafka Controller E2E Tests', () => {
     });
   });
 
+  describe('POST /api/showcase/kafka/unsubscribe', () => {
+    it('should remove the topic from the subscribed topics', async () => {
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/subscribe')
+        .send({ topic: 'temporary-topic' })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .post('/api/showcase/kafka/unsubscribe')
+        .send({ topic: 'temporary-topic' })
+        .expect(200);
+
+      expect(response.body.subscribedTopics).not.toContain('temporary-topic');
+    });
+
+    it('should return 404 for topics that are not subscribed', async () => {
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/unsubscribe')
+        .send({ topic: 'never-subscribed' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/showcase/kafka/topics/:topic/pause', () => {
+    it('should pause and resume a subscribed topic', async () => {
+      const paused = await request(app.getHttpServer())
+        .post('/api/showcase/kafka/topics/test-topic/pause')
+        .expect(200);
+      expect(paused.body.subscriptions).toContainEqual(
+        expect.objectContaining({ topic: 'test-topic', status: 'paused' }),
+      );
+
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/topics/test-topic/resume')
+        .expect(200);
+      const topics = await request(app.getHttpServer())
+        .get('/api/showcase/kafka/topics')
+        .expect(200);
+      expect(topics.body.subscriptions).toContainEqual(
+        expect.objectContaining({ topic: 'test-topic', status: 'active' }),
+      );
+    });
+
+    it('should return 404 for topics that are not subscribed', async () => {
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/topics/never-subscribed/pause')
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/showcase/kafka/groups/:groupId', () => {
+    it('should report Kafka as unavailable without a broker', async () => {
+      await request(app.getHttpServer())
+        .get('/api/showcase/kafka/groups/core-pipeline-group')
+        .expect(503);
+    });
+  });
+
+  describe('/api/showcase/kafka/admin/topics', () => {
+    it('should report Kafka as unavailable without a broker', async () => {
+      await request(app.getHttpServer()).get('/api/showcase/kafka/admin/topics').expect(503);
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/admin/topics')
+        .send({ topic: 'audit-events', numPartitions: 3, configs: { 'retention.ms': '60000' } })
+        .expect(503);
+      await request(app.getHttpServer())
+        .get('/api/showcase/kafka/admin/topics/call-events')
+        .expect(503);
+    });
+
+    it('should reject invalid topic requests', async () => {
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/admin/topics')
+        .send({ topic: 'bad topic!' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/admin/topics')
+        .send({ topic: 'audit-events', numPartitions: 0 })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/admin/topics/call-events/partitions')
+        .send({ count: 'many' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/showcase/kafka/replay', () => {
+    it('should start a replay job and report its status', async () => {
+      const started = await request(app.getHttpServer())
+        .post('/api/showcase/kafka/replay')
+        .send({ topic: 'call-events', fromOffset: '0', dryRun: true })
+        .expect(202);
+
+      expect(started.body).toHaveProperty('id');
+      expect(started.body).toHaveProperty('groupId');
+
+      const job = await request(app.getHttpServer())
+        .get(`/api/showcase/kafka/replay/${started.body.id}`)
+        .expect(200);
+      // No broker in the test app
+      expect(job.body.status).toBe('failed');
+
+      const jobs = await request(app.getHttpServer()).get('/api/showcase/kafka/replay').expect(200);
+      expect(jobs.body.jobs.map((j: any) => j.id)).toContain(started.body.id);
+    });
+
+    it('should reject a replay without a start position', async () => {
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/replay')
+        .send({ topic: 'call-events' })
+        .expect(400);
+    });
+
+    it('should return 404 for unknown replay jobs', async () => {
+      await request(app.getHttpServer())
+        .post('/api/showcase/kafka/replay/3f1c2a9e-8a4b-4c1d-9e2f-0a1b2c3d4e5f/cancel')
+        .expect(404);
+    });
+  });
+
   describe('GET /api/showcase/kafka/topics', () => {
     it('should return subscribed topics', async () => {
       const response = await request(app.getHttpServer())
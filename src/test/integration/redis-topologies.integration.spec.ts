@@ -0,0 +1,119 @@
+import { ConfigService } from '@nestjs/config';
+import * as Bull from 'bull';
+import Redis from 'ioredis';
+import { RedisConnectionFactory } from '../../redis/redis-connection.factory';
+import { RedisProcesses } from '../../../test/redis-processes';
+
+// Spawns redis-server processes; run with REDIS_SERVER_BIN=$(which redis-server)
+const REDIS_SERVER_BIN = process.env.REDIS_SERVER_BIN;
+const describeWithRedis = REDIS_SERVER_BIN ? describe : describe.skip;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describeWithRedis('Redis topologies', () => {
+  jest.setTimeout(60000);
+
+  describe.each([
+    ['sentinel', 7100, (processes: RedisProcesses) => processes.startSentinel()],
+    ['cluster', 7200, (processes: RedisProcesses) => processes.startCluster()],
+  ])('%s', (mode, basePort, start) => {
+    let processes: RedisProcesses;
+    let factory: RedisConnectionFactory;
+    let queue: Bull.Queue;
+
+    beforeAll(async () => {
+      processes = new RedisProcesses(REDIS_SERVER_BIN, basePort);
+      const url = await start(processes);
+      const values = { 'redis.url': url, 'redis.bullUrl': url, 'redis.bullPrefix': 'bull' };
+      factory = new RedisConnectionFactory({
+        get: (key: string) => values[key],
+      } as unknown as ConfigService);
+    });
+
+    afterAll(async () => {
+      await queue?.close();
+      await factory?.onModuleDestroy();
+      await processes?.stop();
+    });
+
+    it('should connect in the configured mode', () => {
+      expect(factory.urlFor('command').mode).toBe(mode);
+    });
+
+    it('should store and read cache entries across keys', async () => {
+      const command = await factory.connect('command');
+      const keys = Array.from({ length: 20 }, (_, index) => `topology:${mode}:${index}`);
+
+      for (const key of keys) {
+        await command.setex(key, 60, JSON.stringify({ key }));
+      }
+      for (const key of keys) {
+        expect(JSON.parse(await command.get(key))).toEqual({ key });
+      }
+      await Promise.all(keys.map((key) => command.del(key)));
+      expect(await command.exists(keys[0])).toBe(0);
+    });
+
+    it('should deliver published messages to the shared subscriber', async () => {
+      const received: string[] = [];
+      const unsubscribe = await factory.subscribe(`topology:${mode}`, (message) =>
+        received.push(message),
+      );
+      const publisher = await factory.connect('pub');
+
+      await publisher.publish(`topology:${mode}`, 'hello');
+      for (let attempt = 0; attempt < 50 && received.length === 0; attempt++) {
+        await sleep(100);
+      }
+      await unsubscribe();
+
+      expect(received).toEqual(['hello']);
+    });
+
+    it('should run call-queue jobs on Bull connections from the factory', async () => {
+      queue = new Bull('call-queue', {
+        createClient: (type) => factory.createBullClient(type),
+        prefix: factory.bullPrefix(),
+      });
+      queue.process('process-call', async (job) => ({ processed: job.data.callId }));
+
+      const job = await queue.add('process-call', { callId: `${mode}-call` });
+
+      await expect(job.finished()).resolves.toEqual({ processed: `${mode}-call` });
+      expect(factory.bullPrefix()).toBe(mode === 'cluster' ? '{bull}' : 'bull');
+    });
+
+    if (mode === 'sentinel') {
+      it('should keep writing to the new master after a failover', async () => {
+        const command = await factory.connect('command');
+        const [sentinelNode] = factory.urlFor('command').nodes;
+        const sentinel = new Redis(sentinelNode);
+        const masterPort = async () =>
+          ((await sentinel.call('SENTINEL', 'GET-MASTER-ADDR-BY-NAME', 'mymaster')) as string[])[1];
+
+        try {
+          const before = await masterPort();
+          await sentinel.call('SENTINEL', 'FAILOVER', 'mymaster');
+          for (let attempt = 0; attempt < 100 && (await masterPort()) === before; attempt++) {
+            await sleep(100);
+          }
+          expect(await masterPort()).not.toBe(before);
+        } finally {
+          sentinel.disconnect();
+        }
+
+        let written = false;
+        for (let attempt = 0; attempt < 100 && !written; attempt++) {
+          try {
+            await command.set('topology:sentinel:failover', 'ok');
+            written = true;
+          } catch {
+            await sleep(100);
+          }
+        }
+        expect(written).toBe(true);
+        expect(((await command.call('ROLE')) as string[])[0]).toBe('master');
+      });
+    }
+  });
+});
@@ -163,12 +163,13 @@ describe('CallRepository', () => {
         status: 'completed',
       };
 
-      jest.spyOn(repository, 'findCallById').mockResolvedValue(existingCall as Call);
+      jest.spyOn(repository, 'findOne').mockResolvedValue(existingCall as Call);
       jest.spyOn(repository, 'save').mockResolvedValue(updatedCall as Call);
 
       const result = await repository.updateCallStatus(callId, 'completed');
 
-      expect(repository.findCallById).toHaveBeenCalledWith(callId);
+      // Read from the database, never from the cache behind findCallById
+      expect(repository.findOne).toHaveBeenCalledWith({ where: { id: callId } });
       expect(repository.save).toHaveBeenCalledWith({
         ...existingCall,
         status: 'completed',
@@ -177,7 +178,7 @@ describe('CallRepository', () => {
     });
 
     it('should return null if call not found', async () => {
-      jest.spyOn(repository, 'findCallById').mockResolvedValue(null);
+      jest.spyOn(repository, 'findOne').mockResolvedValue(null);
       const saveSpy = jest.spyOn(repository, 'save');
 
       const result = await repository.updateCallStatus('non-existent', 'completed');
@@ -187,6 +188,50 @@ describe('CallRepository', () => {
     });
   });
 
+  describe('updateCall', () => {
+    it('should derive the changes from the call stored in the database', async () => {
+      const stored = {
+        id: 'uuid-123',
+        status: 'initiated',
+        callerId: 'caller123',
+        recipientId: 'recipient456',
+        duration: null,
+        metadata: { region: 'eu' },
+        createdAt: new Date(),
+      };
+      const updated = {
+        ...stored,
+        status: 'completed',
+        metadata: { region: 'eu', endReason: 'hangup' },
+      };
+
+      jest.spyOn(repository, 'findOne').mockResolvedValue({ ...stored } as Call);
+      jest.spyOn(repository, 'save').mockResolvedValue(updated as Call);
+
+      const result = await repository.updateCall('uuid-123', (call) => ({
+        status: 'completed',
+        metadata: { ...call.metadata, endReason: 'hangup' },
+      }));
+
+      expect(repository.findOne).toHaveBeenCalledWith({ where: { id: 'uuid-123' } });
+      expect(repository.save).toHaveBeenCalledWith(updated);
+      expect(result).toEqual(updated);
+    });
+  });
+
+  describe('deleteCall', () => {
+    it('should report whether a call was deleted', async () => {
+      const deleteSpy = jest
+        .spyOn(repository, 'delete')
+        .mockResolvedValueOnce({ affected: 1, raw: [] })
+        .mockResolvedValueOnce({ affected: 0, raw: [] });
+
+      expect(await repository.deleteCall('uuid-123')).toBe(true);
+      expect(await repository.deleteCall('non-existent')).toBe(false);
+      expect(deleteSpy).toHaveBeenCalledWith({ id: 'uuid-123' });
+    });
+  });
+
   describe('findCallsByStatus', () => {
     it('should find calls by status', async () => {
       const status = 'processing';
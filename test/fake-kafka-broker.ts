@@ -0,0 +1,108 @@
+import { EachBatchPayload, KafkaMessage } from 'kafkajs';
+
+export interface FakeConsumeOptions {
+  partitionsConsumedConcurrently?: number;
+  /** Messages per fetched batch */
+  batchSize?: number;
+  /** Deliveries of a partition before giving up on a failing batch */
+  maxAttempts?: number;
+}
+
+/**
+ * A single-topic, in-memory stand-in for a broker and a kafkajs consumer with auto-commit:
+ * each partition is fetched from its committed offset in batches passed to `eachBatch`,
+ * resolved offsets are committed after every batch, and a batch that throws is fetched
+ * again from the last commit.
+ */
+export class FakeKafkaBroker {
+  private readonly logs: Map<number, KafkaMessage[]> = new Map();
+  /** Next offset to read per partition */
+  readonly committed: Map<number, number> = new Map();
+  /** Partitions being processed at the same time, at most */
+  maxConcurrentPartitions = 0;
+
+  constructor(readonly topic: string) {}
+
+  produce(
+    partition: number,
+    key: string | null,
+    value: unknown,
+    headers: Record<string, string> = {},
+  ): string {
+    const log = this.logs.get(partition) ?? [];
+    this.logs.set(partition, log);
+
+    const offset = String(log.length);
+    log.push({
+      offset,
+      key: key === null ? null : Buffer.from(key),
+      value: Buffer.from(JSON.stringify(value)),
+      headers: Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, Buffer.from(v)])),
+      timestamp: String(Date.now()),
+      attributes: 0,
+    } as KafkaMessage);
+    return offset;
+  }
+
+  async consume(
+    eachBatch: (payload: EachBatchPayload) => Promise<void>,
+    {
+      partitionsConsumedConcurrently = 1,
+      batchSize = 100,
+      maxAttempts = 5,
+    }: FakeConsumeOptions = {},
+  ): Promise<void> {
+    const pending = Array.from(this.logs.keys()).sort((a, b) => a - b);
+    let active = 0;
+
+    const consumePartition = async (partition: number) => {
+      active++;
+      this.maxConcurrentPartitions = Math.max(this.maxConcurrentPartitions, active);
+      try {
+        const log = this.logs.get(partition);
+        let attempts = 0;
+        while ((this.committed.get(partition) ?? 0) < log.length && attempts < maxAttempts) {
+          const start = this.committed.get(partition) ?? 0;
+          let resolved = start;
+          const messages = log.slice(start, start + batchSize);
+
+          try {
+            await eachBatch({
+              batch: {
+                topic: this.topic,
+                partition,
+                messages,
+                firstOffset: () => messages[0].offset,
+                lastOffset: () => messages[messages.length - 1].offset,
+              },
+              resolveOffset: (offset: string) => {
+                resolved = Math.max(resolved, Number(offset) + 1);
+              },
+              heartbeat: () => Promise.resolve(),
+              pause: () => () => undefined,
+              commitOffsetsIfNecessary: () => Promise.resolve(),
+              uncommittedOffsets: () => ({ topics: [] }),
+              isRunning: () => true,
+              isStale: () => false,
+            } as unknown as EachBatchPayload);
+          } catch {
+            attempts++;
+          } finally {
+            this.committed.set(partition, resolved);
+          }
+          // Let other partitions interleave, as separate fetches would
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      } finally {
+        active--;
+      }
+    };
+
+    const workers = Array.from({ length: partitionsConsumedConcurrently }, async () => {
+      for (let partition = pending.shift(); partition !== undefined; partition = pending.shift()) {
+        await consumePartition(partition);
+      }
+    });
+    await Promise.all(workers);
+  }
+}
@@ -0,0 +1,323 @@
+interface FakeStream {
+  entries: Array<{ seq: number; fields: Buffer[] }>;
+  lastSeq: number;
+  groups: Map<string, FakeGroup>;
+}
+
+interface FakeGroup {
+  lastDelivered: number;
+  pending: Map<number, { consumer: string; deliveredAt: number; count: number }>;
+  consumers: Map<string, number>;
+}
+
+type Reply = string | number | Buffer | null | Reply[];
+
+const seqOf = (id: string): number => {
+  if (id === '-') {
+    return -Infinity;
+  }
+  if (id === '+') {
+    return Infinity;
+  }
+  const exclusive = id.startsWith('(');
+  const [, seq = '0'] = id.replace('(', '').split('-');
+  return Number(seq) + (exclusive ? 0.5 : 0);
+};
+
+const convert = (reply: Reply, toBuffer: boolean): Reply =>
+  Array.isArray(reply)
+    ? reply.map((item) => convert(item, toBuffer))
+    : toBuffer && typeof reply === 'string'
+    ? Buffer.from(reply)
+    : !toBuffer && Buffer.isBuffer(reply)
+    ? reply.toString()
+    : reply;
+
+/**
+ * In-memory stand-in for the Redis Streams commands (and the hash and sorted set commands for
+ * its topic registry and group members) the streams transport sends, as Redis 7 answers
+ * them. Entry ids are always `0-<n>`; trimming with `MAXLEN ~` is exact.
+ */
+export class FakeRedisStreams {
+  status = 'ready';
+  readonly streams = new Map<string, FakeStream>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly sortedSets = new Map<string, Map<string, number>>();
+
+  call = jest.fn(async (command: string, ...args: Array<string | number | Buffer>) =>
+    convert(await this.execute(command.toUpperCase(), args.map(String), args), false),
+  );
+
+  callBuffer = jest.fn(async (command: string, ...args: Array<string | number | Buffer>) =>
+    convert(await this.execute(command.toUpperCase(), args.map(String), args), true),
+  );
+
+  connect = jest.fn(async () => undefined);
+
+  quit = jest.fn(async () => 'OK');
+
+  hkeys = jest.fn(async (key: string) => Array.from(this.hashes.get(key)?.keys() ?? []));
+
+  hget = jest.fn(async (key: string, field: string) => this.hashes.get(key)?.get(field) ?? null);
+
+  hset = jest.fn(async (key: string, field: string, value: string) => {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const added = hash.has(field) ? 0 : 1;
+    this.hashes.set(key, hash.set(field, value));
+    return added;
+  });
+
+  hsetnx = jest.fn(async (key: string, field: string, value: string) =>
+    this.hashes.get(key)?.has(field) ? 0 : this.hset(key, field, value),
+  );
+
+  hdel = jest.fn(async (key: string, field: string) =>
+    Number(!!this.hashes.get(key)?.delete(field)),
+  );
+
+  del = jest.fn(async (key: string) => Number(this.streams.delete(key) || this.hashes.delete(key)));
+
+  private async execute(command: string, args: string[], raw: unknown[]): Promise<Reply> {
+    switch (command) {
+      case 'XADD':
+        return this.xadd(args, raw);
+      case 'XRANGE': {
+        const [key, start, end, , count] = args;
+        return (this.streams.get(key)?.entries ?? [])
+          .filter(({ seq }) => seq >= seqOf(start) && seq <= seqOf(end))
+          .slice(0, count ? Number(count) : undefined)
+          .map(({ seq, fields }) => [`0-${seq}`, fields]);
+      }
+      case 'XREADGROUP':
+        return this.xreadgroup(args);
+      case 'XACK': {
+        const [key, groupId, ...ids] = args;
+        const group = this.group(key, groupId);
+        return ids.filter((id) => group.pending.delete(seqOf(id))).length;
+      }
+      case 'XPENDING': {
+        const [key, groupId, start, end, count, consumer] = args;
+        return Array.from(this.group(key, groupId).pending.entries())
+          .filter(([seq]) => seq >= seqOf(start) && seq <= seqOf(end))
+          .filter(([, entry]) => !consumer || entry.consumer === consumer)
+          .sort(([a], [b]) => a - b)
+          .slice(0, Number(count))
+          .map(([seq, entry]) => [
+            `0-${seq}`,
+            entry.consumer,
+            Date.now() - entry.deliveredAt,
+            entry.count,
+          ]);
+      }
+      case 'XAUTOCLAIM':
+        return this.xautoclaim(args);
+      case 'XGROUP':
+        return this.xgroup(args);
+      case 'XINFO':
+        return this.xinfo(args);
+      case 'ZADD': {
+        const [key, score, member] = args;
+        const set = this.sortedSets.get(key) ?? new Map<string, number>();
+        const added = set.has(member) ? 0 : 1;
+        this.sortedSets.set(key, set.set(member, Number(score)));
+        return added;
+      }
+      case 'ZREM': {
+        const [key, member] = args;
+        return Number(!!this.sortedSets.get(key)?.delete(member));
+      }
+      case 'ZREMRANGEBYSCORE': {
+        const [key, min, max] = args;
+        const set = this.sortedSets.get(key) ?? new Map<string, number>();
+        const removed = Array.from(set.entries()).filter(
+          ([, score]) => score >= Number(min.replace('-inf', '-Infinity')) && score <= Number(max),
+        );
+        removed.forEach(([member]) => set.delete(member));
+        return removed.length;
+      }
+      case 'ZCARD':
+        return this.sortedSets.get(args[0])?.size ?? 0;
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  private xadd(args: string[], raw: unknown[]): Reply {
+    const [key, , , maxLength] = args;
+    const stream = this.stream(key, true);
+    stream.lastSeq += 1;
+    const fields = raw
+      .slice(5)
+      .map((field) => (Buffer.isBuffer(field) ? field : Buffer.from(String(field))));
+    stream.entries.push({ seq: stream.lastSeq, fields });
+    stream.entries.splice(0, Math.max(stream.entries.length - Number(maxLength), 0));
+    return `0-${stream.lastSeq}`;
+  }
+
+  private async xreadgroup(args: string[]): Promise<Reply> {
+    const [, groupId, consumer] = args;
+    const count = args.includes('COUNT') ? Number(args[args.indexOf('COUNT') + 1]) : Infinity;
+    const block = args.includes('BLOCK') ? Number(args[args.indexOf('BLOCK') + 1]) : null;
+    const streams = args.slice(args.indexOf('STREAMS') + 1);
+    const keys = streams.slice(0, streams.length / 2);
+    const ids = streams.slice(streams.length / 2);
+
+    const deadline = Date.now() + (block ?? 0);
+    for (;;) {
+      const reply: Reply[] = [];
+      keys.forEach((key, i) => {
+        const stream = this.stream(key);
+        const group = this.group(key, groupId);
+        group.consumers.set(consumer, Date.now());
+
+        if (ids[i] === '>') {
+          const entries = stream.entries
+            .filter(({ seq }) => seq > group.lastDelivered)
+            .slice(0, count);
+          entries.forEach(({ seq }) => {
+            group.lastDelivered = seq;
+            group.pending.set(seq, { consumer, deliveredAt: Date.now(), count: 1 });
+          });
+          if (entries.length > 0) {
+            reply.push([key, entries.map(({ seq, fields }) => [`0-${seq}`, fields])]);
+          }
+        } else {
+          const pending = Array.from(group.pending.entries())
+            .filter(([seq, entry]) => entry.consumer === consumer && seq > seqOf(ids[i]))
+            .sort(([a], [b]) => a - b)
+            .slice(0, count);
+          pending.forEach(([, entry]) => {
+            entry.count += 1;
+            entry.deliveredAt = Date.now();
+          });
+          reply.push([
+            key,
+            pending.map(([seq]) => [
+              `0-${seq}`,
+              stream.entries.find((entry) => entry.seq === seq)?.fields ?? null,
+            ]),
+          ]);
+        }
+      });
+
+      if (reply.length > 0 || block === null || Date.now() >= deadline) {
+        return reply.length > 0 ? reply : null;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  private xautoclaim(args: string[]): Reply {
+    const [key, groupId, consumer, minIdle, start, , count] = args;
+    const stream = this.stream(key);
+    const group = this.group(key, groupId);
+    const claimed: Reply[] = [];
+    const deleted: Reply[] = [];
+
+    Array.from(group.pending.entries())
+      .filter(
+        ([seq, entry]) => seq >= seqOf(start) && Date.now() - entry.deliveredAt >= Number(minIdle),
+      )
+      .sort(([a], [b]) => a - b)
+      .slice(0, Number(count))
+      .forEach(([seq, entry]) => {
+        const stored = stream.entries.find((candidate) => candidate.seq === seq);
+        if (!stored) {
+          group.pending.delete(seq);
+          deleted.push(`0-${seq}`);
+          return;
+        }
+        Object.assign(entry, { consumer, deliveredAt: Date.now(), count: entry.count + 1 });
+        claimed.push([`0-${seq}`, stored.fields]);
+      });
+    return ['0-0', claimed, deleted];
+  }
+
+  private xgroup(args: string[]): Reply {
+    const [subcommand, key, groupId, argument] = args;
+    if (!this.streams.has(key) && !args.includes('MKSTREAM')) {
+      throw new Error('ERR The XGROUP subcommand requires the key to exist');
+    }
+    switch (subcommand.toUpperCase()) {
+      case 'CREATE': {
+        const stream = this.stream(key, args.includes('MKSTREAM'));
+        if (stream.groups.has(groupId)) {
+          throw new Error('BUSYGROUP Consumer Group name already exists');
+        }
+        stream.groups.set(groupId, {
+          lastDelivered: argument === '$' ? stream.lastSeq : seqOf(argument),
+          pending: new Map(),
+          consumers: new Map(),
+        });
+        return 'OK';
+      }
+      case 'SETID':
+        this.group(key, groupId).lastDelivered = seqOf(argument);
+        return 'OK';
+      case 'DESTROY':
+        return Number(this.stream(key).groups.delete(groupId));
+      case 'DELCONSUMER': {
+        const group = this.group(key, groupId);
+        group.consumers.delete(argument);
+        return 0;
+      }
+      default:
+        throw new Error(`ERR unknown subcommand '${subcommand}'`);
+    }
+  }
+
+  private xinfo(args: string[]): Reply {
+    const [subcommand, key, groupId] = args;
+    const stream = this.stream(key);
+    switch (subcommand.toUpperCase()) {
+      case 'STREAM':
+        return [
+          'length',
+          stream.entries.length,
+          'last-generated-id',
+          `0-${stream.lastSeq}`,
+          'groups',
+          stream.groups.size,
+        ];
+      case 'GROUPS':
+        return Array.from(stream.groups.entries()).map(([name, group]) => [
+          'name',
+          name,
+          'consumers',
+          group.consumers.size,
+          'pending',
+          group.pending.size,
+          'last-delivered-id',
+          `0-${group.lastDelivered}`,
+        ]);
+      case 'CONSUMERS':
+        return Array.from(this.group(key, groupId).consumers.entries()).map(([name, seenAt]) => [
+          'name',
+          name,
+          'idle',
+          Date.now() - seenAt,
+        ]);
+      default:
+        throw new Error(`ERR unknown subcommand '${subcommand}'`);
+    }
+  }
+
+  private stream(key: string, create = false): FakeStream {
+    if (!this.streams.has(key) && create) {
+      this.streams.set(key, { entries: [], lastSeq: 0, groups: new Map() });
+    }
+    const stream = this.streams.get(key);
+    if (!stream) {
+      throw new Error('ERR no such key');
+    }
+    return stream;
+  }
+
+  private group(key: string, groupId: string): FakeGroup {
+    const group = this.stream(key).groups.get(groupId);
+    if (!group) {
+      throw new Error(`NOGROUP No such consumer group '${groupId}' for key name '${key}'`);
+    }
+    return group;
+  }
+}
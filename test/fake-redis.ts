@@ -0,0 +1,62 @@
+/**
+ * In-memory stand-in for the ioredis commands the cache, lock and rate limit code use. Expiry is only
+ * recorded (in `ttls`, as `EX` seconds or `PX` milliseconds), never applied.
+ */
+export class FakeRedis {
+  status = 'ready';
+  readonly store = new Map<string, string>();
+  readonly ttls = new Map<string, string>();
+
+  get = jest.fn(async (key: string) => this.store.get(key) ?? null);
+
+  set = jest.fn(async (key: string, value: string, ...options: Array<string | number>) => {
+    if (options.includes('NX') && this.store.has(key)) {
+      return null;
+    }
+    this.store.set(key, value);
+    const expiry = options.findIndex((option) => option === 'EX' || option === 'PX');
+    if (expiry >= 0) {
+      this.ttls.set(key, `${options[expiry]} ${options[expiry + 1]}`);
+    }
+    return 'OK';
+  });
+
+  del = jest.fn(async (key: string) => Number(this.store.delete(key)));
+
+  exists = jest.fn(async (key: string) => Number(this.store.has(key)));
+
+  // The compare-and-set scripts of the cache and lock code, told apart by what they call
+  eval = jest.fn(
+    async (script: string, _keys: number, ...args: Array<string | number>): Promise<unknown> => {
+      if (script.includes("'incr'")) {
+        const [key, fenceKey, owner, ttl] = args.map(String);
+        if (this.store.has(key)) {
+          return 0;
+        }
+        this.store.set(key, owner);
+        this.ttls.set(key, `PX ${ttl}`);
+        const fence = Number(this.store.get(fenceKey) ?? 0) + 1;
+        this.store.set(fenceKey, String(fence));
+        return fence;
+      }
+
+      const [key, owner, ttl] = args.map(String);
+      if (script.includes("'NX'")) {
+        if (this.store.has(key)) {
+          return 0;
+        }
+        this.store.set(key, owner);
+        this.ttls.set(key, `PX ${ttl}`);
+        return 1;
+      }
+      if (this.store.get(key) !== owner) {
+        return 0;
+      }
+      if (script.includes("'pexpire'")) {
+        this.ttls.set(key, `PX ${ttl}`);
+        return 1;
+      }
+      return Number(this.store.delete(key));
+    },
+  );
+}
@@ -21,7 +21,7 @@ process.env.DATABASE_PASSWORD = 'test';
 process.env.DATABASE_NAME = 'test';
 process.env.REDIS_HOST = 'localhost';
 process.env.REDIS_PORT = '6379';
-process.env.KAFKA_BROKERS = 'localhost:9092';
+process.env.KAFKA_BROKER = 'localhost:9092';
 process.env.METRICS_ENABLED = 'false';
 
 // Reset metrics before each test suite
@@ -0,0 +1,150 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Redis from 'ioredis';
+
+const CLUSTER_SLOTS = 16384;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Local Redis topologies made of `redis-server` processes, for integration tests: a Sentinel
+ * group (master, replica and three sentinels) and a three-master Cluster. Every process
+ * listens on 127.0.0.1 from `basePort` up and keeps its files in a temporary directory.
+ */
+export class RedisProcesses {
+  private readonly processes: ChildProcess[] = [];
+  private readonly dir = mkdtempSync(join(tmpdir(), 'redis-processes-'));
+
+  constructor(private readonly bin: string, private readonly basePort: number) {}
+
+  /** Starts the Sentinel group and resolves to its `redis+sentinel://` URL */
+  async startSentinel(master = 'mymaster'): Promise<string> {
+    const masterPort = this.basePort;
+    await this.startServer(masterPort);
+    await this.startServer(masterPort + 1, ['--replicaof', '127.0.0.1', String(masterPort)]);
+
+    const sentinelPorts = [2, 3, 4].map((offset) => this.basePort + offset);
+    for (const port of sentinelPorts) {
+      const file = join(this.dir, `sentinel-${port}.conf`);
+      writeFileSync(
+        file,
+        [
+          `port ${port}`,
+          'bind 127.0.0.1',
+          `dir ${this.dir}`,
+          `sentinel monitor ${master} 127.0.0.1 ${masterPort} 2`,
+          `sentinel down-after-milliseconds ${master} 1000`,
+          `sentinel failover-timeout ${master} 3000`,
+        ].join('\n'),
+      );
+      await this.spawnAndWait(port, [file, '--sentinel']);
+    }
+
+    return `redis+sentinel://${sentinelPorts
+      .map((port) => `127.0.0.1:${port}`)
+      .join(',')}/${master}`;
+  }
+
+  /** Starts three masters, splits the slots between them and resolves to the cluster URL */
+  async startCluster(): Promise<string> {
+    const ports = [0, 1, 2].map((offset) => this.basePort + offset);
+    for (const port of ports) {
+      await this.startServer(port, [
+        '--cluster-enabled',
+        'yes',
+        '--cluster-config-file',
+        `nodes-${port}.conf`,
+        '--cluster-node-timeout',
+        '2000',
+      ]);
+    }
+
+    const nodes = ports.map((port) => new Redis({ port, host: '127.0.0.1' }));
+    try {
+      const perNode = Math.ceil(CLUSTER_SLOTS / nodes.length);
+      for (const [index, node] of nodes.entries()) {
+        const first = index * perNode;
+        const last = Math.min(first + perNode, CLUSTER_SLOTS);
+        const slots = Array.from({ length: last - first }, (_, slot) => first + slot);
+        await node.call('CLUSTER', 'ADDSLOTS', ...slots);
+      }
+      for (const port of ports.slice(1)) {
+        await nodes[0].call('CLUSTER', 'MEET', '127.0.0.1', port);
+      }
+      await this.waitFor(async () => {
+        const states = await Promise.all(nodes.map((node) => node.call('CLUSTER', 'INFO')));
+        return states.every((info) => String(info).includes('cluster_state:ok'));
+      });
+    } finally {
+      nodes.forEach((node) => node.disconnect());
+    }
+
+    return `redis+cluster://${ports.map((port) => `127.0.0.1:${port}`).join(',')}`;
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(
+      this.processes.map(
+        (child) =>
+          new Promise((resolve) => {
+            if (child.exitCode !== null) {
+              return resolve(undefined);
+            }
+            child.once('exit', resolve);
+            child.kill('SIGTERM');
+          }),
+      ),
+    );
+    this.processes.length = 0;
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private startServer(port: number, args: string[] = []): Promise<void> {
+    return this.spawnAndWait(port, [
+      '--port',
+      String(port),
+      '--bind',
+      '127.0.0.1',
+      '--save',
+      '',
+      '--appendonly',
+      'no',
+      '--dir',
+      this.dir,
+      ...args,
+    ]);
+  }
+
+  private async spawnAndWait(port: number, args: string[]): Promise<void> {
+    this.processes.push(spawn(this.bin, args, { cwd: this.dir, stdio: 'ignore' }));
+
+    await this.waitFor(async () => {
+      const client = new Redis({
+        port,
+        host: '127.0.0.1',
+        lazyConnect: true,
+        retryStrategy: () => null,
+      });
+      try {
+        await client.connect();
+        return (await client.ping()) === 'PONG';
+      } catch {
+        return false;
+      } finally {
+        client.disconnect();
+      }
+    });
+  }
+
+  private async waitFor(check: () => Promise<boolean>, timeoutMs = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await check())) {
+      if (Date.now() > deadline) {
+        throw new Error('Redis processes did not become ready in time');
+      }
+      await sleep(100);
+    }
+  }
+}
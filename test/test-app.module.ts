@@ -10,11 +10,20 @@ import { ShowcaseController } from '../src/controllers/showcase.controller';
 import { LoggerService } from '../src/services/logger.service';
 import { MetricsService } from '../src/services/metrics.service';
 import { Call } from '../src/entities/call.entity';
+import { OutboxMessage } from '../src/entities/outbox-message.entity';
+import { EventRecord } from '../src/entities/event-record.entity';
 import { CallRepository } from '../src/repositories/call.repository';
 import { KafkaProducerService } from '../src/kafka/services/kafka-producer.service';
-import { KafkaConsumerService } from '../src/kafka/services/kafka-consumer.service';
+import {
+  KafkaConsumerService,
+  TopicNotSubscribedError,
+} from '../src/kafka/services/kafka-consumer.service';
 import { EventStorageService } from '../src/kafka/services/event-storage.service';
 import { RedisService } from '../src/kafka/services/redis.service';
+import { DeadLetterService } from '../src/kafka/services/dead-letter.service';
+import { KafkaReplayService } from '../src/kafka/services/kafka-replay.service';
+import { KafkaLagMonitorService } from '../src/kafka/services/kafka-lag-monitor.service';
+import { KafkaAdminService } from '../src/kafka/services/kafka-admin.service';
 
 // Mock implementations for testing
 export class MockKafkaProducerService {
@@ -40,12 +49,49 @@ export class MockKafkaProducerService {
 }
 
 export class MockKafkaConsumerService {
+  private topics = new Map<string, 'active' | 'paused'>([['test-topic', 'active']]);
+
   getSubscribedTopics() {
-    return ['test-topic'];
+    return Array.from(this.topics.keys());
   }
 
-  async subscribeToTopic() {
-    return true;
+  getSubscriptions() {
+    return Array.from(this.topics.entries()).map(([topic, status]) => ({
+      topic,
+      groupId: 'core-pipeline-group',
+      status,
+    }));
+  }
+
+  async subscribeToTopic(topic: string) {
+    if (!this.topics.has(topic)) {
+      this.topics.set(topic, 'active');
+    }
+  }
+
+  async unsubscribeFromTopic(topic: string) {
+    this.assertSubscribed(topic);
+    this.topics.delete(topic);
+  }
+
+  async pauseTopic(topic: string) {
+    this.assertSubscribed(topic);
+    this.topics.set(topic, 'paused');
+  }
+
+  async resumeTopic(topic: string) {
+    this.assertSubscribed(topic);
+    this.topics.set(topic, 'active');
+  }
+
+  private assertSubscribed(topic: string) {
+    if (!this.topics.has(topic)) {
+      throw new TopicNotSubscribedError(topic);
+    }
+  }
+
+  getClient() {
+    return null;
   }
 }
 
@@ -64,6 +110,11 @@ export class MockEventStorageService {
     return this.events.filter((e) => e.topic === topic);
   }
 
+  queryEvents(query: { topic?: string; limit?: number }) {
+    const events = query.topic ? this.getEventsByTopic(query.topic) : this.events;
+    return { events: events.slice(0, query.limit) };
+  }
+
   getStats() {
     return {
       total: this.events.length,
@@ -135,7 +186,7 @@ export class MockRedisService {
     TypeOrmModule.forRoot({
       type: 'sqlite',
       database: ':memory:',
-      entities: [Call],
+      entities: [Call, OutboxMessage, EventRecord],
       synchronize: true,
       dropSchema: true,
       logging: false,
@@ -143,7 +194,7 @@ export class MockRedisService {
       retryDelay: 0,
       autoLoadEntities: true,
     }),
-    TypeOrmModule.forFeature([Call]),
+    TypeOrmModule.forFeature([Call, OutboxMessage, EventRecord]),
     BullModule.registerQueue({
       name: 'test-queue',
       defaultJobOptions: {
@@ -174,6 +225,10 @@ export class MockRedisService {
       provide: RedisService,
       useClass: MockRedisService,
     },
+    DeadLetterService,
+    KafkaReplayService,
+    KafkaLagMonitorService,
+    KafkaAdminService,
   ],
 })
 export class TestAppModule {}
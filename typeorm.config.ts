@@ -1,21 +1,22 @@
 import { DataSource } from 'typeorm';
 import { Call } from './src/entities/call.entity';
+import { OutboxMessage } from './src/entities/outbox-message.entity';
+import { EventRecord } from './src/entities/event-record.entity';
+import configuration from './src/config/configuration';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
-// Determine database name based on environment
-const dbName = process.env.DB_DATABASE || 
-  (process.env.NODE_ENV === 'production' ? 'core_pipeline' : 'core_pipeline_dev');
+const { host, port, username, password, database } = configuration().database;
 
 export default new DataSource({
   type: 'postgres',
-  host: process.env.DB_HOST || 'localhost',
-  port: parseInt(process.env.DB_PORT, 10) || 5432,
-  username: process.env.DB_USERNAME || 'postgres',
-  password: process.env.DB_PASSWORD || 'postgres',
-  database: dbName,
-  entities: [Call],
+  host,
+  port,
+  username,
+  password,
+  database,
+  entities: [Call, OutboxMessage, EventRecord],
   migrations: ['src/migrations/*.ts'],
   migrationsTableName: 'migrations',
 });
\ No newline at end of file